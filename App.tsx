@@ -1,13 +1,41 @@
 
-import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { SimulationParams, GridData, ColorPreset, BeamPoint, Point, Point3D } from './types';
-import { GRID_RES, COLOR_PRESETS, DEFAULT_BEAM_PATTERN, DEFAULT_GRID_LIMITS } from './constants';
-import { getSpectralCorrectionFactor, calculateIlluminance } from './physics';
-import { marchSquares } from './utils/marchSquares';
-import { downloadDXF } from './utils/dxfExporter';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { SimulationParams, GridData, BeaconOptics, ColorPreset, Point, Point3D, FieldModel, SourceModel, SweepTable, SamplePlane, Emitter, ArrayLayout, ArraySettings, MountingSettings, RotationSettings, RotationAxis, SliceSettings, SliceMode, EffectiveIntensityMethod, Atmosphere, Precipitation, WeatherPreset, OptTargets, TargetRegion, TargetRegionKind, AppTab, ContourLevel, LevelContours, LevelSurface, VolumeGrid, GeoReference, ElevationModel, BuildingFootprint, TerrainSettings, HorizonSettings, HorizonModel, ReceptorMarker, VisionMode, VisionSettings } from './types';
+import { GRID_RES, COARSE_GRID_RES, VOLUME_RES, COARSE_VOLUME_RES, POLAR_STEP_DEG, SWEEP_CACHE_SIZE, COLOR_PRESETS, DEFAULT_BEAM_PATTERN, DEFAULT_GRID_LIMITS, DEFAULT_ATMOSPHERE, WEATHER_PRESETS, MIN_VISIBILITY_KM, MAX_VISIBILITY_KM, DEFAULT_CONTOUR_LEVELS, THRESHOLD_LEVEL_ID, DEFAULT_GEO_REFERENCE, DEFAULT_TERRAIN_SETTINGS, DEFAULT_HORIZON_SETTINGS, DEFAULT_FLASH_CHARACTER, DEFAULT_ARRAY_SETTINGS, DEFAULT_SCENE_SETTINGS, BEACON_PALETTE, DEFAULT_MOUNTING, DEFAULT_ROTATION, DEFAULT_SLICE, DEFAULT_OPT_TARGETS, MAX_TARGET_REGIONS, OPTIMIZER_MIN_TARGET, DEFAULT_VISION, BACKGROUND_SP_PRESETS } from './constants';
+import { getSpectralCorrectionFactor, getAdaptationCoefficient, getExtinctionCoefficient, getEffectiveEarthRadius, getGeographicRange, getLuminousRange } from './physics';
+import { downloadDXF, DxfDrawing, DxfSegment, DxfUnits, DxfView } from './utils/dxfExporter';
+import { downloadText } from './utils/download';
+import { ProjectFile, ProjectState, PROJECT_FILE_EXTENSION, AUTOSAVE_KEY, parseProject, serializeProject, encodeShareHash, decodeShareHash } from './utils/projectFile';
+import { PlaneJob, PlaneJobResult, ReceptorJob, planeToWorld, unpackPaths, ORIGIN, AXIS_X, AXIS_Y, AXIS_Z } from './utils/simulationJobs';
+import { createWorkerPool, isAbortError, WorkerPool } from './utils/workerPool';
+import { PolarJob, PolarJobResult } from './utils/polarRange';
+import { IsoJob, IsoJobResult } from './utils/isoSurface';
+import { downloadSTL, downloadOBJ, downloadGLB } from './utils/meshExport';
+import { generateGeoJSON, generateKML, generateGPX } from './utils/geoExport';
+import { TileSource, openMBTiles, openXYZFolder } from './utils/basemap';
+import { getEffectiveIntensityRatio, formatFlashCharacter, METHOD_LABELS } from './utils/flashCharacter';
+import { parseGeoTIFF } from './utils/geotiff';
+import { parseASCIIGrid, parseBuildings, buildTerrainGrid, buildOccluderModel, groundElevation } from './utils/terrain';
+import { generateEmitters, mountEmitters, createMountTransform, isMounted, LAYOUT_LABELS } from './utils/emitterLayout';
 import Heatmap from './components/Heatmap';
 import View3D from './components/View3D';
 import Instructions from './components/Instructions';
+import BeamPatternEditor from './components/BeamPatternEditor';
+import ContourLevelEditor from './components/ContourLevelEditor';
+import ContourLegend from './components/ContourLegend';
+import FlashCharacterEditor from './components/FlashCharacterEditor';
+import EmitterTableEditor from './components/EmitterTableEditor';
+import SceneEditor from './components/SceneEditor';
+import PolarRangeChart from './components/PolarRangeChart';
+import ParetoChart from './components/ParetoChart';
+import TargetRegionEditor from './components/TargetRegionEditor';
+import ReceptorEditor from './components/ReceptorEditor';
+import { analyzeCoverage } from './utils/coverageGaps';
+import { createSweepJob, getRotationAxis, getSweepKey, getSweepProfile, getMainElevation, scaleSweepTable, SweepJob } from './utils/rotatingBeacon';
+import { getSliceView, toCustomSlice } from './utils/slicePlane';
+import { DEFAULT_OPTIMIZER, OptResult, OptimizerProgress, OptimizerRequest, getBeamCandidates, isSameDesign } from './utils/optimizer';
+import { createTargetRegion, getRegionEdges, toBeaconBearings, turnSectorBearings } from './utils/targetRegions';
+import { ReceptorResult, ReceptorSource } from './utils/obtrusiveLight';
 
 /**
  * Interface for CollapsibleSection props
@@ -51,18 +79,21 @@ interface SliderProps {
   onChange: (val: number) => void;
   color?: string;
   showMarkers?: boolean;
+  format?: (val: number) => string; // Overrides the default value readout
 }
 
 /**
  * Custom styled slider for simulation parameters
  */
-const ControlSlider: React.FC<SliderProps> = ({ label, val, min, max, step, unit = "", onChange, color = "accent-indigo-500", showMarkers }) => (
+const ControlSlider: React.FC<SliderProps> = ({ label, val, min, max, step, unit = "", onChange, color = "accent-indigo-500", showMarkers, format }) => (
   <div className="group">
     <label className="flex justify-between text-[11px] font-black text-gray-500 mb-3 uppercase tracking-wider group-hover:text-gray-300 transition-colors">
       <span>{label}</span>
       <span className="font-mono text-indigo-400 bg-indigo-500/10 px-2 rounded-md">
-        {unit.includes("Log") ? `10^${val.toFixed(1)}` : val.toFixed(step < 1 ? 1 : 0)}
-        {unit.replace("Log", "")}
+        {format ? format(val) : <>
+          {unit.includes("Log") ? `10^${val.toFixed(1)}` : val.toFixed(step < 1 ? 1 : 0)}
+          {unit.replace("Log", "")}
+        </>}
       </span>
     </label>
     <input type="range" min={min} max={max} step={step} value={val} onChange={e => onChange(parseFloat(e.target.value))}
@@ -91,51 +122,49 @@ const ControlSlider: React.FC<SliderProps> = ({ label, val, min, max, step, unit
   </div>
 );
 
-// Helper to generate LED config (extracted for use in optimizer)
-const generateLedConfig = (ledCount: number, spreadAngle: number, rowCount: number, verticalSpreadAngle: number) => {
-    const configs: { h: number; v: number }[] = [];
-    
-    // Horizontal Angles (Yaw)
-    const hAngles: number[] = [];
-    if (ledCount === 1) {
-      hAngles.push(0);
-    } else {
-      const half = (spreadAngle * Math.PI) / 180;
-      const step = (half * 2) / (ledCount - 1);
-      for (let i = 0; i < ledCount; i++) {
-        hAngles.push(-half + i * step);
-      }
-    }
+const ARRAY_LAYOUTS: ArrayLayout[] = ['fan', 'line', 'grid', 'ring', 'dome', 'hemisphere', 'custom'];
+const ROTATION_AXES: RotationAxis[] = ['vertical', 'fixture'];
+const INTENSITY_METHODS: EffectiveIntensityMethod[] = ['blondel-rey', 'schmidt-clausen', 'iala'];
+const CAD_UNITS: DxfUnits[] = ['m', 'mm', 'ft'];
+
+// Edges of the optimizer's target box: width across, height up and range forward of the fixture, turned with it
+const getTargetBoxEdges = (t: OptTargets, mount: (p: Point3D) => Point3D): DxfSegment[] => {
+  const corners = Array.from({ length: 8 }, (_, i) => mount({
+    x: (i & 1 ? 0.5 : -0.5) * t.width,
+    y: i & 2 ? t.range : 0,
+    z: (i & 4 ? 0.5 : -0.5) * t.height
+  }));
+  const edges: DxfSegment[] = [];
+  for (let i = 0; i < 8; i++) {
+    for (const bit of [1, 2, 4]) if (!(i & bit)) edges.push({ from: corners[i], to: corners[i | bit] });
+  }
+  return edges;
+};
 
-    // Vertical Angles (Pitch)
-    const vAngles: number[] = [];
-    if (rowCount === 1) {
-      vAngles.push(0);
-    } else {
-      const half = (verticalSpreadAngle * Math.PI) / 180;
-      const step = (half * 2) / (rowCount - 1);
-      for (let i = 0; i < rowCount; i++) {
-        vAngles.push(-half + i * step);
-      }
-    }
+const getRegionSegments = (regions: TargetRegion[], kind: TargetRegionKind): DxfSegment[] =>
+  regions.filter(r => r.kind === kind).flatMap(r => getRegionEdges(r).map(([from, to]) => ({ from, to })));
 
-    // Cartesian Product
-    for (const h of hAngles) {
-      for (const v of vAngles) {
-        configs.push({ h, v });
-      }
-    }
-    return configs;
-};
+const SLICE_MODES: { id: SliceMode; label: string }[] = [
+  { id: 'horizontal', label: 'Horizontal' },
+  { id: 'vertical', label: 'Vertical' },
+  { id: 'custom', label: 'Custom' }
+];
 
-interface OptResult {
-  h: number;
-  v: number;
-  vol: number; // Represents Coverage %
-  w: number;
-  hDim: number;
-  r: number;
-}
+const formatVisibility = (km: number) => km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(km < 10 ? 1 : 0)} km`;
+
+const formatRange = (m: number) => `${formatVisibility(m / 1000)} / ${(m / 1852).toFixed(1)} NM`;
+
+const VISION_MODES: { id: VisionMode; label: string }[] = [
+  { id: 'photopic', label: 'Photopic' },
+  { id: 'mesopic', label: 'Mesopic' },
+  { id: 'scotopic', label: 'Scotopic' }
+];
+
+const PRECIPITATION_OPTIONS: { id: Precipitation; label: string }[] = [
+  { id: 'none', label: 'Aerosol' },
+  { id: 'rain', label: 'Rain' },
+  { id: 'snow', label: 'Snow' }
+];
 
 const App: React.FC = () => {
   const [params, setParams] = useState<SimulationParams>({
@@ -147,46 +176,118 @@ const App: React.FC = () => {
     wavelength: 525, 
     logThreshold: -6,
     isFlashing: false,
+    flash: { ...DEFAULT_FLASH_CHARACTER },
+    rotation: { ...DEFAULT_ROTATION },
     beamPattern: JSON.parse(JSON.stringify(DEFAULT_BEAM_PATTERN)),
-    gridLimits: { ...DEFAULT_GRID_LIMITS }
+    array: { ...DEFAULT_ARRAY_SETTINGS, emitters: [] },
+    mounting: { ...DEFAULT_MOUNTING },
+    scene: { ...DEFAULT_SCENE_SETTINGS, beacons: [], coverageArea: [] },
+    gridLimits: { ...DEFAULT_GRID_LIMITS },
+    atmosphere: { ...DEFAULT_ATMOSPHERE },
+    contourLevels: DEFAULT_CONTOUR_LEVELS.map(l => ({ ...l })),
+    slice: { ...DEFAULT_SLICE, origin: { ...DEFAULT_SLICE.origin }, normal: { ...DEFAULT_SLICE.normal } },
+    geo: { ...DEFAULT_GEO_REFERENCE },
+    terrain: { ...DEFAULT_TERRAIN_SETTINGS },
+    horizon: { ...DEFAULT_HORIZON_SETTINGS },
+    vision: { ...DEFAULT_VISION },
+    receptors: []
   });
 
-  const [optTargets, setOptTargets] = useState({ width: 1000, height: 600, range: 2000 });
+  const [optTargets, setOptTargets] = useState<OptTargets>(DEFAULT_OPT_TARGETS);
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [optResults, setOptResults] = useState<OptResult[]>([]);
+  const [optPartial, setOptPartial] = useState<OptResult[]>([]); // Front of the run in progress
+  const [optProgress, setOptProgress] = useState<{ generation: number; generations: number; eta: number | null }>({ generation: 0, generations: DEFAULT_OPTIMIZER.generations, eta: null });
+  const [appliedOpt, setAppliedOpt] = useState<OptResult | null>(null);
   const [showTarget, setShowTarget] = useState(false);
+  const [regionDraw, setRegionDraw] = useState<TargetRegionKind | null>(null);
+  const [cadExport, setCadExport] = useState<{ units: DxfUnits; mode: '2d' | '3d'; elevation: boolean; target: boolean }>(
+    { units: 'm', mode: '2d', elevation: true, target: false }
+  );
   const [autoScale, setAutoScale] = useState(true);
   const [showCones, setShowCones] = useState(false);
+  const [topMode, setTopMode] = useState<'combined' | 'dominance'>('combined');
 
   const [topGrid, setTopGrid] = useState<GridData | null>(null);
   const [sideGrid, setSideGrid] = useState<GridData | null>(null);
-  const [slices3D, setSlices3D] = useState<Point3D[][]>([]);
+  const [axisGrid, setAxisGrid] = useState<GridData | null>(null);
+  const [sliceGrid, setSliceGrid] = useState<GridData | null>(null);
+  const [contoursTop, setContoursTop] = useState<LevelContours[]>([]);
+  const [contoursSide, setContoursSide] = useState<LevelContours[]>([]);
+  const [contoursAxis, setContoursAxis] = useState<LevelContours[]>([]);
+  const [contoursSlice, setContoursSlice] = useState<LevelContours[]>([]);
+  const [surfaces3D, setSurfaces3D] = useState<LevelSurface[]>([]);
+  const [polarRanges, setPolarRanges] = useState<PolarJobResult | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
-  const [activeTab, setActiveTab] = useState<'2D' | '3D' | 'HELP'>('2D');
+  const [activeTab, setActiveTab] = useState<AppTab>('2D');
+  const [projectNotice, setProjectNotice] = useState<{ ok: boolean; message: string } | null>(null);
+  const projectFileRef = useRef<HTMLInputElement>(null);
+
+  // Offline basemap (local files only, never persisted)
+  const [basemapSource, setBasemapSource] = useState<TileSource | null>(null);
+  const [basemapOpacity, setBasemapOpacity] = useState(0.7);
+  const [basemapStatus, setBasemapStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const mbtilesRef = useRef<HTMLInputElement>(null);
+  const xyzFolderRef = useRef<HTMLInputElement>(null);
+
+  // Terrain and building data (local files only, never persisted)
+  const [dem, setDem] = useState<ElevationModel | null>(null);
+  const [buildings, setBuildings] = useState<{ name: string; footprints: BuildingFootprint[] } | null>(null);
+  const [terrainStatus, setTerrainStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const demRef = useRef<HTMLInputElement>(null);
+  const buildingsRef = useRef<HTMLInputElement>(null);
 
   const isInfrared = useMemo(() => params.wavelength >= 800, [params.wavelength]);
 
   // --- PHYSICS ENGINE HOOKS ---
-  // Calculates the boost factor for scotopic (night) vision based on wavelength.
-  // Blue/Green light gets a significant boost (up to ~16x for deep blue) compared to Photopic Cd.
+  // Calculates the boost factor for the observer's adaptation (photopic, mesopic or scotopic) based on wavelength.
+  // Dark-adapted, Blue/Green light gets a significant boost (up to ~16x for deep blue) compared to Photopic Cd.
   // Returns 1.0 for Infrared.
-  const spectralCorrection = useMemo(() => getSpectralCorrectionFactor(params.wavelength), [params.wavelength]);
+  const adaptation = useMemo(() => getAdaptationCoefficient(params.vision), [params.vision]);
+  const spectralCorrection = useMemo(() => getSpectralCorrectionFactor(params.wavelength, params.vision), [params.wavelength, params.vision]);
   
   // Effective threshold calculation.
   // NOTE ON FLASHING:
-  // We apply a Conspicuity Gain of 8x (0.9 log units) for flashing lights.
+  // A flash is seen as if it had its effective intensity Ie (Blondel-Rey, Schmidt-Clausen or IALA),
+  // so the threshold is raised by I / Ie. Steady lights rate at their peak intensity.
+  // Rotating beacons are rated point by point instead (sweep table), so they keep the base threshold.
+  const isRotating = params.rotation.enabled;
+  const isFlashing = params.isFlashing && !isRotating;
+  const flashFactor = useMemo(
+    () => isFlashing ? Math.max(1e-6, getEffectiveIntensityRatio(params.flash)) : 1.0,
+    [isFlashing, params.flash]
+  );
+
   const effectiveThreshold = useMemo(() => {
      // Always treat logThreshold as logarithmic (base 10).
      // For Visible: 10^x Lux.
      // For Infrared: 10^x W/m^2.
      const base = Math.pow(10, params.logThreshold);
-     return params.isFlashing ? base / 8.0 : base;
-  }, [params.isFlashing, params.logThreshold]);
-
-  // Calculate full 3D configuration of LEDs {h, v}
-  const ledConfig = useMemo(() => {
-    return generateLedConfig(params.ledCount, params.spreadAngle, params.rowCount, params.verticalSpreadAngle);
-  }, [params.ledCount, params.spreadAngle, params.rowCount, params.verticalSpreadAngle]);
+     return base / flashFactor;
+  }, [flashFactor, params.logThreshold]);
+
+  // Every isoline to trace: the detection threshold first, then the user's named levels.
+  const traceLevels = useMemo(() => {
+    const thresholdLevel: ContourLevel = {
+      id: THRESHOLD_LEVEL_ID,
+      name: 'Threshold',
+      logValue: params.logThreshold,
+      color: isFlashing ? '#10b981' : isRotating ? '#f59e0b' : '#4ade80',
+      lineStyle: 'solid'
+    };
+    return [
+      { level: thresholdLevel, threshold: effectiveThreshold },
+      ...params.contourLevels.map(level => ({ level, threshold: Math.pow(10, level.logValue) / flashFactor }))
+    ];
+  }, [params.logThreshold, isFlashing, isRotating, params.contourLevels, effectiveThreshold, flashFactor]);
+
+  // Every emitter of the array (position, orientation, intensity scale and beam),
+  // in the fixture's own frame and then as mounted
+  const fixtureLeds = useMemo<Emitter[]>(() => {
+    return generateEmitters(params.array, params.ledCount, params.spreadAngle, params.rowCount, params.verticalSpreadAngle);
+  }, [params.array, params.ledCount, params.spreadAngle, params.rowCount, params.verticalSpreadAngle]);
+  const ledConfig = useMemo(() => mountEmitters(fixtureLeds, params.mounting), [fixtureLeds, params.mounting]);
+  const mounted = isMounted(params.mounting);
 
   // Determine the intensity value to pass to the physics engine
   // IR: Input is mW/sr -> Convert to W/sr for physics (so output is W/m^2)
@@ -195,156 +296,376 @@ const App: React.FC = () => {
       return isInfrared ? params.peakCandela / 1000 : params.peakCandela;
   }, [isInfrared, params.peakCandela]);
 
-  const runSimulation = useCallback(() => {
-    setIsCalculating(true);
-    
-    setTimeout(() => {
-      const { minX, maxX, minY, maxY } = params.gridLimits;
-      
-      const minZ = minX; // Assuming symmetric vertical range for calculation
-      const maxZ = maxX;
+  // Koschmieder extinction for the current MOR, scaled to the source wavelength.
+  const extinction = useMemo(() => getExtinctionCoefficient(params.atmosphere, params.wavelength), [params.atmosphere, params.wavelength]);
+
+  // DEM resampled around the beacon. Geographic data can only be placed once the beacon is geo-referenced.
+  const terrainGrid = useMemo(() => {
+    if (!dem || (dem.crs === 'geographic' && !params.geo.enabled)) return null;
+    return buildTerrainGrid(dem, params.geo, params.terrain);
+  }, [dem, params.geo.enabled, params.geo.latitude, params.geo.longitude, params.terrain]);
+
+  const occluders = useMemo(() => {
+    if (!params.terrain.enabled || (!terrainGrid && !buildings)) return null;
+    return buildOccluderModel(terrainGrid, buildings?.footprints ?? [], params.geo, params.terrain);
+  }, [params.terrain, terrainGrid, buildings, params.geo]);
+
+  // Curved surface under the beacon (effective earth radius absorbs refraction)
+  const effectiveRadius = useMemo(() => getEffectiveEarthRadius(params.horizon.refractionK), [params.horizon.refractionK]);
+  const horizonModel = useMemo<HorizonModel | null>(() => (
+    params.horizon.enabled ? { sourceHeight: params.geo.heightAboveGround, effectiveRadius } : null
+  ), [params.horizon.enabled, params.geo.heightAboveGround, effectiveRadius]);
+
+  // Optimizer regions in the plan frame; a geo-referenced beacon's sectors are entered in true bearings
+  const planRegions = useMemo(() => toBeaconBearings(optTargets.regions, params.geo), [optTargets.regions, params.geo]);
+
+  // The beam as it stands, before any rotation is rated
+  const standingSource = useMemo<SourceModel>(() => ({
+    leds: ledConfig,
+    peakIntensity: sourceIntensity,
+    spectralFactor: spectralCorrection,
+    beamPattern: params.beamPattern,
+    extinction,
+    position: { x: 0, y: 0, z: 0 },
+    heading: 0,
+    sweep: null
+  }), [ledConfig, sourceIntensity, spectralCorrection, params.beamPattern, extinction]);
+
+  const rotationAxis = useMemo(() => getRotationAxis(params.rotation, params.mounting), [params.rotation, params.mounting]);
+
+  // Rotating beacons are rated in the sweep worker; tables come back at unit intensity, keyed by getSweepKey
+  const [sweepTables, setSweepTables] = useState<Map<string, SweepTable>>(() => new Map());
+  const primarySweep = useMemo(() => {
+    if (!isRotating) return null;
+    const job = createSweepJob(standingSource, rotationAxis, params.rotation.rpm, params.rotation.method);
+    return { key: getSweepKey(job), job };
+  }, [isRotating, standingSource.leds, standingSource.beamPattern, rotationAxis, params.rotation.rpm, params.rotation.method]);
+  const sweepTable = useMemo(() => {
+    const table = primarySweep && sweepTables.get(primarySweep.key);
+    return table ? scaleSweepTable(table, standingSource) : null;
+  }, [primarySweep, sweepTables, standingSource]);
+
+  const primarySource = useMemo<SourceModel>(() => ({ ...standingSource, sweep: sweepTable }), [standingSource, sweepTable]);
+
+  // Light curve where the beam sweeps past brightest, for the animations and the status bar
+  const sweepInfo = useMemo(() => {
+    if (!sweepTable) return null;
+    const elevation = getMainElevation(sweepTable);
+    const k = Math.round((elevation + Math.PI / 2) / sweepTable.step);
+    const profile = getSweepProfile(standingSource, rotationAxis, elevation);
+    const peak = Math.max(...profile);
+    return {
+      profile: profile.map(v => peak > 0 ? v / peak : 0),
+      period: sweepTable.period,
+      pulse: sweepTable.pulse[k],
+      ratio: sweepTable.peak[k] > 0 ? sweepTable.effective[k] / sweepTable.peak[k] : 0
+    };
+  }, [sweepTable, standingSource, rotationAxis]);
+
+  const sweepAnimation = useMemo(() => sweepInfo && {
+    period: sweepInfo.period,
+    profile: sweepInfo.profile,
+    axis: rotationAxis,
+    forward: createMountTransform(params.mounting)(AXIS_Y)
+  }, [sweepInfo, rotationAxis, params.mounting]);
+
+  // Further beacons of the scene. Only those in the primary's band (visible or infrared) add up,
+  // and each is weighted by its own flash character relative to the primary's, so that one
+  // threshold (the primary's effective one) holds for the whole field.
+  const sceneStanding = useMemo(() => params.scene.beacons
+    .filter(b => b.enabled && (b.optics.wavelength >= 800) === isInfrared)
+    .map(b => {
+      const o = b.optics;
+      const ff = o.isFlashing && !o.rotation.enabled ? Math.max(1e-6, getEffectiveIntensityRatio(o.flash)) : 1.0;
+      const source: SourceModel = {
+        leds: mountEmitters(generateEmitters(o.array, o.ledCount, o.spreadAngle, o.rowCount, o.verticalSpreadAngle), o.mounting),
+        peakIntensity: (isInfrared ? o.peakCandela / 1000 : o.peakCandela) * ff / flashFactor,
+        spectralFactor: getSpectralCorrectionFactor(o.wavelength, params.vision),
+        beamPattern: o.beamPattern,
+        extinction: getExtinctionCoefficient(params.atmosphere, o.wavelength),
+        position: { x: b.x, y: b.y, z: b.z },
+        heading: b.heading * Math.PI / 180,
+        sweep: null
+      };
+      const peak = isInfrared ? o.peakCandela / 1000 : o.peakCandela;
+      if (!o.rotation.enabled) return { source, peak, sweep: null };
+      const job = createSweepJob(source, getRotationAxis(o.rotation, o.mounting), o.rotation.rpm, o.rotation.method);
+      return { source, peak, sweep: { key: getSweepKey(job), job } };
+    }), [params.scene.beacons, params.atmosphere, params.vision, isInfrared, flashFactor]);
+
+  const sceneSources = useMemo<SourceModel[]>(() => sceneStanding.map(({ source, sweep }) => {
+    const table = sweep && sweepTables.get(sweep.key);
+    return table ? { ...source, sweep: scaleSweepTable(table, source) } : source;
+  }), [sceneStanding, sweepTables]);
+
+  // Tables still being rated; the field waits for them rather than showing the beams standing still
+  const pendingSweeps = useMemo(() => [primarySweep, ...sceneStanding.map(s => s.sweep)]
+    .filter((s): s is { key: string; job: SweepJob } => !!s && !sweepTables.has(s.key)),
+  [primarySweep, sceneStanding, sweepTables]);
+
+  const fieldModel = useMemo<FieldModel>(() => ({
+    sources: [primarySource, ...sceneSources],
+    occluders,
+    horizon: horizonModel
+  }), [primarySource, sceneSources, occluders, horizonModel]);
+
+  // Colour per source in the field: primary first, then the enabled beacons that were summed
+  const sourceLegend = useMemo(() => [
+    { name: 'Primary', color: BEACON_PALETTE[0] },
+    ...params.scene.beacons.flatMap((b, i) => (
+      b.enabled && (b.optics.wavelength >= 800) === isInfrared
+        ? [{ name: b.name, color: BEACON_PALETTE[(i + 1) % BEACON_PALETTE.length] }]
+        : []
+    ))
+  ], [params.scene.beacons, isInfrared]);
+
+  // The primary's optics, copied into new scene beacons
+  const primaryOptics = useMemo<BeaconOptics>(() => ({
+    ledCount: params.ledCount,
+    spreadAngle: params.spreadAngle,
+    rowCount: params.rowCount,
+    verticalSpreadAngle: params.verticalSpreadAngle,
+    peakCandela: params.peakCandela,
+    wavelength: params.wavelength,
+    isFlashing: params.isFlashing,
+    flash: params.flash,
+    rotation: params.rotation,
+    beamPattern: params.beamPattern,
+    array: params.array,
+    mounting: params.mounting
+  }), [params.ledCount, params.spreadAngle, params.rowCount, params.verticalSpreadAngle, params.peakCandela, params.wavelength, params.isFlashing, params.flash, params.rotation, params.beamPattern, params.array, params.mounting]);
+
+  // IALA ranges: luminous (photometric only) vs. geographic (curvature + heights); the lesser one governs
+  const luminousRange = useMemo(() => getLuminousRange(primarySource, effectiveThreshold), [primarySource, effectiveThreshold]);
+  const geographicRange = useMemo(
+    () => getGeographicRange(params.geo.heightAboveGround, params.horizon.observerHeight, effectiveRadius),
+    [params.geo.heightAboveGround, params.horizon.observerHeight, effectiveRadius]
+  );
 
-      const topData = new Float32Array(GRID_RES * GRID_RES);
-      const sideData = new Float32Array(GRID_RES * GRID_RES);
-      
-      const dx = (maxX - minX) / (GRID_RES - 1);
-      const dy = (maxY - minY) / (GRID_RES - 1);
-      const dz = (maxZ - minZ) / (GRID_RES - 1);
-
-      // --- 1. Top View (XY Plane, Z=0) ---
-      for (let gy = 0; gy < GRID_RES; gy++) {
-        const y = minY + gy * dy;
-        for (let gx = 0; gx < GRID_RES; gx++) {
-          const x = minX + gx * dx;
-          let total = 0;
-          for (const cfg of ledConfig) {
-            total += calculateIlluminance(x, y, 0, cfg.h, cfg.v, sourceIntensity, spectralCorrection, params.beamPattern);
-          }
-          topData[gy * GRID_RES + gx] = total;
-        }
-      }
+  // Farthest any beacon of the scene can reach from the primary, with some margin for off-axis lobes
+  const polarSearchRange = useMemo(() => Math.min(50000, 1.2 * Math.max(1, ...fieldModel.sources.map(s =>
+    getLuminousRange(s, effectiveThreshold) + Math.hypot(s.position.x, s.position.y, s.position.z)
+  ))), [fieldModel, effectiveThreshold]);
+
+  // Top View (XY Plane, Z=0) and Side View (YZ Plane, X=0; World Z maps to Grid X)
+  // With curvature on, the plan view is the observer's eye-height surface
+  const topPlane = useMemo<SamplePlane>(() => ({
+    origin: ORIGIN, u: AXIS_X, v: AXIS_Y, limits: params.gridLimits, surfaceHeight: params.horizon.observerHeight
+  }), [params.gridLimits, params.horizon.observerHeight]);
+  // The vertical range mirrors the lateral one
+  const sidePlane = useMemo<SamplePlane>(() => ({
+    origin: ORIGIN, u: AXIS_Z, v: AXIS_Y, limits: params.gridLimits
+  }), [params.gridLimits]);
+  // Tilted fixtures: the elevation section through the mounted optical axis (fixture up, fixture forward)
+  const axisPlane = useMemo<SamplePlane | null>(() => {
+    if (!isMounted(params.mounting)) return null;
+    const mount = createMountTransform(params.mounting);
+    return { origin: ORIGIN, u: mount(AXIS_Z), v: mount(AXIS_Y), limits: sidePlane.limits };
+  }, [params.mounting, sidePlane]);
+  // User slice: a preset or a free plane
+  const sliceView = useMemo(
+    () => params.slice.enabled ? getSliceView(params.slice, params.gridLimits) : null,
+    [params.slice, params.gridLimits]
+  );
+  const sliceShells = useMemo<LevelContours<Point3D>[]>(
+    () => sliceView ? contoursSlice.map(c => ({ ...c, paths: c.paths.map(path => path.map(p => planeToWorld(sliceView.plane, p.x, p.y))) })) : [],
+    [sliceView, contoursSlice]
+  );
 
-      // --- 2. Side View (YZ Plane, X=0) ---
-      for (let gy = 0; gy < GRID_RES; gy++) {
-        const y = minY + gy * dy; 
-        for (let gx = 0; gx < GRID_RES; gx++) {
-          const z = minZ + gx * dz; // World Z maps to Grid X
-          let total = 0;
-          for (const cfg of ledConfig) {
-            total += calculateIlluminance(0, y, z, cfg.h, cfg.v, sourceIntensity, spectralCorrection, params.beamPattern);
-          }
-          sideData[gy * GRID_RES + gx] = total;
-        }
-      }
+  // Pool of simulation workers, alive for the lifetime of the app.
+  const poolRef = useRef<WorkerPool<PlaneJob, PlaneJobResult> | null>(null);
+  const polarPoolRef = useRef<WorkerPool<PolarJob, PolarJobResult> | null>(null);
+  const isoPoolRef = useRef<WorkerPool<IsoJob, IsoJobResult> | null>(null);
+  const sweepPoolRef = useRef<WorkerPool<SweepJob, SweepTable> | null>(null);
+  const receptorPoolRef = useRef<WorkerPool<ReceptorJob, ReceptorResult[]> | null>(null);
+  const sweepRequestsRef = useRef(new Map<string, AbortController>());
+  const runAbortRef = useRef<AbortController | null>(null);
 
-      setTopGrid({
-        data: topData,
-        width: GRID_RES,
-        height: GRID_RES,
-        minX: minX, maxX: maxX, minY: minY, maxY: maxY
-      });
+  useEffect(() => {
+    const pool = createWorkerPool<PlaneJob, PlaneJobResult>(
+      () => new Worker(new URL('./workers/simulation.worker.ts', import.meta.url), { type: 'module' })
+    );
+    // The polar diagram is one job per run; a single worker keeps it off the plane workers' queue
+    const polarPool = createWorkerPool<PolarJob, PolarJobResult>(
+      () => new Worker(new URL('./workers/polar.worker.ts', import.meta.url), { type: 'module' }),
+      1
+    );
+    // Marching cubes runs once per pass on the assembled volume, which is handed over rather than copied
+    const isoPool = createWorkerPool<IsoJob, IsoJobResult>(
+      () => new Worker(new URL('./workers/iso.worker.ts', import.meta.url), { type: 'module' }),
+      1,
+      job => [job.volume.data.buffer]
+    );
+    // Rotating beacons are rated once per optics/rotation change, one table per job
+    const sweepPool = createWorkerPool<SweepJob, SweepTable>(
+      () => new Worker(new URL('./workers/sweep.worker.ts', import.meta.url), { type: 'module' })
+    );
+    // The receptor check is one job per change, like the polar diagram
+    const receptorPool = createWorkerPool<ReceptorJob, ReceptorResult[]>(
+      () => new Worker(new URL('./workers/receptor.worker.ts', import.meta.url), { type: 'module' }),
+      1
+    );
+    poolRef.current = pool;
+    polarPoolRef.current = polarPool;
+    isoPoolRef.current = isoPool;
+    sweepPoolRef.current = sweepPool;
+    receptorPoolRef.current = receptorPool;
+    return () => {
+      runAbortRef.current?.abort();
+      sweepRequestsRef.current.forEach(controller => controller.abort());
+      sweepRequestsRef.current.clear();
+      pool.destroy();
+      polarPool.destroy();
+      isoPool.destroy();
+      sweepPool.destroy();
+      receptorPool.destroy();
+      poolRef.current = null;
+      polarPoolRef.current = null;
+      isoPoolRef.current = null;
+      sweepPoolRef.current = null;
+      receptorPoolRef.current = null;
+    };
+  }, []);
 
-      setSideGrid({
-        data: sideData,
-        width: GRID_RES,
-        height: GRID_RES,
-        minX: minZ, maxX: maxZ, minY: minY, maxY: maxY
+  // Rate the missing tables; the cache keeps the most recent SWEEP_CACHE_SIZE so stepping back is instant.
+  // Settings dragged past are dropped before their tables are finished.
+  useEffect(() => {
+    const sweepPool = sweepPoolRef.current;
+    if (!sweepPool) return;
+    const requests = sweepRequestsRef.current;
+    const wanted = new Set(pendingSweeps.map(s => s.key));
+    requests.forEach((controller, key) => {
+      if (wanted.has(key)) return;
+      controller.abort();
+      requests.delete(key);
+    });
+    pendingSweeps.forEach(({ key, job }) => {
+      if (requests.has(key)) return;
+      const controller = new AbortController();
+      requests.set(key, controller);
+      sweepPool.run(job, controller.signal).then(table => {
+        setSweepTables(prev => {
+          const next = new Map(prev).set(key, table);
+          for (const old of next.keys()) {
+            if (next.size <= SWEEP_CACHE_SIZE) break;
+            next.delete(old);
+          }
+          return next;
+        });
+      }).catch(err => {
+        if (!isAbortError(err)) console.error('Sweep table failed:', err);
+      }).finally(() => {
+        if (requests.get(key) === controller) requests.delete(key);
       });
+    });
+  }, [pendingSweeps]);
 
-      // --- 3. 3D Wireframe Slices ---
-      // Reduced SLICE RESOLUTION and COUNT for better visual aesthetics (less cluttered wireframe)
-      const SLICE_RES = 151; 
-      const NUM_SLICES = 24; // Lower count to prevent "wall of lines" look
-      const slicePaths: Point3D[][] = [];
-      // Use the effective threshold for contour generation
-      const threshold = effectiveThreshold;
-
-      // Helper for slice data
-      const getSliceData = (
-        width: number, height: number, 
-        minA: number, maxA: number, 
-        minB: number, maxB: number,
-        fixedCoord: number, 
-        isHorizontalSlice: boolean // true = varies in Z (Plan slices), false = varies in X (Side slices)
-      ): GridData => {
-        const data = new Float32Array(width * height);
-        const da = (maxA - minA) / (width - 1);
-        const db = (maxB - minB) / (height - 1);
-
-        for (let gy = 0; gy < height; gy++) {
-          const b = minB + gy * db; // Usually Y (Distance)
-          for (let gx = 0; gx < width; gx++) {
-            const a = minA + gx * da; // X or Z
-            let total = 0;
-            // Map grid coords to world coords
-            const wx = isHorizontalSlice ? a : fixedCoord;
-            const wy = b;
-            const wz = isHorizontalSlice ? fixedCoord : a;
-
-            for (const cfg of ledConfig) {
-              total += calculateIlluminance(wx, wy, wz, cfg.h, cfg.v, sourceIntensity, spectralCorrection, params.beamPattern);
-            }
-            data[gy * width + gx] = total;
-          }
-        }
-        return { data, width, height, minX: minA, maxX: maxA, minY: minB, maxY: maxB };
-      };
+  const runSimulation = useCallback(async () => {
+    const pool = poolRef.current;
+    const polarPool = polarPoolRef.current;
+    const isoPool = isoPoolRef.current;
+    if (!pool || !polarPool || !isoPool) return;
 
-      // Generate step locations ensuring 0 is included
-      const generateSteps = (min: number, max: number, count: number) => {
-        const steps = new Set<number>();
-        steps.add(0); // CRITICAL: Always include center slice where intensity is max
-        const inc = (max - min) / count;
-        for (let i = 0; i <= count; i++) {
-            steps.add(min + i * inc);
-        }
-        return Array.from(steps).sort((a, b) => a - b);
-      };
+    // A newer parameter change supersedes whatever is still in flight.
+    runAbortRef.current?.abort();
+    const controller = new AbortController();
+    runAbortRef.current = controller;
+    const { signal } = controller;
 
-      // A. Horizontal Slices (Fixed Z)
-      const zSteps = generateSteps(minZ, maxZ, NUM_SLICES);
-      for (const z of zSteps) {
-        const grid = getSliceData(SLICE_RES, SLICE_RES, minX, maxX, minY, maxY, z, true);
-        const paths = marchSquares(grid, threshold);
-        // Convert 2D paths to 3D
-        paths.forEach(p2d => {
-            const p3dArray: Point3D[] = p2d.map(p => ({ x: p.x, y: p.y, z: z }));
-            slicePaths.push(p3dArray);
-        });
-      }
+    setIsCalculating(true);
 
-      // B. Vertical Slices (Fixed X)
-      const xSteps = generateSteps(minX, maxX, NUM_SLICES);
-      for (const x of xSteps) {
-        const grid = getSliceData(SLICE_RES, SLICE_RES, minZ, maxZ, minY, maxY, x, false);
-        const paths = marchSquares(grid, threshold);
-        // Convert 2D paths to 3D
-        paths.forEach(p2d => {
-            // Grid X was Z, Grid Y was Y
-            const p3dArray: Point3D[] = p2d.map(p => ({ x: x, y: p.y, z: p.x }));
-            slicePaths.push(p3dArray);
-        });
-      }
+    const { minX, maxX, minY, maxY } = params.gridLimits;
+    const minZ = minX; // Assuming symmetric vertical range for calculation
+    const maxZ = maxX;
+    // One contour set per level, in traceLevels order
+    const levels = traceLevels.map(t => t.threshold);
+    const toLevelContours = <P,>(contours: P[][][]): LevelContours<P>[] =>
+      traceLevels.map((t, i) => ({ ...t, paths: contours[i] }));
+
+    const topLimits = { minX, maxX, minY, maxY };
+
+    const runPlane = (plane: SamplePlane, res: number, includeGrid: boolean) =>
+      pool.run({ model: fieldModel, plane, width: res, height: res, levels, includeGrid }, signal);
+
+    // 3D volume: one horizontal layer per plane job, stacked bottom to top, then surfaced by marching cubes
+    const runVolume = async (res: number) => {
+      const layers = await Promise.all(Array.from({ length: res }, (_, k) => {
+        const z = minZ + (k * (maxZ - minZ)) / (res - 1);
+        return pool.run({ model: fieldModel, plane: { origin: { x: 0, y: 0, z }, u: AXIS_X, v: AXIS_Y, limits: topLimits }, width: res, height: res, levels: [], includeGrid: true }, signal);
+      }));
+      const data = new Float32Array(res * res * res);
+      layers.forEach((r, k) => data.set((r.grid as GridData).data, k * res * res));
+      const volume: VolumeGrid = { data, nx: res, ny: res, nz: res, min: { x: minX, y: minY, z: minZ }, max: { x: maxX, y: maxY, z: maxZ } };
+      return isoPool.run({ volume, levels }, signal);
+    };
 
-      setSlices3D(slicePaths);
-      setIsCalculating(false);
+    const runPass = async (gridRes: number, volumeRes: number) => {
+      const top = runPlane(topPlane, gridRes, true).then(r => {
+        if (signal.aborted) return;
+        setTopGrid(r.grid);
+        setContoursTop(toLevelContours(r.contours.map(unpackPaths)));
+      });
+      const side = runPlane(sidePlane, gridRes, true).then(r => {
+        if (signal.aborted) return;
+        setSideGrid(r.grid);
+        setContoursSide(toLevelContours(r.contours.map(unpackPaths)));
+      });
+      const axis = axisPlane && runPlane(axisPlane, gridRes, true).then(r => {
+        if (signal.aborted) return;
+        setAxisGrid(r.grid);
+        setContoursAxis(toLevelContours(r.contours.map(unpackPaths)));
+      });
+      if (!axisPlane) setAxisGrid(null);
+      const userSlice = sliceView && runPlane(sliceView.plane, gridRes, true).then(r => {
+        if (signal.aborted) return;
+        setSliceGrid(r.grid);
+        setContoursSlice(toLevelContours(r.contours.map(unpackPaths)));
+      });
+      if (!sliceView) setSliceGrid(null);
+      const surfaces = runVolume(volumeRes).then(r => {
+        if (!signal.aborted) setSurfaces3D(traceLevels.map((t, i) => ({ ...t, mesh: r.meshes[i] })));
+      });
 
-    }, 0);
-  }, [
-      ledConfig, 
-      sourceIntensity, 
-      spectralCorrection, 
-      params.beamPattern, 
-      params.gridLimits, 
-      effectiveThreshold
-    ]);
+      await Promise.all([top, side, axis, userSlice, surfaces]);
+    };
+
+    // Range vs bearing from the primary beacon, ray-marched at the detection threshold
+    const runPolar = () => polarPool.run({
+      model: fieldModel,
+      threshold: levels[0],
+      maxRange: polarSearchRange,
+      stepDeg: POLAR_STEP_DEG,
+      surfaceHeight: params.horizon.observerHeight
+    }, signal).then(r => {
+      if (!signal.aborted) setPolarRanges(r);
+    });
+
+    // Coarse pass first for immediate feedback, then refine to full resolution.
+    const runPasses = async () => {
+      await runPass(COARSE_GRID_RES, COARSE_VOLUME_RES);
+      await runPass(GRID_RES, VOLUME_RES);
+    };
+
+    try {
+      await Promise.all([runPasses(), runPolar()]);
+      if (!signal.aborted) setIsCalculating(false);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Simulation failed:', err);
+      setIsCalculating(false);
+    }
+  }, [fieldModel, params.gridLimits, params.horizon.observerHeight, topPlane, sidePlane, axisPlane, sliceView, traceLevels, polarSearchRange]);
 
   useEffect(() => {
+    if (pendingSweeps.length > 0) {
+      setIsCalculating(true);
+      return;
+    }
     const timer = setTimeout(() => {
         runSimulation();
     }, 100);
     return () => clearTimeout(timer);
-  }, [runSimulation]);
+  }, [runSimulation, pendingSweeps]);
 
   // AUTO SCALING EFFECT
   useEffect(() => {
@@ -375,52 +696,49 @@ const App: React.FC = () => {
     const topExt = getExtent(topGrid);
     const sideExt = getExtent(sideGrid);
 
-    const neededLat = Math.max(topExt.maxDim, sideExt.maxDim); 
-    const neededRange = Math.max(topExt.maxRange, sideExt.maxRange);
+    // Scene beacons stay in view, including any behind the primary one
+    const beacons = params.scene.beacons.filter(b => b.enabled);
+    const beaconLat = beacons.reduce((m, b) => Math.max(m, Math.abs(b.x)), 0);
+    const beaconRange = beacons.reduce((m, b) => Math.max(m, b.y), 0);
+    const beaconBack = beacons.reduce((m, b) => Math.max(m, -b.y), 0);
+
+    const neededLat = Math.max(topExt.maxDim, sideExt.maxDim, beaconLat); 
+    const neededRange = Math.max(topExt.maxRange, sideExt.maxRange, beaconRange);
 
     if (neededLat === 0 || neededRange === 0) return; // No light detected
 
     const newMaxX = Math.ceil(neededLat * 1.3 / 100) * 100; // +30% padding
     const newMaxY = Math.ceil(neededRange * 1.2 / 100) * 100; // +20% padding
+    const newMinY = -Math.ceil(beaconBack * 1.2 / 100) * 100;
 
     // Only update if difference is significant to avoid loops (>10%)
     const diffX = Math.abs(newMaxX - params.gridLimits.maxX) / params.gridLimits.maxX;
     const diffY = Math.abs(newMaxY - params.gridLimits.maxY) / params.gridLimits.maxY;
 
-    if (diffX > 0.1 || diffY > 0.1) {
+    if (diffX > 0.1 || diffY > 0.1 || newMinY !== params.gridLimits.minY) {
        // Also ensure we don't zoom in to absurdly small levels
        // But if Infrared, we might need small levels. Let's adjust min clamp.
        const minClamp = isInfrared ? 10 : 200;
        const clampedX = Math.max(minClamp, newMaxX);
        const clampedY = Math.max(minClamp, newMaxY);
 
-       if (Math.abs(clampedX - params.gridLimits.maxX) > (isInfrared ? 5 : 50) || Math.abs(clampedY - params.gridLimits.maxY) > (isInfrared ? 5 : 50)) {
+       if (Math.abs(clampedX - params.gridLimits.maxX) > (isInfrared ? 5 : 50) || Math.abs(clampedY - params.gridLimits.maxY) > (isInfrared ? 5 : 50) || newMinY !== params.gridLimits.minY) {
            console.log("Auto-Scaling to:", clampedX, clampedY);
            setParams(prev => ({
              ...prev,
              gridLimits: {
                minX: -clampedX,
                maxX: clampedX,
-               minY: 0,
+               minY: newMinY,
                maxY: clampedY
              }
            }));
        }
     }
 
-  }, [topGrid, sideGrid, autoScale, isCalculating, effectiveThreshold, params.gridLimits.maxX, params.gridLimits.maxY, isInfrared]);
+  }, [topGrid, sideGrid, autoScale, isCalculating, effectiveThreshold, params.gridLimits.maxX, params.gridLimits.maxY, params.gridLimits.minY, params.scene.beacons, isInfrared]);
 
 
-  const contourPathsTop = useMemo(() => {
-    if (!topGrid) return [];
-    return marchSquares(topGrid, effectiveThreshold);
-  }, [topGrid, effectiveThreshold]);
-
-  const contourPathsSide = useMemo(() => {
-    if (!sideGrid) return [];
-    return marchSquares(sideGrid, effectiveThreshold);
-  }, [sideGrid, effectiveThreshold]);
-
   const updateParam = <K extends keyof SimulationParams>(key: K, value: any) => {
     setParams(prev => ({ ...prev, [key]: value }));
   };
@@ -461,125 +779,425 @@ const App: React.FC = () => {
     }));
   };
 
-  const updateBeamPoint = (index: number, field: keyof BeamPoint, value: number) => {
-    const newPattern = [...params.beamPattern];
-    newPattern[index] = { ...newPattern[index], [field]: value };
-    updateParam('beamPattern', newPattern);
+  const updateAtmosphere = (patch: Partial<Atmosphere>) => {
+    setParams(prev => ({ ...prev, atmosphere: { ...prev.atmosphere, ...patch } }));
+  };
+
+  const isActiveWeather = (w: WeatherPreset) =>
+    w.visibilityKm === params.atmosphere.visibilityKm && w.precipitation === params.atmosphere.precipitation;
+
+  // Sector bearings are true once geo-referenced; when that frame turns, they are restated so the sectors stay put
+  const updateGeo = (patch: Partial<GeoReference>) => {
+    const frame = (geo: GeoReference) => geo.enabled ? geo.heading : 0;
+    const turn = frame({ ...params.geo, ...patch }) - frame(params.geo);
+    if (turn !== 0) setOptTargets(prev => ({ ...prev, regions: turnSectorBearings(prev.regions, turn) }));
+    setParams(prev => ({ ...prev, geo: { ...prev.geo, ...patch } }));
   };
 
+  const loadBasemap = async (label: string, open: () => Promise<TileSource> | TileSource) => {
+    setBasemapStatus({ ok: true, message: `Indexing ${label}...` });
+    try {
+      const source = await open();
+      setBasemapSource(source);
+      setBasemapStatus({ ok: true, message: `${source.name}: zoom ${source.zooms[0]}-${source.zooms[source.zooms.length - 1]}` });
+    } catch (err) {
+      setBasemapStatus({ ok: false, message: `${label}: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  };
+
+  const updateVision = (patch: Partial<VisionSettings>) => {
+    setParams(prev => ({ ...prev, vision: { ...prev.vision, ...patch } }));
+  };
+
+  const updateHorizon = (patch: Partial<HorizonSettings>) => {
+    setParams(prev => ({ ...prev, horizon: { ...prev.horizon, ...patch } }));
+  };
+
+  const updateArray = (patch: Partial<ArraySettings>) => {
+    setParams(prev => ({ ...prev, array: { ...prev.array, ...patch } }));
+  };
+
+  // Editing the table freezes whatever the generator produced into a custom layout
+  const editEmitters = (emitters: Emitter[]) => updateArray({ layout: 'custom', emitters });
+
+  const updateRotation = (patch: Partial<RotationSettings>) => {
+    setParams(prev => ({ ...prev, rotation: { ...prev.rotation, ...patch } }));
+  };
+
+  // Steady, flashing and rotating are exclusive in the UI
+  const setTemporalMode = (flashing: boolean, rotating: boolean) => {
+    setParams(prev => ({ ...prev, isFlashing: flashing, rotation: { ...prev.rotation, enabled: rotating } }));
+  };
+
+  const updateMounting = (patch: Partial<MountingSettings>) => {
+    setParams(prev => ({ ...prev, mounting: { ...prev.mounting, ...patch } }));
+  };
+
+  const updateSlice = (patch: Partial<SliceSettings>) => {
+    setParams(prev => ({ ...prev, slice: { ...prev.slice, ...patch } }));
+  };
+
+  // Dragging the plane in 3D turns any preset into a custom plane through the new pose
+  const moveSlice = (centre: Point3D, normal: Point3D) => {
+    setParams(prev => ({ ...prev, slice: toCustomSlice(prev.slice, getSliceView(prev.slice, prev.gridLimits).plane, centre, normal) }));
+  };
+
+  // Gaps in the coverage polygon, read off the plan view
+  const coverageReport = useMemo(() => (
+    topGrid && params.scene.coverageArea.length >= 3 ? analyzeCoverage(topGrid, params.scene.coverageArea, effectiveThreshold) : null
+  ), [topGrid, params.scene.coverageArea, effectiveThreshold]);
+
+  const beaconMarkers = useMemo(() => params.scene.beacons.flatMap((b, i) => b.enabled
+    ? [{ x: b.x, y: b.y, heading: b.heading, name: b.name, color: BEACON_PALETTE[(i + 1) % BEACON_PALETTE.length] }]
+    : []
+  ), [params.scene.beacons]);
+
+  // Obtrusive light at the receptors from every beacon of the band: photopic limits, so without the
+  // scotopic boost, and the beacons at their peak rather than weighted by flash character
+  const receptorSources = useMemo<ReceptorSource[]>(() => [
+    { source: { ...standingSource, spectralFactor: 1 }, spinAxis: isRotating ? rotationAxis : undefined },
+    ...sceneStanding.map(({ source, peak, sweep }) => ({ source: { ...source, peakIntensity: peak, spectralFactor: 1 }, spinAxis: sweep?.job.axis }))
+  ], [standingSource, isRotating, rotationAxis, sceneStanding]);
+
+  // Checked in the receptor worker, only in the visible band; results are matched to receptors by id
+  const [receptorResults, setReceptorResults] = useState<ReceptorResult[]>([]);
+  useEffect(() => {
+    const receptorPool = receptorPoolRef.current;
+    if (isInfrared || !receptorPool) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      receptorPool.run({ receptors: params.receptors, sources: receptorSources, occluders }, controller.signal)
+        .then(setReceptorResults)
+        .catch(err => {
+          if (!isAbortError(err)) console.error('Receptor check failed:', err);
+        });
+    }, 100);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isInfrared, params.receptors, receptorSources, occluders]);
+
+  const receptorMarkers = useMemo<ReceptorMarker[] | undefined>(() => isInfrared ? undefined : params.receptors.flatMap(r => {
+    const res = receptorResults.find(x => x.id === r.id);
+    return res ? [{ at: res.worst, name: r.name, pass: res.pass }] : [];
+  }), [isInfrared, receptorResults, params.receptors]);
+
+  const updateTerrain = (patch: Partial<TerrainSettings>) => {
+    setParams(prev => ({ ...prev, terrain: { ...prev.terrain, ...patch } }));
+  };
+
+  const loadDem = async (file: File) => {
+    setTerrainStatus({ ok: true, message: `Reading ${file.name}...` });
+    try {
+      const model = /\.asc$/i.test(file.name)
+        ? parseASCIIGrid(await file.text(), file.name)
+        : await parseGeoTIFF(await file.arrayBuffer(), file.name);
+      setDem(model);
+      setTerrainStatus({ ok: true, message: `${model.name}: ${model.cols}×${model.rows}, ${model.crs}` });
+    } catch (err) {
+      setTerrainStatus({ ok: false, message: `${file.name}: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  };
+
+  const loadBuildings = async (file: File) => {
+    try {
+      const footprints = parseBuildings(await file.text());
+      setBuildings({ name: file.name, footprints });
+      setTerrainStatus({ ok: true, message: `${file.name}: ${footprints.length} footprints` });
+    } catch (err) {
+      setTerrainStatus({ ok: false, message: `${file.name}: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  };
+
+  const needsGeo = !params.geo.enabled && (dem?.crs === 'geographic' || !!buildings?.footprints.some(f => f.crs === 'geographic'));
+  const beaconGround = terrainGrid ? groundElevation(terrainGrid) : NaN;
+
+  const basemapLayer = useMemo(() => (
+    basemapSource && params.geo.enabled ? { source: basemapSource, geo: params.geo, opacity: basemapOpacity } : undefined
+  ), [basemapSource, params.geo, basemapOpacity]);
+
+  const hasContours = contoursTop.some(c => c.paths.length > 0);
+
+  const handleExportGeo = (format: 'geojson' | 'kml' | 'gpx') => {
+    if (!hasContours) return;
+    const base = `LED_Visibility_${params.wavelength}nm_${isRotating ? 'Rotating' : isFlashing ? 'Flash' : 'Steady'}`;
+    if (format === 'geojson') downloadText(generateGeoJSON(params.geo, contoursTop), `${base}.geojson`, 'application/geo+json');
+    if (format === 'kml') downloadText(generateKML(params.geo, contoursTop, base), `${base}.kml`, 'application/vnd.google-earth.kml+xml');
+    if (format === 'gpx') downloadText(generateGPX(params.geo, contoursTop), `${base}.gpx`, 'application/gpx+xml');
+  };
+
+  // Beacons, LED axes out to the luminous range, the target box and a title block around the given views
+  // Parameter summary for exports: the DXF title block and the caption under report images
+  const reportLines = useMemo(() => {
+    const unit = isInfrared ? 'W/m²' : 'lx';
+    const character = isRotating ? `Rotating ${params.rotation.rpm} rpm` : isFlashing ? formatFlashCharacter(params.flash) : 'Steady';
+    return [
+      'LIGHT BEACON SIMULATOR - VISIBILITY',
+      `${params.wavelength} nm, ${ledConfig.length} LEDs, peak ${sourceIntensity.toFixed(1)} ${isInfrared ? 'W/sr' : 'cd'}, ${character}`,
+      `Threshold ${effectiveThreshold.toExponential(2)} ${unit}, MOR ${params.atmosphere.visibilityKm} km (${params.atmosphere.precipitation})`,
+      `Mounting yaw ${params.mounting.yaw}, tilt ${params.mounting.pitch}, roll ${params.mounting.roll} deg`,
+      `Luminous range ${formatRange(luminousRange)}`,
+      `Exported ${new Date().toISOString().slice(0, 10)}`
+    ];
+  }, [isInfrared, isRotating, isFlashing, params.rotation.rpm, params.flash, params.wavelength, ledConfig.length, sourceIntensity, effectiveThreshold, params.atmosphere.visibilityKm, params.atmosphere.precipitation, params.mounting, luminousRange]);
+
+  const buildCadDrawing = (views: DxfView[]): DxfDrawing => ({
+    views,
+    beacons: fieldModel.sources.map(s => s.position),
+    rays: ledConfig.map(e => ({
+      from: { x: e.x, y: e.y, z: e.z },
+      to: {
+        x: e.x + Math.sin(e.h) * Math.cos(e.v) * luminousRange,
+        y: e.y + Math.cos(e.h) * Math.cos(e.v) * luminousRange,
+        z: e.z + Math.sin(e.v) * luminousRange
+      }
+    })),
+    targetBox: cadExport.target && optTargets.box ? getTargetBoxEdges(optTargets, createMountTransform(params.mounting)) : undefined,
+    targetRegions: cadExport.target ? getRegionSegments(planRegions, 'include') : undefined,
+    exclusionZones: cadExport.target ? getRegionSegments(planRegions, 'exclude') : undefined,
+    surfaces: cadExport.mode === '3d' ? surfaces3D : undefined,
+    titleBlock: reportLines
+  });
+
   const handleExportCAD = () => {
-    if (contourPathsTop.length === 0) return;
-    downloadDXF(contourPathsTop, `LED_Visibility_${params.wavelength}nm_${params.isFlashing ? 'Flash' : 'Steady'}.dxf`);
+    if (!contoursTop.some(c => c.paths.length > 0)) return;
+    const views: DxfView[] = [{ title: 'PLAN', levels: contoursTop, plane: topPlane, layout: 'top', dimensions: { x: 'WIDTH', y: 'RANGE' } }];
+    if (cadExport.elevation) views.push({ title: 'ELEVATION', levels: contoursSide, plane: sidePlane, layout: 'side', dimensions: { x: 'RANGE', y: 'HEIGHT' } });
+    downloadDXF(buildCadDrawing(views), cadExport,
+      `LED_Visibility_${params.wavelength}nm_${isRotating ? 'Rotating' : isFlashing ? 'Flash' : 'Steady'}${cadExport.mode === '3d' ? '_3D' : ''}.dxf`);
+  };
+
+  // Iso-surfaces for CAD: STL carries the threshold shell only, OBJ and glTF every level
+  const hasSurface = surfaces3D.some(s => s.mesh.indices.length > 0);
+  const handleExportMesh = (format: 'stl' | 'obj' | 'glb') => {
+    if (!hasSurface) return;
+    const name = `LED_Visibility_Volume_${params.wavelength}nm`;
+    if (format === 'stl') downloadSTL(surfaces3D[0].mesh, surfaces3D[0].level.name, cadExport.units, `${name}.stl`);
+    else if (format === 'obj') downloadOBJ(surfaces3D, cadExport.units, `${name}.obj`);
+    else downloadGLB(surfaces3D, `${name}.glb`);
   };
 
+  // Slice contours in the plane's own (u, v) coordinates
+  const handleExportSliceCAD = () => {
+    if (!sliceView || !contoursSlice.some(c => c.paths.length > 0)) return;
+    const view: DxfView = { title: sliceView.title, levels: contoursSlice, plane: sliceView.plane, layout: sliceView.viewType, dimensions: sliceView.labels };
+    downloadDXF({ ...buildCadDrawing([view]), surfaces: undefined }, cadExport,
+      `LED_Visibility_Slice_${params.slice.mode}_${params.wavelength}nm${cadExport.mode === '3d' ? '_3D' : ''}.dxf`);
+  };
+
+  // A polygon drawn on the plan view or the 3D ground becomes a region of the kind being drawn
+  const addDrawnRegion = (points: Point[]) => {
+    if (!regionDraw) return;
+    const kind = regionDraw;
+    setOptTargets(prev => prev.regions.length >= MAX_TARGET_REGIONS ? prev : {
+      ...prev,
+      regions: [...prev.regions, createTargetRegion(kind, 'polygon', prev.regions.filter(r => r.kind === kind).length, points)]
+    });
+    setRegionDraw(null);
+    setShowTarget(true);
+  };
+
+  // Box sizes below the optimizer's minimum, or blank, are not taken
+  const setTargetSize = (key: 'width' | 'height' | 'range', text: string) => {
+    const v = parseFloat(text);
+    if (Number.isFinite(v) && v >= OPTIMIZER_MIN_TARGET) setOptTargets(prev => ({ ...prev, [key]: v }));
+  };
+
+  const hasTargetVolume = optTargets.box || optTargets.regions.some(r => r.kind === 'include');
+
   const applyOptResult = (res: OptResult) => {
     setParams(prev => ({
       ...prev,
+      ledCount: res.columns,
+      rowCount: res.rows,
       spreadAngle: res.h,
-      verticalSpreadAngle: res.v
+      verticalSpreadAngle: res.v,
+      peakCandela: res.peak,
+      beamPattern: res.beam.pattern
     }));
+    setAppliedOpt(res);
     setShowTarget(true); 
   };
 
-  const handleOptimize = useCallback(async () => {
+  // Multi-objective search (NSGA-II) in its own worker; the front streams in after every generation.
+  // The previous results stay up until the new run is done; its front so far is drawn over them.
+  const optWorkerRef = useRef<Worker | null>(null);
+  const optPreviousRef = useRef<OptResult[]>([]);
+
+  const notify = (ok: boolean, message: string) => setProjectNotice({ ok, message });
+
+  const stopOptimizer = () => {
+    optWorkerRef.current?.terminate();
+    optWorkerRef.current = null;
+  };
+
+  // A failed run ends like a cancelled one, and says why
+  const failOptimizer = (message: string) => {
+    stopOptimizer();
+    setOptPartial([]);
+    setOptResults(optPreviousRef.current);
+    setIsOptimizing(false);
+    notify(false, `Optimizer failed: ${message}`);
+  };
+
+  useEffect(() => stopOptimizer, []);
+
+  const handleOptimize = useCallback(() => {
+    stopOptimizer();
+    optPreviousRef.current = optResults;
     setIsOptimizing(true);
+    setOptProgress({ generation: 0, generations: DEFAULT_OPTIMIZER.generations, eta: null });
+
+    // Tunes the primary beacon on its own; a rotating one on its standing beam
+    const request: OptimizerRequest = {
+      problem: {
+        model: { ...fieldModel, sources: [standingSource] },
+        array: params.array,
+        mounting: params.mounting,
+        targets: { ...optTargets, regions: planRegions },
+        threshold: effectiveThreshold,
+        peak: params.peakCandela,
+        intensityScale: isInfrared ? 1 / 1000 : 1,
+        beams: getBeamCandidates(params.beamPattern)
+      },
+      options: DEFAULT_OPTIMIZER
+    };
+
+    const worker = new Worker(new URL('./workers/optimizer.worker.ts', import.meta.url), { type: 'module' });
+    optWorkerRef.current = worker;
+    const started = performance.now();
+    worker.onmessage = (e: MessageEvent<OptimizerProgress>) => {
+      const { generation, generations, front, done, error } = e.data;
+      if (error !== undefined) {
+        failOptimizer(error);
+        return;
+      }
+      if (done) {
+        setOptResults(front);
+        setOptPartial([]);
+      } else if (front.length > 0) {
+        setOptPartial(front);
+      }
+      // ETA from the mean time per generation so far
+      const elapsed = performance.now() - started;
+      setOptProgress({ generation, generations, eta: generation > 0 ? (elapsed / generation) * (generations - generation) : null });
+      if (done) {
+        stopOptimizer();
+        setIsOptimizing(false);
+        setShowTarget(true);
+      }
+    };
+    // The module failed to load, or threw outside the run
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      failOptimizer(e.message || 'the worker stopped');
+    };
+    worker.onmessageerror = () => failOptimizer('unreadable progress from the worker');
+    worker.postMessage(request);
+  }, [params.array, params.mounting, params.peakCandela, params.beamPattern, fieldModel, standingSource, effectiveThreshold, optTargets, planRegions, isInfrared, optResults]);
+
+  const cancelOptimize = () => {
+    stopOptimizer();
+    setOptPartial([]);
+    setOptResults(optPreviousRef.current);
+    setIsOptimizing(false);
+  };
+
+  // --- PROJECT PERSISTENCE ---
+  const projectState = useMemo<ProjectState>(() => ({
+    params,
+    optTargets,
+    view: { autoScale, showCones, showTarget, activeTab }
+  }), [params, optTargets, autoScale, showCones, showTarget, activeTab]);
+
+  const applyProject = (project: ProjectFile) => {
+    setParams(project.params);
+    setOptTargets(project.optTargets);
+    setAutoScale(project.view.autoScale);
+    setShowCones(project.view.showCones);
+    setShowTarget(project.view.showTarget);
+    setActiveTab(project.view.activeTab);
+    stopOptimizer();
+    setIsOptimizing(false);
+    setRegionDraw(null);
     setOptResults([]);
-    
-    await new Promise(r => setTimeout(r, 50));
+    setOptPartial([]);
+    setAppliedOpt(null);
+  };
 
-    const threshold = effectiveThreshold;
-    const targetW = optTargets.width;
-    const targetH = optTargets.height;
-    const targetR = optTargets.range;
-
-    const samples: Point3D[] = [];
-    const stepX = 4; 
-    const stepZ = 4; 
-    const stepY = 8; 
-    
-    for(let i=0; i<=stepX; i++) {
-        const x = (i/stepX) * (targetW/2);
-        for(let k=0; k<=stepZ; k++) {
-            const z = (k/stepZ) * (targetH/2);
-            for(let j=1; j<=stepY; j++) {
-                const y = (j/stepY) * targetR;
-                samples.push({x, y, z});
-            }
-        }
-    }
-    const maxHits = samples.length;
-
-    const findExtent = (
-        cfg: {h:number, v:number}[], 
-        startP: Point3D, 
-        dir: Point3D, 
-        maxDist: number
-    ): number => {
-        let low = 0;
-        let high = maxDist;
-        let limit = 0;
-        
-        for(let i=0; i<12; i++) { 
-            const mid = (low + high) / 2;
-            const x = startP.x + dir.x * mid;
-            const y = startP.y + dir.y * mid;
-            const z = startP.z + dir.z * mid;
-            
-            let total = 0;
-            for (const c of cfg) {
-                total += calculateIlluminance(x, y, z, c.h, c.v, sourceIntensity, spectralCorrection, params.beamPattern);
-            }
-            
-            if (total >= threshold) {
-                limit = mid; 
-                low = mid;
-            } else {
-                high = mid; 
-            }
+  useEffect(() => {
+    if (!projectNotice) return;
+    const timer = setTimeout(() => setProjectNotice(null), projectNotice.ok ? 3000 : 8000);
+    return () => clearTimeout(timer);
+  }, [projectNotice]);
+
+  // Restore on startup: a shared link wins over the autosaved session.
+  // Autosave stays off until then so the defaults never overwrite a stored session.
+  const hydratedRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const restore = async () => {
+      try {
+        const shared = await decodeShareHash(window.location.hash);
+        if (shared) {
+          if (cancelled) return;
+          applyProject(shared);
+          history.replaceState(null, '', window.location.pathname + window.location.search);
+          notify(true, 'Loaded shared project');
+          return;
         }
-        return limit;
+      } catch (err) {
+        notify(false, `Share link invalid: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      try {
+        const stored = localStorage.getItem(AUTOSAVE_KEY);
+        if (stored && !cancelled) applyProject(parseProject(stored));
+      } catch (err) {
+        console.warn('Discarding autosaved project:', err);
+      }
     };
+    restore().finally(() => {
+      if (!cancelled) hydratedRef.current = true;
+    });
+    return () => { cancelled = true; };
+  }, []);
 
-    const validResults: OptResult[] = [];
-    const step = 2; 
-    
-    for (let h = 0; h <= 80; h += step) {
-        for (let v = 0; v <= 80; v += step) {
-             const cfg = generateLedConfig(params.ledCount, h, params.rowCount, v);
-             
-             let hits = 0;
-             for(const p of samples) {
-                 let total = 0;
-                 for (const c of cfg) {
-                    total += calculateIlluminance(p.x, p.y, p.z, c.h, c.v, sourceIntensity, spectralCorrection, params.beamPattern);
-                 }
-                 if (total >= threshold) hits++;
-             }
-             
-             const coverage = (hits / maxHits) * 100;
-
-             if (coverage > 2) { 
-                 const range = findExtent(cfg, {x:0, y:0, z:0}, {x:0, y:1, z:0}, targetR * 2);
-                 const halfWidth = findExtent(cfg, {x:0, y:range * 0.5, z:0}, {x:1, y:0, z:0}, targetW * 2);
-                 const halfHeight = findExtent(cfg, {x:0, y:range * 0.5, z:0}, {x:0, y:0, z:1}, targetH * 2);
-
-                 validResults.push({ 
-                    h, v, 
-                    vol: coverage, 
-                    w: halfWidth * 2, 
-                    hDim: halfHeight * 2, 
-                    r: range 
-                 });
-             }
-        }
+  useEffect(() => {
+    if (!hydratedRef.current) return;
+    const timer = setTimeout(() => {
+      try {
+        localStorage.setItem(AUTOSAVE_KEY, serializeProject(projectState));
+      } catch (err) {
+        console.warn('Autosave failed:', err);
+      }
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [projectState]);
+
+  const handleSaveProject = () => {
+    downloadText(serializeProject(projectState), `BeaconSim_${params.wavelength}nm${PROJECT_FILE_EXTENSION}`, 'application/json');
+  };
+
+  const handleOpenProject = async (file: File) => {
+    try {
+      applyProject(parseProject(await file.text()));
+      notify(true, `Opened ${file.name}`);
+    } catch (err) {
+      notify(false, `${file.name}: ${err instanceof Error ? err.message : String(err)}`);
     }
-    
-    validResults.sort((a, b) => b.vol - a.vol);
-    setOptResults(validResults.slice(0, 100)); 
-    setIsOptimizing(false);
-    setShowTarget(true); 
+  };
 
-  }, [params.ledCount, params.rowCount, sourceIntensity, params.beamPattern, spectralCorrection, effectiveThreshold, optTargets]);
+  const handleShareLink = async () => {
+    try {
+      const url = window.location.origin + window.location.pathname + window.location.search + await encodeShareHash(projectState);
+      await navigator.clipboard.writeText(url);
+      notify(true, `Share link copied (${url.length} chars)`);
+    } catch (err) {
+      notify(false, `Could not create share link: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
 
 
   return (
@@ -598,7 +1216,7 @@ const App: React.FC = () => {
                         label="Radiant Intensity" 
                         val={params.peakCandela} 
                         unit=" mW/sr" 
-                        min={0} max={1000} step={10} 
+                        min={0} max={Math.max(1000, params.peakCandela)} step={10} 
                         onChange={v => updateParam('peakCandela', v)} 
                         color="accent-rose-500"
                     />
@@ -607,7 +1225,7 @@ const App: React.FC = () => {
                         label="Peak Intensity" 
                         val={params.peakCandela} 
                         unit=" cd" 
-                        min={0} max={5} step={0.1} 
+                        min={0} max={Math.max(5, Math.ceil(params.peakCandela))} step={0.1} 
                         onChange={v => updateParam('peakCandela', v)} 
                     />
                 )}
@@ -619,17 +1237,55 @@ const App: React.FC = () => {
                     <span className="text-[11px] font-black text-gray-500 uppercase tracking-widest group-hover:text-white transition-colors">Temporal Mode</span>
                     <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
                       <button 
-                        onClick={() => updateParam('isFlashing', false)}
-                        className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${!params.isFlashing ? 'bg-indigo-500 text-white shadow-lg shadow-indigo-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                        onClick={() => setTemporalMode(false, false)}
+                        className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${!isFlashing && !isRotating ? 'bg-indigo-500 text-white shadow-lg shadow-indigo-500/20' : 'text-gray-500 hover:text-gray-300'}`}
                       >Steady</button>
                       <button 
-                        onClick={() => updateParam('isFlashing', true)}
-                        className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${params.isFlashing ? 'bg-emerald-500 text-white shadow-lg shadow-emerald-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                        onClick={() => setTemporalMode(true, false)}
+                        className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${isFlashing ? 'bg-emerald-500 text-white shadow-lg shadow-emerald-500/20' : 'text-gray-500 hover:text-gray-300'}`}
                       >Flashing</button>
+                      <button 
+                        onClick={() => setTemporalMode(false, true)}
+                        className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${isRotating ? 'bg-amber-500 text-white shadow-lg shadow-amber-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                      >Rotating</button>
                     </div>
                   </label>
                 </div>
 
+                {isFlashing && (
+                  <FlashCharacterEditor character={params.flash} onChange={flash => updateParam('flash', flash)} />
+                )}
+
+                {isRotating && (
+                  <div className="bg-white/5 rounded-xl p-3 space-y-4">
+                    <ControlSlider label="Rotation Speed" val={params.rotation.rpm} unit=" rpm" min={1} max={60} step={0.5} onChange={v => updateRotation({ rpm: v })} />
+                    <div className="flex items-center justify-between">
+                      <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Axis</span>
+                      <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+                        {ROTATION_AXES.map(axis => (
+                          <button key={axis} onClick={() => updateRotation({ axis })}
+                            className={`px-3 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${params.rotation.axis === axis ? 'bg-amber-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                          >{axis === 'vertical' ? 'Vertical' : 'Fixture Up'}</button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+                      {INTENSITY_METHODS.map(method => (
+                        <button key={method} onClick={() => updateRotation({ method })}
+                          className={`flex-1 px-2 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${params.rotation.method === method ? 'bg-amber-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                        >{METHOD_LABELS[method]}</button>
+                      ))}
+                    </div>
+                    {sweepInfo && (
+                      <div className="text-[10px] font-mono text-gray-400 space-y-1">
+                        <div className="flex justify-between"><span>Revolution</span><span className="text-white">{sweepInfo.period.toFixed(2)} s</span></div>
+                        <div className="flex justify-between"><span>Pulse (50%)</span><span className="text-white">{(sweepInfo.pulse * 1000).toFixed(0)} ms</span></div>
+                        <div className="flex justify-between"><span>Ie / Peak</span><span className="text-amber-400">{sweepInfo.ratio.toFixed(2)}×</span></div>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div className="flex flex-wrap gap-2 mt-4">
                   {COLOR_PRESETS.map((p) => (
                     <button key={p.wavelength} onClick={() => handlePresetSelect(p)} 
@@ -640,59 +1296,158 @@ const App: React.FC = () => {
               </div>
             </CollapsibleSection>
 
+            <CollapsibleSection title="Meteorological Conditions" icon="fa-cloud-sun" defaultOpen={false}>
+              <div className="space-y-6 py-2">
+                <div className="grid grid-cols-3 gap-2">
+                  {WEATHER_PRESETS.map(w => (
+                    <button key={w.name} onClick={() => updateAtmosphere({ visibilityKm: w.visibilityKm, precipitation: w.precipitation })}
+                      className={`flex flex-col items-center gap-1 py-2 rounded-xl border transition-all ${isActiveWeather(w) ? 'bg-sky-500/20 border-sky-500 text-sky-300' : 'bg-black/40 border-white/5 text-gray-500 hover:text-white'}`}>
+                      <i className={`fas ${w.icon} text-xs`}></i>
+                      <span className="text-[8px] font-black uppercase tracking-widest">{w.name}</span>
+                    </button>
+                  ))}
+                </div>
+
+                <ControlSlider 
+                    label="Met. Optical Range" 
+                    val={Math.log10(params.atmosphere.visibilityKm)} 
+                    min={Math.log10(MIN_VISIBILITY_KM)} max={Math.log10(MAX_VISIBILITY_KM)} step={0.01} 
+                    format={v => formatVisibility(Math.pow(10, v))}
+                    onChange={v => updateAtmosphere({ visibilityKm: Math.round(Math.pow(10, v) * 1000) / 1000 })} 
+                    color="accent-sky-500"
+                />
+
+                <label className="flex items-center justify-between group">
+                  <span className="text-[11px] font-black text-gray-500 uppercase tracking-widest group-hover:text-white transition-colors">Particles</span>
+                  <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+                    {PRECIPITATION_OPTIONS.map(o => (
+                      <button key={o.id} onClick={() => updateAtmosphere({ precipitation: o.id })}
+                        className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${params.atmosphere.precipitation === o.id ? 'bg-sky-500 text-white shadow-lg shadow-sky-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                      >{o.label}</button>
+                    ))}
+                  </div>
+                </label>
+
+                <div className="bg-black/40 rounded-xl p-3 border border-white/5 flex justify-between text-[10px] font-mono">
+                  <span className="text-gray-500">σ @ {params.wavelength}nm</span>
+                  <span className="text-sky-400">{(extinction * 1000).toFixed(3)} km⁻¹</span>
+                </div>
+              </div>
+            </CollapsibleSection>
+
             <CollapsibleSection title="Beam Pattern Table" icon="fa-chart-area" defaultOpen={false}>
               <div className="py-2">
-                <div className="rounded-2xl border border-white/5 overflow-hidden bg-black/30">
-                  <table className="w-full text-[11px] text-left">
-                    <thead className="bg-white/5 text-gray-500 font-black uppercase tracking-widest">
-                      <tr><th className="px-4 py-3">Angle (°)</th><th className="px-4 py-3">Intensity</th></tr>
-                    </thead>
-                    <tbody className="divide-y divide-white/5 font-mono">
-                      {params.beamPattern.map((pt, i) => (
-                        <tr key={i} className="hover:bg-white/5 transition-colors">
-                          <td className="px-4 py-2">
-                            <input type="number" value={pt.angle} onChange={e => updateBeamPoint(i, 'angle', parseFloat(e.target.value))} className="bg-transparent w-full outline-none text-white" disabled={i===0} />
-                          </td>
-                          <td className="px-4 py-2">
-                            <input type="number" step="0.01" value={pt.intensity} onChange={e => updateBeamPoint(i, 'intensity', parseFloat(e.target.value))} className="bg-transparent w-full outline-none text-indigo-400" />
-                          </td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
+                <BeamPatternEditor 
+                    pattern={params.beamPattern} 
+                    peakCandela={params.peakCandela}
+                    onChange={p => updateParam('beamPattern', p)} 
+                    onImport={beam => setParams(prev => ({ ...prev, beamPattern: beam.pattern, peakCandela: beam.peakCandela }))}
+                />
               </div>
             </CollapsibleSection>
 
             <CollapsibleSection title="Array Configuration" icon="fa-th" defaultOpen={true}>
               <div className="space-y-6 py-2">
-                <div className="bg-white/5 rounded-xl p-3 mb-2">
-                    <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest block mb-4">Plan (Horizontal)</span>
-                    <ControlSlider label="LED Columns" val={params.ledCount} min={1} max={8} step={1} onChange={v => updateParam('ledCount', v)} showMarkers={true} />
-                    <ControlSlider label="Plan Spread" val={params.spreadAngle} unit="°" min={0} max={90} step={1} onChange={v => updateParam('spreadAngle', v)} />
+                <div className="grid grid-cols-4 gap-1">
+                  {ARRAY_LAYOUTS.map(layout => (
+                    <button key={layout}
+                      onClick={() => layout === 'custom'
+                        ? editEmitters(params.array.emitters.length > 0 ? params.array.emitters : fixtureLeds)
+                        : updateArray({ layout })}
+                      className={`py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${params.array.layout === layout ? 'bg-indigo-500 text-white' : 'bg-black/40 text-gray-500 hover:text-gray-300'}`}
+                    >{LAYOUT_LABELS[layout]}</button>
+                  ))}
                 </div>
-                
-                <div className="bg-white/5 rounded-xl p-3">
-                    <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest block mb-4">Elevation (Vertical)</span>
-                    <ControlSlider label="LED Rows" val={params.rowCount} min={1} max={8} step={1} onChange={v => updateParam('rowCount', v)} showMarkers={true} />
-                    <ControlSlider label="Elev Spread" val={params.verticalSpreadAngle} unit="°" min={0} max={90} step={1} onChange={v => updateParam('verticalSpreadAngle', v)} />
+
+                {params.array.layout !== 'custom' && (
+                  <>
+                    <div className="bg-white/5 rounded-xl p-3 mb-2">
+                        <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest block mb-4">Plan (Horizontal)</span>
+                        <ControlSlider label="LED Columns" val={params.ledCount} min={1} max={8} step={1} onChange={v => updateParam('ledCount', v)} showMarkers={true} />
+                        {params.array.layout !== 'ring' && params.array.layout !== 'hemisphere' && (
+                          <ControlSlider label="Plan Spread" val={params.spreadAngle} unit="°" min={0} max={90} step={1} onChange={v => updateParam('spreadAngle', v)} />
+                        )}
+                    </div>
+                    
+                    <div className="bg-white/5 rounded-xl p-3">
+                        <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest block mb-4">Elevation (Vertical)</span>
+                        <ControlSlider label="LED Rows" val={params.rowCount} min={1} max={8} step={1} onChange={v => updateParam('rowCount', v)} showMarkers={true} />
+                        {params.array.layout !== 'hemisphere' && (
+                          <ControlSlider label="Elev Spread" val={params.verticalSpreadAngle} unit="°" min={0} max={90} step={1} onChange={v => updateParam('verticalSpreadAngle', v)} />
+                        )}
+                    </div>
+
+                    {params.array.layout !== 'fan' && (
+                      <div className="bg-white/5 rounded-xl p-3 space-y-4">
+                        <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest block">Placement</span>
+                        {(params.array.layout === 'line' || params.array.layout === 'grid' || params.array.layout === 'ring') && (
+                          <ControlSlider label="Pitch" val={params.array.pitch * 1000} unit=" mm" min={5} max={500} step={5} onChange={v => updateArray({ pitch: v / 1000 })} />
+                        )}
+                        {(params.array.layout === 'ring' || params.array.layout === 'dome' || params.array.layout === 'hemisphere') && (
+                          <ControlSlider label="Radius" val={params.array.radius * 1000} unit=" mm" min={10} max={2000} step={10} onChange={v => updateArray({ radius: v / 1000 })} />
+                        )}
+                      </div>
+                    )}
+                  </>
+                )}
+
+                <div className="bg-white/5 rounded-xl p-3 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">Fixture Mounting</span>
+                    {mounted && (
+                      <button onClick={() => updateParam('mounting', { ...DEFAULT_MOUNTING })} className="text-[9px] font-black uppercase tracking-widest text-gray-500 hover:text-white">Level</button>
+                    )}
+                  </div>
+                  <ControlSlider label="Yaw" val={params.mounting.yaw} unit="°" min={-180} max={180} step={1} onChange={v => updateMounting({ yaw: v })} />
+                  <ControlSlider label="Tilt (Pitch)" val={params.mounting.pitch} unit="°" min={-90} max={90} step={0.5} onChange={v => updateMounting({ pitch: v })} />
+                  <ControlSlider label="Roll" val={params.mounting.roll} unit="°" min={-180} max={180} step={1} onChange={v => updateMounting({ roll: v })} />
                 </div>
+
+                <EmitterTableEditor emitters={fixtureLeds} onChange={editEmitters} />
+              </div>
+            </CollapsibleSection>
+
+            <CollapsibleSection title="Scene & Coverage" icon="fa-map-marker-alt" defaultOpen={false}>
+              <div className="py-2 space-y-4">
+                <p className="text-[10px] text-gray-500 leading-relaxed">
+                  Further beacons around the primary one, each with its own position, heading and optics. Their light adds up in the plan view; only beacons in the primary's band (visible or infrared) are counted.
+                </p>
+                <SceneEditor
+                  scene={params.scene}
+                  primaryOptics={primaryOptics}
+                  gridLimits={params.gridLimits}
+                  report={coverageReport}
+                  onChange={scene => updateParam('scene', scene)}
+                />
               </div>
             </CollapsibleSection>
 
             <CollapsibleSection title="Auto-Optimizer" icon="fa-magic" defaultOpen={false}>
               <div className="py-2 space-y-4">
                 <p className="text-[10px] text-gray-500 leading-relaxed">
-                   Maximizes volumetric coverage within the target dimensions.
+                   Trades LED count and total intensity against coverage of the target box and regions, keeping only designs that reach the box's range and leave the exclusion zones dark.
+                   Searches columns, rows, spreads, peak intensity and the beam (current, narrowed or widened) with NSGA-II.
+                   {params.array.layout === 'custom' && ' Generated layouts only.'}
                 </p>
-                <div className="grid grid-cols-3 gap-2">
+                <div className="flex items-center justify-between">
+                    <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">Axis Box</span>
+                    <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+                      {[true, false].map(on => (
+                        <button key={String(on)} onClick={() => setOptTargets(prev => ({ ...prev, box: on }))}
+                          className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${optTargets.box === on ? 'bg-indigo-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                        >{on ? 'On' : 'Off'}</button>
+                      ))}
+                    </div>
+                </div>
+                <div className={`grid grid-cols-3 gap-2 transition-opacity ${optTargets.box ? '' : 'opacity-40'}`}>
                     <div className="bg-black/40 rounded-xl p-2 border border-white/5">
                         <label className="text-[8px] font-bold text-gray-400 uppercase block mb-1">Target Width</label>
                         <div className="flex items-center gap-1">
                             <input 
                               type="number" 
                               value={optTargets.width} 
-                              onChange={e => setOptTargets(prev => ({ ...prev, width: parseFloat(e.target.value) }))}
+                              min={OPTIMIZER_MIN_TARGET}
+                              onChange={e => setTargetSize('width', e.target.value)}
                               className="w-full bg-transparent text-white font-mono text-xs outline-none" 
                             />
                             <span className="text-[9px] text-gray-600">m</span>
@@ -704,7 +1459,8 @@ const App: React.FC = () => {
                             <input 
                               type="number" 
                               value={optTargets.height} 
-                              onChange={e => setOptTargets(prev => ({ ...prev, height: parseFloat(e.target.value) }))}
+                              min={OPTIMIZER_MIN_TARGET}
+                              onChange={e => setTargetSize('height', e.target.value)}
                               className="w-full bg-transparent text-white font-mono text-xs outline-none" 
                             />
                             <span className="text-[9px] text-gray-600">m</span>
@@ -716,32 +1472,58 @@ const App: React.FC = () => {
                             <input 
                               type="number" 
                               value={optTargets.range} 
-                              onChange={e => setOptTargets(prev => ({ ...prev, range: parseFloat(e.target.value) }))}
+                              min={OPTIMIZER_MIN_TARGET}
+                              onChange={e => setTargetSize('range', e.target.value)}
                               className="w-full bg-transparent text-white font-mono text-xs outline-none" 
                             />
                             <span className="text-[9px] text-gray-600">m</span>
                         </div>
                     </div>
                 </div>
+
+                <div className="space-y-2">
+                    <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">Regions</span>
+                    <TargetRegionEditor
+                      regions={optTargets.regions}
+                      drawing={regionDraw}
+                      trueHeading={params.geo.enabled ? params.geo.heading : undefined}
+                      onChange={regions => setOptTargets(prev => ({ ...prev, regions }))}
+                      onDraw={kind => {
+                        setRegionDraw(kind);
+                        if (kind) setShowTarget(true);
+                      }}
+                    />
+                </div>
                 
                 <div className="flex items-center justify-between">
-                     <button 
-                      onClick={handleOptimize}
-                      disabled={isOptimizing}
-                      className="flex-1 py-3 bg-gradient-to-r from-violet-600 to-indigo-600 rounded-xl shadow-lg shadow-indigo-500/20 hover:scale-[1.02] active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 group"
-                    >
-                      {isOptimizing ? (
-                        <>
-                          <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                          <span className="text-[10px] font-black uppercase tracking-widest text-white">Scanning...</span>
-                        </>
-                      ) : (
-                        <>
-                          <i className="fas fa-search text-xs text-yellow-300 group-hover:animate-pulse"></i>
-                          <span className="text-[10px] font-black uppercase tracking-widest text-white">Find Options</span>
-                        </>
-                      )}
-                    </button>
+                    {isOptimizing ? (
+                      <div className="flex-1 flex items-center gap-2">
+                        <div className="flex-1 bg-black/40 rounded-xl p-2 border border-white/5">
+                          <div className="flex justify-between text-[8px] font-bold text-gray-400 uppercase mb-1.5">
+                            <span>Generation {optProgress.generation}/{optProgress.generations}</span>
+                            <span className="font-mono">{optProgress.eta === null ? 'ETA …' : `ETA ${Math.ceil(optProgress.eta / 1000)}s`}</span>
+                          </div>
+                          <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
+                            <div className="h-full bg-gradient-to-r from-violet-600 to-indigo-600 transition-all" style={{ width: `${(optProgress.generation / optProgress.generations) * 100}%` }} />
+                          </div>
+                        </div>
+                        <button
+                          onClick={cancelOptimize}
+                          className="px-3 py-3 rounded-xl bg-rose-500/10 border border-rose-500/30 text-rose-400 hover:bg-rose-500/20 text-[9px] font-black uppercase tracking-widest transition-all"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <button 
+                        onClick={handleOptimize}
+                        disabled={params.array.layout === 'custom' || !hasTargetVolume}
+                        className="flex-1 py-3 bg-gradient-to-r from-violet-600 to-indigo-600 rounded-xl shadow-lg shadow-indigo-500/20 hover:scale-[1.02] active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 group"
+                      >
+                        <i className="fas fa-search text-xs text-yellow-300 group-hover:animate-pulse"></i>
+                        <span className="text-[10px] font-black uppercase tracking-widest text-white">Find Options</span>
+                      </button>
+                    )}
                     
                     <button 
                         onClick={() => setShowTarget(!showTarget)}
@@ -752,38 +1534,55 @@ const App: React.FC = () => {
                     </button>
                 </div>
                 
-                {optResults.length > 0 ? (
-                  <div className="mt-2 bg-black/40 rounded-xl border border-white/5 overflow-hidden max-h-60 overflow-y-auto custom-scrollbar">
-                    <table className="w-full text-[10px] text-left border-collapse">
-                      <thead className="sticky top-0 bg-gray-900 text-gray-400 font-bold uppercase tracking-wider shadow-sm z-10">
-                        <tr>
-                          <th className="p-3">Spread</th>
-                          <th className="p-3">Range</th>
-                          <th className="p-3">Coverage</th>
-                          <th className="p-3 text-right">Set</th>
-                        </tr>
-                      </thead>
-                      <tbody className="divide-y divide-white/5">
-                        {optResults.map((res, i) => (
-                          <tr key={i} className="hover:bg-indigo-500/10 transition-colors group/row cursor-pointer" onClick={() => applyOptResult(res)}>
-                             <td className="p-3 font-mono text-white">
-                                <div className="flex flex-col">
-                                   <span className="text-gray-300">H: <b className="text-white">{res.h}°</b></span>
-                                   <span className="text-gray-500">V: {res.v}°</span>
-                                </div>
-                             </td>
-                             <td className="p-3 font-mono text-gray-400">{(res.r/1000).toFixed(1)}km</td>
-                             <td className="p-3 font-mono text-emerald-400 font-bold">{res.vol.toFixed(1)}%</td>
-                             <td className="p-3 text-right">
-                                <button className="w-6 h-6 rounded-full bg-white/5 flex items-center justify-center group-hover/row:bg-indigo-500 transition-colors">
-                                    <i className="fas fa-arrow-right text-[8px] text-gray-500 group-hover/row:text-white"></i>
-                                </button>
-                             </td>
+                {optResults.length > 0 || optPartial.length > 0 ? (
+                  <>
+                  <ParetoChart results={optResults} provisional={optPartial} selected={appliedOpt} unit={isInfrared ? 'mW/sr' : 'cd'} onSelect={applyOptResult} />
+                  {optResults.length > 0 && (
+                    <div className="mt-2 bg-black/40 rounded-xl border border-white/5 overflow-hidden max-h-60 overflow-y-auto custom-scrollbar">
+                      <table className="w-full text-[10px] text-left border-collapse">
+                        <thead className="sticky top-0 bg-gray-900 text-gray-400 font-bold uppercase tracking-wider shadow-sm z-10">
+                          <tr>
+                            <th className="p-3">LEDs</th>
+                            <th className="p-3">Spread</th>
+                            <th className="p-3">Range</th>
+                            <th className="p-3">Coverage</th>
+                            <th className="p-3 text-right">Set</th>
                           </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                          {optResults.map((res, i) => (
+                            <tr key={i} className={`hover:bg-indigo-500/10 transition-colors group/row cursor-pointer ${isSameDesign(res, appliedOpt) ? 'bg-indigo-500/10' : ''}`} onClick={() => applyOptResult(res)}>
+                               <td className="p-3 font-mono text-white">
+                                  <div className="flex flex-col">
+                                     <span className="text-gray-300"><b className="text-white">{res.columns}×{res.rows}</b> · {res.peak} {isInfrared ? 'mW/sr' : 'cd'}</span>
+                                     <span className="text-gray-500">{res.beam.name}</span>
+                                  </div>
+                               </td>
+                               <td className="p-3 font-mono text-white">
+                                  <div className="flex flex-col">
+                                     <span className="text-gray-300">H: <b className="text-white">{res.h}°</b></span>
+                                     <span className="text-gray-500">V: {res.v}°</span>
+                                  </div>
+                               </td>
+                               <td className={`p-3 font-mono ${res.reachesRange ? 'text-gray-400' : 'text-rose-400'}`}>{(res.range / 1000).toFixed(1)}km</td>
+                               <td className="p-3 font-mono">
+                                  <div className="flex flex-col">
+                                     <span className="text-emerald-400 font-bold">{res.coverage.toFixed(1)}%</span>
+                                     {res.spill > 0 && <span className="text-rose-400">spill {res.spill.toFixed(1)}%</span>}
+                                  </div>
+                               </td>
+                               <td className="p-3 text-right">
+                                  <button className="w-6 h-6 rounded-full bg-white/5 flex items-center justify-center group-hover/row:bg-indigo-500 transition-colors">
+                                      <i className="fas fa-arrow-right text-[8px] text-gray-500 group-hover/row:text-white"></i>
+                                  </button>
+                               </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                  </>
                 ) : !isOptimizing && (
                    <div className="p-3 text-center text-[10px] text-gray-600 italic border border-white/5 rounded-xl border-dashed">
                       No efficient configurations found.
@@ -814,6 +1613,402 @@ const App: React.FC = () => {
                         color="accent-emerald-500" 
                      />
                  )}
+                 {!isInfrared && (
+                   <div className="mt-6 space-y-4">
+                     <label className="flex items-center justify-between group">
+                       <span className="text-[11px] font-black text-gray-500 uppercase tracking-widest group-hover:text-white transition-colors">Vision</span>
+                       <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+                         {VISION_MODES.map(m => (
+                           <button key={m.id} onClick={() => updateVision({ mode: m.id })}
+                             className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${params.vision.mode === m.id ? 'bg-emerald-500 text-white shadow-lg shadow-emerald-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                           >{m.label}</button>
+                         ))}
+                       </div>
+                     </label>
+                     {params.vision.mode === 'mesopic' && (
+                       <>
+                         <ControlSlider
+                           label="Background"
+                           val={Math.log10(params.vision.adaptationLuminance)}
+                           min={-3} max={1} step={0.1}
+                           unit="Log cd/m²"
+                           onChange={v => updateVision({ adaptationLuminance: Math.pow(10, v) })}
+                           color="accent-emerald-500"
+                         />
+                         <div className="flex items-center gap-2">
+                           <div className="bg-black/40 rounded-xl p-2 border border-white/5 w-20 shrink-0">
+                             <label className="text-[8px] font-bold text-gray-400 uppercase block mb-1">S/P</label>
+                             <input type="number" step={0.05} min={0.1} value={params.vision.spRatio}
+                               onChange={e => {
+                                 const v = parseFloat(e.target.value);
+                                 if (Number.isFinite(v) && v >= 0.1) updateVision({ spRatio: v });
+                               }}
+                               className="w-full bg-transparent text-white font-mono text-xs outline-none" />
+                           </div>
+                           <div className="flex-1 grid grid-cols-2 gap-1">
+                             {BACKGROUND_SP_PRESETS.map(p => (
+                               <button key={p.name} onClick={() => updateVision({ spRatio: p.spRatio })}
+                                 className={`py-1 rounded-lg text-[8px] font-black uppercase tracking-widest transition-colors ${params.vision.spRatio === p.spRatio ? 'bg-emerald-500/20 text-emerald-300' : 'bg-black/40 text-gray-500 hover:text-gray-300'}`}
+                               >{p.name}</button>
+                             ))}
+                           </div>
+                         </div>
+                       </>
+                     )}
+                     <div className="text-[10px] font-mono text-gray-500 flex justify-between">
+                       <span>Adaptation m = <span className="text-white">{adaptation.toFixed(2)}</span></span>
+                       <span>Spectral factor <span className="text-white">{spectralCorrection.toFixed(2)}×</span></span>
+                     </div>
+                     <p className="text-[9px] text-gray-600 leading-relaxed">
+                        Mesopic (CIE 191) blends cone and rod sensitivity for an eye adapted to the background luminance and the S/P ratio of its lighting: from 5 cd/m² up vision is photopic, below 0.005 cd/m² scotopic.
+                     </p>
+                   </div>
+                 )}
+              </div>
+            </CollapsibleSection>
+
+            <CollapsibleSection title="Geo-Reference" icon="fa-globe-europe" defaultOpen={false}>
+              <div className="space-y-4 py-2">
+                <label className="flex items-center justify-between group">
+                  <span className="text-[11px] font-black text-gray-500 uppercase tracking-widest group-hover:text-white transition-colors">Placement</span>
+                  <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+                    <button onClick={() => updateGeo({ enabled: false })}
+                      className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${!params.geo.enabled ? 'bg-indigo-500 text-white shadow-lg shadow-indigo-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                    >Local</button>
+                    <button onClick={() => updateGeo({ enabled: true })}
+                      className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${params.geo.enabled ? 'bg-teal-500 text-white shadow-lg shadow-teal-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                    >WGS84</button>
+                  </div>
+                </label>
+
+                {params.geo.enabled && (
+                  <>
+                    <div className="grid grid-cols-2 gap-2">
+                      {([
+                        { key: 'latitude', label: 'Latitude', unit: '°', step: 0.0001 },
+                        { key: 'longitude', label: 'Longitude', unit: '°', step: 0.0001 },
+                        { key: 'heightAboveGround', label: 'Height AGL', unit: 'm', step: 1 },
+                        { key: 'heading', label: 'Heading (True)', unit: '°', step: 1 }
+                      ] as const).map(f => (
+                        <div key={f.key} className="bg-black/40 rounded-xl p-2 border border-white/5">
+                          <label className="text-[8px] font-bold text-gray-400 uppercase block mb-1">{f.label}</label>
+                          <div className="flex items-center gap-1">
+                            <input 
+                              type="number" 
+                              step={f.step}
+                              value={params.geo[f.key]} 
+                              onChange={e => {
+                                const v = parseFloat(e.target.value);
+                                if (!Number.isFinite(v)) return;
+                                updateGeo({ [f.key]: f.key === 'heading' ? ((v % 360) + 360) % 360 : v });
+                              }}
+                              className="w-full bg-transparent text-white font-mono text-xs outline-none" 
+                            />
+                            <span className="text-[9px] text-gray-600">{f.unit}</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-2">
+                      {(['geojson', 'kml', 'gpx'] as const).map(fmt => (
+                        <button key={fmt} onClick={() => handleExportGeo(fmt)} disabled={!hasContours}
+                          className="py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors disabled:opacity-30">
+                          <i className="fas fa-map-marked-alt mr-1"></i>{fmt}
+                        </button>
+                      ))}
+                    </div>
+
+                    <div className="bg-white/5 rounded-xl p-3 space-y-3">
+                      <span className="text-[10px] font-black text-teal-400 uppercase tracking-widest block">Offline Basemap</span>
+                      <div className="flex gap-2">
+                        <button onClick={() => mbtilesRef.current?.click()} className="flex-1 py-2 rounded-xl bg-black/40 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+                          <i className="fas fa-database mr-2"></i>MBTiles
+                        </button>
+                        <button onClick={() => xyzFolderRef.current?.click()} className="flex-1 py-2 rounded-xl bg-black/40 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+                          <i className="fas fa-folder mr-2"></i>XYZ Folder
+                        </button>
+                        {basemapSource && (
+                          <button onClick={() => { setBasemapSource(null); setBasemapStatus(null); }} className="px-3 py-2 rounded-xl bg-black/40 text-[9px] text-gray-400 hover:text-rose-400" title="Remove basemap">
+                            <i className="fas fa-trash"></i>
+                          </button>
+                        )}
+                        <input ref={mbtilesRef} type="file" accept=".mbtiles" className="hidden"
+                          onChange={e => {
+                            const file = e.target.files?.[0];
+                            if (file) loadBasemap(file.name, () => openMBTiles(file));
+                            e.target.value = '';
+                          }} />
+                        <input ref={xyzFolderRef} type="file" multiple className="hidden" {...{ webkitdirectory: '' }}
+                          onChange={e => {
+                            const files = Array.from(e.target.files ?? []);
+                            if (files.length) loadBasemap('XYZ folder', () => openXYZFolder(files));
+                            e.target.value = '';
+                          }} />
+                      </div>
+                      {basemapStatus && (
+                        <div className={`text-[10px] font-mono break-all ${basemapStatus.ok ? 'text-teal-300' : 'text-rose-300'}`}>{basemapStatus.message}</div>
+                      )}
+                      {basemapSource && (
+                        <ControlSlider label="Map Opacity" val={basemapOpacity * 100} unit="%" min={10} max={100} step={5} onChange={v => setBasemapOpacity(v / 100)} color="accent-teal-500" />
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+            </CollapsibleSection>
+
+            <CollapsibleSection title="Terrain & Obstructions" icon="fa-mountain" defaultOpen={false}>
+              <div className="space-y-4 py-2">
+                <p className="text-[10px] text-gray-500 leading-relaxed">
+                   Line of sight from the emitter is ray-marched over a DEM and extruded building footprints. Blocked points are zeroed and hatched.
+                </p>
+                <label className="flex items-center justify-between group">
+                  <span className="text-[11px] font-black text-gray-500 uppercase tracking-widest group-hover:text-white transition-colors">Occlusion</span>
+                  <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+                    <button onClick={() => updateTerrain({ enabled: false })}
+                      className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${!params.terrain.enabled ? 'bg-indigo-500 text-white shadow-lg shadow-indigo-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                    >Off</button>
+                    <button onClick={() => updateTerrain({ enabled: true })}
+                      className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${params.terrain.enabled ? 'bg-teal-500 text-white shadow-lg shadow-teal-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                    >On</button>
+                  </div>
+                </label>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <button onClick={() => demRef.current?.click()} className="py-2 rounded-xl bg-black/40 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+                    <i className="fas fa-mountain mr-2"></i>DEM
+                  </button>
+                  <button onClick={() => buildingsRef.current?.click()} className="py-2 rounded-xl bg-black/40 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+                    <i className="fas fa-building mr-2"></i>Buildings
+                  </button>
+                  <input ref={demRef} type="file" accept=".tif,.tiff,.asc" className="hidden"
+                    onChange={e => {
+                      const file = e.target.files?.[0];
+                      if (file) loadDem(file);
+                      e.target.value = '';
+                    }} />
+                  <input ref={buildingsRef} type="file" accept=".geojson,.json" className="hidden"
+                    onChange={e => {
+                      const file = e.target.files?.[0];
+                      if (file) loadBuildings(file);
+                      e.target.value = '';
+                    }} />
+                </div>
+
+                {(dem || buildings) && (
+                  <div className="bg-white/5 rounded-xl p-3 space-y-2 text-[10px] font-mono">
+                    {dem && (
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-gray-300 truncate">{dem.name}</span>
+                        <div className="flex items-center gap-2">
+                          <div className="flex bg-black/40 p-0.5 rounded-lg border border-white/5">
+                            {(['geographic', 'projected'] as const).map(crs => (
+                              <button key={crs} onClick={() => setDem({ ...dem, crs })}
+                                className={`px-2 py-1 text-[8px] font-black uppercase rounded-md transition-all ${dem.crs === crs ? 'bg-teal-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                              >{crs === 'geographic' ? 'Lat/Lon' : 'Metric'}</button>
+                            ))}
+                          </div>
+                          <button onClick={() => setDem(null)} className="text-gray-500 hover:text-rose-400" title="Remove DEM"><i className="fas fa-trash"></i></button>
+                        </div>
+                      </div>
+                    )}
+                    {buildings && (
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-gray-300 truncate">{buildings.name} ({buildings.footprints.length})</span>
+                        <button onClick={() => setBuildings(null)} className="text-gray-500 hover:text-rose-400" title="Remove buildings"><i className="fas fa-trash"></i></button>
+                      </div>
+                    )}
+                    {terrainGrid && (
+                      <div className="text-gray-500">
+                        Ground at beacon: <span className="text-white">{Number.isFinite(beaconGround) ? `${beaconGround.toFixed(1)} m` : 'outside DEM'}</span>
+                        {' · '}Emitter: <span className="text-white">{occluders ? `${occluders.emitterElevation.toFixed(1)} m` : '-'}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-3 gap-2">
+                  {([
+                    { label: 'Mount AGL', unit: 'm', value: params.geo.heightAboveGround, set: (v: number) => updateGeo({ heightAboveGround: v }) },
+                    { label: 'Easting', unit: 'm', value: params.terrain.originEasting, set: (v: number) => updateTerrain({ originEasting: v }) },
+                    { label: 'Northing', unit: 'm', value: params.terrain.originNorthing, set: (v: number) => updateTerrain({ originNorthing: v }) }
+                  ]).map(f => (
+                    <div key={f.label} className="bg-black/40 rounded-xl p-2 border border-white/5">
+                      <label className="text-[8px] font-bold text-gray-400 uppercase block mb-1">{f.label}</label>
+                      <div className="flex items-center gap-1">
+                        <input 
+                          type="number" 
+                          value={f.value} 
+                          onChange={e => {
+                            const v = parseFloat(e.target.value);
+                            if (Number.isFinite(v)) f.set(v);
+                          }}
+                          className="w-full bg-transparent text-white font-mono text-xs outline-none" 
+                        />
+                        <span className="text-[9px] text-gray-600">{f.unit}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-[9px] text-gray-600 leading-relaxed">
+                   Easting/Northing place the beacon in projected (metric) data. Lat/Lon data uses the Geo-Reference position.
+                </p>
+
+                {needsGeo && (
+                  <div className="text-[10px] font-mono text-amber-300">Enable WGS84 placement to position lat/lon data.</div>
+                )}
+                {terrainStatus && (
+                  <div className={`text-[10px] font-mono break-all ${terrainStatus.ok ? 'text-teal-300' : 'text-rose-300'}`}>{terrainStatus.message}</div>
+                )}
+              </div>
+            </CollapsibleSection>
+
+            <CollapsibleSection title="Obtrusive Light" icon="fa-house-user" defaultOpen={false}>
+              <div className="py-2 space-y-4">
+                <p className="text-[10px] text-gray-500 leading-relaxed">
+                   Light trespass and glare at neighbouring receptors from all beacons in the visible band (CIE 150): vertical illuminance and intensity at windows, horizontal illuminance on the ground, and the threshold increment for drivers. Offenders are marked red on the plots and in 3D.
+                </p>
+                <ReceptorEditor receptors={params.receptors} results={isInfrared ? null : receptorResults} onChange={receptors => updateParam('receptors', receptors)} />
+              </div>
+            </CollapsibleSection>
+
+            <CollapsibleSection title="Horizon & Curvature" icon="fa-water" defaultOpen={false}>
+              <div className="space-y-4 py-2">
+                <label className="flex items-center justify-between group">
+                  <span className="text-[11px] font-black text-gray-500 uppercase tracking-widest group-hover:text-white transition-colors">Earth Curvature</span>
+                  <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+                    <button onClick={() => updateHorizon({ enabled: false })}
+                      className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${!params.horizon.enabled ? 'bg-indigo-500 text-white shadow-lg shadow-indigo-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                    >Flat</button>
+                    <button onClick={() => updateHorizon({ enabled: true })}
+                      className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${params.horizon.enabled ? 'bg-sky-500 text-white shadow-lg shadow-sky-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                    >Curved</button>
+                  </div>
+                </label>
+
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { label: 'Beacon Height', value: params.geo.heightAboveGround, set: (v: number) => updateGeo({ heightAboveGround: v }) },
+                    { label: 'Eye Height', value: params.horizon.observerHeight, set: (v: number) => updateHorizon({ observerHeight: v }) }
+                  ]).map(f => (
+                    <div key={f.label} className="bg-black/40 rounded-xl p-2 border border-white/5">
+                      <label className="text-[8px] font-bold text-gray-400 uppercase block mb-1">{f.label}</label>
+                      <div className="flex items-center gap-1">
+                        <input 
+                          type="number" 
+                          min={0}
+                          value={f.value} 
+                          onChange={e => {
+                            const v = parseFloat(e.target.value);
+                            if (Number.isFinite(v) && v >= 0) f.set(v);
+                          }}
+                          className="w-full bg-transparent text-white font-mono text-xs outline-none" 
+                        />
+                        <span className="text-[9px] text-gray-600">m</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <ControlSlider label="Refraction k" val={params.horizon.refractionK} min={0} max={0.3} step={0.01} format={v => v.toFixed(2)} onChange={v => updateHorizon({ refractionK: v })} color="accent-sky-500" />
+
+                <div className="bg-white/5 rounded-xl p-3 space-y-1 text-[10px] font-mono">
+                  <div className="flex justify-between"><span className="text-gray-500">Luminous Range</span><span className="text-white">{formatRange(luminousRange)}</span></div>
+                  <div className="flex justify-between"><span className="text-gray-500">Geographic Range</span><span className="text-white">{formatRange(geographicRange)}</span></div>
+                  <div className="flex justify-between pt-1 border-t border-white/5">
+                    <span className="text-gray-500">Limited By</span>
+                    <span className={luminousRange <= geographicRange ? 'text-amber-300' : 'text-sky-300'}>{luminousRange <= geographicRange ? 'Luminous intensity' : 'Horizon'}</span>
+                  </div>
+                </div>
+                <p className="text-[9px] text-gray-600 leading-relaxed">
+                   Rays travel straight over an earth of radius R/(1−k). With curvature on, the plan view is sampled at eye height above the surface and points below the horizon are clipped.
+                </p>
+              </div>
+            </CollapsibleSection>
+
+            <CollapsibleSection title="Slice Plane" icon="fa-cut" defaultOpen={false}>
+              <div className="space-y-4 py-2">
+                <label className="flex items-center justify-between group">
+                  <span className="text-[11px] font-black text-gray-500 uppercase tracking-widest group-hover:text-white transition-colors">User Slice</span>
+                  <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+                    <button onClick={() => updateSlice({ enabled: false })}
+                      className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${!params.slice.enabled ? 'bg-indigo-500 text-white shadow-lg shadow-indigo-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                    >Off</button>
+                    <button onClick={() => updateSlice({ enabled: true })}
+                      className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${params.slice.enabled ? 'bg-fuchsia-500 text-white shadow-lg shadow-fuchsia-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                    >On</button>
+                  </div>
+                </label>
+
+                {params.slice.enabled && (
+                  <>
+                    <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+                      {SLICE_MODES.map(m => (
+                        <button key={m.id} onClick={() => updateSlice({ mode: m.id })}
+                          className={`flex-1 px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${params.slice.mode === m.id ? 'bg-fuchsia-500 text-white shadow-lg shadow-fuchsia-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+                        >{m.label}</button>
+                      ))}
+                    </div>
+
+                    {params.slice.mode === 'horizontal' && (
+                      <ControlSlider label="Height" val={params.slice.height} unit="m" min={-200} max={1000} step={1} onChange={v => updateSlice({ height: v })} color="accent-fuchsia-500" />
+                    )}
+                    {params.slice.mode === 'vertical' && (
+                      <ControlSlider label="Bearing" val={params.slice.bearing} unit="°" min={0} max={359} step={1} onChange={v => updateSlice({ bearing: v })} color="accent-fuchsia-500" />
+                    )}
+                    {params.slice.mode === 'custom' && (
+                      <div className="space-y-2">
+                        {([
+                          { label: 'Origin', unit: 'm', nonZero: false, value: params.slice.origin, set: (p: Point3D) => updateSlice({ origin: p }) },
+                          { label: 'Normal', unit: '', nonZero: true, value: params.slice.normal, set: (p: Point3D) => updateSlice({ normal: p }) }
+                        ]).map(f => (
+                          <div key={f.label} className="grid grid-cols-3 gap-2">
+                            {(['x', 'y', 'z'] as const).map(axis => (
+                              <div key={axis} className="bg-black/40 rounded-xl p-2 border border-white/5">
+                                <label className="text-[8px] font-bold text-gray-400 uppercase block mb-1">{f.label} {axis}</label>
+                                <div className="flex items-center gap-1">
+                                  <input
+                                    type="number"
+                                    step={f.unit ? 1 : 0.1}
+                                    value={f.value[axis]}
+                                    onChange={e => {
+                                      const v = parseFloat(e.target.value);
+                                      if (!Number.isFinite(v)) return;
+                                      const next = { ...f.value, [axis]: v };
+                                      // A zero normal has no plane; keep the last valid one
+                                      if (f.nonZero && next.x === 0 && next.y === 0 && next.z === 0) return;
+                                      f.set(next);
+                                    }}
+                                    className="w-full bg-transparent text-white font-mono text-xs outline-none"
+                                  />
+                                  {f.unit && <span className="text-[9px] text-gray-600">{f.unit}</span>}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                        <ControlSlider label="Extent" val={params.slice.extent} unit="m" min={10} max={20000} step={10} onChange={v => updateSlice({ extent: v })} color="accent-fuchsia-500" />
+                      </div>
+                    )}
+                  </>
+                )}
+                <p className="text-[9px] text-gray-600 leading-relaxed">
+                   Samples the field on an extra plane with its own heatmap, contours and DXF. Drag the plane in the 3D view to move or tilt it; that turns it into a custom plane.
+                </p>
+              </div>
+            </CollapsibleSection>
+
+            <CollapsibleSection title="Contour Levels" icon="fa-layer-group" defaultOpen={false}>
+              <div className="py-2 space-y-3">
+                <p className="text-[10px] text-gray-500 leading-relaxed">
+                   Named isolines drawn inside the detection threshold. Each level gets its own DXF layer and 3D shell.
+                </p>
+                <ContourLevelEditor 
+                    levels={params.contourLevels} 
+                    unit={isInfrared ? 'W/m²' : 'lx'}
+                    onChange={levels => updateParam('contourLevels', levels)} 
+                />
               </div>
             </CollapsibleSection>
 
@@ -860,6 +2055,32 @@ const App: React.FC = () => {
                Instructions
                {activeTab === 'HELP' && <span className="absolute bottom-0 left-0 w-full h-0.5 bg-emerald-500 shadow-[0_0_10px_rgba(16,185,129,0.5)]"></span>}
              </button>
+
+             <div className="ml-auto pb-3 flex items-center gap-2">
+               {projectNotice && (
+                 <span className={`max-w-md truncate text-[10px] font-mono ${projectNotice.ok ? 'text-emerald-400' : 'text-rose-400'}`} title={projectNotice.message}>
+                   {projectNotice.message}
+                 </span>
+               )}
+               <button onClick={handleSaveProject} title="Save project"
+                 className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+                 <i className="fas fa-save mr-2"></i>Save
+               </button>
+               <button onClick={() => projectFileRef.current?.click()} title="Open project"
+                 className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+                 <i className="fas fa-folder-open mr-2"></i>Open
+               </button>
+               <button onClick={handleShareLink} title="Copy a link that restores this project"
+                 className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+                 <i className="fas fa-link mr-2"></i>Share
+               </button>
+               <input ref={projectFileRef} type="file" accept=".json,application/json" className="hidden"
+                 onChange={e => {
+                   const file = e.target.files?.[0];
+                   if (file) handleOpenProject(file);
+                   e.target.value = '';
+                 }} />
+             </div>
           </div>
 
           {activeTab === '2D' && (
@@ -870,34 +2091,97 @@ const App: React.FC = () => {
                     grid={topGrid} 
                     threshold={effectiveThreshold} 
                     ledConfig={ledConfig} 
-                    isFlashing={params.isFlashing}
-                    contourLines={contourPathsTop}
+                    beamPattern={params.beamPattern}
+                    isFlashing={isFlashing}
+                    flash={params.flash}
+                    contours={contoursTop}
                     viewType="top"
-                    title="TOP VIEW (PLAN)"
-                    targetBox={showTarget ? optTargets : undefined}
-                  />
+                    title={horizonModel ? `TOP VIEW (PLAN @ ${params.horizon.observerHeight} m EYE HEIGHT)` : 'TOP VIEW (PLAN)'}
+                    geographicRange={horizonModel ? geographicRange : undefined}
+                    targetBox={showTarget && optTargets.box ? optTargets : undefined}
+                    targetRegions={showTarget ? planRegions : undefined}
+                    drawRegion={regionDraw}
+                    onRegionDrawn={addDrawnRegion}
+                    mounting={params.mounting}
+                    sweep={sweepAnimation ?? undefined}
+                    basemap={basemapLayer}
+                    beacons={beaconMarkers}
+                    receptors={receptorMarkers}
+                    dominance={topMode === 'dominance' ? sourceLegend.map(s => s.color) : undefined}
+                    coverageArea={params.scene.coverageArea}
+                    gaps={coverageReport?.gaps}
+                    plane={topPlane}
+                    source={primarySource}
+                    unit={isInfrared ? 'W/m²' : 'lx'}
+                    caption={reportLines}
+                    exportName={`LED_Visibility_Plan_${params.wavelength}nm`}
+                  >
+                    <div className="absolute top-8 right-8 space-y-3">
+                      <ContourLegend contours={contoursTop} unit={isInfrared ? 'W/m²' : 'lx'} />
+                      {sourceLegend.length > 1 && (
+                        <div className="bg-black/60 backdrop-blur-md border border-white/10 rounded-xl p-2 space-y-2">
+                          <div className="flex bg-black/40 p-1 rounded-xl">
+                            {(['combined', 'dominance'] as const).map(mode => (
+                              <button key={mode} onClick={() => setTopMode(mode)}
+                                className={`flex-1 px-2 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${topMode === mode ? 'bg-indigo-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                              >{mode === 'combined' ? 'Combined' : 'Dominant'}</button>
+                            ))}
+                          </div>
+                          {topMode === 'dominance' && sourceLegend.map((s, i) => (
+                            <div key={i} className="flex items-center gap-2 text-[10px] text-gray-300">
+                              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: s.color }}></span>{s.name}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="absolute bottom-10 left-10 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-end gap-3">
+                      <button 
+                        onClick={handleExportCAD}
+                        disabled={!contoursTop.some(c => c.paths.length > 0)}
+                        className="bg-white/10 hover:bg-white/20 backdrop-blur-xl border border-white/10 px-6 py-4 rounded-2xl flex items-center gap-4 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed group/btn shadow-2xl"
+                      >
+                        <div className="w-10 h-10 rounded-xl bg-emerald-500 flex items-center justify-center shadow-lg shadow-emerald-500/20 group-hover/btn:scale-110 transition-transform">
+                            <i className="fas fa-file-export text-white"></i>
+                        </div>
+                        <div className="text-left">
+                            <div className="text-[11px] font-black uppercase tracking-widest text-white">Export to CAD</div>
+                            <div className="text-[9px] text-gray-400 font-bold uppercase tracking-tighter">Vector DXF {cadExport.mode.toUpperCase()} (Units: {cadExport.units})</div>
+                        </div>
+                      </button>
+                      <div className="bg-black/60 backdrop-blur-md border border-white/10 rounded-xl p-2 space-y-2">
+                        <div className="flex bg-black/40 p-1 rounded-xl">
+                          {CAD_UNITS.map(u => (
+                            <button key={u} onClick={() => setCadExport(prev => ({ ...prev, units: u }))}
+                              className={`flex-1 px-2 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${cadExport.units === u ? 'bg-emerald-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                            >{u}</button>
+                          ))}
+                        </div>
+                        <div className="flex bg-black/40 p-1 rounded-xl">
+                          {(['2d', '3d'] as const).map(m => (
+                            <button key={m} onClick={() => setCadExport(prev => ({ ...prev, mode: m }))}
+                              className={`flex-1 px-2 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${cadExport.mode === m ? 'bg-emerald-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                            >{m === '2d' ? 'Sheet' : '3D'}</button>
+                          ))}
+                        </div>
+                        <div className="flex bg-black/40 p-1 rounded-xl">
+                          <button onClick={() => setCadExport(prev => ({ ...prev, elevation: !prev.elevation }))}
+                            className={`flex-1 px-2 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${cadExport.elevation ? 'bg-emerald-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                          >Elevation</button>
+                          <button onClick={() => setCadExport(prev => ({ ...prev, target: !prev.target }))}
+                            className={`flex-1 px-2 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${cadExport.target ? 'bg-emerald-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                          >Target</button>
+                        </div>
+                      </div>
+                    </div>
+                  </Heatmap>
                 ) : (
                   <div className="w-full aspect-video flex flex-col items-center justify-center gap-6 text-gray-600 bg-gray-950 rounded-[2.5rem]">
                     <div className="w-16 h-16 border-4 border-indigo-500/20 border-t-indigo-500 rounded-full animate-spin"></div>
                     <div className="font-black tracking-[0.3em] text-[10px] uppercase animate-pulse">Calculating Field Potentials...</div>
                   </div>
                 )}
-                
-                <div className="absolute bottom-10 left-10 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                  <button 
-                    onClick={handleExportCAD}
-                    disabled={contourPathsTop.length === 0}
-                    className="bg-white/10 hover:bg-white/20 backdrop-blur-xl border border-white/10 px-6 py-4 rounded-2xl flex items-center gap-4 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed group/btn shadow-2xl"
-                  >
-                    <div className="w-10 h-10 rounded-xl bg-emerald-500 flex items-center justify-center shadow-lg shadow-emerald-500/20 group-hover/btn:scale-110 transition-transform">
-                        <i className="fas fa-file-export text-white"></i>
-                    </div>
-                    <div className="text-left">
-                        <div className="text-[11px] font-black uppercase tracking-widest text-white">Export to CAD</div>
-                        <div className="text-[9px] text-gray-400 font-bold uppercase tracking-tighter">Vector DXF (Units: mm)</div>
-                    </div>
-                  </button>
-                </div>
               </div>
 
               <div className="bg-gray-900 border border-white/5 rounded-[3rem] p-3 shadow-3xl overflow-hidden ring-1 ring-white/5 relative group">
@@ -906,11 +2190,23 @@ const App: React.FC = () => {
                     grid={sideGrid} 
                     threshold={effectiveThreshold} 
                     ledConfig={ledConfig} 
-                    isFlashing={params.isFlashing}
-                    contourLines={contourPathsSide}
+                    beamPattern={params.beamPattern}
+                    isFlashing={isFlashing}
+                    flash={params.flash}
+                    contours={contoursSide}
                     viewType="side"
                     title="SIDE VIEW (ELEVATION)"
-                    targetBox={showTarget ? optTargets : undefined}
+                    horizon={horizonModel ?? undefined}
+                    targetBox={showTarget && optTargets.box ? optTargets : undefined}
+                    targetRegions={showTarget ? planRegions : undefined}
+                    receptors={receptorMarkers}
+                    mounting={params.mounting}
+                    sweep={sweepAnimation ?? undefined}
+                    plane={sidePlane}
+                    source={primarySource}
+                    unit={isInfrared ? 'W/m²' : 'lx'}
+                    caption={reportLines}
+                    exportName={`LED_Visibility_Elevation_${params.wavelength}nm`}
                   />
                 ) : (
                   <div className="w-full aspect-video flex flex-col items-center justify-center gap-6 text-gray-600 bg-gray-950 rounded-[2.5rem]">
@@ -918,17 +2214,100 @@ const App: React.FC = () => {
                   </div>
                 )}
               </div>
+
+              {mounted && axisGrid && (
+                <div className="bg-gray-900 border border-white/5 rounded-[3rem] p-3 shadow-3xl overflow-hidden ring-1 ring-white/5 relative group">
+                  {/* Drawn in the fixture's own frame: the LEDs unmounted, the axis horizontal */}
+                  <Heatmap 
+                    grid={axisGrid} 
+                    threshold={effectiveThreshold} 
+                    ledConfig={fixtureLeds} 
+                    beamPattern={params.beamPattern}
+                    isFlashing={isFlashing}
+                    flash={params.flash}
+                    contours={contoursAxis}
+                    viewType="side"
+                    title={`OPTICAL AXIS SECTION (TILT ${params.mounting.pitch}°, YAW ${params.mounting.yaw}°)`}
+                    targetBox={showTarget && optTargets.box ? optTargets : undefined}
+                    plane={axisPlane ?? undefined}
+                    source={primarySource}
+                    unit={isInfrared ? 'W/m²' : 'lx'}
+                    caption={reportLines}
+                    exportName={`LED_Visibility_Axis_${params.wavelength}nm`}
+                  />
+                </div>
+              )}
+
+              {sliceView && sliceGrid && (
+                <div className="bg-gray-900 border border-white/5 rounded-[3rem] p-3 shadow-3xl overflow-hidden ring-1 ring-white/5 relative group">
+                  {/* Plane coordinates only; the LEDs are not drawn because the plane need not pass through them */}
+                  <Heatmap 
+                    grid={sliceGrid} 
+                    threshold={effectiveThreshold} 
+                    ledConfig={[]} 
+                    beamPattern={params.beamPattern}
+                    isFlashing={isFlashing}
+                    flash={params.flash}
+                    contours={contoursSlice}
+                    viewType={sliceView.viewType}
+                    title={sliceView.title}
+                    axisLabels={sliceView.labels}
+                    plane={sliceView.plane}
+                    source={primarySource}
+                    unit={isInfrared ? 'W/m²' : 'lx'}
+                    caption={reportLines}
+                    exportName={`LED_Visibility_Slice_${params.slice.mode}_${params.wavelength}nm`}
+                  >
+                    <div className="absolute top-8 right-8">
+                      <ContourLegend contours={contoursSlice} unit={isInfrared ? 'W/m²' : 'lx'} />
+                    </div>
+                    <div className="absolute bottom-10 left-10 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                      <button 
+                        onClick={handleExportSliceCAD}
+                        disabled={!contoursSlice.some(c => c.paths.length > 0)}
+                        className="bg-white/10 hover:bg-white/20 backdrop-blur-xl border border-white/10 px-6 py-4 rounded-2xl flex items-center gap-4 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed group/btn shadow-2xl"
+                      >
+                        <div className="w-10 h-10 rounded-xl bg-fuchsia-500 flex items-center justify-center shadow-lg shadow-fuchsia-500/20 group-hover/btn:scale-110 transition-transform">
+                            <i className="fas fa-file-export text-white"></i>
+                        </div>
+                        <div className="text-left">
+                            <div className="text-[11px] font-black uppercase tracking-widest text-white">Export Slice to CAD</div>
+                            <div className="text-[9px] text-gray-400 font-bold uppercase tracking-tighter">Vector DXF {cadExport.mode.toUpperCase()} (Units: {cadExport.units})</div>
+                        </div>
+                      </button>
+                    </div>
+                  </Heatmap>
+                </div>
+              )}
+
+              {polarRanges && (
+                <div className="bg-gray-900 border border-white/5 rounded-[3rem] p-3 shadow-3xl overflow-hidden ring-1 ring-white/5">
+                  <PolarRangeChart
+                    result={polarRanges}
+                    luminousRange={luminousRange}
+                    geographicRange={horizonModel ? geographicRange : undefined}
+                    geo={params.geo}
+                    isCalculating={isCalculating}
+                  />
+                </div>
+              )}
             </div>
           )}
           
           {activeTab === '3D' && (
             <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 relative">
               <View3D 
-                paths={slices3D} 
-                isFlashing={params.isFlashing} 
+                surfaces={surfaces3D} 
+                isFlashing={isFlashing} 
                 maxDist={params.gridLimits.maxY} 
                 lateralSize={params.gridLimits.maxX}
-                targetBox={showTarget ? optTargets : undefined}
+                targetBox={showTarget && optTargets.box ? optTargets : undefined}
+                targetRegions={showTarget ? planRegions : undefined}
+                drawRegion={regionDraw}
+                onRegionDrawn={addDrawnRegion}
+                receptors={receptorMarkers}
+                mounting={params.mounting}
+                rotation={isRotating ? { rpm: params.rotation.rpm, axis: rotationAxis } : undefined}
                 showCones={showCones}
                 ledConfig={ledConfig}
                 beamPattern={params.beamPattern}
@@ -936,6 +2315,10 @@ const App: React.FC = () => {
                 peakCandela={sourceIntensity}
                 effectiveEfficiency={spectralCorrection}
                 threshold={effectiveThreshold}
+                extinction={extinction}
+                slice={sliceView ? { plane: sliceView.plane, shells: sliceShells } : undefined}
+                onSliceMove={moveSlice}
+                exportName={`LED_Visibility_3D_${params.wavelength}nm`}
               />
               <div className="absolute top-6 right-8 z-20">
                 <button 
@@ -946,6 +2329,18 @@ const App: React.FC = () => {
                   {showCones ? 'Light Cones ON' : 'Light Cones OFF'}
                 </button>
               </div>
+              <div className="absolute bottom-6 right-8 z-20 flex items-center gap-2 bg-black/40 p-1 rounded-xl border border-white/5">
+                <span className="px-2 text-[9px] font-black uppercase tracking-widest text-gray-500">Export</span>
+                {([
+                  { id: 'stl', label: 'STL', hint: `Threshold shell, binary, ${cadExport.units} (as the DXF)` },
+                  { id: 'obj', label: 'OBJ', hint: `All levels, ${cadExport.units} (as the DXF)` },
+                  { id: 'glb', label: 'glTF', hint: 'All levels, binary (.glb), m' }
+                ] as const).map(f => (
+                  <button key={f.id} onClick={() => handleExportMesh(f.id)} disabled={!hasSurface} title={f.hint}
+                    className="px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                  >{f.label}</button>
+                ))}
+              </div>
             </div>
           )}
 
@@ -959,16 +2354,32 @@ const App: React.FC = () => {
              <div className="flex gap-6">
                <span className="flex items-center gap-2">
                  <i className="fas fa-eye text-emerald-500/50"></i>
-                 {isInfrared ? 'Correction: None (Radiometric)' : `Spectral Factor: ${spectralCorrection.toFixed(2)}x`}
+                 {isInfrared
+                   ? 'Correction: None (Radiometric)'
+                   : `${VISION_MODES.find(m => m.id === params.vision.mode)?.label}${params.vision.mode === 'mesopic' ? ` m ${adaptation.toFixed(2)}` : ''} · Spectral Factor: ${spectralCorrection.toFixed(2)}x`}
+               </span>
+               <span className="flex items-center gap-2">
+                 <i className="fas fa-cloud text-sky-500/50"></i>
+                 MOR: {formatVisibility(params.atmosphere.visibilityKm)} (σ {(extinction * 1000).toFixed(2)} km⁻¹)
+               </span>
+               <span className="flex items-center gap-2">
+                 <i className="fas fa-ruler-horizontal text-amber-500/50"></i>
+                 Luminous: {formatVisibility(luminousRange / 1000)} · Geographic: {formatVisibility(geographicRange / 1000)}
                </span>
                <span className="flex items-center gap-2">
                  <i className="fas fa-bullseye text-blue-500/50"></i>
                  Eff. Threshold: {effectiveThreshold.toExponential(2)} {isInfrared ? 'W/m²' : 'lx'}
                </span>
-               {params.isFlashing && (
+               {sweepInfo && (
+                  <span className="flex items-center gap-2 text-amber-500">
+                    <i className="fas fa-sync-alt fa-spin"></i>
+                    {params.rotation.rpm} rpm · pulse {(sweepInfo.pulse * 1000).toFixed(0)} ms · Ie {sweepInfo.ratio.toFixed(2)}× ({METHOD_LABELS[params.rotation.method]})
+                  </span>
+               )}
+               {isFlashing && (
                   <span className="flex items-center gap-2 text-emerald-500 animate-pulse">
                     <i className="fas fa-bolt"></i>
-                    Temporal Gain: 8.0x
+                    {formatFlashCharacter(params.flash)} · Ie {flashFactor.toFixed(2)}× ({METHOD_LABELS[params.flash.method]})
                   </span>
                )}
              </div>
@@ -0,0 +1,236 @@
+import React, { useRef, useState } from 'react';
+import { BeamPattern, BeamPlane, BeamPoint } from '../types';
+import { ImportedBeam, toBeamPattern } from '../utils/photometry';
+import { parseIES, exportIES } from '../utils/iesParser';
+import { parseLDT } from '../utils/ldtParser';
+import { downloadText } from '../utils/download';
+
+type PatternMode = 'symmetric' | 'hv' | 'cplane';
+
+interface BeamPatternEditorProps {
+  pattern: BeamPattern;
+  peakCandela: number;
+  onChange: (pattern: BeamPattern) => void;
+  onImport: (beam: ImportedBeam) => void;
+}
+
+interface ImportStatus {
+  ok: boolean;
+  message: string;
+  warnings: string[];
+}
+
+const MODES: { id: PatternMode; label: string }[] = [
+  { id: 'symmetric', label: 'Symmetric' },
+  { id: 'hv', label: 'H / V' },
+  { id: 'cplane', label: 'C-Planes' }
+];
+
+export const getPatternMode = (pattern: BeamPattern): PatternMode => {
+  const { planes } = pattern;
+  if (planes.length === 1) return 'symmetric';
+  if (planes.length === 2 && planes[0].c === 0 && planes[1].c === 90) return 'hv';
+  return 'cplane';
+};
+
+const clonePoints = (points: BeamPoint[]): BeamPoint[] => points.map(p => ({ ...p }));
+
+const sortPlanes = (planes: BeamPlane[]): BeamPlane[] => [...planes].sort((a, b) => a.c - b.c);
+
+/**
+ * Converts a pattern to another mode, reusing as much of the existing data as possible.
+ */
+const convertPattern = (pattern: BeamPattern, mode: PatternMode): BeamPattern => {
+  const { planes } = pattern;
+  const find = (c: number) => planes.find(p => p.c === c) ?? planes[0];
+
+  if (mode === 'symmetric') {
+    return { planes: [{ c: 0, points: clonePoints(planes[0].points) }] };
+  }
+  if (mode === 'hv') {
+    return { planes: [
+      { c: 0, points: clonePoints(find(0).points) },
+      { c: 90, points: clonePoints(find(90).points) }
+    ] };
+  }
+  // Full 360° table seeded from whatever we have
+  return { planes: [0, 90, 180, 270].map(c => {
+    const src = planes.find(p => p.c === c) ?? find(c % 180);
+    return { c, points: clonePoints(src.points) };
+  }) };
+};
+
+const planeLabel = (mode: PatternMode, plane: BeamPlane) => {
+  if (mode === 'hv') return plane.c === 0 ? 'H-Plane' : 'V-Plane';
+  return `C${plane.c}°`;
+};
+
+/**
+ * Editor for symmetric, H/V (elliptical) and full C-plane beam distributions.
+ */
+const BeamPatternEditor: React.FC<BeamPatternEditorProps> = ({ pattern, peakCandela, onChange, onImport }) => {
+  const [selected, setSelected] = useState(0);
+  const [newPlaneC, setNewPlaneC] = useState(45);
+  const [importStatus, setImportStatus] = useState<ImportStatus | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const text = await file.text();
+      const data = /\.ldt$/i.test(file.name) ? parseLDT(text) : parseIES(text);
+      const beam = toBeamPattern(data);
+      onImport(beam);
+      setSelected(0);
+      setImportStatus({
+        ok: true,
+        message: `${file.name}: ${data.format} ${data.version}, ${beam.pattern.planes.length} C-plane(s), peak ${beam.peakCandela.toFixed(2)} cd`,
+        warnings: beam.warnings
+      });
+    } catch (err) {
+      setImportStatus({ ok: false, message: `${file.name}: ${err instanceof Error ? err.message : String(err)}`, warnings: [] });
+    }
+  };
+
+  const handleExport = () => {
+    downloadText(exportIES(pattern, peakCandela), 'BeaconSim_Beam.ies', 'text/plain');
+  };
+
+  const mode = getPatternMode(pattern);
+  const planeIndex = Math.min(selected, pattern.planes.length - 1);
+  const plane = pattern.planes[planeIndex];
+
+  const updatePlane = (points: BeamPoint[]) => {
+    const planes = pattern.planes.map((p, i) => i === planeIndex ? { ...p, points } : p);
+    onChange({ planes });
+  };
+
+  const updatePoint = (index: number, field: keyof BeamPoint, value: number) => {
+    if (!Number.isFinite(value)) return;
+    const points = [...plane.points];
+    points[index] = { ...points[index], [field]: value };
+    updatePlane(points);
+  };
+
+  const addPoint = () => {
+    const last = plane.points[plane.points.length - 1];
+    updatePlane([...plane.points, { angle: Math.min(90, last.angle + 10), intensity: 0 }]);
+  };
+
+  const removePoint = (index: number) => {
+    if (plane.points.length <= 2) return;
+    updatePlane(plane.points.filter((_, i) => i !== index));
+  };
+
+  const addPlane = () => {
+    const c = ((Math.round(newPlaneC) % 360) + 360) % 360;
+    if (pattern.planes.some(p => p.c === c)) return;
+    const planes = sortPlanes([...pattern.planes, { c, points: clonePoints(plane.points) }]);
+    onChange({ planes });
+    setSelected(planes.findIndex(p => p.c === c));
+  };
+
+  const removePlane = () => {
+    if (pattern.planes.length <= 2) return;
+    onChange({ planes: pattern.planes.filter((_, i) => i !== planeIndex) });
+    setSelected(0);
+  };
+
+  const setMode = (m: PatternMode) => {
+    if (m === mode) return;
+    onChange(convertPattern(pattern, m));
+    setSelected(0);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <button onClick={() => fileRef.current?.click()} className="flex-1 py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+          <i className="fas fa-file-import mr-2"></i>Import IES / LDT
+        </button>
+        <button onClick={handleExport} className="flex-1 py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+          <i className="fas fa-file-export mr-2"></i>Export IES
+        </button>
+        <input ref={fileRef} type="file" accept=".ies,.IES,.ldt,.LDT" className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }} />
+      </div>
+
+      {importStatus && (
+        <div className={`rounded-xl p-3 border text-[10px] leading-relaxed ${importStatus.ok ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-300' : 'bg-rose-500/10 border-rose-500/20 text-rose-300'}`}>
+          <div className="font-mono break-all">{importStatus.message}</div>
+          {importStatus.warnings.map((w, i) => <div key={i} className="text-amber-300 mt-1">{w}</div>)}
+        </div>
+      )}
+
+      <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+        {MODES.map(m => (
+          <button key={m.id} onClick={() => setMode(m.id)}
+            className={`flex-1 px-2 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${mode === m.id ? 'bg-indigo-500 text-white shadow-lg shadow-indigo-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+          >{m.label}</button>
+        ))}
+      </div>
+
+      {mode !== 'symmetric' && (
+        <div className="flex flex-wrap gap-1">
+          {pattern.planes.map((p, i) => (
+            <button key={p.c} onClick={() => setSelected(i)}
+              className={`px-2 py-1 text-[9px] font-mono rounded-md border transition-all ${i === planeIndex ? 'border-indigo-500 text-indigo-300 bg-indigo-500/10' : 'border-white/5 text-gray-500 hover:text-white'}`}
+            >{planeLabel(mode, p)}</button>
+          ))}
+        </div>
+      )}
+
+      {mode === 'cplane' && (
+        <div className="flex items-center gap-2">
+          <div className="flex-1 bg-black/40 rounded-xl p-2 border border-white/5 flex items-center gap-1">
+            <span className="text-[9px] text-gray-600 font-bold">C</span>
+            <input type="number" value={newPlaneC} onChange={e => setNewPlaneC(parseFloat(e.target.value))}
+              className="w-full bg-transparent text-white font-mono text-xs outline-none" />
+            <span className="text-[9px] text-gray-600">°</span>
+          </div>
+          <button onClick={addPlane} className="px-3 py-2 rounded-xl bg-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white" title="Add C-plane (copy of selected)">
+            <i className="fas fa-plus"></i>
+          </button>
+          <button onClick={removePlane} disabled={pattern.planes.length <= 2} className="px-3 py-2 rounded-xl bg-white/5 text-[9px] text-gray-400 hover:text-rose-400 disabled:opacity-30" title="Remove selected C-plane">
+            <i className="fas fa-trash"></i>
+          </button>
+        </div>
+      )}
+
+      <div className="rounded-2xl border border-white/5 overflow-hidden bg-black/30">
+        <table className="w-full text-[11px] text-left">
+          <thead className="bg-white/5 text-gray-500 font-black uppercase tracking-widest">
+            <tr><th className="px-4 py-3">Angle (°)</th><th className="px-4 py-3">Intensity</th><th className="w-8"></th></tr>
+          </thead>
+          <tbody className="divide-y divide-white/5 font-mono">
+            {plane.points.map((pt, i) => (
+              <tr key={i} className="hover:bg-white/5 transition-colors group/pt">
+                <td className="px-4 py-2">
+                  <input type="number" value={pt.angle} onChange={e => updatePoint(i, 'angle', parseFloat(e.target.value))} className="bg-transparent w-full outline-none text-white" disabled={i===0} />
+                </td>
+                <td className="px-4 py-2">
+                  <input type="number" step="0.01" value={pt.intensity} onChange={e => updatePoint(i, 'intensity', parseFloat(e.target.value))} className="bg-transparent w-full outline-none text-indigo-400" />
+                </td>
+                <td className="pr-2 text-right">
+                  {i > 0 && plane.points.length > 2 && (
+                    <button onClick={() => removePoint(i)} className="text-gray-700 hover:text-rose-400 opacity-0 group-hover/pt:opacity-100 transition-opacity">
+                      <i className="fas fa-times text-[9px]"></i>
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button onClick={addPoint} className="w-full py-2 text-[9px] font-black uppercase tracking-widest text-gray-600 hover:text-white hover:bg-white/5 transition-colors">
+          <i className="fas fa-plus mr-2"></i>Add Point
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BeamPatternEditor;
@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import { LevelContours } from '../types';
+import { getContourStats, formatArea } from '../utils/contourStats';
+
+interface ContourLegendProps {
+  contours: LevelContours[]; // Top view (plan) contours
+  unit: string;
+}
+
+const formatRange = (m: number) => m >= 1000 ? `${(m / 1000).toFixed(2)} km` : `${Math.round(m)} m`;
+
+/**
+ * Legend for the plan view: style swatch, level, enclosed ground area and maximum reach.
+ */
+const ContourLegend: React.FC<ContourLegendProps> = ({ contours, unit }) => {
+  const rows = useMemo(() => contours.map(c => ({ ...c, stats: getContourStats(c.paths) })), [contours]);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="bg-black/60 backdrop-blur-xl border border-white/10 rounded-2xl px-4 py-3 shadow-2xl">
+      <table className="text-[10px] font-mono">
+        <thead className="text-gray-500 font-black uppercase tracking-widest text-[8px]">
+          <tr><th className="pr-3 pb-2 text-left">Level</th><th className="pr-3 pb-2 text-right">Value</th><th className="pr-3 pb-2 text-right">Area</th><th className="pb-2 text-right">Max Range</th></tr>
+        </thead>
+        <tbody>
+          {rows.map(({ level, threshold, stats }) => (
+            <tr key={level.id}>
+              <td className="pr-3 py-0.5">
+                <span className="flex items-center gap-2 text-white">
+                  <svg width="18" height="6" className="shrink-0">
+                    <line x1="0" y1="3" x2="18" y2="3" stroke={level.color} strokeWidth="2"
+                      strokeDasharray={level.lineStyle === 'dashed' ? '6 3' : level.lineStyle === 'dotted' ? '1.5 3' : undefined} />
+                  </svg>
+                  {level.name}
+                </span>
+              </td>
+              <td className="pr-3 py-0.5 text-right text-gray-400" title={`Traced at ${threshold.toExponential(2)} ${unit}`}>10^{level.logValue.toFixed(1)} {unit}</td>
+              <td className="pr-3 py-0.5 text-right text-indigo-300">{stats.area > 0 ? formatArea(stats.area) : '—'}</td>
+              <td className="py-0.5 text-right text-emerald-300">{stats.maxRange > 0 ? formatRange(stats.maxRange) : '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ContourLegend;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { ContourLevel, ContourLineStyle } from '../types';
+import { CONTOUR_PALETTE } from '../constants';
+
+interface ContourLevelEditorProps {
+  levels: ContourLevel[];
+  unit: string;
+  onChange: (levels: ContourLevel[]) => void;
+}
+
+const LINE_STYLES: { id: ContourLineStyle; label: string }[] = [
+  { id: 'solid', label: 'Solid' },
+  { id: 'dashed', label: 'Dashed' },
+  { id: 'dotted', label: 'Dotted' }
+];
+
+/**
+ * Table of additional named isolines traced alongside the detection threshold.
+ */
+const ContourLevelEditor: React.FC<ContourLevelEditorProps> = ({ levels, unit, onChange }) => {
+  const update = (id: string, patch: Partial<ContourLevel>) => {
+    onChange(levels.map(l => l.id === id ? { ...l, ...patch } : l));
+  };
+
+  const addLevel = () => {
+    const last = levels[levels.length - 1];
+    onChange([...levels, {
+      id: `level-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: `Level ${levels.length + 2}`,
+      logValue: last ? Math.round((last.logValue + 1) * 10) / 10 : -5,
+      color: CONTOUR_PALETTE[levels.length % CONTOUR_PALETTE.length],
+      lineStyle: 'dashed'
+    }]);
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/5 overflow-hidden bg-black/30">
+      <table className="w-full text-[11px] text-left">
+        <thead className="bg-white/5 text-gray-500 font-black uppercase tracking-widest text-[9px]">
+          <tr><th className="pl-3 py-3 w-6"></th><th className="px-2 py-3">Label</th><th className="px-2 py-3">Log {unit}</th><th className="px-2 py-3">Line</th><th className="w-6"></th></tr>
+        </thead>
+        <tbody className="divide-y divide-white/5 font-mono">
+          {levels.map(l => (
+            <tr key={l.id} className="hover:bg-white/5 transition-colors group/lvl">
+              <td className="pl-3 py-2">
+                <input type="color" value={l.color} onChange={e => update(l.id, { color: e.target.value })}
+                  className="w-4 h-4 rounded cursor-pointer bg-transparent border-0 p-0" title="Line colour" />
+              </td>
+              <td className="px-2 py-2">
+                <input type="text" value={l.name} onChange={e => update(l.id, { name: e.target.value })} className="bg-transparent w-full outline-none text-white" />
+              </td>
+              <td className="px-2 py-2">
+                <input type="number" step="0.1" value={l.logValue}
+                  onChange={e => {
+                    const v = parseFloat(e.target.value);
+                    if (Number.isFinite(v)) update(l.id, { logValue: v });
+                  }}
+                  className="bg-transparent w-14 outline-none text-indigo-400" />
+              </td>
+              <td className="px-2 py-2">
+                <select value={l.lineStyle} onChange={e => update(l.id, { lineStyle: e.target.value as ContourLineStyle })}
+                  className="bg-transparent outline-none text-gray-400 text-[10px]">
+                  {LINE_STYLES.map(s => <option key={s.id} value={s.id} className="bg-gray-900">{s.label}</option>)}
+                </select>
+              </td>
+              <td className="pr-2 text-right">
+                <button onClick={() => onChange(levels.filter(x => x.id !== l.id))} className="text-gray-700 hover:text-rose-400 opacity-0 group-hover/lvl:opacity-100 transition-opacity">
+                  <i className="fas fa-times text-[9px]"></i>
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={addLevel} className="w-full py-2 text-[9px] font-black uppercase tracking-widest text-gray-600 hover:text-white hover:bg-white/5 transition-colors">
+        <i className="fas fa-plus mr-2"></i>Add Level
+      </button>
+    </div>
+  );
+};
+
+export default ContourLevelEditor;
@@ -0,0 +1,162 @@
+import React, { useRef, useState } from 'react';
+import { Emitter } from '../types';
+import { MAX_EMITTERS } from '../constants';
+import { createEmitter, parseEmitterCSV, generateEmitterCSV } from '../utils/emitterLayout';
+import { toBeamPattern } from '../utils/photometry';
+import { parseIES } from '../utils/iesParser';
+import { parseLDT } from '../utils/ldtParser';
+import { downloadText } from '../utils/download';
+
+interface EmitterTableEditorProps {
+  emitters: Emitter[];
+  onChange: (emitters: Emitter[]) => void;
+}
+
+type NumericField = 'x' | 'y' | 'z' | 'h' | 'v' | 'roll' | 'intensity';
+
+// Positions are edited in mm and angles in degrees; the model keeps metres and radians
+const COLUMNS: { field: NumericField; label: string; scale: number; step: number }[] = [
+  { field: 'x', label: 'X mm', scale: 1000, step: 1 },
+  { field: 'y', label: 'Y mm', scale: 1000, step: 1 },
+  { field: 'z', label: 'Z mm', scale: 1000, step: 1 },
+  { field: 'h', label: 'Yaw°', scale: 180 / Math.PI, step: 1 },
+  { field: 'v', label: 'Pitch°', scale: 180 / Math.PI, step: 1 },
+  { field: 'roll', label: 'Roll°', scale: 180 / Math.PI, step: 1 },
+  { field: 'intensity', label: 'Scale', scale: 1, step: 0.05 }
+];
+
+const display = (value: number, scale: number) => Number((value * scale).toFixed(2));
+
+/**
+ * Per-emitter position, orientation, intensity and beam, with CSV import/export.
+ * Any edit turns the table into a custom layout.
+ */
+const EmitterTableEditor: React.FC<EmitterTableEditorProps> = ({ emitters, onChange }) => {
+  const [status, setStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const csvRef = useRef<HTMLInputElement>(null);
+  const beamRef = useRef<HTMLInputElement>(null);
+  const beamTarget = useRef(0);
+
+  const updateEmitter = (index: number, patch: Partial<Emitter>) => {
+    onChange(emitters.map((e, i) => i === index ? { ...e, ...patch } : e));
+  };
+
+  const updateField = (index: number, field: NumericField, text: string, scale: number) => {
+    const value = parseFloat(text);
+    if (!Number.isFinite(value) || (field === 'intensity' && value < 0)) return;
+    updateEmitter(index, { [field]: value / scale });
+  };
+
+  const addEmitter = () => {
+    if (emitters.length >= MAX_EMITTERS) return;
+    const last = emitters[emitters.length - 1];
+    onChange([...emitters, last ? { ...last, beamPattern: null } : createEmitter()]);
+  };
+
+  const handleCSV = async (file: File) => {
+    try {
+      const imported = parseEmitterCSV(await file.text());
+      onChange(imported);
+      setStatus({ ok: true, message: `${file.name}: ${imported.length} emitters` });
+    } catch (err) {
+      setStatus({ ok: false, message: `${file.name}: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  };
+
+  const handleBeam = async (file: File) => {
+    const index = beamTarget.current;
+    try {
+      const text = await file.text();
+      const beam = toBeamPattern(/\.ldt$/i.test(file.name) ? parseLDT(text) : parseIES(text));
+      updateEmitter(index, { beamPattern: beam.pattern });
+      setStatus({ ok: true, message: `#${index + 1}: ${file.name}, ${beam.pattern.planes.length} C-plane(s)` });
+    } catch (err) {
+      setStatus({ ok: false, message: `${file.name}: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <button onClick={() => csvRef.current?.click()} className="flex-1 py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+          <i className="fas fa-file-import mr-2"></i>Import CSV
+        </button>
+        <button onClick={() => downloadText(generateEmitterCSV(emitters), 'BeaconSim_Emitters.csv', 'text/csv')}
+          className="flex-1 py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+          <i className="fas fa-file-export mr-2"></i>Export CSV
+        </button>
+        <input ref={csvRef} type="file" accept=".csv,.txt,.tsv" className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleCSV(file);
+            e.target.value = '';
+          }} />
+        <input ref={beamRef} type="file" accept=".ies,.IES,.ldt,.LDT" className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleBeam(file);
+            e.target.value = '';
+          }} />
+      </div>
+
+      {status && (
+        <div className={`rounded-xl p-3 border text-[10px] font-mono break-all ${status.ok ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-300' : 'bg-rose-500/10 border-rose-500/20 text-rose-300'}`}>
+          {status.message}
+        </div>
+      )}
+
+      <div className="rounded-2xl border border-white/5 overflow-hidden bg-black/30">
+        <div className="max-h-60 overflow-auto custom-scrollbar">
+          <table className="w-full text-[10px] text-left">
+            <thead className="sticky top-0 bg-gray-900 text-gray-500 font-black uppercase tracking-wider z-10">
+              <tr>
+                <th className="px-2 py-2">#</th>
+                {COLUMNS.map(c => <th key={c.field} className="px-1 py-2">{c.label}</th>)}
+                <th className="px-1 py-2">Beam</th>
+                <th className="w-6"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5 font-mono">
+              {emitters.map((e, i) => (
+                <tr key={i} className="hover:bg-white/5 transition-colors group/em">
+                  <td className="px-2 py-1 text-gray-600">{i + 1}</td>
+                  {COLUMNS.map(c => (
+                    <td key={c.field} className="px-1 py-1">
+                      <input type="number" step={c.step} value={display(e[c.field], c.scale)}
+                        onChange={ev => updateField(i, c.field, ev.target.value, c.scale)}
+                        className={`bg-transparent w-12 outline-none ${c.field === 'intensity' ? 'text-indigo-400' : 'text-white'}`} />
+                    </td>
+                  ))}
+                  <td className="px-1 py-1 whitespace-nowrap">
+                    {e.beamPattern ? (
+                      <button onClick={() => updateEmitter(i, { beamPattern: null })} className="text-amber-300 hover:text-rose-400" title="Use the array beam pattern">
+                        Own <i className="fas fa-times text-[8px]"></i>
+                      </button>
+                    ) : (
+                      <button onClick={() => { beamTarget.current = i; beamRef.current?.click(); }} className="text-gray-600 hover:text-white" title="Import IES / LDT for this emitter">
+                        Array
+                      </button>
+                    )}
+                  </td>
+                  <td className="pr-2 text-right">
+                    {emitters.length > 1 && (
+                      <button onClick={() => onChange(emitters.filter((_, k) => k !== i))} className="text-gray-700 hover:text-rose-400 opacity-0 group-hover/em:opacity-100 transition-opacity">
+                        <i className="fas fa-times text-[9px]"></i>
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <button onClick={addEmitter} disabled={emitters.length >= MAX_EMITTERS}
+          className="w-full py-2 text-[9px] font-black uppercase tracking-widest text-gray-600 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-30">
+          <i className="fas fa-plus mr-2"></i>Add Emitter
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EmitterTableEditor;
@@ -0,0 +1,127 @@
+import React, { useMemo } from 'react';
+import { FlashCharacter, FlashType, PulseShape, EffectiveIntensityMethod } from '../types';
+import { FLASH_TYPE_DEFAULTS } from '../constants';
+import { getLightIntervals, sampleFlash, getEffectiveIntensityRatio, formatFlashCharacter, isMorseCharacter, METHOD_LABELS } from '../utils/flashCharacter';
+
+interface FlashCharacterEditorProps {
+  character: FlashCharacter;
+  onChange: (character: FlashCharacter) => void;
+}
+
+const FLASH_TYPES: FlashType[] = ['Fl', 'LFl', 'Q', 'VQ', 'Iso', 'Oc', 'Mo'];
+
+const PULSE_SHAPES: { id: PulseShape; label: string }[] = [
+  { id: 'rectangular', label: 'Rectangular' },
+  { id: 'trapezoidal', label: 'Trapezoidal' },
+  { id: 'half-sine', label: 'Half-sine' }
+];
+
+const METHODS: EffectiveIntensityMethod[] = ['blondel-rey', 'schmidt-clausen', 'iala'];
+
+const PREVIEW_WIDTH = 240;
+const PREVIEW_HEIGHT = 36;
+
+/**
+ * Light character (rhythm, period, pulse shape) and the effective intensity rating method.
+ */
+const FlashCharacterEditor: React.FC<FlashCharacterEditorProps> = ({ character, onChange }) => {
+  const update = (patch: Partial<FlashCharacter>) => onChange({ ...character, ...patch });
+
+  const preview = useMemo(() => {
+    const intervals = getLightIntervals(character);
+    const points: string[] = [];
+    for (let i = 0; i <= PREVIEW_WIDTH; i++) {
+      const v = sampleFlash(character, (i / PREVIEW_WIDTH) * character.period, intervals);
+      points.push(`${i},${(PREVIEW_HEIGHT - 2 - v * (PREVIEW_HEIGHT - 4)).toFixed(1)}`);
+    }
+    return points.join(' ');
+  }, [character]);
+
+  const ratios = useMemo(() => METHODS.map(m => ({ method: m, ratio: getEffectiveIntensityRatio(character, m) })), [character]);
+
+  const warning = (() => {
+    if (character.type === 'LFl' && character.flashDuration < 2) return 'IALA: a long flash lasts at least 2 s';
+    if (getLightIntervals(character).length === 0) return 'The character does not fit in the period';
+    return null;
+  })();
+
+  const numberField = (label: string, value: number, key: 'period' | 'flashDuration' | 'riseTime' | 'group', step: number, min: number, unit: string) => (
+    <div className="bg-black/40 rounded-xl p-2 border border-white/5">
+      <label className="text-[8px] font-bold text-gray-400 uppercase block mb-1">{label}</label>
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          step={step}
+          min={min}
+          value={value}
+          onChange={e => {
+            const v = parseFloat(e.target.value);
+            if (Number.isFinite(v) && v >= min) update({ [key]: key === 'group' ? Math.round(v) : v });
+          }}
+          className="w-full bg-transparent text-white font-mono text-xs outline-none"
+        />
+        <span className="text-[9px] text-gray-600">{unit}</span>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white/5 rounded-xl p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">Character</span>
+        <span className="font-mono text-[11px] text-white">{formatFlashCharacter(character)}</span>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {FLASH_TYPES.map(t => (
+          <button key={t} onClick={() => update({ type: t, ...FLASH_TYPE_DEFAULTS[t] })}
+            className={`py-1.5 rounded-lg text-[9px] font-black transition-all ${character.type === t ? 'bg-emerald-500 text-white' : 'bg-black/40 text-gray-500 hover:text-gray-300'}`}
+          >{t}</button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {numberField('Period', character.period, 'period', 0.1, 0.1, 's')}
+        {numberField(character.type === 'Oc' ? 'Eclipse' : character.type === 'Mo' ? 'Dot' : 'Flash', character.flashDuration, 'flashDuration', 0.05, 0.01, 's')}
+        {character.type === 'Mo' ? (
+          <div className="bg-black/40 rounded-xl p-2 border border-white/5">
+            <label className="text-[8px] font-bold text-gray-400 uppercase block mb-1">Letter</label>
+            <input type="text" maxLength={1} value={character.letter}
+              onChange={e => {
+                const letter = e.target.value.toUpperCase();
+                if (isMorseCharacter(letter)) update({ letter });
+              }}
+              className="w-full bg-transparent text-white font-mono text-xs outline-none uppercase" />
+          </div>
+        ) : character.type !== 'Iso' && numberField('Group', character.group, 'group', 1, 1, '×')}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select value={character.pulseShape} onChange={e => update({ pulseShape: e.target.value as PulseShape })}
+          className="bg-black/40 rounded-xl p-2 border border-white/5 outline-none text-gray-300 text-[10px]">
+          {PULSE_SHAPES.map(s => <option key={s.id} value={s.id} className="bg-gray-900">{s.label}</option>)}
+        </select>
+        {character.pulseShape === 'trapezoidal' && numberField('Rise / Fall', character.riseTime, 'riseTime', 0.01, 0, 's')}
+      </div>
+
+      <svg viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`} className="w-full h-9 bg-black/40 rounded-lg" preserveAspectRatio="none">
+        <polyline points={preview} fill="none" stroke="#10b981" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+      </svg>
+
+      <div className="rounded-xl border border-white/5 overflow-hidden">
+        {ratios.map(({ method, ratio }) => (
+          <button key={method} onClick={() => update({ method })}
+            className={`w-full flex justify-between px-3 py-1.5 text-[10px] font-mono transition-colors ${character.method === method ? 'bg-emerald-500/20 text-white' : 'text-gray-500 hover:bg-white/5'}`}
+          >
+            <span>{METHOD_LABELS[method]}</span>
+            <span>Ie = {ratio.toFixed(3)} × I</span>
+          </button>
+        ))}
+      </div>
+
+      {warning && <div className="text-[10px] font-mono text-amber-300">{warning}</div>}
+    </div>
+  );
+};
+
+export default FlashCharacterEditor;
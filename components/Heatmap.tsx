@@ -1,24 +1,350 @@
 
-import React, { useRef, useEffect, useMemo, useState } from 'react';
+import React, { useRef, useEffect, useMemo, useState, useCallback } from 'react';
 import { scaleSequential, interpolateMagma, rgb } from 'd3';
-import { GridData, Point } from '../types';
+import { GridData, Emitter, BeamPattern, LevelContours, ContourLineStyle, GeoReference, HorizonModel, FlashCharacter, Point, Point3D, MountingSettings, SamplePlane, SourceModel, TargetRegion, TargetRegionKind, ReceptorMarker } from '../types';
+import { getBeamHalfAngle, getHorizonDistance, getSurfaceZ, evaluateEmitters } from '../physics';
+import { GRID_RES, NO_SOURCE, TARGET_REGION_COLORS, RECEPTOR_COLORS } from '../constants';
+import { getLabelAnchor } from '../utils/contourStats';
+import { TileSource, TilePlacement, getTilePlacements, loadTileImage } from '../utils/basemap';
+import { getLightIntervals, sampleFlash, formatFlashCharacter } from '../utils/flashCharacter';
+import { CoverageGap } from '../utils/coverageGaps';
+import { createMountTransform } from '../utils/emitterLayout';
+import { planeToWorld, ORIGIN, AXIS_X, AXIS_Y, AXIS_Z } from '../utils/simulationJobs';
+import { sampleGrid, getCellIndex, sampleProfile, clipToGrid } from '../utils/fieldProbe';
+import { MARGIN_LEFT, MARGIN_BOTTOM, MARGIN_TOP, MARGIN_RIGHT, createViewMapping, getGridStep, getGridTicks, formatTick } from '../utils/plotLayout';
+import { ImageExportOptions, DEFAULT_IMAGE_EXPORT, EXPORT_DPIS, getExportLayout, downloadPNG, downloadSVG } from '../utils/imageExport';
+import { FigureDecorations, FigureReceptor, FigureRegion, buildPlotSvg, drawDecorations, getCaptionHeight } from '../utils/plotFigure';
+import { getRegionLabelAnchor, getRegionRings, getRegionSection } from '../utils/targetRegions';
+import ProfileChart from './ProfileChart';
+
+const LINE_DASH: Record<ContourLineStyle, number[]> = {
+  solid: [],
+  dashed: [14, 8],
+  dotted: [2, 6]
+};
+
+// Shortest drag (canvas px) that draws a profile line rather than a click
+const MIN_PROFILE_DRAG = 6;
+
+// Region drawing: a click this close (canvas px) to the first vertex closes the polygon
+const CLOSE_POLYGON_PX = 12;
+
+const HATCH_SPACING = 10;
+const HATCH_COLOR = 'rgba(148, 163, 184, 0.55)';
+
+/**
+ * Diagonal line tile used to fill line-of-sight shadows.
+ */
+const createHatchPattern = (ctx: CanvasRenderingContext2D): CanvasPattern | null => {
+  const tile = document.createElement('canvas');
+  tile.width = HATCH_SPACING;
+  tile.height = HATCH_SPACING;
+  const t = tile.getContext('2d');
+  if (!t) return null;
+  t.strokeStyle = HATCH_COLOR;
+  t.lineWidth = 1.5;
+  t.beginPath();
+  // Main stroke plus the corner pieces so neighbouring tiles join up
+  t.moveTo(0, HATCH_SPACING);
+  t.lineTo(HATCH_SPACING, 0);
+  t.moveTo(-1, 1);
+  t.lineTo(1, -1);
+  t.moveTo(HATCH_SPACING - 1, HATCH_SPACING + 1);
+  t.lineTo(HATCH_SPACING + 1, HATCH_SPACING - 1);
+  t.stroke();
+  return ctx.createPattern(tile, 'repeat');
+};
+
+/**
+ * Offline map drawn under the top view, aligned through the beacon's geo-reference.
+ */
+export interface BasemapLayer {
+  source: TileSource;
+  geo: GeoReference;
+  opacity: number;
+}
+
+/**
+ * A further beacon of the scene, marked in the top view.
+ */
+export interface BeaconMarker {
+  x: number;
+  y: number;
+  heading: number; // Degrees clockwise from +Y
+  color: string;
+  name: string;
+}
+
+/**
+ * Rotating beacon as animated over the plot: the beam turns clockwise about the axis
+ * from the forward direction (beacon frame), and profile is the light curve of one
+ * revolution (0-1) where it sweeps past brightest.
+ */
+export interface SweepAnimation {
+  period: number;
+  profile: number[];
+  axis: Point3D;
+  forward: Point3D;
+}
+
+interface LoadedTile extends TilePlacement {
+  image: ImageBitmap;
+}
 
 interface HeatmapProps {
   grid: GridData;
   threshold: number;
-  ledConfig: { h: number; v: number }[];
+  ledConfig: Emitter[];
+  beamPattern: BeamPattern;
   isFlashing: boolean;
-  contourLines: Point[][];
+  flash?: FlashCharacter;     // Played by the lamp animation while flashing
+  contours: LevelContours[]; // Outermost (detection threshold) first
   viewType?: 'top' | 'side';
   title?: string;
   targetBox?: { width: number; height: number; range: number };
+  mounting?: MountingSettings; // Turns the target box with the fixture
+  targetRegions?: TargetRegion[]; // Top view: outlines; side view: sections through X = 0
+  drawRegion?: TargetRegionKind | null; // Top view: clicks place the vertices of a new region
+  onRegionDrawn?: (points: Point[]) => void;
+  basemap?: BasemapLayer;
+  horizon?: HorizonModel;     // Side view: curved surface and horizon tangent
+  geographicRange?: number;   // Top view: ring at the geographic range (m)
+  beacons?: BeaconMarker[];   // Top view: scene beacons besides the primary one
+  receptors?: ReceptorMarker[]; // Obtrusive-light receptors, on plan or elevation
+  dominance?: string[];       // Colour per source: paint lit cells by the beacon that dominates them
+  coverageArea?: Point[];     // Top view: coverage polygon outline
+  gaps?: CoverageGap[];       // Top view: labelled coverage gaps, largest first
+  sweep?: SweepAnimation;     // Rotating beacon: turning beam and its light curve
+  plane?: SamplePlane;        // Where the grid lies in the world (defaults to the view's own plane)
+  source?: SourceModel;       // Primary beacon: the probe names its strongest LED
+  unit?: string;              // Illuminance unit of the probe and profile readouts
+  axisLabels?: { x: string; y: string }; // Screen axis titles, for planes other than plan and elevation
+  caption?: string[];         // Parameter lines printed under exported images
+  exportName?: string;        // File name of exported images, without extension
+  children?: React.ReactNode; // Overlays placed over the plot (legends, buttons)
+}
+
+interface ProbeLine {
+  start: Point; // Plane coordinates
+  end: Point;
 }
 
-const Heatmap: React.FC<HeatmapProps> = ({ grid, threshold, ledConfig, isFlashing, contourLines, viewType = 'top', title, targetBox }) => {
+const formatMetres = (m: number) => `${Math.abs(m) >= 1000 ? (m / 1000).toFixed(2) + ' km' : m.toFixed(1) + ' m'}`;
+
+const Heatmap: React.FC<HeatmapProps> = ({ grid, threshold, ledConfig, beamPattern, isFlashing, flash, contours, viewType = 'top', title, targetBox, mounting, targetRegions, drawRegion, onRegionDrawn, basemap, horizon, geographicRange, beacons, receptors, dominance, coverageArea, gaps, sweep, plane, source, unit = 'lx', axisLabels, caption, exportName = 'LED_Visibility', children }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const { data, width, height, minX, maxX, minY, maxY } = grid;
+  const lampRef = useRef<HTMLCanvasElement>(null);
+  const probeRef = useRef<HTMLCanvasElement>(null);
+  const { data, occluded, dominant, width, height, minX, maxX, minY, maxY } = grid;
   
-  const [pulse, setPulse] = useState(1);
+  const [tiles, setTiles] = useState<LoadedTile[]>([]);
+  const [hover, setHover] = useState<{ at: Point; left: number; top: number; flip: boolean } | null>(null);
+  const [drag, setDrag] = useState<ProbeLine | null>(null);
+  const [profileLine, setProfileLine] = useState<ProbeLine | null>(null);
+  const [imageExport, setImageExport] = useState<ImageExportOptions>(DEFAULT_IMAGE_EXPORT);
+  const [showExport, setShowExport] = useState(false);
+  const [draft, setDraft] = useState<Point[]>([]);
+  const isDrawing = !!drawRegion && !!onRegionDrawn && viewType === 'top' && !plane;
+
+  // Leaving draw mode drops an unfinished polygon
+  useEffect(() => {
+    if (!isDrawing) setDraft([]);
+  }, [isDrawing]);
+
+  const mapping = useMemo(
+    () => createViewMapping(viewType, { minX, maxX, minY, maxY }, GRID_RES * 2, GRID_RES * 2),
+    [viewType, minX, maxX, minY, maxY]
+  );
+
+  // The grid's plane in the world: as given, or the view's own (top: X across, Y along; side: Z up, Y along)
+  const worldPlane = useMemo<SamplePlane>(() => plane ?? {
+    origin: ORIGIN,
+    u: viewType === 'side' ? AXIS_Z : AXIS_X,
+    v: AXIS_Y,
+    limits: { minX, maxX, minY, maxY }
+  }, [plane, viewType, minX, maxX, minY, maxY]);
+
+  // World position, naming only the axes that vary over the plane
+  const formatWorld = (p: Point) => {
+    const w = planeToWorld(worldPlane, p.x, p.y);
+    const { u, v } = worldPlane;
+    return ([['X', w.x, u.x, v.x], ['Y', w.y, u.y, v.y], ['Z', w.z, u.z, v.z]] as const)
+      .filter(([, , du, dv]) => Math.abs(du) > 1e-9 || Math.abs(dv) > 1e-9)
+      .map(([axis, value]) => `${axis} ${formatMetres(value)}`)
+      .join(' · ');
+  };
+
+  // Readout under the pointer: field, margin over the threshold and the strongest LED of the primary
+  const probe = useMemo(() => {
+    if (!hover) return null;
+    const { x: a, y: b } = hover.at;
+    const value = sampleGrid(grid, a, b);
+    if (value === null) return null;
+    const cell = getCellIndex(grid, a, b);
+    const w = planeToWorld(worldPlane, a, b);
+    const perLed = source ? evaluateEmitters(source, w.x, w.y, w.z) : null;
+    let strongest: { index: number; share: number } | null = null;
+    if (perLed) {
+      const total = perLed.reduce((sum, e) => sum + e, 0);
+      const index = perLed.reduce((best, e, i) => e > perLed[best] ? i : best, 0);
+      if (total > 0) strongest = { index, share: perLed[index] / total };
+    }
+    return {
+      value,
+      margin: value > 0 ? Math.log10(value / threshold) : null,
+      shadow: !!occluded && cell >= 0 && occluded[cell] === 1,
+      strongest,
+      rotating: !!source?.sweep
+    };
+  }, [hover, grid, worldPlane, source, threshold, occluded]);
+
+  // Only the stretch over the grid is plotted, so the distance axis matches the curve
+  const profile = useMemo(() => {
+    const line = profileLine ? clipToGrid(grid, profileLine.start, profileLine.end) : null;
+    return line ? { line, samples: sampleProfile(grid, line.start, line.end) } : null;
+  }, [grid, profileLine]);
+
+  // Pointer position in canvas pixels (the canvas is letterboxed by object-contain)
+  const toCanvasPixels = (e: React.MouseEvent) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    const box = canvas.getBoundingClientRect();
+    const scale = Math.min(box.width / canvas.width, box.height / canvas.height);
+    const ox = (box.width - canvas.width * scale) / 2;
+    const oy = (box.height - canvas.height * scale) / 2;
+    return {
+      x: (e.clientX - box.left - ox) / scale,
+      y: (e.clientY - box.top - oy) / scale,
+      left: e.clientX - box.left,
+      top: e.clientY - box.top,
+      flip: e.clientX - box.left > box.width / 2
+    };
+  };
+
+  const finishDraft = (points: Point[]) => {
+    // A double click lands twice on the same spot
+    const vertices = points.filter((p, i) => {
+      if (i === 0) return true;
+      const a = mapping.toCanvas(p.x, p.y);
+      const b = mapping.toCanvas(points[i - 1].x, points[i - 1].y);
+      return Math.hypot(a.x - b.x, a.y - b.y) >= CLOSE_POLYGON_PX / 2;
+    });
+    if (vertices.length >= 3) onRegionDrawn?.(vertices);
+    setDraft([]);
+  };
+
+  // Only the plot itself probes; overlays on top of it (legends, buttons) do not
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const c = e.target === canvasRef.current ? toCanvasPixels(e) : null;
+    if (!c || !mapping.inPlot(c.x, c.y)) return;
+    const at = mapping.toPlane(c.x, c.y);
+    if (isDrawing) {
+      const first = draft.length >= 3 ? mapping.toCanvas(draft[0].x, draft[0].y) : null;
+      if (first && Math.hypot(first.x - c.x, first.y - c.y) < CLOSE_POLYGON_PX) finishDraft(draft);
+      else setDraft([...draft, at]);
+      return;
+    }
+    setDrag({ start: at, end: at });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const c = e.target === canvasRef.current ? toCanvasPixels(e) : null;
+    if (!c || !mapping.inPlot(c.x, c.y)) {
+      setHover(null);
+      return;
+    }
+    const at = mapping.toPlane(c.x, c.y);
+    setHover({ at, left: c.left, top: c.top, flip: c.flip });
+    if (drag) setDrag({ ...drag, end: at });
+  };
+
+  const handleMouseUp = () => {
+    if (!drag) return;
+    const a = mapping.toCanvas(drag.start.x, drag.start.y);
+    const b = mapping.toCanvas(drag.end.x, drag.end.y);
+    if (Math.hypot(b.x - a.x, b.y - a.y) >= MIN_PROFILE_DRAG) setProfileLine(drag);
+    setDrag(null);
+  };
+
+  // Profile line overlay: the line being drawn, else the one plotted below; or the region being drawn
+  useEffect(() => {
+    const canvas = probeRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (isDrawing && drawRegion) {
+      const vertices = draft.map(p => mapping.toCanvas(p.x, p.y));
+      if (hover && vertices.length > 0) vertices.push(mapping.toCanvas(hover.at.x, hover.at.y));
+      ctx.strokeStyle = TARGET_REGION_COLORS[drawRegion];
+      ctx.fillStyle = TARGET_REGION_COLORS[drawRegion];
+      ctx.lineWidth = 2;
+      ctx.setLineDash([8, 6]);
+      ctx.beginPath();
+      vertices.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.stroke();
+      ctx.setLineDash([]);
+      vertices.slice(0, draft.length).forEach((p, i) => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, i === 0 && draft.length >= 3 ? CLOSE_POLYGON_PX / 2 : 4, 0, Math.PI * 2);
+        ctx.fill();
+      });
+      return;
+    }
+    const shown = drag ?? profileLine;
+    if (!shown) return;
+    const a = mapping.toCanvas(shown.start.x, shown.start.y);
+    const b = mapping.toCanvas(shown.end.x, shown.end.y);
+    ctx.strokeStyle = '#fbbf24';
+    ctx.lineWidth = 2;
+    ctx.setLineDash(drag ? [8, 6] : []);
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.fillStyle = '#fbbf24';
+    ctx.font = 'bold 12px sans-serif';
+    ctx.textBaseline = 'bottom';
+    [[a, 'A'], [b, 'B']].forEach(([p, label]) => {
+      const { x, y } = p as Point;
+      ctx.beginPath();
+      ctx.arc(x, y, 4, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillText(label as string, x + 6, y - 4);
+    });
+  }, [drag, profileLine, mapping, isDrawing, drawRegion, draft, hover]);
+
+  // Fetch the basemap tiles covering this view (top view only)
+  useEffect(() => {
+    if (!basemap || viewType !== 'top') {
+      setTiles([]);
+      return;
+    }
+    let cancelled = false;
+    const placements = getTilePlacements(basemap.source, basemap.geo, { minX, maxX, minY, maxY }, GRID_RES * 2);
+    Promise.all(placements.map(async t => {
+      const image = await loadTileImage(basemap.source, t);
+      return image ? { ...t, image } : null;
+    })).then(loaded => {
+      if (!cancelled) setTiles(loaded.filter((t): t is LoadedTile => t !== null));
+    });
+    return () => { cancelled = true; };
+  }, [basemap, viewType, minX, maxX, minY, maxY]);
+
+  // 50% beam edges of each emitter in the plane of this view, in radians.
+  // Top view cuts the H plane (C0 right / C180 left), side view the V plane (C90 up / C270 down),
+  // counted in the emitter's own C-planes once its roll is taken off.
+  const beamEdges = useMemo(() => {
+    const [cPos, cNeg] = viewType === 'side' ? [90, 270] : [0, 180];
+    return ledConfig.map(led => {
+      const pattern = led.beamPattern ?? beamPattern;
+      const roll = (led.roll * 180) / Math.PI;
+      return {
+        pos: (getBeamHalfAngle(pattern, cPos - roll) * Math.PI) / 180,
+        neg: (getBeamHalfAngle(pattern, cNeg - roll) * Math.PI) / 180
+      };
+    });
+  }, [ledConfig, beamPattern, viewType]);
 
   // Dynamic Color Scale
   const colorScale = useMemo(() => {
@@ -31,48 +357,143 @@ const Heatmap: React.FC<HeatmapProps> = ({ grid, threshold, ledConfig, isFlashin
             .clamp(true);
   }, [threshold]);
 
-  useEffect(() => {
-    if (!isFlashing) {
-      setPulse(1);
-      return;
+  // Light curve played by the lamp: the rotating sweep, or else the flash character
+  const lightCurve = useMemo(() => {
+    if (sweep) {
+      const n = sweep.profile.length;
+      return {
+        period: sweep.period,
+        label: `${Number((60 / sweep.period).toFixed(1))} rpm`,
+        color: '245, 158, 11',
+        sample: (t: number) => sweep.profile[Math.floor((t / sweep.period) * n) % n]
+      };
     }
-    let start: number;
+    if (!isFlashing || !flash) return null;
+    const intervals = getLightIntervals(flash);
+    return {
+      period: flash.period,
+      label: formatFlashCharacter(flash),
+      color: '52, 211, 153',
+      sample: (t: number) => sampleFlash(flash, t, intervals)
+    };
+  }, [sweep, isFlashing, flash]);
+
+  // Lamp overlay: plays the light curve at the source, with a timeline of one period
+  useEffect(() => {
+    const canvas = lampRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!lightCurve) return;
+    const { period, label, color } = lightCurve;
+
+    const drawWidth = canvas.width - MARGIN_LEFT - MARGIN_RIGHT;
+    const drawHeight = canvas.height - MARGIN_TOP - MARGIN_BOTTOM;
+    const cx = viewType === 'side'
+      ? MARGIN_LEFT + ((0 - minY) / (maxY - minY)) * drawWidth
+      : MARGIN_LEFT + ((0 - minX) / (maxX - minX)) * drawWidth;
+    const cy = viewType === 'side'
+      ? MARGIN_TOP + ((0 - minX) / (maxX - minX)) * drawHeight
+      : MARGIN_TOP + drawHeight - ((0 - minY) / (maxY - minY)) * drawHeight;
+
+    // Timeline strip in the bottom-right corner of the plot
+    const tlWidth = 180;
+    const tlHeight = 24;
+    const tlX = canvas.width - MARGIN_RIGHT - tlWidth - 14;
+    const tlY = MARGIN_TOP + drawHeight - tlHeight - 14;
+    const curve: number[] = [];
+    for (let i = 0; i <= tlWidth; i++) curve.push(lightCurve.sample((i / tlWidth) * period));
+
+    // Rotating beam: forward turned clockwise about the axis (Rodrigues), projected onto this view
+    const beamLength = (maxY - minY) * 0.25;
+    const beamTip = (angle: number) => {
+      if (!sweep) return null;
+      const { axis: k, forward: f } = sweep;
+      const c = Math.cos(-angle), sn = Math.sin(-angle);
+      const kf = k.x * f.x + k.y * f.y + k.z * f.z;
+      const d = {
+        x: f.x * c + (k.y * f.z - k.z * f.y) * sn + k.x * kf * (1 - c),
+        y: f.y * c + (k.z * f.x - k.x * f.z) * sn + k.y * kf * (1 - c),
+        z: f.z * c + (k.x * f.y - k.y * f.x) * sn + k.z * kf * (1 - c)
+      };
+      return viewType === 'side'
+        ? { x: cx + (d.y * beamLength / (maxY - minY)) * drawWidth, y: cy + (d.z * beamLength / (maxX - minX)) * drawHeight }
+        : { x: cx + (d.x * beamLength / (maxX - minX)) * drawWidth, y: cy - (d.y * beamLength / (maxY - minY)) * drawHeight };
+    };
+
+    let start: number | undefined;
     let req: number;
-    
     const animate = (time: number) => {
-      if (!start) start = time;
-      const progress = (time - start) % 1000;
-      const p = 0.7 + 0.3 * Math.sin((progress / 1000) * Math.PI * 2);
-      setPulse(p);
+      if (start === undefined) start = time;
+      const t = ((time - start) / 1000) % period;
+      const level = lightCurve.sample(t);
+
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      const tip = beamTip((2 * Math.PI * t) / period);
+      if (tip) {
+        ctx.strokeStyle = `rgba(${color}, 0.8)`;
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.moveTo(cx, cy);
+        ctx.lineTo(tip.x, tip.y);
+        ctx.stroke();
+      }
+
+      if (level > 0) {
+        const radius = 10 + 30 * level;
+        const glow = ctx.createRadialGradient(cx, cy, 0, cx, cy, radius);
+        glow.addColorStop(0, `rgba(255, 255, 255, ${level})`);
+        glow.addColorStop(0.3, `rgba(${color}, ${0.8 * level})`);
+        glow.addColorStop(1, `rgba(${color}, 0)`);
+        ctx.fillStyle = glow;
+        ctx.beginPath();
+        ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+        ctx.fill();
+      }
+
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+      ctx.fillRect(tlX - 4, tlY - 4, tlWidth + 8, tlHeight + 8);
+      ctx.strokeStyle = `rgb(${color})`;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      curve.forEach((v, i) => {
+        const y = tlY + tlHeight - v * tlHeight;
+        if (i === 0) ctx.moveTo(tlX + i, y);
+        else ctx.lineTo(tlX + i, y);
+      });
+      ctx.stroke();
+      const head = tlX + (t / period) * tlWidth;
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.beginPath();
+      ctx.moveTo(head, tlY - 2);
+      ctx.lineTo(head, tlY + tlHeight + 2);
+      ctx.stroke();
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.font = 'bold 12px monospace';
+      ctx.textAlign = 'right';
+      ctx.textBaseline = 'bottom';
+      ctx.fillText(label, tlX + tlWidth, tlY - 8);
+
       req = requestAnimationFrame(animate);
     };
-    
+
     req = requestAnimationFrame(animate);
     return () => cancelAnimationFrame(req);
-  }, [isFlashing]);
-
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  }, [lightCurve, sweep, viewType, minX, maxX, minY, maxY]);
 
-    // Define margins
-    const marginLeft = 70;
-    const marginBottom = 60;
-    const marginTop = 50; 
-    const marginRight = 30;
+  // Grid painted with the colour scale, in grid layout (a across, b down); the view maps it onto the plot
+  const fieldImage = useMemo(() => {
+    const image = document.createElement('canvas');
+    image.width = width;
+    image.height = height;
+    const imageCtx = image.getContext('2d');
+    if (!imageCtx) return image;
 
-    // Drawing area dimensions
-    const drawWidth = canvas.width - marginLeft - marginRight;
-    const drawHeight = canvas.height - marginTop - marginBottom;
-
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // 1. Prepare Image Data (Off-screen)
-    const imgData = ctx.createImageData(width, height);
+    const imgData = imageCtx.createImageData(width, height);
     const logThresh = Math.log10(threshold);
     const fadeStart = logThresh - 1.0;
+    const sourceColors = dominant && dominance ? dominance.map(c => rgb(c)) : null;
 
     for (let i = 0; i < data.length; i++) {
       const val = data[i];
@@ -80,7 +501,9 @@ const Heatmap: React.FC<HeatmapProps> = ({ grid, threshold, ledConfig, isFlashin
       const safeVal = val <= 1e-15 ? 1e-15 : val;
       const logVal = Math.log10(safeVal);
       
-      const c = rgb(colorScale(logVal));
+      // Dominance map: lit cells take the colour of their strongest beacon
+      const owner = sourceColors && dominant && logVal >= logThresh && dominant[i] !== NO_SOURCE ? sourceColors[dominant[i]] : undefined;
+      const c = owner ?? rgb(colorScale(logVal));
       const pxIdx = i * 4;
       
       let alpha = 255;
@@ -95,67 +518,159 @@ const Heatmap: React.FC<HeatmapProps> = ({ grid, threshold, ledConfig, isFlashin
       imgData.data[pxIdx + 3] = alpha; 
     }
 
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = width;
-    tempCanvas.height = height;
-    tempCanvas.getContext('2d')?.putImageData(imgData, 0, 0);
+    imageCtx.putImageData(imgData, 0, 0);
+    return image;
+  }, [data, threshold, colorScale, width, height, dominant, dominance]);
+
+  // Cross-section of the target box in this view's plane, turned with the fixture (plane coordinates)
+  const targetOutline = useMemo(() => {
+    if (!targetBox) return null;
+    const mount = mounting ? createMountTransform(mounting) : (p: Point3D) => p;
+    const corner = (across: number, along: number): Point => {
+      const p = viewType === 'top' ? mount({ x: across, y: along, z: 0 }) : mount({ x: 0, y: along, z: across });
+      return viewType === 'top' ? { x: p.x, y: p.y } : { x: p.z, y: p.y };
+    };
+    const half = (viewType === 'top' ? targetBox.width : targetBox.height) / 2;
+    return [corner(-half, 0), corner(half, 0), corner(half, targetBox.range), corner(-half, targetBox.range)];
+  }, [targetBox, mounting, viewType]);
+
+  // Target regions in plane coordinates: plan outlines on the top view, X = 0 sections on the side view
+  const regionShapes = useMemo<FigureRegion[]>(() => (targetRegions ?? []).map(region => {
+    const paths = viewType === 'top' ? getRegionRings(region) : getRegionSection(region);
+    const [first] = paths;
+    const anchor = viewType === 'top'
+      ? getRegionLabelAnchor(region)
+      : first ? { x: (first[0].x + first[2].x) / 2, y: (first[0].y + first[2].y) / 2 } : null;
+    return { paths, anchor, name: region.name, color: TARGET_REGION_COLORS[region.kind], fill: region.kind === 'exclude' };
+  }).filter(r => r.paths.length > 0), [targetRegions, viewType]);
+
+  // Receptors in plane coordinates: (x, y) on the plan, (z, y) on the elevation
+  const receptorMarks = useMemo<FigureReceptor[]>(() => (receptors ?? []).map(r => ({
+    at: viewType === 'top' ? { x: r.at.x, y: r.at.y } : { x: r.at.z, y: r.at.y },
+    name: r.name,
+    color: r.pass ? RECEPTOR_COLORS.pass : RECEPTOR_COLORS.fail,
+    offending: !r.pass
+  })), [receptors, viewType]);
+
+  // LED arrows with their beam spread wedges (asymmetric optics show unequal lobes per view), in plane coordinates
+  const ledMarks = useMemo(() => {
+    const worldLen = (maxY - minY) * 0.1;
+    const edgeLen = worldLen * 0.8;
+
+    // Projects an LED direction (yaw h, pitch v) from its own position onto this view
+    const projectDir = (led: Emitter, h: number, v: number, len: number): Point => {
+      const dx = led.x + Math.sin(h) * Math.cos(v) * len;
+      const dy = led.y + Math.cos(h) * Math.cos(v) * len;
+      const dz = led.z + Math.sin(v) * len;
+      return viewType === 'side' ? { x: dz, y: dy } : { x: dx, y: dy };
+    };
+
+    return ledConfig.map((led, i) => {
+      const { h, v } = led;
+      const edges = beamEdges[i];
+      return {
+        origin: viewType === 'side' ? { x: led.z, y: led.y } : { x: led.x, y: led.y },
+        tip: projectDir(led, h, v, worldLen),
+        edges: (viewType === 'side'
+          ? [projectDir(led, h, v + edges.pos, edgeLen), projectDir(led, h, v - edges.neg, edgeLen)]
+          : [projectDir(led, h + edges.pos, v, edgeLen), projectDir(led, h - edges.neg, v, edgeLen)]) as [Point, Point]
+      };
+    });
+  }, [ledConfig, beamEdges, viewType, minY, maxY]);
+
+  const axisTitles = useMemo(() => axisLabels ?? (viewType === 'side'
+    ? { x: 'DISTANCE (Y)', y: 'HEIGHT (Z)' }
+    : { x: 'LATERAL (X)', y: 'DISTANCE (Y)' }), [axisLabels, viewType]);
+
+  // The whole plot at a logical size, in the context's current transform (scaled up for exports)
+  const drawPlot = useCallback((ctx: CanvasRenderingContext2D, canvasWidth: number, canvasHeight: number) => {
+    const marginLeft = MARGIN_LEFT;
+    const marginTop = MARGIN_TOP;
+
+    ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+
+    // Coordinate Mapping Function (world -> canvas)
+    const { toCanvas: mapToCanvas, drawWidth, drawHeight } = createViewMapping(viewType, { minX, maxX, minY, maxY }, canvasWidth, canvasHeight);
+
+    // Maps a grid-sized image onto the drawing area (side view swaps axes, top view flips Y)
+    const drawGridImage = (target: CanvasRenderingContext2D, image: HTMLCanvasElement, smooth: boolean) => {
+        target.save();
+        target.translate(marginLeft, marginTop);
+        target.imageSmoothingEnabled = smooth;
+        if (viewType === 'side') {
+            // Side View: x' = y, y' = x
+            target.transform(0, 1, 1, 0, 0, 0);
+            target.scale(drawWidth / height, drawHeight / width);
+        } else {
+            // Top View:
+            target.translate(0, drawHeight);
+            target.scale(drawWidth / width, -drawHeight / height);
+        }
+        target.drawImage(image, 0, 0);
+        target.restore();
+    };
 
-    // 2. Draw Image with View Transformation
+    // 1. Draw the field with the view transformation
     ctx.save();
     ctx.beginPath();
     ctx.rect(marginLeft, marginTop, drawWidth, drawHeight);
     ctx.clip();
-    ctx.translate(marginLeft, marginTop);
-    ctx.imageSmoothingEnabled = true;
-
-    if (viewType === 'side') {
-        // Side View: x' = y, y' = x
-        ctx.transform(0, 1, 1, 0, 0, 0); 
-        ctx.scale(drawWidth / height, drawHeight / width);
-        ctx.drawImage(tempCanvas, 0, 0);
-
-    } else {
-        // Top View:
-        ctx.translate(0, drawHeight);
-        ctx.scale(drawWidth / width, -drawHeight / height);
-        ctx.drawImage(tempCanvas, 0, 0);
+
+    // Basemap tiles underneath: affine-map each tile onto its (rotated) footprint
+    if (tiles.length > 0 && basemap) {
+        ctx.globalAlpha = basemap.opacity;
+        tiles.forEach(t => {
+            const nw = mapToCanvas(t.nw.x, t.nw.y);
+            const ne = mapToCanvas(t.ne.x, t.ne.y);
+            const sw = mapToCanvas(t.sw.x, t.sw.y);
+            const w = t.image.width;
+            const h = t.image.height;
+            // Overdraw by a pixel to hide seams between neighbouring tiles
+            ctx.save();
+            ctx.transform((ne.x - nw.x) / w, (ne.y - nw.y) / w, (sw.x - nw.x) / h, (sw.y - nw.y) / h, nw.x, nw.y);
+            ctx.drawImage(t.image, 0, 0, w + 1, h + 1);
+            ctx.restore();
+        });
+        ctx.globalAlpha = 0.8;
     }
+
+    drawGridImage(ctx, fieldImage, true);
     ctx.restore();
 
-    // 3. Coordinate Mapping Function
-    const mapToCanvas = (gx: number, gy: number) => {
-        let sx, sy;
-        if (viewType === 'side') {
-             // Side View: gx=Height(X), gy=Dist(Y) -> ScreenX=Dist, ScreenY=Height
-             sx = marginLeft + ((gy - minY) / (maxY - minY)) * drawWidth;
-             sy = marginTop + ((gx - minX) / (maxX - minX)) * drawHeight;
-        } else {
-             // Top View: gx=Lat(X), gy=Dist(Y) -> ScreenX=Lat, ScreenY=Dist(Inverted)
-             sx = marginLeft + ((gx - minX) / (maxX - minX)) * drawWidth;
-             sy = marginTop + drawHeight - ((gy - minY) / (maxY - minY)) * drawHeight;
+    // 2. Hatch occluded cells so shadows read differently from attenuation
+    if (occluded) {
+        const maskCanvas = document.createElement('canvas');
+        maskCanvas.width = width;
+        maskCanvas.height = height;
+        const maskCtx = maskCanvas.getContext('2d');
+        // Hatched at the output's pixel size, so exports stay sharp
+        const pixelScale = ctx.getTransform().a;
+        const hatchCanvas = document.createElement('canvas');
+        hatchCanvas.width = Math.round(canvasWidth * pixelScale);
+        hatchCanvas.height = Math.round(canvasHeight * pixelScale);
+        const hatchCtx = hatchCanvas.getContext('2d');
+        const pattern = hatchCtx && createHatchPattern(hatchCtx);
+        if (maskCtx && hatchCtx && pattern) {
+            const mask = maskCtx.createImageData(width, height);
+            for (let i = 0; i < occluded.length; i++) mask.data[i * 4 + 3] = occluded[i] ? 255 : 0;
+            maskCtx.putImageData(mask, 0, 0);
+
+            hatchCtx.scale(pixelScale, pixelScale);
+            hatchCtx.save();
+            hatchCtx.beginPath();
+            hatchCtx.rect(marginLeft, marginTop, drawWidth, drawHeight);
+            hatchCtx.clip();
+            drawGridImage(hatchCtx, maskCanvas, false);
+            hatchCtx.restore();
+            hatchCtx.globalCompositeOperation = 'source-in';
+            hatchCtx.fillStyle = pattern;
+            hatchCtx.fillRect(0, 0, canvasWidth, canvasHeight);
+            ctx.drawImage(hatchCanvas, 0, 0, canvasWidth, canvasHeight);
         }
-        return { x: sx, y: sy };
-    };
+    }
 
     // --- ADAPTIVE GRID CALCULATION ---
-    const xRange = maxX - minX;
-    const yRange = maxY - minY;
-    const maxRange = Math.max(xRange, yRange);
-
-    const calculateStep = (range: number) => {
-        if (range <= 1e-6) return 100;
-        const targetTicks = 10; // Aim for ~10 ticks
-        const rawStep = range / targetTicks;
-        const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
-        const residual = rawStep / magnitude;
-        
-        if (residual > 5) return 10 * magnitude;
-        if (residual > 2) return 5 * magnitude;
-        if (residual > 1) return 2 * magnitude;
-        return magnitude;
-    };
-
-    const gridStep = calculateStep(maxRange);
+    const gridStep = getGridStep(Math.max(maxX - minX, maxY - minY));
 
     ctx.strokeStyle = 'rgba(255,255,255,0.15)';
     ctx.setLineDash([4, 6]);
@@ -166,19 +681,10 @@ const Heatmap: React.FC<HeatmapProps> = ({ grid, threshold, ledConfig, isFlashin
     ctx.shadowColor = 'rgba(0,0,0,0.8)';
     ctx.shadowBlur = 4;
 
-    const formatTick = (val: number) => {
-        if (Math.abs(val) >= 10000) return `${val/1000}k`;
-        return `${val}`;
-    };
-
     // DRAW GRID & TICKS
     
     // Vertical Lines (Iterating World X)
-    const startX = Math.ceil(minX / gridStep) * gridStep;
-    for (let x = startX; x <= maxX + (gridStep * 0.001); x += gridStep) {
-      const val = Math.round(x * 1000) / 1000;
-      if (val < minX || val > maxX) continue;
-
+    getGridTicks(minX, maxX, gridStep).forEach(val => {
       if (viewType === 'side') {
           // In Side view, X axis is Height (Vertical on screen)
           const p1 = mapToCanvas(val, minY); 
@@ -209,14 +715,10 @@ const Heatmap: React.FC<HeatmapProps> = ({ grid, threshold, ledConfig, isFlashin
           ctx.textBaseline = 'top';
           ctx.fillText(`${formatTick(val)}m`, p1.x, marginTop + drawHeight + 10);
       }
-    }
+    });
 
     // Horizontal Lines (Iterating World Y)
-    const startY = Math.ceil(minY / gridStep) * gridStep;
-    for (let y = startY; y <= maxY + (gridStep * 0.001); y += gridStep) {
-        const val = Math.round(y * 1000) / 1000;
-        if (val < minY || val > maxY) continue;
-
+    getGridTicks(minY, maxY, gridStep).forEach(val => {
         if (viewType === 'side') {
             // In Side view, Y axis is Distance (Horizontal on screen)
             const p1 = mapToCanvas(minX, val);
@@ -248,7 +750,7 @@ const Heatmap: React.FC<HeatmapProps> = ({ grid, threshold, ledConfig, isFlashin
                 ctx.fillText(`${formatTick(val)}m`, marginLeft - 10, p1.y);
             }
         }
-    }
+    });
     
     ctx.setLineDash([]);
     ctx.shadowBlur = 0;
@@ -260,18 +762,12 @@ const Heatmap: React.FC<HeatmapProps> = ({ grid, threshold, ledConfig, isFlashin
     ctx.clip();
 
     // Draw Target Box
-    if (targetBox) {
+    if (targetOutline) {
         ctx.strokeStyle = 'rgba(250, 204, 21, 0.6)'; 
         ctx.lineWidth = 3;
         ctx.setLineDash([10, 10]);
         
-        const dim = viewType === 'top' ? targetBox.width : targetBox.height;
-        const half = dim / 2;
-        
-        const c1 = mapToCanvas(-half, 0);
-        const c2 = mapToCanvas(half, 0);
-        const c3 = mapToCanvas(half, targetBox.range);
-        const c4 = mapToCanvas(-half, targetBox.range);
+        const [c1, c2, c3, c4] = targetOutline.map(p => mapToCanvas(p.x, p.y));
         
         ctx.beginPath();
         ctx.moveTo(c1.x, c1.y);
@@ -290,22 +786,219 @@ const Heatmap: React.FC<HeatmapProps> = ({ grid, threshold, ledConfig, isFlashin
         ctx.setLineDash([]);
     }
 
-    // Draw Contours (Threshold)
-    ctx.strokeStyle = isFlashing ? '#10b981' : '#4ade80';
-    ctx.lineWidth = isFlashing ? 3 : 2;
-    ctx.shadowBlur = 0; 
-    
-    ctx.beginPath();
-    contourLines.forEach((path) => {
-      if (path.length < 2) return;
-      const start = mapToCanvas(path[0].x, path[0].y);
-      ctx.moveTo(start.x, start.y);
-      for (let i = 1; i < path.length; i++) {
-        const p = mapToCanvas(path[i].x, path[i].y);
-        ctx.lineTo(p.x, p.y);
+    // Target regions: inclusion outlined like the box, exclusion zones shaded
+    regionShapes.forEach(r => {
+        ctx.beginPath();
+        r.paths.forEach(path => {
+            path.forEach((p, i) => {
+                const c = mapToCanvas(p.x, p.y);
+                if (i === 0) ctx.moveTo(c.x, c.y);
+                else ctx.lineTo(c.x, c.y);
+            });
+            ctx.closePath();
+        });
+        if (r.fill) {
+            ctx.globalAlpha = 0.18;
+            ctx.fillStyle = r.color;
+            ctx.fill('evenodd');
+            ctx.globalAlpha = 1;
+        }
+        ctx.strokeStyle = r.color;
+        ctx.lineWidth = 2;
+        ctx.setLineDash([10, 6]);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        if (r.anchor) {
+            const a = mapToCanvas(r.anchor.x, r.anchor.y);
+            ctx.font = 'bold 13px sans-serif';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.shadowColor = 'rgba(0,0,0,0.9)';
+            ctx.shadowBlur = 4;
+            ctx.fillStyle = r.color;
+            ctx.fillText(r.name.toUpperCase(), a.x, a.y);
+            ctx.shadowBlur = 0;
+        }
+    });
+
+    // Curved sea/ground line with the earth shaded below it, and the tangent ray to the horizon
+    if (horizon && viewType === 'side') {
+        const steps = 200;
+        const surface: { x: number; y: number }[] = [];
+        for (let i = 0; i <= steps; i++) {
+            const d = minY + ((maxY - minY) * i) / steps;
+            surface.push(mapToCanvas(getSurfaceZ(horizon, Math.abs(d)), d));
+        }
+        // Height runs down the screen in this view, so "below ground" is towards minX (top of the area)
+        ctx.fillStyle = 'rgba(14, 116, 144, 0.35)';
+        ctx.beginPath();
+        ctx.moveTo(surface[0].x, marginTop);
+        surface.forEach(p => ctx.lineTo(p.x, p.y));
+        ctx.lineTo(surface[surface.length - 1].x, marginTop);
+        ctx.closePath();
+        ctx.fill();
+
+        ctx.strokeStyle = '#38bdf8';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        surface.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.stroke();
+
+        const dh = getHorizonDistance(horizon.sourceHeight, horizon.effectiveRadius);
+        if (dh > 0 && dh < maxY) {
+            const far = mapToCanvas(-(dh / horizon.effectiveRadius) * maxY, maxY);
+            const origin = mapToCanvas(0, 0);
+            const tangent = mapToCanvas(getSurfaceZ(horizon, dh), dh);
+            ctx.strokeStyle = 'rgba(56, 189, 248, 0.6)';
+            ctx.lineWidth = 1;
+            ctx.setLineDash([6, 6]);
+            ctx.beginPath();
+            ctx.moveTo(origin.x, origin.y);
+            ctx.lineTo(far.x, far.y);
+            ctx.stroke();
+            ctx.setLineDash([]);
+
+            ctx.fillStyle = '#38bdf8';
+            ctx.beginPath();
+            ctx.arc(tangent.x, tangent.y, 3, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.font = 'bold 12px sans-serif';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'bottom';
+            ctx.fillText(`HORIZON ${(dh / 1000).toFixed(1)} km`, tangent.x, tangent.y - 6);
+        }
+    }
+
+    // Geographic range ring
+    if (geographicRange && viewType === 'top') {
+        const c = mapToCanvas(0, 0);
+        const r = (geographicRange / (maxX - minX)) * drawWidth;
+        const ry = (geographicRange / (maxY - minY)) * drawHeight;
+        ctx.strokeStyle = 'rgba(56, 189, 248, 0.7)';
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([8, 6]);
+        ctx.beginPath();
+        ctx.ellipse(c.x, c.y, r, ry, 0, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        const label = mapToCanvas(0, geographicRange);
+        ctx.fillStyle = '#38bdf8';
+        ctx.font = 'bold 12px sans-serif';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(`GEOGRAPHIC ${(geographicRange / 1000).toFixed(1)} km`, label.x + 6, label.y - 4);
+    }
+
+    // Draw Contours (one isoline set per level, each with its own style and label)
+    contours.forEach(({ level, paths }, idx) => {
+      ctx.strokeStyle = level.color;
+      ctx.lineWidth = (isFlashing ? 3 : 2) - Math.min(idx, 1) * 0.5;
+      ctx.setLineDash(LINE_DASH[level.lineStyle]);
+      ctx.shadowBlur = 0;
+
+      ctx.beginPath();
+      paths.forEach((path) => {
+        if (path.length < 2) return;
+        const start = mapToCanvas(path[0].x, path[0].y);
+        ctx.moveTo(start.x, start.y);
+        for (let i = 1; i < path.length; i++) {
+          const p = mapToCanvas(path[i].x, path[i].y);
+          ctx.lineTo(p.x, p.y);
+        }
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      const anchor = getLabelAnchor(paths);
+      if (anchor) {
+        const a = mapToCanvas(anchor.x, anchor.y);
+        ctx.font = 'bold 13px sans-serif';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'bottom';
+        ctx.shadowColor = 'rgba(0,0,0,0.9)';
+        ctx.shadowBlur = 4;
+        ctx.fillStyle = level.color;
+        ctx.fillText(level.name, a.x + 6, a.y - 4);
+        ctx.shadowBlur = 0;
       }
     });
-    ctx.stroke();
+
+    // Coverage polygon and its gaps
+    if (coverageArea && coverageArea.length >= 3 && viewType === 'top') {
+        ctx.strokeStyle = 'rgba(244, 114, 182, 0.9)';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([12, 6]);
+        ctx.beginPath();
+        coverageArea.forEach((p, i) => {
+            const c = mapToCanvas(p.x, p.y);
+            if (i === 0) ctx.moveTo(c.x, c.y);
+            else ctx.lineTo(c.x, c.y);
+        });
+        ctx.closePath();
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.font = 'bold 12px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.shadowColor = 'rgba(0,0,0,0.9)';
+        ctx.shadowBlur = 4;
+        ctx.fillStyle = '#fda4af';
+        (gaps ?? []).slice(0, 20).forEach((g, i) => {
+            const c = mapToCanvas(g.centroid.x, g.centroid.y);
+            ctx.fillText(`G${i + 1}`, c.x, c.y);
+        });
+        ctx.shadowBlur = 0;
+    }
+
+    // Scene beacons: position, heading and name
+    if (beacons && viewType === 'top') {
+        const len = (maxY - minY) * 0.05;
+        beacons.forEach(b => {
+            const p = mapToCanvas(b.x, b.y);
+            const rad = (b.heading * Math.PI) / 180;
+            const tip = mapToCanvas(b.x + Math.sin(rad) * len, b.y + Math.cos(rad) * len);
+            ctx.strokeStyle = b.color;
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.moveTo(p.x, p.y);
+            ctx.lineTo(tip.x, tip.y);
+            ctx.stroke();
+            ctx.fillStyle = b.color;
+            ctx.beginPath();
+            ctx.arc(p.x, p.y, 5, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.strokeStyle = '#fff';
+            ctx.lineWidth = 1;
+            ctx.stroke();
+            ctx.font = 'bold 11px sans-serif';
+            ctx.textAlign = 'left';
+            ctx.textBaseline = 'top';
+            ctx.fillText(b.name, p.x + 8, p.y + 4);
+        });
+    }
+
+    // Receptors: offenders ringed and named
+    receptorMarks.forEach(r => {
+        const c = mapToCanvas(r.at.x, r.at.y);
+        ctx.fillStyle = r.color;
+        ctx.beginPath();
+        ctx.arc(c.x, c.y, 5, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 1;
+        ctx.stroke();
+        if (!r.offending) return;
+        ctx.strokeStyle = r.color;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(c.x, c.y, 11, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.font = 'bold 11px sans-serif';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(r.name, c.x + 14, c.y);
+    });
 
     // Draw Center Line
     ctx.strokeStyle = 'rgba(255,255,255,0.4)';
@@ -325,29 +1018,27 @@ const Heatmap: React.FC<HeatmapProps> = ({ grid, threshold, ledConfig, isFlashin
     ctx.lineCap = 'round';
     ctx.shadowBlur = 0; 
 
-    ledConfig.forEach(({ h, v }) => {
-      const dx = Math.sin(h) * Math.cos(v); 
-      const dy = Math.cos(h) * Math.cos(v); 
-      const dz = Math.sin(v);               
-
-      let tip;
-      if (viewType === 'side') {
-        const worldLen = (maxY - minY) * 0.1;
-        const wx = dz * worldLen; 
-        const wy = dy * worldLen; 
-        tip = mapToCanvas(wx, wy);
+    ledMarks.forEach(mark => {
+      const origin = mapToCanvas(mark.origin.x, mark.origin.y);
+      const [e1, e2] = mark.edges.map(p => mapToCanvas(p.x, p.y));
+      ctx.fillStyle = isFlashing ? 'rgba(34, 211, 238, 0.12)' : 'rgba(6, 182, 212, 0.1)';
+      ctx.beginPath();
+      ctx.moveTo(origin.x, origin.y);
+      ctx.lineTo(e1.x, e1.y);
+      ctx.lineTo(e2.x, e2.y);
+      ctx.closePath();
+      ctx.fill();
 
-      } else {
-        const worldLen = (maxY - minY) * 0.1;
-        const wx = dx * worldLen; 
-        const wy = dy * worldLen; 
-        tip = mapToCanvas(wx, wy);
-      }
-      
+      const tip = mapToCanvas(mark.tip.x, mark.tip.y);
       ctx.beginPath();
-      ctx.moveTo(center.x, center.y);
+      ctx.moveTo(origin.x, origin.y);
       ctx.lineTo(tip.x, tip.y);
       ctx.stroke();
+
+      ctx.fillStyle = '#fff';
+      ctx.beginPath();
+      ctx.arc(origin.x, origin.y, 2, 0, Math.PI * 2);
+      ctx.fill();
     });
 
     ctx.fillStyle = '#fff';
@@ -371,31 +1062,187 @@ const Heatmap: React.FC<HeatmapProps> = ({ grid, threshold, ledConfig, isFlashin
     ctx.fillStyle = 'rgba(255,255,255,0.5)';
     ctx.font = '14px sans-serif';
     
-    const xLabel = viewType === 'side' ? 'DISTANCE (Y)' : 'LATERAL (X)';
-    const yLabel = viewType === 'side' ? 'HEIGHT (Z)' : 'DISTANCE (Y)';
-    
     ctx.textAlign = 'center';
     ctx.textBaseline = 'bottom';
-    ctx.fillText(xLabel, marginLeft + drawWidth / 2, canvas.height - 15);
+    ctx.fillText(axisTitles.x, marginLeft + drawWidth / 2, canvasHeight - 15);
 
     ctx.translate(20, marginTop + drawHeight / 2);
     ctx.rotate(-Math.PI / 2);
     ctx.textAlign = 'center';
     ctx.textBaseline = 'bottom';
-    ctx.fillText(yLabel, 0, 0);
+    ctx.fillText(axisTitles.y, 0, 0);
 
     ctx.restore();
 
-  }, [data, threshold, colorScale, width, height, minX, maxX, minY, maxY, ledConfig, isFlashing, pulse, contourLines, viewType, title, targetBox]);
+  }, [fieldImage, occluded, width, height, minX, maxX, minY, maxY, ledMarks, isFlashing, contours, viewType, title, targetOutline, regionShapes, receptorMarks, tiles, basemap, horizon, geographicRange, beacons, coverageArea, gaps, axisTitles]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawPlot(ctx, ctx.canvas.width, ctx.canvas.height);
+  }, [drawPlot]);
+
+  // Legend and caption of exported images: the colour scale, then one line per contour level
+  const decorations = useMemo<FigureDecorations>(() => {
+    const [low, high] = colorScale.domain();
+    return {
+      legend: contours.map(({ level, threshold: t }) => ({
+        label: `${level.name} · ${t.toExponential(2)} ${unit}`,
+        color: level.color,
+        dash: LINE_DASH[level.lineStyle]
+      })),
+      colorBar: {
+        title: `FIELD (${unit}, LOG SCALE)`,
+        colors: Array.from({ length: 11 }, (_, i) => colorScale(low + ((high - low) * i) / 10)),
+        low: `${Math.pow(10, low).toExponential(1)}`,
+        high: `${Math.pow(10, high).toExponential(1)}`
+      },
+      caption: caption ?? []
+    };
+  }, [colorScale, contours, unit, caption]);
+
+  // Report image: the plot redrawn at the printed size (PNG), or as vectors around the field image (SVG)
+  const handleExportImage = () => {
+    const layout = getExportLayout(imageExport, GRID_RES * 2, getCaptionHeight(decorations.caption));
+    const filename = `${exportName}.${imageExport.format}`;
+    if (imageExport.format === 'svg') {
+      downloadSVG(buildPlotSvg({
+        ...decorations,
+        ...layout,
+        viewType,
+        limits: { minX, maxX, minY, maxY },
+        field: { href: fieldImage.toDataURL('image/png'), width, height },
+        title,
+        axisLabels: axisTitles,
+        contours,
+        contourWidth: isFlashing ? 3 : 2,
+        target: targetOutline ?? undefined,
+        regions: regionShapes,
+        receptors: receptorMarks,
+        leds: ledMarks
+      }), filename);
+      return;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = layout.pixelWidth;
+    canvas.height = layout.pixelHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(layout.scale, layout.scale);
+    drawPlot(ctx, layout.width, layout.plotHeight);
+    drawDecorations(ctx, decorations, layout.width, layout.plotHeight);
+    // Opaque background behind everything drawn so far
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, layout.width, layout.height);
+    downloadPNG(canvas, filename, imageExport.dpi).catch(err => console.error('Image export failed:', err));
+  };
+
+  const exportLayout = getExportLayout(imageExport, GRID_RES * 2, getCaptionHeight(decorations.caption));
+  const updateImageExport = (patch: Partial<ImageExportOptions>) => setImageExport(prev => ({ ...prev, ...patch }));
 
   return (
-    <div className="relative w-full aspect-square lg:aspect-video bg-black rounded-3xl overflow-hidden shadow-2xl border border-white/5">
-      <canvas 
-        ref={canvasRef} 
-        width={width * 2} 
-        height={height * 2}
-        className="w-full h-full object-contain"
-      />
+    <div className="space-y-3">
+      <div className="relative w-full aspect-square lg:aspect-video bg-black rounded-3xl overflow-hidden shadow-2xl border border-white/5 cursor-crosshair"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={() => { setHover(null); setDrag(null); }}
+        onDoubleClick={() => { if (isDrawing) finishDraft(draft); }}
+      >
+        <canvas 
+          ref={canvasRef} 
+          width={GRID_RES * 2} 
+          height={GRID_RES * 2}
+          className="w-full h-full object-contain"
+        />
+        <canvas 
+          ref={lampRef} 
+          width={GRID_RES * 2} 
+          height={GRID_RES * 2}
+          className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+        />
+        <canvas 
+          ref={probeRef} 
+          width={GRID_RES * 2} 
+          height={GRID_RES * 2}
+          className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+        />
+        {hover && probe && (
+          <div
+            className="absolute pointer-events-none bg-black/80 backdrop-blur-md border border-white/10 rounded-xl px-3 py-2 text-[10px] font-mono text-gray-300 space-y-0.5 whitespace-nowrap"
+            style={hover.flip ? { right: `calc(100% - ${hover.left - 14}px)`, top: hover.top + 14 } : { left: hover.left + 14, top: hover.top + 14 }}
+          >
+            <div className="text-gray-500">{formatWorld(hover.at)}</div>
+            <div className="text-white">{probe.value.toExponential(2)} {unit}</div>
+            <div className={probe.margin !== null && probe.margin >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+              {probe.margin === null
+                ? 'No light'
+                : `${probe.margin >= 0 ? '+' : ''}${(probe.margin * 10).toFixed(1)} dB · ${probe.margin >= 0 ? '+' : ''}${probe.margin.toFixed(2)} log`}
+            </div>
+            {probe.shadow && <div className="text-slate-400">No line of sight</div>}
+            {probe.rotating
+              ? <div className="text-amber-400">Swept beam</div>
+              : probe.strongest && <div className="text-cyan-400">LED {probe.strongest.index + 1} · {Math.round(probe.strongest.share * 100)}% of primary</div>}
+          </div>
+        )}
+        {children}
+        <div className={`absolute bottom-10 right-10 flex flex-col items-end gap-2 transition-opacity duration-300 ${showExport ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+          {showExport && (
+            <div className="bg-black/80 backdrop-blur-md border border-white/10 rounded-xl p-3 space-y-2 w-56">
+              <div className="flex bg-black/40 p-1 rounded-xl">
+                {(['png', 'svg'] as const).map(f => (
+                  <button key={f} onClick={() => updateImageExport({ format: f })}
+                    className={`flex-1 px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${imageExport.format === f ? 'bg-sky-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                  >{f === 'png' ? 'PNG' : 'SVG'}</button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {([['widthMm', 'Width mm'], ['heightMm', 'Height mm']] as const).map(([key, label]) => (
+                  <label key={key} className="bg-black/40 rounded-xl p-2 border border-white/5 block">
+                    <span className="block text-[8px] font-black uppercase tracking-widest text-gray-500">{label}</span>
+                    <input type="number" min={20} max={1000} step={5} value={imageExport[key]}
+                      onChange={e => {
+                        const mm = parseFloat(e.target.value);
+                        if (mm >= 20 && mm <= 1000) updateImageExport({ [key]: mm });
+                      }}
+                      className="w-full bg-transparent text-[11px] font-mono text-white outline-none" />
+                  </label>
+                ))}
+              </div>
+              {imageExport.format === 'png' && (
+                <div className="flex bg-black/40 p-1 rounded-xl">
+                  {EXPORT_DPIS.map(dpi => (
+                    <button key={dpi} onClick={() => updateImageExport({ dpi })}
+                      className={`flex-1 px-2 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${imageExport.dpi === dpi ? 'bg-sky-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                    >{dpi}</button>
+                  ))}
+                </div>
+              )}
+              <div className="text-[9px] font-mono text-gray-500">
+                {imageExport.format === 'png'
+                  ? `${exportLayout.pixelWidth} × ${exportLayout.pixelHeight} px @ ${imageExport.dpi} dpi`
+                  : `${exportLayout.widthMm.toFixed(0)} × ${exportLayout.heightMm.toFixed(0)} mm, vector`}
+              </div>
+              <button onClick={handleExportImage}
+                className="w-full bg-sky-500 hover:bg-sky-400 text-white px-3 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all active:scale-95"
+              ><i className="fas fa-download mr-2"></i>Download {imageExport.format.toUpperCase()}</button>
+            </div>
+          )}
+          <button onClick={() => setShowExport(v => !v)}
+            className="bg-white/10 hover:bg-white/20 backdrop-blur-xl border border-white/10 px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest text-white flex items-center gap-2 transition-all"
+          ><i className="fas fa-image"></i>Export image</button>
+        </div>
+      </div>
+      {profile && profile.samples.length > 1 && (
+        <ProfileChart
+          samples={profile.samples}
+          threshold={threshold}
+          unit={unit}
+          startLabel={formatWorld(profile.line.start)}
+          endLabel={formatWorld(profile.line.end)}
+          onClear={() => setProfileLine(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { VOLUME_RES } from '../constants';
 
 const Instructions: React.FC = () => {
   return (
@@ -60,6 +61,8 @@ const Instructions: React.FC = () => {
                                <li>Identify the <b className="text-white">Relative Intensity (%)</b> at specific <b className="text-white">Angles (°)</b>.</li>
                                <li>Example: If the curve crosses the 50% line at 20°, enter <b>Angle: 20, Intensity: 0.5</b> in the Beam Pattern Table.</li>
                                <li>The "0°" point is always 1.0 (100%).</li>
+                               <li>Oval or asymmetric optics: switch the table to <b className="text-white">H / V</b> or <b className="text-white">C-Planes</b> and enter one curve per plane.</li>
+                               <li>Vendor <b className="text-white">IES (LM-63)</b> and <b className="text-white">EULUMDAT (.ldt)</b> files can be imported directly; the peak sets the intensity.</li>
                            </ul>
                        </div>
                    </div>
@@ -182,6 +185,88 @@ const Instructions: React.FC = () => {
                 </div>
             </div>
           </div>
+
+          <div className="bg-black/20 rounded-2xl p-6 border border-white/5">
+            <h5 className="text-cyan-400 font-black text-xs uppercase tracking-widest mb-3">Physical Layouts</h5>
+            <p className="text-gray-400 text-xs leading-relaxed">
+              <b>Fan</b> keeps every LED at one point. <b>Line</b> and <b>Grid</b> space the columns (and rows) at the <b>Pitch</b>, as on a bar;
+              <b> Ring</b> faces the columns outwards all round; <b>Dome</b> and <b>Hemi</b> sit the LEDs on a sphere of the given <b>Radius</b>.
+              Offsets only matter close to the fixture, or between beacons. Editing the emitter table (or importing a CSV of
+              <span className="font-mono"> x, y, z</span> in metres and <span className="font-mono">yaw, pitch, roll</span> in degrees, plus an optional
+              <span className="font-mono"> intensity</span>) switches to a <b>Custom</b> layout, where each LED may also carry its own IES/LDT beam.
+              <b> Fixture Mounting</b> then turns the whole array as one body (yaw, tilt and roll); the table stays in the fixture's own frame,
+              and an extra <b>Optical Axis Section</b> slices the field along the tilted axis.
+            </p>
+          </div>
+
+          <div className="bg-black/20 rounded-2xl p-6 border border-white/5">
+            <h5 className="text-cyan-400 font-black text-xs uppercase tracking-widest mb-3">Scenes & Coverage</h5>
+            <p className="text-gray-400 text-xs leading-relaxed">
+              <b>Scene &amp; Coverage</b> adds further beacons around the primary one, each placed in metres and turned by a <b>Heading</b>
+              (clockwise from the primary's forward axis). The plan view sums their light; <b>Dominant</b> colours every lit cell by the beacon
+              that contributes most. Flashing beacons are weighted by their own effective intensity. Draw a <b>Coverage Area</b> polygon to list
+              the gaps inside it where no beacon reaches the threshold, marked <b>G1</b>, <b>G2</b>… from the largest.
+            </p>
+          </div>
+
+          <div className="bg-black/20 rounded-2xl p-6 border border-white/5">
+            <h5 className="text-cyan-400 font-black text-xs uppercase tracking-widest mb-3">Range vs Bearing</h5>
+            <p className="text-gray-400 text-xs leading-relaxed">
+              Below the plots, <b>Range vs Bearing</b> gives the visible range from the primary beacon at every degree: by bearing in the plan
+              (true bearings once the beacon is geo-referenced) and by elevation in the vertical plane through the forward axis. Each ray is
+              followed out past the luminous range, so terrain shadows and further beacons are included. Hover to read a single bearing;
+              <b> Export CSV</b> saves the full table.
+            </p>
+          </div>
+
+          <div className="bg-black/20 rounded-2xl p-6 border border-white/5">
+            <h5 className="text-cyan-400 font-black text-xs uppercase tracking-widest mb-3">Probe & Profile</h5>
+            <p className="text-gray-400 text-xs leading-relaxed">
+              Hover over any plot to read the position, the illuminance, its margin over the threshold (dB and log units) and which LED of
+              the primary beacon contributes most there. Drag across a plot to draw a line from <b>A</b> to <b>B</b>: the illuminance along it
+              is plotted underneath on a log scale, with the threshold marked and the length above it totalled. A line running off the plot
+              is cut at its edges, and the ends shown are where it crosses them.
+            </p>
+          </div>
+
+          <div className="bg-black/20 rounded-2xl p-6 border border-white/5">
+            <h5 className="text-fuchsia-400 font-black text-xs uppercase tracking-widest mb-3">Slice Plane</h5>
+            <p className="text-gray-400 text-xs leading-relaxed">
+              Switch on <b>Slice Plane</b> to cut the field along a plane of your choice: horizontal at a height, vertical along a bearing,
+              or a custom plane set by its origin, normal and extent. It gets its own heatmap, contours and DXF export. In the 3D tab the
+              plane can be dragged or tilted with the gizmo; releasing it stores the new pose as a custom plane.
+            </p>
+          </div>
+
+          <div className="bg-black/20 rounded-2xl p-6 border border-white/5">
+            <h5 className="text-cyan-400 font-black text-xs uppercase tracking-widest mb-3">Visibility Volume</h5>
+            <p className="text-gray-400 text-xs leading-relaxed">
+              The 3D tab samples the field on a {VOLUME_RES}³ lattice over the view limits and draws the threshold (and each contour level)
+              as a closed surface traced by marching cubes. Where the lit region reaches the edge of the volume it is capped flat, so
+              exports are watertight: <b>STL</b> (threshold only) and <b>OBJ</b> in the units chosen for the DXF with Z up, <b>glTF</b> (.glb, every level
+              in its colour) in metres.
+            </p>
+          </div>
+
+          <div className="bg-black/20 rounded-2xl p-6 border border-white/5">
+            <h5 className="text-emerald-400 font-black text-xs uppercase tracking-widest mb-3">CAD Export</h5>
+            <p className="text-gray-400 text-xs leading-relaxed">
+              <b>Export to CAD</b> on the plan writes a DXF in <b>m</b>, <b>mm</b> or <b>ft</b> (with <span className="font-mono">$INSUNITS</span> set to match).
+              A <b>Sheet</b> lays the plan and, optionally, the elevation side by side, with the threshold's width, range and height dimensioned.
+              <b> 3D</b> places the contours as 3D polylines on their planes and adds the iso-surfaces as 3D faces. Each contour level has its own
+              layer; the beacons, LED rays, target box, dimensions and a title block listing the parameters sit on layers of their own.
+            </p>
+          </div>
+
+          <div className="bg-black/20 rounded-2xl p-6 border border-white/5">
+            <h5 className="text-sky-400 font-black text-xs uppercase tracking-widest mb-3">Report Images</h5>
+            <p className="text-gray-400 text-xs leading-relaxed">
+              <b>Export image</b> on each heatmap saves the plot with its axes, contours, target box, a legend and a caption of the parameters.
+              Give the printed width and height in mm: <b>PNG</b> is redrawn at the chosen DPI (tagged in the file, up to 8192 px a side);
+              <b> SVG</b> keeps everything as vectors around the field, which is embedded as an image. The basemap, shadow hatching, horizon,
+              range ring, scene beacons and coverage area appear in the PNG only. The 3D view saves a <b>PNG</b> at any pixel size, optionally with a transparent background.
+            </p>
+          </div>
         </div>
 
         {/* Section 3: Physics */}
@@ -203,6 +288,33 @@ const Instructions: React.FC = () => {
                       <p className="text-gray-400 text-xs leading-relaxed mt-1">
                           In low-light (mesopic/scotopic) conditions, the human eye shifts from cone-based vision (color) to rod-based vision (monochrome). Rods are highly sensitive to blue-green light but almost blind to red. This simulator calculates a <b>Composite Efficiency</b> based on the wavelength to accurately model this night-time boost for cool colors.
                       </p>
+                      <p className="text-gray-400 text-xs leading-relaxed mt-2">
+                          Under <b>Detection Threshold → Vision</b>, choose <b>Scotopic</b> (fully dark-adapted, the default), <b>Photopic</b> (no boost) or <b>Mesopic</b>. Mesopic follows CIE 191:2010: from the background luminance the observer is adapted to (e.g. near city lights) and the S/P ratio of that lighting it finds the adaptation coefficient <b>m</b> (1 photopic, 0 scotopic) and blends V(λ) and V′(λ) accordingly. The status bar shows the current state and spectral factor.
+                      </p>
+                  </div>
+              </div>
+
+              <div className="flex gap-4 items-start">
+                  <div className="w-8 h-8 rounded-full bg-white/5 flex items-center justify-center flex-shrink-0 mt-1">
+                      <i className="fas fa-cloud text-sky-400 text-xs"></i>
+                  </div>
+                  <div>
+                      <h4 className="text-white font-bold text-sm">Atmospheric Extinction</h4>
+                      <p className="text-gray-400 text-xs leading-relaxed mt-1">
+                          Light is attenuated by the air following Allard's law. The extinction coefficient is derived from the <b>Meteorological Optical Range</b> via Koschmieder (σ = 3.912 / MOR). In haze and light fog, small particles scatter blue more than red or infrared; in rain and snow the drops are large and all wavelengths are attenuated equally. Pick a weather preset or set the MOR directly.
+                      </p>
+                  </div>
+              </div>
+
+              <div className="flex gap-4 items-start">
+                  <div className="w-8 h-8 rounded-full bg-white/5 flex items-center justify-center flex-shrink-0 mt-1">
+                      <i className="fas fa-water text-cyan-400 text-xs"></i>
+                  </div>
+                  <div>
+                      <h4 className="text-white font-bold text-sm">Horizon &amp; Geographic Range</h4>
+                      <p className="text-gray-400 text-xs leading-relaxed mt-1">
+                          Beyond a few kilometres the curvature of the earth hides the light before it becomes too dim. Refraction is modelled with an effective earth radius R/(1−k). The <b>geographic range</b> (IALA) is √(2R'H) + √(2R'h) for beacon height H and eye height h; the <b>luminous range</b> depends only on intensity and the atmosphere. The lesser of the two governs.
+                      </p>
                   </div>
               </div>
 
@@ -211,9 +323,21 @@ const Instructions: React.FC = () => {
                       <i className="fas fa-bolt text-yellow-400 text-xs"></i>
                   </div>
                   <div>
-                      <h4 className="text-white font-bold text-sm">Temporal Conspicuity (Flashing)</h4>
+                      <h4 className="text-white font-bold text-sm">Effective Intensity (Flashing)</h4>
+                      <p className="text-gray-400 text-xs leading-relaxed mt-1">
+                          The eye integrates a short flash over roughly 0.2 s, so a flash looks dimmer than a steady light of the same peak intensity. Choose the light character (Fl, LFl, Q, VQ, Iso, Oc or Mo) and pulse shape, then rate it with <b>Blondel–Rey</b> (I·t / (0.2 + t)), <b>Schmidt-Clausen</b> or the <b>IALA E-200-4</b> (modified Allard) method. The detection threshold is raised by I / Ie, and the plots play the character at the source.
+                      </p>
+                  </div>
+              </div>
+
+              <div className="flex gap-4 items-start">
+                  <div className="w-8 h-8 rounded-full bg-white/5 flex items-center justify-center flex-shrink-0 mt-1">
+                      <i className="fas fa-sync-alt text-amber-400 text-xs"></i>
+                  </div>
+                  <div>
+                      <h4 className="text-white font-bold text-sm">Rotating Beacons</h4>
                       <p className="text-gray-400 text-xs leading-relaxed mt-1">
-                          A flashing light captures peripheral attention much more effectively than a steady source. The simulator applies a detection gain (lowering the required threshold by ~8x) when "Flashing" mode is enabled, simulating the increased likelihood of detection at distance.
+                          In <b>Rotating</b> mode the whole array turns clockwise about the vertical (or the fixture's own up axis) at the set <b>rpm</b>. An observer sees one pulse per revolution whose length is the beam width divided by the sweep speed, so a narrow or fast beam flashes briefly and rates well below its peak. The pulse is rated per elevation with the chosen method, and the field then depends only on distance and elevation, not bearing.
                       </p>
                   </div>
               </div>
@@ -237,13 +361,17 @@ const Instructions: React.FC = () => {
                           <li><b>Min Width:</b> Lateral coverage required.</li>
                           <li><b>Min Height:</b> Vertical coverage required.</li>
                           <li><b>Min Range:</b> Forward distance required.</li>
+                          <li><b>Regions:</b> Sectors about the beacon (bearings clockwise from its forward axis, or true bearings once the beacon is geo-referenced, between two ranges; switching geo-referencing or changing the heading restates the bearings so the sectors stay in place) or polygons typed in or drawn by clicking the plan view or the 3D ground, each between a floor and a ceiling. <b>Include</b> regions add to the volume to cover; <b>Exclude</b> zones (windows, neighbouring runways) must stay below the threshold. The axis box can be switched off when regions describe the requirement.</li>
                       </ul>
                   </li>
                   <li>
-                      <span className="text-white font-bold">Run Scan:</span> Click <span className="text-yellow-400 font-mono text-xs bg-white/10 px-1 py-0.5 rounded">Find Options</span>. The engine will simulate thousands of mechanical configurations (Plan/Elevation angles).
+                      <span className="text-white font-bold">Run Scan:</span> Click <span className="text-yellow-400 font-mono text-xs bg-white/10 px-1 py-0.5 rounded">Find Options</span>. A genetic search (NSGA-II) evolves LED columns and rows, plan and elevation spreads, peak intensity per LED and the beam (the current one, narrowed or widened).
+                      Each design is rated on three objectives at once: fewer LEDs, less total intensity (the power drawn) and more of the target volume covered. Designs short of the <b>Min Range</b> or lighting an exclusion zone are ranked below every one that does neither; the list shows how much of the exclusion zones they light as <b>spill</b>. Points hidden by terrain, buildings or the earth's curvature count as dark, just as the plots show them.
+                      The search runs in the background: its front so far fills in as grey dots generation by generation, over the previous results, which stay until the run is done. A progress bar shows the time left, and <b>Cancel</b> stops the run and keeps the previous results.
                   </li>
                   <li>
-                      <span className="text-white font-bold">Select Solution:</span> The list will populate with valid configurations, sorted by maximum volumetric coverage. Click any row to instantly apply those angles to the visualizer and see the <b>Target Box</b> overlay.
+                      <span className="text-white font-bold">Select Solution:</span> The <b>Pareto front</b> plots coverage against total intensity for the designs no other beats on every objective, coloured by LED count; hollow points fall short of the range or light an exclusion zone. When no design meets the constraints the chart says so and shows the closest misses.
+                      Click a point or a row of the list to apply the whole design to the visualizer and see the <b>Target Box</b> overlay.
                   </li>
               </ol>
           </div>
@@ -299,6 +427,50 @@ const Instructions: React.FC = () => {
           </div>
         </div>
 
+        {/* Section 6: Obtrusive light */}
+        <div className="space-y-6">
+          <div className="flex items-center gap-4 border-b border-white/5 pb-4">
+             <div className="w-10 h-10 rounded-xl bg-emerald-500/20 flex items-center justify-center text-emerald-400">
+                <i className="fas fa-house-user text-xl"></i>
+             </div>
+             <h3 className="text-xl font-bold text-white uppercase tracking-wider">6. Obtrusive Light Check</h3>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+             <div className="bg-black/20 p-6 rounded-2xl border border-white/5 hover:border-emerald-500/30 transition-colors">
+                <h4 className="text-emerald-400 font-black uppercase tracking-widest text-xs mb-3">Receptors</h4>
+                <ul className="space-y-2 text-xs text-gray-400 leading-relaxed">
+                   <li><b className="text-white">Window:</b> vertical illuminance on its face, and the beacon's intensity towards it. Give it a width and height to rate the worst point of the pane.</li>
+                   <li><b className="text-white">Ground:</b> horizontal illuminance at a point, or the worst point of a patch.</li>
+                   <li><b className="text-white">Driver:</b> disability glare as the threshold increment TI = 65 L<sub>v</sub> / L<sup>0.8</sup>, from the veiling luminance of every LED within 60° of the line of sight and the road luminance the eye is adapted to.</li>
+                </ul>
+                <p className="text-[10px] text-gray-500 leading-relaxed mt-4">
+                   Values are photopic and add up the primary and every enabled scene beacon of the visible band at their peak intensity, with the atmosphere and any terrain or buildings in the way. A rotating beacon is rated at the turn that lights the receptor most.
+                </p>
+             </div>
+
+             <div className="bg-black/20 p-6 rounded-2xl border border-white/5 hover:border-emerald-500/30 transition-colors">
+                <h4 className="text-emerald-400 font-black uppercase tracking-widest text-xs mb-3">CIE 150 Limits</h4>
+                <div className="space-y-2">
+                   {[
+                     { zone: 'E1', ev: '2 / 0 lx', i: '2 500 / 0 cd' },
+                     { zone: 'E2', ev: '5 / 1 lx', i: '7 500 / 500 cd' },
+                     { zone: 'E3', ev: '10 / 2 lx', i: '10 000 / 1 000 cd' },
+                     { zone: 'E4', ev: '25 / 5 lx', i: '25 000 / 2 500 cd' }
+                   ].map(z => (
+                     <div key={z.zone} className="bg-gray-900 p-2 rounded-lg border border-white/10 flex items-center justify-between">
+                         <span className="text-[10px] text-gray-500 uppercase font-bold">{z.zone}</span>
+                         <span className="text-[10px] font-mono text-emerald-400">{z.ev} · {z.i}</span>
+                     </div>
+                   ))}
+                   <p className="text-[9px] text-gray-500 italic mt-1">
+                       *Pre / post curfew, window illuminance and intensity towards it. Drivers: TI up to 15%. Pick a zone in the Obtrusive Light panel and Apply it to every window; failing receptors are ringed in red on the plots and in 3D, and the table exports as CSV.
+                   </p>
+                </div>
+             </div>
+          </div>
+        </div>
+
       </div>
     </div>
   );
@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { scaleLinear, scaleLog, scaleSequential, interpolateViridis } from 'd3';
+import { OptResult, isSameDesign } from '../utils/optimizer';
+
+interface ParetoChartProps {
+  results: OptResult[];        // Non-dominated designs
+  provisional?: OptResult[];   // Front of a run still in progress
+  selected: OptResult | null;  // Last one applied
+  unit: string;                // Peak intensity unit
+  onSelect: (result: OptResult) => void;
+}
+
+const WIDTH = 320;
+const HEIGHT = 200;
+const MARGIN = { left: 40, right: 12, top: 12, bottom: 30 };
+
+const formatIntensity = (v: number) => v >= 100 ? v.toFixed(0) : v >= 10 ? v.toFixed(1) : v.toFixed(2);
+
+/**
+ * PARETO FRONT
+ * Coverage against total intensity (LEDs x peak, what the fixture draws) for the non-dominated
+ * designs, coloured by LED count. Hollow points fall short of the target range or light an exclusion zone. Click to apply.
+ * A run in progress draws its front so far as grey dots over the results it will replace.
+ * When no design meets the constraints, the front is the closest misses and the chart says so.
+ */
+const ParetoChart: React.FC<ParetoChartProps> = ({ results, selected, unit, onSelect, provisional = [] }) => {
+  const { x, y, color } = useMemo(() => {
+    const totals = [...results, ...provisional].map(r => r.totalIntensity);
+    const lo = Math.min(...totals);
+    const hi = Math.max(...totals);
+    const x = scaleLog().domain([lo * 0.8, Math.max(hi * 1.25, lo * 2)]).range([MARGIN.left, WIDTH - MARGIN.right]).nice();
+    const y = scaleLinear().domain([0, 100]).range([HEIGHT - MARGIN.bottom, MARGIN.top]);
+    const color = scaleSequential(interpolateViridis).domain([1, Math.max(2, ...results.map(r => r.leds))]);
+    return { x, y, color };
+  }, [results, provisional]);
+
+  // Decades, else a handful of round values
+  const xTicks = x.ticks(4).filter((t, i, all) => all.length <= 5 || Math.abs(Math.log10(t) - Math.round(Math.log10(t))) < 1e-9);
+  const yTicks = [0, 25, 50, 75, 100];
+  const noneFeasible = results.length > 0 && results.every(r => !r.feasible);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-black/40 rounded-xl border border-white/5">
+      {yTicks.map(t => (
+        <g key={t}>
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(t)} y2={y(t)} stroke="#1f2937" strokeWidth="1" />
+          <text x={MARGIN.left - 6} y={y(t)} fill="#6b7280" fontSize="9" fontFamily="monospace" textAnchor="end" dominantBaseline="middle">{t}%</text>
+        </g>
+      ))}
+      {xTicks.map(t => (
+        <g key={t}>
+          <line x1={x(t)} x2={x(t)} y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom} stroke="#1f2937" strokeWidth="1" />
+          <text x={x(t)} y={HEIGHT - MARGIN.bottom + 12} fill="#6b7280" fontSize="9" fontFamily="monospace" textAnchor="middle">{formatIntensity(t)}</text>
+        </g>
+      ))}
+      <text x={(MARGIN.left + WIDTH - MARGIN.right) / 2} y={HEIGHT - 4} fill="#6b7280" fontSize="9" fontFamily="monospace" textAnchor="middle">
+        TOTAL INTENSITY ({unit})
+      </text>
+      {results.map((r, i) => {
+        const c = color(r.leds);
+        const active = isSameDesign(r, selected);
+        return (
+          <circle key={i} cx={x(r.totalIntensity)} cy={y(r.coverage)} r={active ? 6 : 4}
+            fill={r.feasible ? c : 'transparent'} stroke={active ? '#fff' : c} strokeWidth={active ? 2 : 1.5}
+            className="cursor-pointer hover:opacity-70" onClick={() => onSelect(r)}
+          >
+            <title>{`${r.columns} x ${r.rows} LEDs · H ${r.h}° V ${r.v}° · ${r.peak} ${unit} · ${r.beam.name}\nCoverage ${r.coverage.toFixed(1)}% · range ${(r.range / 1000).toFixed(2)} km${r.reachesRange ? '' : ' (short)'}${r.spill > 0 ? ` · spill ${r.spill.toFixed(1)}%` : ''}${r.feasible ? '' : '\nInfeasible'}`}</title>
+          </circle>
+        );
+      })}
+      {noneFeasible && (
+        <text x={WIDTH - MARGIN.right - 4} y={MARGIN.top + 10} fill="#fb7185" fontSize="9" fontFamily="monospace" textAnchor="end">
+          NO DESIGN MEETS THE CONSTRAINTS
+        </text>
+      )}
+      {provisional.map((r, i) => (
+        <circle key={`p${i}`} cx={x(r.totalIntensity)} cy={y(r.coverage)} r={2.5}
+          fill={r.feasible ? '#9ca3af' : 'transparent'} stroke="#9ca3af" strokeWidth="1" pointerEvents="none" opacity={0.8}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default ParetoChart;
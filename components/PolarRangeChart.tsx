@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { scaleLinear, lineRadial, curveLinearClosed } from 'd3';
+import { GeoReference } from '../types';
+import { PolarJobResult, PolarRange, generatePolarCSV } from '../utils/polarRange';
+import { downloadText } from '../utils/download';
+
+interface PolarRangeChartProps {
+  result: PolarJobResult;
+  luminousRange: number;     // m, drawn as a reference ring
+  geographicRange?: number;  // m, horizontal section only (curvature on)
+  geo?: GeoReference;        // Geo-referenced beacons get true bearings
+  isCalculating?: boolean;
+}
+
+type Section = 'horizontal' | 'vertical';
+
+const SIZE = 360;
+const RADIUS = 150;
+const SPOKE_STEP = 30;
+
+const formatRange = (m: number) => m >= 1000 ? `${(m / 1000).toFixed(m >= 10000 ? 0 : 1)} km` : `${Math.round(m)} m`;
+
+// Chart angle (rad, clockwise from the top) of a section angle: bearings read as they are,
+// elevations put forward to the right and up at the top.
+const toChartAngle = (section: Section, angle: number) =>
+  ((section === 'horizontal' ? angle : 90 - angle) * Math.PI) / 180;
+
+const spokeLabel = (section: Section, angle: number, trueHeading?: number) => {
+  if (section === 'vertical') return `${angle > 180 ? angle - 360 : angle}°`;
+  if (trueHeading === undefined) return `${angle}°`;
+  return `${Math.round(((angle + trueHeading) % 360 + 360) % 360)}°T`;
+};
+
+/**
+ * Best angle and its range, and how many degrees of the circle are lit at all.
+ */
+const summarize = (ranges: PolarRange[]) => {
+  let best = ranges[0];
+  for (const r of ranges) if (r.range > best.range) best = r;
+  const step = ranges.length > 1 ? ranges[1].angle - ranges[0].angle : 360;
+  const lit = ranges.filter(r => r.range > 0).length * step;
+  return { best, lit };
+};
+
+/**
+ * RANGE VS BEARING
+ * Threshold distance from the primary beacon at every bearing (plan) and at every elevation
+ * (vertical section through the forward axis), on polar axes.
+ */
+const PolarRangeChart: React.FC<PolarRangeChartProps> = ({ result, luminousRange, geographicRange, geo, isCalculating }) => {
+  const [hover, setHover] = useState<{ section: Section; index: number } | null>(null);
+  const trueHeading = geo?.enabled ? geo.heading : undefined;
+
+  // One radial scale for both sections so their shapes compare directly
+  const radius = useMemo(() => {
+    const top = Math.max(
+      luminousRange,
+      geographicRange ?? 0,
+      ...result.horizontal.map(r => r.range),
+      ...result.vertical.map(r => r.range)
+    );
+    return scaleLinear().domain([0, top > 0 ? top : 1]).range([0, RADIUS]).nice();
+  }, [result, luminousRange, geographicRange]);
+
+  const rings = radius.ticks(4).filter(t => t > 0);
+
+  const exportCSV = () => {
+    downloadText(generatePolarCSV(result, trueHeading), 'Polar_Range.csv', 'text/csv');
+  };
+
+  const renderSection = (section: Section, ranges: PolarRange[], title: string) => {
+    const path = lineRadial<PolarRange>()
+      .angle(r => toChartAngle(section, r.angle))
+      .radius(r => radius(r.range))
+      .curve(curveLinearClosed)(ranges) ?? '';
+    const { best, lit } = summarize(ranges);
+    const active = hover?.section === section ? ranges[hover.index] : null;
+    const spokes = Array.from({ length: 360 / SPOKE_STEP }, (_, i) => i * SPOKE_STEP);
+    const point = (angle: number, r: number) => {
+      const a = toChartAngle(section, angle);
+      return { x: r * Math.sin(a), y: -r * Math.cos(a) };
+    };
+
+    const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+      const box = e.currentTarget.getBoundingClientRect();
+      const x = ((e.clientX - box.left) / box.width) * SIZE - SIZE / 2;
+      const y = ((e.clientY - box.top) / box.height) * SIZE - SIZE / 2;
+      if (Math.hypot(x, y) > RADIUS + 10) return setHover(null);
+      const chart = (Math.atan2(x, -y) * 180) / Math.PI;
+      const angle = section === 'horizontal' ? chart : 90 - chart;
+      const step = 360 / ranges.length;
+      setHover({ section, index: ((Math.round(angle / step) % ranges.length) + ranges.length) % ranges.length });
+    };
+
+    const cursor = active && point(active.angle, radius(active.range));
+
+    return (
+      <div className="flex-1 min-w-0">
+        <div className="flex items-baseline justify-between px-2 mb-1">
+          <span className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">{title}</span>
+          <span className="text-[10px] font-mono text-gray-500">
+            {active
+              ? <span className="text-white">{spokeLabel(section, active.angle, trueHeading)} · {active.range > 0 ? formatRange(active.range) : 'not visible'}</span>
+              : <>max {formatRange(best.range)} @ {spokeLabel(section, best.angle, trueHeading)} · lit {lit}°</>}
+          </span>
+        </div>
+        <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-auto" onMouseMove={handleMove} onMouseLeave={() => setHover(null)}>
+          <g transform={`translate(${SIZE / 2},${SIZE / 2})`}>
+            {rings.map(t => (
+              <g key={t}>
+                <circle r={radius(t)} fill="none" stroke="#374151" strokeWidth="1" />
+                <text x={3} y={-radius(t) - 3} fill="#6b7280" fontSize="9" fontFamily="monospace">{formatRange(t)}</text>
+              </g>
+            ))}
+            {spokes.map(angle => {
+              const end = point(angle, RADIUS);
+              const label = point(angle, RADIUS + 14);
+              return (
+                <g key={angle}>
+                  <line x1={0} y1={0} x2={end.x} y2={end.y} stroke="#1f2937" strokeWidth="1" />
+                  <text x={label.x} y={label.y} fill="#6b7280" fontSize="9" fontFamily="monospace" textAnchor="middle" dominantBaseline="middle">
+                    {spokeLabel(section, angle, trueHeading)}
+                  </text>
+                </g>
+              );
+            })}
+            <circle r={radius(luminousRange)} fill="none" stroke="#f59e0b" strokeWidth="1" strokeDasharray="4 4" opacity="0.7" />
+            {section === 'horizontal' && geographicRange !== undefined && (
+              <circle r={radius(geographicRange)} fill="none" stroke="#38bdf8" strokeWidth="1" strokeDasharray="2 4" opacity="0.7" />
+            )}
+            <path d={path} fill="rgba(6, 182, 212, 0.15)" stroke="#06b6d4" strokeWidth="2" strokeLinejoin="round" />
+            {cursor && (
+              <>
+                <line x1={0} y1={0} x2={cursor.x} y2={cursor.y} stroke="#ffffff" strokeWidth="1" opacity="0.6" />
+                <circle cx={cursor.x} cy={cursor.y} r={3.5} fill="#ffffff" />
+              </>
+            )}
+            <circle r={3} fill="#fbbf24" stroke="#d97706" />
+          </g>
+        </svg>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gray-950 rounded-[2.5rem] p-6">
+      <div className="flex items-center justify-between mb-4 px-2">
+        <div className="text-[11px] font-black uppercase tracking-[0.2em] text-white">
+          RANGE VS BEARING {isCalculating && <i className="fas fa-circle-notch fa-spin text-indigo-400 ml-2"></i>}
+        </div>
+        <div className="flex items-center gap-4 text-[9px] font-black uppercase tracking-widest text-gray-500">
+          <span className="flex items-center gap-2"><span className="w-4 border-t-2 border-cyan-500"></span>Threshold</span>
+          <span className="flex items-center gap-2"><span className="w-4 border-t border-dashed border-amber-500"></span>Luminous</span>
+          {geographicRange !== undefined && (
+            <span className="flex items-center gap-2"><span className="w-4 border-t border-dotted border-sky-400"></span>Geographic</span>
+          )}
+          <button onClick={exportCSV} className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/5 text-gray-400 hover:text-white transition-colors">
+            <i className="fas fa-file-csv mr-2"></i>Export CSV
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-col md:flex-row gap-6">
+        {renderSection('horizontal', result.horizontal, trueHeading === undefined ? 'Horizontal · bearing from forward' : 'Horizontal · true bearing')}
+        {renderSection('vertical', result.vertical, 'Vertical · elevation, forward right')}
+      </div>
+    </div>
+  );
+};
+
+export default PolarRangeChart;
@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { scaleLinear, scaleLog, line } from 'd3';
+import { ProfileSample } from '../utils/fieldProbe';
+
+interface ProfileChartProps {
+  samples: ProfileSample[];
+  threshold: number;
+  unit: string;
+  startLabel: string; // World position of each end, e.g. "X 120 · Y 800"
+  endLabel: string;
+  onClear: () => void;
+}
+
+const WIDTH = 900;
+const HEIGHT = 220;
+const MARGIN = { left: 70, right: 20, top: 16, bottom: 34 };
+
+const formatDistance = (m: number) => m >= 1000 ? `${(m / 1000).toFixed(m >= 10000 ? 0 : 1)} km` : `${Math.round(m)} m`;
+
+/**
+ * CROSS-SECTION PROFILE
+ * Illuminance along a line drawn on a heatmap, on a log scale, with the detection threshold
+ * marked and the stretches above it totalled.
+ */
+const ProfileChart: React.FC<ProfileChartProps> = ({ samples, threshold, unit, startLabel, endLabel, onClear }) => {
+  const length = samples.length > 0 ? samples[samples.length - 1].distance : 0;
+
+  const { x, y, path, visible } = useMemo(() => {
+    // Unlit samples sit on the floor of the scale, two decades below the threshold or the dimmest lit sample
+    const lit = samples.filter(s => s.value > 0).map(s => s.value);
+    const low = Math.min(threshold / 100, ...lit);
+    const high = Math.max(threshold * 10, ...lit);
+    const x = scaleLinear().domain([0, Math.max(length, 1e-6)]).range([MARGIN.left, WIDTH - MARGIN.right]);
+    const y = scaleLog().domain([low, high]).range([HEIGHT - MARGIN.bottom, MARGIN.top]).nice().clamp(true);
+    const path = line<ProfileSample>().x(s => x(s.distance)).y(s => y(Math.max(low, s.value)))(samples) ?? '';
+    let visible = 0;
+    for (let i = 1; i < samples.length; i++) {
+      if (samples[i - 1].value >= threshold && samples[i].value >= threshold) visible += samples[i].distance - samples[i - 1].distance;
+    }
+    return { x, y, path, visible };
+  }, [samples, threshold, length]);
+
+  // One tick per decade
+  const yTicks = y.ticks().filter(t => Math.abs(Math.log10(t) - Math.round(Math.log10(t))) < 1e-9);
+  const xTicks = x.ticks(8);
+  const thresholdY = y(threshold);
+
+  return (
+    <div className="bg-gray-950 rounded-[2rem] p-4 border border-white/5">
+      <div className="flex items-center justify-between px-2 mb-2 gap-4">
+        <div className="text-[10px] font-black uppercase tracking-[0.2em] text-white">Profile</div>
+        <div className="flex-1 text-[10px] font-mono text-gray-500 truncate">
+          {startLabel} → {endLabel} · {formatDistance(length)} · above threshold {formatDistance(visible)} ({length > 0 ? Math.round((visible / length) * 100) : 0}%)
+        </div>
+        <button onClick={onClear} className="px-3 py-1 rounded-lg bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+          <i className="fas fa-times mr-2"></i>Clear
+        </button>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {yTicks.map(t => (
+          <g key={t}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(t)} y2={y(t)} stroke="#1f2937" strokeWidth="1" />
+            <text x={MARGIN.left - 8} y={y(t)} fill="#6b7280" fontSize="10" fontFamily="monospace" textAnchor="end" dominantBaseline="middle">
+              {t.toExponential(0)}
+            </text>
+          </g>
+        ))}
+        {xTicks.map(t => (
+          <g key={t}>
+            <line x1={x(t)} x2={x(t)} y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom} stroke="#1f2937" strokeWidth="1" />
+            <text x={x(t)} y={HEIGHT - MARGIN.bottom + 14} fill="#6b7280" fontSize="10" fontFamily="monospace" textAnchor="middle">
+              {formatDistance(t)}
+            </text>
+          </g>
+        ))}
+        <text x={14} y={(MARGIN.top + HEIGHT - MARGIN.bottom) / 2} fill="#6b7280" fontSize="10" fontFamily="monospace" textAnchor="middle"
+          transform={`rotate(-90, 14, ${(MARGIN.top + HEIGHT - MARGIN.bottom) / 2})`}>
+          {unit}
+        </text>
+        <rect x={MARGIN.left} y={thresholdY} width={WIDTH - MARGIN.left - MARGIN.right} height={Math.max(0, HEIGHT - MARGIN.bottom - thresholdY)} fill="rgba(0, 0, 0, 0.35)" />
+        <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={thresholdY} y2={thresholdY} stroke="#06b6d4" strokeWidth="1.5" strokeDasharray="6 4" />
+        <text x={WIDTH - MARGIN.right} y={thresholdY - 4} fill="#06b6d4" fontSize="10" fontFamily="monospace" textAnchor="end">
+          THRESHOLD {threshold.toExponential(2)} {unit}
+        </text>
+        <path d={path} fill="none" stroke="#fbbf24" strokeWidth="2" strokeLinejoin="round" />
+      </svg>
+    </div>
+  );
+};
+
+export default ProfileChart;
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { Receptor, ReceptorKind, EnvironmentalZone } from '../types';
+import { CIE150_LIMITS, MAX_RECEPTORS } from '../constants';
+import { ReceptorResult, createReceptor, formatReceptorCsv } from '../utils/obtrusiveLight';
+import { downloadText } from '../utils/download';
+
+interface ReceptorEditorProps {
+  receptors: Receptor[];
+  results: ReceptorResult[] | null;  // Null when the check does not apply (infrared)
+  onChange: (receptors: Receptor[]) => void;
+}
+
+const KINDS: { id: ReceptorKind; label: string; icon: string }[] = [
+  { id: 'window', label: 'Window', icon: 'fa-window-maximize' },
+  { id: 'ground', label: 'Ground', icon: 'fa-square' },
+  { id: 'driver', label: 'Driver', icon: 'fa-car' }
+];
+
+const ZONES = Object.keys(CIE150_LIMITS) as EnvironmentalZone[];
+
+const UNITS: Record<ReceptorKind, string> = { window: 'lx', ground: 'lx', driver: '%' };
+
+const formatValue = (v: number) => v >= 100 ? v.toFixed(0) : v >= 1 ? v.toFixed(1) : v >= 0.01 ? v.toFixed(2) : v > 0 ? v.toExponential(1) : '0';
+
+const numberField = (label: string, value: number, unit: string, onChange: (v: number) => void, step: number = 1, min?: number) => (
+  <div className="bg-black/40 rounded-xl p-2 border border-white/5">
+    <label className="text-[8px] font-bold text-gray-400 uppercase block mb-1">{label}</label>
+    <div className="flex items-center gap-1">
+      <input type="number" step={step} min={min} value={value}
+        onChange={e => {
+          const v = parseFloat(e.target.value);
+          if (Number.isFinite(v) && (min === undefined || v >= min)) onChange(v);
+        }}
+        className="w-full bg-transparent text-white font-mono text-xs outline-none" />
+      <span className="text-[9px] text-gray-600">{unit}</span>
+    </div>
+  </div>
+);
+
+/**
+ * Obtrusive-light receptors around the beacon (windows, ground, drivers), the CIE 150 zone limits
+ * for windows, and the pass/fail table.
+ */
+const ReceptorEditor: React.FC<ReceptorEditorProps> = ({ receptors, results, onChange }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [zone, setZone] = useState<EnvironmentalZone>('E2');
+  const [curfew, setCurfew] = useState(false);
+  const full = receptors.length >= MAX_RECEPTORS;
+  const windows = receptors.filter(r => r.kind === 'window').length;
+
+  const update = (id: string, patch: Partial<Receptor>) => {
+    onChange(receptors.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const add = (kind: ReceptorKind) => {
+    if (full) return;
+    const receptor = createReceptor(kind, receptors.filter(r => r.kind === kind).length);
+    onChange([...receptors, receptor]);
+    setExpanded(receptor.id);
+  };
+
+  // Zone limits onto every window
+  const applyZone = () => {
+    const i = curfew ? 1 : 0;
+    const { ev, intensity } = CIE150_LIMITS[zone];
+    onChange(receptors.map(r => r.kind === 'window' ? { ...r, limit: ev[i], intensityLimit: intensity[i] } : r));
+  };
+
+  // Bearing from the receptor back to the beacon
+  const faceBeacon = (r: Receptor) => ((Math.atan2(-r.x, -r.y) * 180) / Math.PI + 360) % 360;
+
+  const wrap = (deg: number) => ((deg % 360) + 360) % 360;
+
+  return (
+    <div className="space-y-3">
+      {receptors.map(r => {
+        const isOpen = expanded === r.id;
+        const result = results?.find(x => x.id === r.id);
+        return (
+          <div key={r.id} className="rounded-xl border border-white/5 bg-white/5">
+            <div className="flex items-center gap-2 p-3">
+              <i className={`fas ${KINDS.find(k => k.id === r.kind)?.icon} text-[10px] ${!result ? 'text-gray-500' : result.pass ? 'text-emerald-400' : 'text-rose-400'}`}></i>
+              <input type="text" value={r.name} onChange={e => update(r.id, { name: e.target.value })}
+                className="flex-1 min-w-0 bg-transparent text-[11px] font-bold text-white outline-none" />
+              <span className="text-[9px] font-mono text-gray-500 uppercase">{r.kind}</span>
+              <button onClick={() => setExpanded(isOpen ? null : r.id)} className="w-6 text-gray-500 hover:text-white" title="Position and limits">
+                <i className={`fas fa-chevron-down text-[10px] transition-transform ${isOpen ? 'rotate-180' : ''}`}></i>
+              </button>
+              <button onClick={() => onChange(receptors.filter(x => x.id !== r.id))} className="w-6 text-gray-600 hover:text-rose-400" title="Remove receptor">
+                <i className="fas fa-trash text-[10px]"></i>
+              </button>
+            </div>
+
+            {isOpen && (
+              <div className="px-3 pb-3 space-y-3">
+                <div className="grid grid-cols-3 gap-2">
+                  {numberField('X', r.x, 'm', v => update(r.id, { x: v }))}
+                  {numberField('Y', r.y, 'm', v => update(r.id, { y: v }))}
+                  {numberField('Z', r.z, 'm', v => update(r.id, { z: v }), 0.5)}
+                </div>
+                {r.kind !== 'ground' && (
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1">
+                      {numberField(r.kind === 'window' ? 'Facing' : 'Looking', r.facing, '°', v => update(r.id, { facing: wrap(v) }))}
+                    </div>
+                    <button onClick={() => update(r.id, { facing: Math.round(faceBeacon(r)) })}
+                      className="py-2 px-3 rounded-xl bg-black/40 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+                      <i className="fas fa-crosshairs mr-2"></i>At Beacon
+                    </button>
+                  </div>
+                )}
+                {r.kind !== 'driver' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {numberField(r.kind === 'window' ? 'Width' : 'Size X', r.width, 'm', v => update(r.id, { width: v }), 0.1, 0)}
+                    {numberField(r.kind === 'window' ? 'Height' : 'Size Y', r.height, 'm', v => update(r.id, { height: v }), 0.1, 0)}
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  {numberField(r.kind === 'driver' ? 'Max TI' : r.kind === 'window' ? 'Max Ev' : 'Max Eh', r.limit, UNITS[r.kind], v => update(r.id, { limit: v }), 0.1, 0)}
+                  {r.kind === 'window' && (
+                    <div className="bg-black/40 rounded-xl p-2 border border-white/5">
+                      <label className="text-[8px] font-bold text-gray-400 uppercase block mb-1">Max Intensity</label>
+                      <div className="flex items-center gap-1">
+                        <input type="number" min={0} value={r.intensityLimit ?? ''} placeholder="-"
+                          onChange={e => {
+                            const v = parseFloat(e.target.value);
+                            if (e.target.value === '') update(r.id, { intensityLimit: null });
+                            else if (Number.isFinite(v) && v >= 0) update(r.id, { intensityLimit: v });
+                          }}
+                          className="w-full bg-transparent text-white font-mono text-xs outline-none" />
+                        <span className="text-[9px] text-gray-600">cd</span>
+                      </div>
+                    </div>
+                  )}
+                  {r.kind === 'driver' && numberField('Adaptation', r.adaptation, 'cd/m²', v => update(r.id, { adaptation: v }), 0.1, 0.001)}
+                </div>
+                <div className="text-[9px] font-mono text-gray-500">
+                  {r.kind === 'window' && 'Vertical illuminance on the face, bearing clockwise from the beacon\'s forward axis; a blank intensity limit is not checked'}
+                  {r.kind === 'ground' && 'Horizontal illuminance; a size makes a plane rated at its worst point'}
+                  {r.kind === 'driver' && 'Threshold increment from the veiling luminance along the line of sight'}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="grid grid-cols-3 gap-2">
+        {KINDS.map(k => (
+          <button key={k.id} onClick={() => add(k.id)} disabled={full}
+            className="py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors disabled:opacity-30">
+            <i className={`fas ${k.icon} mr-2`}></i>{k.label}
+          </button>
+        ))}
+      </div>
+
+      {windows > 0 && (
+        <div className="bg-black/40 rounded-xl p-3 border border-white/5 space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+              {ZONES.map(z => (
+                <button key={z} onClick={() => setZone(z)} title={CIE150_LIMITS[z].label}
+                  className={`px-2 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${zone === z ? 'bg-indigo-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                >{z}</button>
+              ))}
+            </div>
+            <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+              {[false, true].map(c => (
+                <button key={String(c)} onClick={() => setCurfew(c)}
+                  className={`px-2 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${curfew === c ? 'bg-indigo-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                >{c ? 'Post' : 'Pre'}</button>
+              ))}
+            </div>
+            <button onClick={applyZone} className="flex-1 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white">Apply</button>
+          </div>
+          <div className="text-[9px] font-mono text-gray-500">
+            {zone} {CIE150_LIMITS[zone].label.toLowerCase()}, {curfew ? 'post' : 'pre'}-curfew: Ev {CIE150_LIMITS[zone].ev[curfew ? 1 : 0]} lx, I {CIE150_LIMITS[zone].intensity[curfew ? 1 : 0]} cd on every window
+          </div>
+        </div>
+      )}
+
+      {receptors.length > 0 && (results ? (
+        <div className="bg-black/40 rounded-xl p-3 border border-white/5 space-y-2">
+          <table className="w-full text-[10px] font-mono">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="font-bold pb-1">Receptor</th>
+                <th className="font-bold pb-1 text-right">Value</th>
+                <th className="font-bold pb-1 text-right">Limit</th>
+                <th className="font-bold pb-1 text-right">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {receptors.map(r => {
+                const res = results.find(x => x.id === r.id);
+                if (!res) return null;
+                return (
+                  <tr key={r.id} className="text-gray-300">
+                    <td className="py-0.5 truncate max-w-[90px]" title={res.shadowed ? 'Out of sight of the beacon' : undefined}>
+                      {r.name}{res.shadowed && <i className="fas fa-eye-slash ml-1 text-gray-600"></i>}
+                    </td>
+                    <td className="py-0.5 text-right">
+                      {res.quantity} {formatValue(res.value)}{UNITS[r.kind] === '%' ? '%' : ` ${UNITS[r.kind]}`}
+                      {res.intensity !== null && r.intensityLimit !== null && <div className="text-gray-500">I {formatValue(res.intensity)} cd</div>}
+                    </td>
+                    <td className="py-0.5 text-right text-gray-500">
+                      {r.limit}
+                      {r.intensityLimit !== null && r.kind === 'window' && <div>{r.intensityLimit}</div>}
+                    </td>
+                    <td className={`py-0.5 text-right font-bold ${res.pass ? 'text-emerald-400' : 'text-rose-400'}`}>{res.pass ? 'PASS' : 'FAIL'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <button onClick={() => downloadText(formatReceptorCsv(receptors, results), 'Obtrusive_Light.csv', 'text/csv')}
+            className="w-full py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+            <i className="fas fa-file-csv mr-2"></i>Export CSV
+          </button>
+        </div>
+      ) : (
+        <div className="text-[10px] font-mono text-amber-300">Obtrusive-light limits are photometric: switch to a visible wavelength to check.</div>
+      ))}
+    </div>
+  );
+};
+
+export default ReceptorEditor;
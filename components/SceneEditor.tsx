@@ -0,0 +1,283 @@
+import React, { useEffect, useState } from 'react';
+import { SceneSettings, SceneBeacon, BeaconOptics, GridLimits, Point } from '../types';
+import { BEACON_PALETTE, COLOR_PRESETS, MAX_SCENE_BEACONS } from '../constants';
+import { CoverageReport } from '../utils/coverageGaps';
+import { formatArea } from '../utils/contourStats';
+import { downloadText } from '../utils/download';
+import FlashCharacterEditor from './FlashCharacterEditor';
+
+interface SceneEditorProps {
+  scene: SceneSettings;
+  primaryOptics: BeaconOptics;
+  gridLimits: GridLimits;
+  report: CoverageReport | null;
+  onChange: (scene: SceneSettings) => void;
+}
+
+// Largest gaps listed individually
+const MAX_LISTED_GAPS = 50;
+
+const isInfraredBand = (wavelength: number) => wavelength >= 800;
+
+type TemporalMode = 'steady' | 'flashing' | 'rotating';
+const TEMPORAL_MODES: TemporalMode[] = ['steady', 'flashing', 'rotating'];
+const MODE_STYLES: Record<TemporalMode, string> = {
+  steady: 'bg-indigo-500 text-white',
+  flashing: 'bg-emerald-500 text-white',
+  rotating: 'bg-amber-500 text-white'
+};
+
+// Rotation takes precedence over flashing, as in the physics
+const temporalMode = (optics: BeaconOptics): TemporalMode =>
+  optics.rotation.enabled ? 'rotating' : optics.isFlashing ? 'flashing' : 'steady';
+
+const cloneOptics = (optics: BeaconOptics): BeaconOptics => JSON.parse(JSON.stringify(optics));
+
+const formatPolygon = (points: Point[]) => points.map(p => `${Math.round(p.x)}, ${Math.round(p.y)}`).join('\n');
+
+/**
+ * Parses "x, y" pairs, one vertex per line. Returns null unless there is a polygon (3+ vertices).
+ */
+const parsePolygon = (text: string): Point[] | null => {
+  const points: Point[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const [x, y] = line.split(/[,;\s]+/).filter(Boolean).map(Number);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+    points.push({ x, y });
+  }
+  return points.length >= 3 ? points : null;
+};
+
+const numberField = (label: string, value: number, unit: string, onChange: (v: number) => void, step: number = 1, min?: number) => (
+  <div className="bg-black/40 rounded-xl p-2 border border-white/5">
+    <label className="text-[8px] font-bold text-gray-400 uppercase block mb-1">{label}</label>
+    <div className="flex items-center gap-1">
+      <input type="number" step={step} min={min} value={value}
+        onChange={e => {
+          const v = parseFloat(e.target.value);
+          if (Number.isFinite(v) && (min === undefined || v >= min)) onChange(v);
+        }}
+        className="w-full bg-transparent text-white font-mono text-xs outline-none" />
+      <span className="text-[9px] text-gray-600">{unit}</span>
+    </div>
+  </div>
+);
+
+/**
+ * Further beacons placed around the primary one, and the coverage-gap report over a polygon.
+ */
+const SceneEditor: React.FC<SceneEditorProps> = ({ scene, primaryOptics, gridLimits, report, onChange }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [polygonText, setPolygonText] = useState(formatPolygon(scene.coverageArea));
+  const [polygonError, setPolygonError] = useState(false);
+
+  // Follow external changes (project load, "From View")
+  useEffect(() => {
+    setPolygonText(formatPolygon(scene.coverageArea));
+    setPolygonError(false);
+  }, [scene.coverageArea]);
+
+  const updateBeacon = (id: string, patch: Partial<SceneBeacon>) => {
+    onChange({ ...scene, beacons: scene.beacons.map(b => b.id === id ? { ...b, ...patch } : b) });
+  };
+
+  const updateOptics = (b: SceneBeacon, patch: Partial<BeaconOptics>) => updateBeacon(b.id, { optics: { ...b.optics, ...patch } });
+
+  const addBeacon = () => {
+    if (scene.beacons.length >= MAX_SCENE_BEACONS - 1) return;
+    const n = scene.beacons.length + 1;
+    const beacon: SceneBeacon = {
+      id: `beacon-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: `Beacon ${n + 1}`,
+      enabled: true,
+      x: n * 100,
+      y: 0,
+      z: 0,
+      heading: 0,
+      optics: cloneOptics(primaryOptics)
+    };
+    onChange({ ...scene, beacons: [...scene.beacons, beacon] });
+    setExpanded(beacon.id);
+  };
+
+  const applyPolygon = () => {
+    const points = parsePolygon(polygonText);
+    if (points) onChange({ ...scene, coverageArea: points });
+    setPolygonError(!points && polygonText.trim() !== '');
+  };
+
+  const polygonFromView = () => {
+    const { minX, maxX, minY, maxY } = gridLimits;
+    onChange({ ...scene, coverageArea: [{ x: minX, y: minY }, { x: maxX, y: minY }, { x: maxX, y: maxY }, { x: minX, y: maxY }] });
+  };
+
+  const exportGaps = () => {
+    if (!report) return;
+    const rows = report.gaps.map((g, i) => [
+      `G${i + 1}`, Math.round(g.area), g.centroid.x.toFixed(1), g.centroid.y.toFixed(1),
+      g.minX.toFixed(1), g.maxX.toFixed(1), g.minY.toFixed(1), g.maxY.toFixed(1), g.occluded ? 'shadow' : 'dim'
+    ].join(','));
+    downloadText(['gap,area_m2,centroid_x,centroid_y,min_x,max_x,min_y,max_y,cause', ...rows].join('\n'), 'Coverage_Gaps.csv', 'text/csv');
+  };
+
+  const primaryIR = isInfraredBand(primaryOptics.wavelength);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 bg-black/40 rounded-xl p-3 border border-white/5">
+        <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: BEACON_PALETTE[0] }}></span>
+        <span className="text-[10px] font-black text-white uppercase tracking-widest flex-1">Primary</span>
+        <span className="text-[9px] font-mono text-gray-500">0, 0 m · edited above</span>
+      </div>
+
+      {scene.beacons.map((b, i) => {
+        const color = BEACON_PALETTE[(i + 1) % BEACON_PALETTE.length];
+        const isOpen = expanded === b.id;
+        const otherBand = isInfraredBand(b.optics.wavelength) !== primaryIR;
+        return (
+          <div key={b.id} className={`rounded-xl border border-white/5 ${b.enabled ? 'bg-white/5' : 'bg-black/20 opacity-60'}`}>
+            <div className="flex items-center gap-2 p-3">
+              <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: color }}></span>
+              <input type="text" value={b.name} onChange={e => updateBeacon(b.id, { name: e.target.value })}
+                className="flex-1 min-w-0 bg-transparent text-[11px] font-bold text-white outline-none" />
+              <div className="flex bg-black/40 p-0.5 rounded-lg border border-white/5">
+                {[true, false].map(on => (
+                  <button key={String(on)} onClick={() => updateBeacon(b.id, { enabled: on })}
+                    className={`px-2 py-1 text-[8px] font-black uppercase tracking-widest rounded-md transition-all ${b.enabled === on ? 'bg-indigo-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                  >{on ? 'On' : 'Off'}</button>
+                ))}
+              </div>
+              <button onClick={() => setExpanded(isOpen ? null : b.id)} className="w-6 text-gray-500 hover:text-white" title="Position and optics">
+                <i className={`fas fa-chevron-down text-[10px] transition-transform ${isOpen ? 'rotate-180' : ''}`}></i>
+              </button>
+              <button onClick={() => onChange({ ...scene, beacons: scene.beacons.filter(x => x.id !== b.id) })} className="w-6 text-gray-600 hover:text-rose-400" title="Remove beacon">
+                <i className="fas fa-trash text-[10px]"></i>
+              </button>
+            </div>
+
+            {isOpen && (
+              <div className="px-3 pb-3 space-y-3">
+                <div className="grid grid-cols-3 gap-2">
+                  {numberField('X', b.x, 'm', v => updateBeacon(b.id, { x: v }))}
+                  {numberField('Y', b.y, 'm', v => updateBeacon(b.id, { y: v }))}
+                  {numberField('Z', b.z, 'm', v => updateBeacon(b.id, { z: v }), 0.5)}
+                  {numberField('Heading', b.heading, '°', v => updateBeacon(b.id, { heading: ((v % 360) + 360) % 360 }))}
+                  {numberField('Tilt', b.optics.mounting.pitch, '°', v => updateOptics(b, { mounting: { ...b.optics.mounting, pitch: Math.max(-90, Math.min(90, v)) } }), 0.5)}
+                  {numberField('Roll', b.optics.mounting.roll, '°', v => updateOptics(b, { mounting: { ...b.optics.mounting, roll: Math.max(-180, Math.min(180, v)) } }))}
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  {numberField(isInfraredBand(b.optics.wavelength) ? 'Radiant' : 'Peak', b.optics.peakCandela, isInfraredBand(b.optics.wavelength) ? 'mW/sr' : 'cd', v => updateOptics(b, { peakCandela: v }), 0.1, 0)}
+                  {numberField('Columns', b.optics.ledCount, '×', v => updateOptics(b, { ledCount: Math.round(v) }), 1, 1)}
+                  {numberField('Rows', b.optics.rowCount, '×', v => updateOptics(b, { rowCount: Math.round(v) }), 1, 1)}
+                  {numberField('Plan Spread', b.optics.spreadAngle, '°', v => updateOptics(b, { spreadAngle: v }), 1, 0)}
+                  {numberField('Elev Spread', b.optics.verticalSpreadAngle, '°', v => updateOptics(b, { verticalSpreadAngle: v }), 1, 0)}
+                  <button onClick={() => updateBeacon(b.id, { optics: cloneOptics(primaryOptics) })}
+                    className="rounded-xl bg-black/40 border border-white/5 text-[8px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors"
+                    title="Copy intensity, array, beam pattern, colour and character from the primary beacon">
+                    <i className="fas fa-clone mr-1"></i>From Primary
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {COLOR_PRESETS.map(p => (
+                    <button key={p.wavelength} onClick={() => updateOptics(b, { wavelength: p.wavelength })}
+                      className={`w-6 h-6 rounded-lg border-2 transition-all ${b.optics.wavelength === p.wavelength ? 'border-white scale-110' : 'border-transparent opacity-40 hover:opacity-100'}`}
+                      style={{ backgroundColor: p.hex }} title={p.name} />
+                  ))}
+                </div>
+                {otherBand && (
+                  <div className="text-[10px] font-mono text-amber-300">Different band from the primary beacon: not added to the field</div>
+                )}
+
+                <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+                  {TEMPORAL_MODES.map(mode => (
+                    <button key={mode} onClick={() => updateOptics(b, { isFlashing: mode === 'flashing', rotation: { ...b.optics.rotation, enabled: mode === 'rotating' } })}
+                      className={`flex-1 px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${temporalMode(b.optics) === mode ? MODE_STYLES[mode] : 'text-gray-500 hover:text-gray-300'}`}
+                    >{mode}</button>
+                  ))}
+                </div>
+                {temporalMode(b.optics) === 'flashing' && (
+                  <FlashCharacterEditor character={b.optics.flash} onChange={flash => updateOptics(b, { flash })} />
+                )}
+                {temporalMode(b.optics) === 'rotating' && (
+                  <div className="grid grid-cols-3 gap-2">
+                    {numberField('Speed', b.optics.rotation.rpm, 'rpm', v => updateOptics(b, { rotation: { ...b.optics.rotation, rpm: Math.max(0.1, v) } }), 0.5, 0.1)}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button onClick={addBeacon} disabled={scene.beacons.length >= MAX_SCENE_BEACONS - 1}
+        className="w-full py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors disabled:opacity-30">
+        <i className="fas fa-plus mr-2"></i>Add Beacon
+      </button>
+
+      <div className="bg-white/5 rounded-xl p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">Coverage Area</span>
+          <div className="flex gap-2">
+            <button onClick={polygonFromView} className="text-[9px] font-black uppercase tracking-widest text-gray-500 hover:text-white">From View</button>
+            {scene.coverageArea.length > 0 && (
+              <button onClick={() => onChange({ ...scene, coverageArea: [] })} className="text-[9px] font-black uppercase tracking-widest text-gray-500 hover:text-rose-400">Clear</button>
+            )}
+          </div>
+        </div>
+        <textarea value={polygonText} onChange={e => setPolygonText(e.target.value)} onBlur={applyPolygon} rows={4}
+          placeholder={'x, y per vertex (m)\n-500, 200\n500, 200\n0, 1500'}
+          className={`w-full bg-black/40 rounded-xl p-2 border font-mono text-[10px] text-white outline-none resize-y ${polygonError ? 'border-rose-500/50' : 'border-white/5'}`} />
+        {polygonError && <div className="text-[10px] font-mono text-rose-300">Needs at least three "x, y" vertices</div>}
+
+        {report && (
+          <>
+            <div className="bg-black/40 rounded-xl p-3 border border-white/5 space-y-1 text-[10px] font-mono">
+              <div className="flex justify-between"><span className="text-gray-500">Area</span><span className="text-white">{formatArea(report.area)}</span></div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Covered</span>
+                <span className="text-emerald-400">{report.area > 0 ? ((report.coveredArea / report.area) * 100).toFixed(1) : '0.0'}%</span>
+              </div>
+              <div className="flex justify-between"><span className="text-gray-500">Gaps</span><span className="text-rose-300">{report.gaps.length}</span></div>
+              {report.unsampledArea > report.area * 0.01 && (
+                <div className="text-amber-300">{formatArea(report.unsampledArea)} lies outside the plan view and was not checked</div>
+              )}
+            </div>
+
+            {report.gaps.length > 0 && (
+              <div className="bg-black/40 rounded-xl border border-white/5 overflow-hidden">
+                <div className="max-h-48 overflow-y-auto custom-scrollbar">
+                  <table className="w-full text-[10px] text-left">
+                    <thead className="sticky top-0 bg-gray-900 text-gray-500 font-black uppercase tracking-wider">
+                      <tr><th className="px-3 py-2">Gap</th><th className="px-2 py-2 text-right">Area</th><th className="px-2 py-2 text-right">Centre</th><th className="px-3 py-2 text-right">Cause</th></tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5 font-mono">
+                      {report.gaps.slice(0, MAX_LISTED_GAPS).map((g, i) => (
+                        <tr key={i} className="hover:bg-white/5" title={`x ${Math.round(g.minX)}…${Math.round(g.maxX)} m, y ${Math.round(g.minY)}…${Math.round(g.maxY)} m`}>
+                          <td className="px-3 py-1.5 text-rose-300">G{i + 1}</td>
+                          <td className="px-2 py-1.5 text-right text-white">{formatArea(g.area)}</td>
+                          <td className="px-2 py-1.5 text-right text-gray-400">{Math.round(g.centroid.x)}, {Math.round(g.centroid.y)}</td>
+                          <td className="px-3 py-1.5 text-right text-gray-500">{g.occluded ? 'Shadow' : 'Dim'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {report.gaps.length > MAX_LISTED_GAPS && (
+                  <div className="px-3 py-1.5 text-[9px] text-gray-600">+{report.gaps.length - MAX_LISTED_GAPS} smaller gaps</div>
+                )}
+                <button onClick={exportGaps} className="w-full py-2 text-[9px] font-black uppercase tracking-widest text-gray-600 hover:text-white hover:bg-white/5 transition-colors">
+                  <i className="fas fa-file-csv mr-2"></i>Export CSV
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SceneEditor;
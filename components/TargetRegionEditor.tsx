@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { Point, TargetRegion, TargetRegionKind } from '../types';
+import { MAX_TARGET_REGIONS, TARGET_REGION_COLORS } from '../constants';
+import { createTargetRegion, getRegionArea } from '../utils/targetRegions';
+import { formatArea } from '../utils/contourStats';
+
+interface TargetRegionEditorProps {
+  regions: TargetRegion[];
+  drawing: TargetRegionKind | null;  // Kind of the polygon being drawn on the plan or in 3D
+  onChange: (regions: TargetRegion[]) => void;
+  onDraw: (kind: TargetRegionKind | null) => void;
+  trueHeading?: number;              // Geo-referenced: sector bearings are true, the beacon faces this way
+}
+
+const KINDS: { id: TargetRegionKind; label: string }[] = [
+  { id: 'include', label: 'Include' },
+  { id: 'exclude', label: 'Exclude' }
+];
+
+const formatPolygon = (points: Point[]) => points.map(p => `${Math.round(p.x)}, ${Math.round(p.y)}`).join('\n');
+
+/**
+ * Parses "x, y" pairs, one vertex per line. Returns null unless there is a polygon (3+ vertices).
+ */
+const parsePolygon = (text: string): Point[] | null => {
+  const points: Point[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const [x, y] = line.split(/[,;\s]+/).filter(Boolean).map(Number);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+    points.push({ x, y });
+  }
+  return points.length >= 3 ? points : null;
+};
+
+const numberField = (label: string, value: number, unit: string, onChange: (v: number) => void, min?: number) => (
+  <div className="bg-black/40 rounded-xl p-2 border border-white/5">
+    <label className="text-[8px] font-bold text-gray-400 uppercase block mb-1">{label}</label>
+    <div className="flex items-center gap-1">
+      <input type="number" min={min} value={value}
+        onChange={e => {
+          const v = parseFloat(e.target.value);
+          if (Number.isFinite(v) && (min === undefined || v >= min)) onChange(v);
+        }}
+        className="w-full bg-transparent text-white font-mono text-xs outline-none" />
+      <span className="text-[9px] text-gray-600">{unit}</span>
+    </div>
+  </div>
+);
+
+const PolygonField: React.FC<{ points: Point[]; onChange: (points: Point[]) => void }> = ({ points, onChange }) => {
+  const [text, setText] = useState(formatPolygon(points));
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    setText(formatPolygon(points));
+    setError(false);
+  }, [points]);
+
+  const apply = () => {
+    const parsed = parsePolygon(text);
+    if (parsed) onChange(parsed);
+    setError(!parsed);
+  };
+
+  return (
+    <>
+      <textarea value={text} onChange={e => setText(e.target.value)} onBlur={apply} rows={4}
+        placeholder={'x, y per vertex (m)\n-500, 200\n500, 200\n0, 1500'}
+        className={`w-full bg-black/40 rounded-xl p-2 border font-mono text-[10px] text-white outline-none resize-y ${error ? 'border-rose-500/50' : 'border-white/5'}`} />
+      {error && <div className="text-[10px] font-mono text-rose-300">Needs at least three "x, y" vertices</div>}
+    </>
+  );
+};
+
+/**
+ * Inclusion regions and exclusion zones for the optimizer: sectors about the source,
+ * or polygons typed in or drawn on the plan view and the 3D ground.
+ */
+const TargetRegionEditor: React.FC<TargetRegionEditorProps> = ({ regions, drawing, onChange, onDraw, trueHeading }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [newKind, setNewKind] = useState<TargetRegionKind>('include');
+  const full = regions.length >= MAX_TARGET_REGIONS;
+
+  const update = (id: string, patch: Partial<TargetRegion>) => {
+    onChange(regions.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const addSector = () => {
+    if (full) return;
+    const region = createTargetRegion(newKind, 'sector', regions.filter(r => r.kind === newKind).length);
+    onChange([...regions, region]);
+    setExpanded(region.id);
+  };
+
+  const wrap = (deg: number) => ((deg % 360) + 360) % 360;
+
+  return (
+    <div className="space-y-3">
+      {regions.map(r => {
+        const isOpen = expanded === r.id;
+        return (
+          <div key={r.id} className="rounded-xl border border-white/5 bg-white/5">
+            <div className="flex items-center gap-2 p-3">
+              <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: TARGET_REGION_COLORS[r.kind] }}></span>
+              <input type="text" value={r.name} onChange={e => update(r.id, { name: e.target.value })}
+                className="flex-1 min-w-0 bg-transparent text-[11px] font-bold text-white outline-none" />
+              <span className="text-[9px] font-mono text-gray-500">{formatArea(getRegionArea(r))}</span>
+              <div className="flex bg-black/40 p-0.5 rounded-lg border border-white/5">
+                {KINDS.map(k => (
+                  <button key={k.id} onClick={() => update(r.id, { kind: k.id })}
+                    className={`px-2 py-1 text-[8px] font-black uppercase tracking-widest rounded-md transition-all ${r.kind === k.id ? (k.id === 'include' ? 'bg-yellow-500 text-black' : 'bg-rose-500 text-white') : 'text-gray-500 hover:text-gray-300'}`}
+                  >{k.label}</button>
+                ))}
+              </div>
+              <button onClick={() => setExpanded(isOpen ? null : r.id)} className="w-6 text-gray-500 hover:text-white" title="Shape and heights">
+                <i className={`fas fa-chevron-down text-[10px] transition-transform ${isOpen ? 'rotate-180' : ''}`}></i>
+              </button>
+              <button onClick={() => onChange(regions.filter(x => x.id !== r.id))} className="w-6 text-gray-600 hover:text-rose-400" title="Remove region">
+                <i className="fas fa-trash text-[10px]"></i>
+              </button>
+            </div>
+
+            {isOpen && (
+              <div className="px-3 pb-3 space-y-3">
+                {r.shape === 'sector' ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    {numberField(trueHeading === undefined ? 'From Bearing' : 'From Bearing (T)', r.bearingFrom, '°', v => update(r.id, { bearingFrom: wrap(v) }))}
+                    {numberField(trueHeading === undefined ? 'To Bearing' : 'To Bearing (T)', r.bearingTo, '°', v => update(r.id, { bearingTo: wrap(v) }))}
+                    {numberField('Min Range', r.rangeMin, 'm', v => update(r.id, { rangeMin: v, rangeMax: Math.max(v, r.rangeMax) }), 0)}
+                    {numberField('Max Range', r.rangeMax, 'm', v => update(r.id, { rangeMax: v, rangeMin: Math.min(v, r.rangeMin) }), 0)}
+                  </div>
+                ) : (
+                  <PolygonField points={r.points} onChange={points => update(r.id, { points })} />
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  {numberField('Floor', r.zMin, 'm', v => update(r.id, { zMin: v, zMax: Math.max(v, r.zMax) }))}
+                  {numberField('Ceiling', r.zMax, 'm', v => update(r.id, { zMax: v, zMin: Math.min(v, r.zMin) }))}
+                </div>
+                {r.shape === 'sector' && (
+                  <div className="text-[9px] font-mono text-gray-500">
+                    {trueHeading === undefined
+                      ? "Bearings clockwise from the beacon's forward axis"
+                      : `True bearings; the beacon faces ${trueHeading}°`}; equal bearings sweep all round
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {drawing ? (
+        <div className="flex items-center gap-2 bg-black/40 rounded-xl p-3 border border-white/5">
+          <span className="flex-1 text-[10px] text-gray-400 leading-relaxed">
+            Click the plan view or the 3D ground to place vertices; click the first vertex or double-click to close the {drawing === 'include' ? 'target' : 'exclusion'} polygon.
+          </span>
+          <button onClick={() => onDraw(null)} className="text-[9px] font-black uppercase tracking-widest text-gray-500 hover:text-rose-400">Cancel</button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+            {KINDS.map(k => (
+              <button key={k.id} onClick={() => setNewKind(k.id)}
+                className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${newKind === k.id ? (k.id === 'include' ? 'bg-yellow-500 text-black' : 'bg-rose-500 text-white') : 'text-gray-500 hover:text-gray-300'}`}
+              >{k.label}</button>
+            ))}
+          </div>
+          <button onClick={addSector} disabled={full}
+            className="flex-1 py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors disabled:opacity-30">
+            <i className="fas fa-chart-pie mr-2"></i>Sector
+          </button>
+          <button onClick={() => onDraw(newKind)} disabled={full}
+            className="flex-1 py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors disabled:opacity-30">
+            <i className="fas fa-draw-polygon mr-2"></i>Polygon
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TargetRegionEditor;
@@ -1,10 +1,14 @@
-import React, { useMemo } from 'react';
-import { Canvas } from '@react-three/fiber';
-import { OrbitControls, Grid, Line, Stars, Text, Box, Plane } from '@react-three/drei';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, ThreeEvent, useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls, Grid, Line, Stars, Text, Box, Plane, TransformControls } from '@react-three/drei';
 import * as THREE from 'three';
-import { Point3D, BeamPoint, ColorPreset } from '../types';
-import { COLOR_PRESETS, ALPHA } from '../constants';
-import { getBeamIntensityDynamic } from '../physics';
+import { Point3D, BeamPattern, Emitter, LevelContours, LevelSurface, IsoMesh, ContourLineStyle, MountingSettings, SamplePlane, Point, TargetRegion, TargetRegionKind, ReceptorMarker } from '../types';
+import { COLOR_PRESETS, TARGET_REGION_COLORS, RECEPTOR_COLORS } from '../constants';
+import { getBeamIntensityAsymmetric, getBeamCutoffAngle, solveVisualRange } from '../physics';
+import { getSlicePose } from '../utils/slicePlane';
+import { getRegionEdges, getRegionLabelAnchor } from '../utils/targetRegions';
+import { MAX_EXPORT_PIXELS, canvasToPng } from '../utils/imageExport';
+import { downloadBlob } from '../utils/download';
 
 // Dual declaration to fix missing JSX types in various environments (React 18+, global vs module JSX)
 declare global {
@@ -17,11 +21,14 @@ declare global {
       edgesGeometry: any;
       lineBasicMaterial: any;
       planeGeometry: any;
+      sphereGeometry: any;
       meshBasicMaterial: any;
+      meshStandardMaterial: any;
       color: any;
       fog: any;
       ambientLight: any;
       pointLight: any;
+      directionalLight: any;
       axesHelper: any;
     }
   }
@@ -37,32 +44,50 @@ declare module 'react' {
       edgesGeometry: any;
       lineBasicMaterial: any;
       planeGeometry: any;
+      sphereGeometry: any;
       meshBasicMaterial: any;
+      meshStandardMaterial: any;
       color: any;
       fog: any;
       ambientLight: any;
       pointLight: any;
+      directionalLight: any;
       axesHelper: any;
     }
   }
 }
 
 interface View3DProps {
-  paths: Point3D[][];
+  surfaces: LevelSurface[]; // Outermost (detection threshold) first
   isFlashing: boolean;
   maxDist: number;
   lateralSize?: number;
   targetBox?: { width: number; height: number; range: number };
+  mounting?: MountingSettings; // Turns the target box with the fixture
+  targetRegions?: TargetRegion[];
+  drawRegion?: TargetRegionKind | null; // Clicks on the ground (Z = 0) place the vertices of a new region
+  onRegionDrawn?: (points: Point[]) => void;
+  receptors?: ReceptorMarker[]; // Obtrusive-light receptors: offenders in red and named
+  rotation?: { rpm: number; axis: Point3D }; // Rotating beacon: spins the cones
   showCones?: boolean;
-  ledConfig?: { h: number; v: number }[];
-  beamPattern?: BeamPoint[];
+  ledConfig?: Emitter[];
+  beamPattern?: BeamPattern;
   wavelength?: number;
   peakCandela?: number;
   effectiveEfficiency?: number; // Now represents Spectral Correction Factor
   threshold?: number;
+  extinction?: number; // Atmospheric extinction coefficient (m^-1)
+  slice?: { plane: SamplePlane; shells: LevelContours<Point3D>[] }; // User slice and its contours in world space
+  onSliceMove?: (centre: Point3D, normal: Point3D) => void;
+  exportName?: string; // File name of PNG snapshots, without extension
 }
 
-const LineSegment: React.FC<{ path: Point3D[]; color: string }> = ({ path, color }) => {
+type GizmoMode = 'translate' | 'rotate';
+
+// Renders the current view at a given pixel size, optionally without the background
+type Snapshot = (width: number, height: number, transparent: boolean) => Promise<Blob>;
+
+const LineSegment: React.FC<{ path: Point3D[]; color: string; opacity: number; lineStyle: ContourLineStyle; dashScale: number }> = ({ path, color, opacity, lineStyle, dashScale }) => {
   const points = useMemo(() => {
     return path.map(p => new THREE.Vector3(p.x, p.z, -p.y)); // Sim(x,y,z) -> Three(x,y,z): X=Lat, Y=Height, -Z=Dist
   }, [path]);
@@ -75,22 +100,64 @@ const LineSegment: React.FC<{ path: Point3D[]; color: string }> = ({ path, color
       color={color} 
       lineWidth={1} 
       transparent 
-      opacity={0.3} // Subtle transparency to avoid clutter
+      opacity={opacity} // Subtle transparency to avoid clutter
+      dashed={lineStyle !== 'solid'}
+      dashSize={lineStyle === 'dotted' ? dashScale * 0.1 : dashScale}
+      gapSize={dashScale * 0.5}
       toneMapped={false} 
     />
   );
 };
 
-const ThresholdLines: React.FC<{ paths: Point3D[][]; color: string }> = React.memo(({ paths, color }) => {
+/**
+ * Contours traced on a plane, one wireframe per contour level. Inner levels are drawn
+ * more opaque so the nested lines stay readable through the outer ones.
+ */
+const ContourShells: React.FC<{ shells: LevelContours<Point3D>[]; dashScale: number }> = React.memo(({ shells, dashScale }) => {
   return (
     <group>
-      {paths.map((path, i) => (
-        <LineSegment key={i} path={path} color={color} />
+      {shells.map(({ level, paths }, s) => (
+        <group key={level.id}>
+          {paths.map((path, i) => (
+            <LineSegment key={i} path={path} color={level.color} lineStyle={level.lineStyle} dashScale={dashScale}
+              opacity={Math.min(0.7, 0.3 + s * 0.15)} />
+          ))}
+        </group>
       ))}
     </group>
   );
 });
 
+const IsoSurfaceMesh: React.FC<{ mesh: IsoMesh; color: string; opacity: number }> = ({ mesh, color, opacity }) => {
+  const geometry = useMemo(() => {
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(mesh.positions, 3));
+    g.setAttribute('normal', new THREE.BufferAttribute(mesh.normals, 3));
+    g.setIndex(new THREE.BufferAttribute(mesh.indices, 1));
+    return g;
+  }, [mesh]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh geometry={geometry}>
+      <meshStandardMaterial color={color} transparent opacity={opacity} roughness={0.8} side={THREE.DoubleSide} depthWrite={false} />
+    </mesh>
+  );
+};
+
+/**
+ * One translucent shell per contour level. Inner levels are drawn more opaque so
+ * the nested shells stay readable through the outer ones.
+ */
+const IsoSurfaces: React.FC<{ surfaces: LevelSurface[] }> = React.memo(({ surfaces }) => (
+  // Meshes are in the sim frame (Z up); -90° about X maps it onto three's (x, z, -y)
+  <group rotation={[-Math.PI / 2, 0, 0]}>
+    {surfaces.map(({ level, mesh }, s) => (
+      <IsoSurfaceMesh key={level.id} mesh={mesh} color={level.color} opacity={Math.min(0.5, 0.2 + s * 0.1)} />
+    ))}
+  </group>
+));
+
 // Simplified Shader for Flat 40% Opacity
 const beamMaterialShader = {
   vertexShader: `
@@ -109,78 +176,68 @@ const beamMaterialShader = {
 
 /**
  * Visualizes the volumetric radiation pattern (Lobe) for a single LED.
- * Uses a LatheGeometry.
+ * The envelope is built over (gamma, C) so asymmetric optics render with their true shape.
+ * Local frame: forward = -Z, C0 (right) = +X, C90 (up) = +Y.
  */
 const SingleLEDCone: React.FC<{ 
-    h: number; 
-    v: number; 
-    beamPattern: BeamPoint[]; 
+    emitter: Emitter; 
+    beamPattern: BeamPattern; 
     color: string; 
     maxDist: number;
     peakCandela: number;
     effectiveEfficiency: number;
     threshold: number;
-}> = ({ h, v, beamPattern, color, maxDist, peakCandela, effectiveEfficiency, threshold }) => {
+    extinction: number;
+}> = ({ emitter, beamPattern, color, maxDist, peakCandela, effectiveEfficiency, threshold, extinction }) => {
+    const { h, v, roll, intensity } = emitter;
     
     const { geometry } = useMemo(() => {
-        const pts: THREE.Vector2[] = [];
-        
-        if (peakCandela <= 0 || effectiveEfficiency <= 0 || threshold <= 0) {
+        if (peakCandela * intensity <= 0 || effectiveEfficiency <= 0 || threshold <= 0) {
             return { geometry: new THREE.BufferGeometry() };
         }
 
-        const maxAngle = Math.max(90, beamPattern[beamPattern.length - 1].angle);
-        const step = 2; 
-
-        // Generate Geometry Profile
-        for (let a = 0; a <= maxAngle; a += step) {
-             const intensityFactor = getBeamIntensityDynamic(beamPattern, a);
-             
-             // I = Peak * SpectralCorrection * ProfileFactor
-             const I = peakCandela * effectiveEfficiency * intensityFactor;
-             
-             // Solve d^2 * exp(ALPHA * d) = I / Threshold
-             let d = 0;
-             const K = I / threshold;
-
-             if (K > 1e-6) {
-                 // Binary Search for d
-                 let low = 0;
-                 let high = Math.min(50000, Math.sqrt(K)); // Approx limit
-                 
-                 for(let i=0; i<15; i++) {
-                     const mid = (low + high) * 0.5;
-                     const val = mid * mid * Math.exp(ALPHA * mid);
-                     if (val < K) low = mid;
-                     else high = mid;
-                 }
-                 d = high;
-             }
-
-             // Lathe rotates around Y. 
-             // We define profile in XY. Y is Axis. X is Radius.
-             const rad = (a * Math.PI) / 180;
-             const radius = d * Math.sin(rad);
-             const height = d * Math.cos(rad);
-             
-             pts.push(new THREE.Vector2(radius, height));
-
-             // If distance drops to near zero, we close the shape
-             if (d < 0.05 && a > 0) break;
+        const maxAngle = Math.min(90, getBeamCutoffAngle(beamPattern));
+        const gammaStep = 2;
+        const segments = 72; // Azimuth segments for smooth roundness
+        const rings = Math.ceil(maxAngle / gammaStep) + 1;
+
+        const positions: number[] = [];
+        for (let r = 0; r < rings; r++) {
+            const gamma = Math.min(maxAngle, r * gammaStep);
+            const g = (gamma * Math.PI) / 180;
+            for (let s = 0; s <= segments; s++) {
+                const cDeg = (s / segments) * 360;
+                const c = (cDeg * Math.PI) / 180;
+                // I = Peak * Scale * SpectralCorrection * ProfileFactor
+                const I = peakCandela * intensity * effectiveEfficiency * getBeamIntensityAsymmetric(beamPattern, gamma, cDeg);
+                const d = solveVisualRange(I, threshold, extinction);
+                positions.push(
+                    d * Math.sin(g) * Math.cos(c),
+                    d * Math.sin(g) * Math.sin(c),
+                    -d * Math.cos(g)
+                );
+            }
         }
-
-        // Ensure closure at the base if needed
-        const last = pts[pts.length - 1];
-        if (last.x > 0.1 || last.y > 0.1) {
-            pts.push(new THREE.Vector2(0, 0));
+        // Close the shape at the emitter
+        for (let s = 0; s <= segments; s++) positions.push(0, 0, 0);
+
+        const indices: number[] = [];
+        const row = segments + 1;
+        for (let r = 0; r < rings; r++) {
+            for (let s = 0; s < segments; s++) {
+                const a = r * row + s;
+                const b = (r + 1) * row + s;
+                indices.push(a, b, a + 1, a + 1, b, b + 1);
+            }
         }
 
-        const segments = 72; // Increased segments for smoother roundness
-        const geom = new THREE.LatheGeometry(pts, segments);
+        const geom = new THREE.BufferGeometry();
+        geom.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        geom.setIndex(indices);
         geom.computeBoundingSphere(); // Ensure bounding sphere is calculated
         
         return { geometry: geom };
-    }, [beamPattern, peakCandela, effectiveEfficiency, threshold]);
+    }, [beamPattern, peakCandela, intensity, effectiveEfficiency, threshold, extinction]);
 
     const uniforms = useMemo(() => ({
         color: { value: new THREE.Color(color) },
@@ -188,9 +245,9 @@ const SingleLEDCone: React.FC<{
     }), [color]);
 
     return (
-        <group rotation={[v, -h, 0]}>
+        // 'YXZ': pitch about the LED's own right axis after yaw, roll about the optical axis, matching physics.ts
+        <group position={[emitter.x, emitter.z, -emitter.y]} rotation={[v, -h, roll, 'YXZ']}>
             <mesh 
-                rotation={[-Math.PI / 2, 0, 0]} 
                 geometry={geometry} 
                 frustumCulled={false} // Prevent disappearing at certain angles
             >
@@ -217,50 +274,246 @@ const SingleLEDCone: React.FC<{
 };
 
 const LEDCones: React.FC<{ 
-    config: { h: number; v: number }[]; 
-    beamPattern: BeamPoint[]; 
+    config: Emitter[]; 
+    beamPattern: BeamPattern; 
     color: string; 
     maxDist: number;
     peakCandela?: number;
     effectiveEfficiency?: number;
     threshold?: number;
-}> = ({ config, beamPattern, color, maxDist, peakCandela, effectiveEfficiency, threshold }) => {
+    extinction?: number;
+}> = ({ config, beamPattern, color, maxDist, peakCandela, effectiveEfficiency, threshold, extinction }) => {
     
-    if (peakCandela === undefined || effectiveEfficiency === undefined || threshold === undefined) return null;
+    if (peakCandela === undefined || effectiveEfficiency === undefined || threshold === undefined || extinction === undefined) return null;
 
     return (
         <group>
             {config.map((cfg, i) => (
                 <SingleLEDCone 
                   key={i} 
-                  h={cfg.h} 
-                  v={cfg.v} 
-                  beamPattern={beamPattern} 
+                  emitter={cfg} 
+                  beamPattern={cfg.beamPattern ?? beamPattern} 
                   color={color} 
                   maxDist={maxDist} 
                   peakCandela={peakCandela}
                   effectiveEfficiency={effectiveEfficiency}
                   threshold={threshold}
+                  extinction={extinction}
                 />
             ))}
         </group>
     );
 };
 
-const TargetBox: React.FC<{ width: number; height: number; range: number }> = ({ width, height, range }) => {
+/**
+ * Turns its children clockwise (seen from the axis tip) about an axis through the origin.
+ */
+const SpinningGroup: React.FC<{ rpm: number; axis: Point3D; children: React.ReactNode }> = ({ rpm, axis, children }) => {
+  const ref = useRef<THREE.Group>(null);
+  const threeAxis = useMemo(() => new THREE.Vector3(axis.x, axis.z, -axis.y).normalize(), [axis]);
+  useFrame(({ clock }) => {
+    ref.current?.quaternion.setFromAxisAngle(threeAxis, -2 * Math.PI * (rpm / 60) * clock.getElapsedTime());
+  });
+  return <group ref={ref}>{children}</group>;
+};
+
+const TargetBox: React.FC<{ width: number; height: number; range: number; mounting?: MountingSettings }> = ({ width, height, range, mounting }) => {
+  // Same Euler order as the LED cones: yaw, then tilt, then roll about the axis
+  const rotation = useMemo(() => {
+    const deg = Math.PI / 180;
+    return mounting ? new THREE.Euler(mounting.pitch * deg, -mounting.yaw * deg, mounting.roll * deg, 'YXZ') : new THREE.Euler();
+  }, [mounting]);
   return (
-    <group position={[0, 0, -range / 2]}>
-        <lineSegments>
-            <edgesGeometry args={[new THREE.BoxGeometry(width, height, range)]} />
-            <lineBasicMaterial color="#facc15" transparent opacity={0.6} />
-        </lineSegments>
-        <Text position={[0, height/2 + 50, 0]} fontSize={100} color="#facc15" anchorX="center" anchorY="bottom">
-            TARGET
-        </Text>
+    <group rotation={rotation}>
+      <group position={[0, 0, -range / 2]}>
+          <lineSegments>
+              <edgesGeometry args={[new THREE.BoxGeometry(width, height, range)]} />
+              <lineBasicMaterial color="#facc15" transparent opacity={0.6} />
+          </lineSegments>
+          <Text position={[0, height/2 + 50, 0]} fontSize={100} color="#facc15" anchorX="center" anchorY="bottom">
+              TARGET
+          </Text>
+      </group>
     </group>
   );
 };
 
+/**
+ * Optimizer regions as wireframe prisms over their height band, named above.
+ */
+const TargetRegions: React.FC<{ regions: TargetRegion[]; labelSize: number }> = ({ regions, labelSize }) => {
+  const prisms = useMemo(() => regions.map(region => {
+    const edges = getRegionEdges(region);
+    const positions = new Float32Array(edges.length * 6);
+    edges.forEach(([a, b], i) => positions.set([a.x, a.z, -a.y, b.x, b.z, -b.y], i * 6));
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    return { region, geometry, anchor: getRegionLabelAnchor(region) };
+  }), [regions]);
+
+  useEffect(() => () => prisms.forEach(p => p.geometry.dispose()), [prisms]);
+
+  return (
+    <group>
+      {prisms.map(({ region, geometry, anchor }) => (
+        <group key={region.id}>
+          <lineSegments geometry={geometry}>
+            <lineBasicMaterial color={TARGET_REGION_COLORS[region.kind]} transparent opacity={0.7} />
+          </lineSegments>
+          {anchor && (
+            <Text position={[anchor.x, region.zMax + labelSize / 2, -anchor.y]} fontSize={labelSize} color={TARGET_REGION_COLORS[region.kind]} anchorX="center" anchorY="bottom">
+              {region.name.toUpperCase()}
+            </Text>
+          )}
+        </group>
+      ))}
+    </group>
+  );
+};
+
+// Obtrusive-light receptors as spheres at their worst points
+const Receptors: React.FC<{ receptors: ReceptorMarker[]; size: number }> = ({ receptors, size }) => (
+  <group>
+    {receptors.map((r, i) => {
+      const color = r.pass ? RECEPTOR_COLORS.pass : RECEPTOR_COLORS.fail;
+      return (
+        <group key={i} position={[r.at.x, r.at.z, -r.at.y]}>
+          <mesh>
+            <sphereGeometry args={[r.pass ? size : size * 1.6, 16, 16]} />
+            <meshBasicMaterial color={color} transparent opacity={r.pass ? 0.6 : 0.9} />
+          </mesh>
+          {!r.pass && (
+            <Text position={[0, size * 2.5, 0]} fontSize={size * 2.5} color={color} anchorX="center" anchorY="bottom">
+              {r.name}
+            </Text>
+          )}
+        </group>
+      );
+    })}
+  </group>
+);
+
+/**
+ * Invisible ground sheet at Z = 0 catching clicks while a region is drawn; the vertices so far
+ * are shown as a polyline. Clicking the first vertex or double-clicking closes the polygon.
+ */
+const RegionDraft: React.FC<{ kind: TargetRegionKind; size: number; onDone: (points: Point[]) => void }> = ({ kind, size, onDone }) => {
+  const [points, setPoints] = useState<Point[]>([]);
+  const snap = size * 0.01;
+
+  const finish = (vertices: Point[]) => {
+    const distinct = vertices.filter((p, i) => i === 0 || Math.hypot(p.x - vertices[i - 1].x, p.y - vertices[i - 1].y) >= snap);
+    if (distinct.length >= 3) onDone(distinct);
+    setPoints([]);
+  };
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    // Orbiting drags end in a click too
+    if (e.delta > 4) return;
+    e.stopPropagation();
+    const at = { x: e.point.x, y: -e.point.z };
+    if (points.length >= 3 && Math.hypot(at.x - points[0].x, at.y - points[0].y) < snap * 2) finish(points);
+    else setPoints([...points, at]);
+  };
+
+  const color = TARGET_REGION_COLORS[kind];
+  return (
+    <group>
+      <mesh rotation={[-Math.PI / 2, 0, 0]} onClick={handleClick} onDoubleClick={(e: ThreeEvent<MouseEvent>) => { e.stopPropagation(); finish(points); }}>
+        <planeGeometry args={[size * 4, size * 4]} />
+        <meshBasicMaterial transparent opacity={0} depthWrite={false} side={THREE.DoubleSide} />
+      </mesh>
+      {points.length >= 2 && <Line points={points.map(p => new THREE.Vector3(p.x, 0, -p.y))} color={color} lineWidth={2} dashed dashSize={snap * 2} gapSize={snap} />}
+      {points.map((p, i) => (
+        <mesh key={i} position={[p.x, 0, -p.y]}>
+          <sphereGeometry args={[i === 0 && points.length >= 3 ? snap * 2 : snap, 12, 12]} />
+          <meshBasicMaterial color={color} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+/**
+ * SLICE GIZMO
+ * The user slice as a translucent sheet; dragging it reports the new centre and normal (sim frame) on release.
+ */
+const SliceGizmo: React.FC<{ plane: SamplePlane; mode: GizmoMode; onMove?: (centre: Point3D, normal: Point3D) => void }> = ({ plane, mode, onMove }) => {
+  const ref = useRef<THREE.Mesh>(null);
+  const { position, quaternion, size } = useMemo(() => {
+    const { centre } = getSlicePose(plane);
+    const toThree = (p: Point3D) => new THREE.Vector3(p.x, p.z, -p.y);
+    const u = toThree(plane.u).normalize();
+    const v = toThree(plane.v).normalize();
+    // Sheet's local X, Y along u, v; its face normal along u x v
+    const basis = new THREE.Matrix4().makeBasis(u, v, new THREE.Vector3().crossVectors(u, v));
+    return {
+      position: toThree(centre),
+      quaternion: new THREE.Quaternion().setFromRotationMatrix(basis),
+      size: [plane.limits.maxX - plane.limits.minX, plane.limits.maxY - plane.limits.minY] as [number, number]
+    };
+  }, [plane]);
+
+  const handleRelease = () => {
+    const mesh = ref.current;
+    if (!mesh || !onMove) return;
+    const n = new THREE.Vector3(0, 0, 1).applyQuaternion(mesh.quaternion);
+    onMove({ x: mesh.position.x, y: -mesh.position.z, z: mesh.position.y }, { x: n.x, y: -n.z, z: n.y });
+  };
+
+  return (
+    <>
+      <mesh ref={ref} position={position} quaternion={quaternion}>
+        <planeGeometry args={size} />
+        <meshBasicMaterial color="#d946ef" transparent opacity={0.15} side={THREE.DoubleSide} depthWrite={false} />
+      </mesh>
+      {onMove && <TransformControls object={ref as React.MutableRefObject<THREE.Object3D>} mode={mode} space={mode === 'rotate' ? 'local' : 'world'} onMouseUp={handleRelease} />}
+    </>
+  );
+};
+
+/**
+ * Offscreen-sized render of the scene for PNG export: the renderer is resized to the requested
+ * pixels for one frame (camera aspect to match), then put back. A transparent snapshot drops the
+ * scene background and clears to zero alpha.
+ */
+const SnapshotCapture: React.FC<{ captureRef: React.MutableRefObject<Snapshot | null> }> = ({ captureRef }) => {
+    const { gl, scene, camera, size } = useThree();
+
+    useEffect(() => {
+        captureRef.current = (width, height, transparent) => {
+            const perspective = camera as THREE.PerspectiveCamera;
+            const pixelRatio = gl.getPixelRatio();
+            const background = scene.background;
+            const clearColor = gl.getClearColor(new THREE.Color());
+            const clearAlpha = gl.getClearAlpha();
+
+            gl.setPixelRatio(1);
+            gl.setSize(width, height, false);
+            perspective.aspect = width / height;
+            perspective.updateProjectionMatrix();
+            if (transparent) {
+                scene.background = null;
+                gl.setClearColor(0x000000, 0);
+            }
+            gl.render(scene, camera);
+            // The pixels are taken now, before the next frame clears the drawing buffer
+            const png = canvasToPng(gl.domElement);
+
+            scene.background = background;
+            gl.setClearColor(clearColor, clearAlpha);
+            gl.setPixelRatio(pixelRatio);
+            gl.setSize(size.width, size.height, false);
+            perspective.aspect = size.width / size.height;
+            perspective.updateProjectionMatrix();
+            return png;
+        };
+        return () => { captureRef.current = null; };
+    }, [gl, scene, camera, size, captureRef]);
+
+    return null;
+};
+
 const MetricScale: React.FC<{ maxDist: number; floorY: number }> = ({ maxDist, floorY }) => {
     const ticks = useMemo(() => {
         const items = [];
@@ -300,9 +553,10 @@ const MetricScale: React.FC<{ maxDist: number; floorY: number }> = ({ maxDist, f
     return <group>{ticks}</group>;
 };
 
-const View3D: React.FC<View3DProps> = ({ paths, isFlashing, maxDist, lateralSize = 2000, targetBox, showCones, ledConfig, beamPattern, wavelength, peakCandela, effectiveEfficiency, threshold }) => {
-  const lineColor = isFlashing ? '#34d399' : '#4ade80';
-  
+const View3D: React.FC<View3DProps> = ({ surfaces, isFlashing, maxDist, lateralSize = 2000, targetBox, mounting, targetRegions, drawRegion, onRegionDrawn, receptors, rotation, showCones, ledConfig, beamPattern, wavelength, peakCandela, effectiveEfficiency, threshold, extinction, slice, onSliceMove, exportName = 'LED_Visibility_3D' }) => {
+  const [gizmoMode, setGizmoMode] = useState<GizmoMode>('translate');
+  const [snapshot, setSnapshot] = useState({ width: 3840, height: 2160, transparent: false });
+  const captureRef = useRef<Snapshot | null>(null);
   const ledColor = useMemo(() => {
       const preset = COLOR_PRESETS.find(p => p.wavelength === wavelength);
       return preset ? preset.hex : '#ffffff';
@@ -313,11 +567,63 @@ const View3D: React.FC<View3DProps> = ({ paths, isFlashing, maxDist, lateralSize
   const gridArgs: [number, number] = useMemo(() => [maxDist * 2, maxDist * 2], [maxDist]);
   const targetTuple: [number, number, number] = useMemo(() => [0, 0, -maxDist / 3], [maxDist]);
 
+  const cones = showCones && ledConfig && beamPattern ? (
+    <LEDCones 
+      config={ledConfig} 
+      beamPattern={beamPattern} 
+      color={ledColor} 
+      maxDist={maxDist} 
+      peakCandela={peakCandela}
+      effectiveEfficiency={effectiveEfficiency}
+      threshold={threshold}
+      extinction={extinction}
+    />
+  ) : null;
+
+  const handleSnapshot = () => {
+    captureRef.current?.(snapshot.width, snapshot.height, snapshot.transparent)
+      .then(png => downloadBlob(png, `${exportName}.png`))
+      .catch(err => console.error('Snapshot failed:', err));
+  };
+
   return (
     <div className="w-full h-[600px] lg:h-[750px] bg-gray-950 rounded-[2.5rem] border border-white/5 overflow-hidden shadow-2xl relative">
       <div className="absolute top-6 left-8 z-10 pointer-events-none">
           <h2 className="text-white text-xl font-black tracking-tight">ISOMETRIC VISUALIZER</h2>
-          <p className="text-gray-500 text-[10px] font-bold uppercase tracking-widest">3D Volumetric Threshold Net</p>
+          <p className="text-gray-500 text-[10px] font-bold uppercase tracking-widest">3D Visibility Iso-Surface</p>
+      </div>
+
+      {drawRegion && onRegionDrawn && (
+        <div className="absolute bottom-6 right-8 z-10 pointer-events-none bg-black/60 rounded-xl px-3 py-2 border border-white/10 text-[10px] font-mono" style={{ color: TARGET_REGION_COLORS[drawRegion] }}>
+          Click the ground to place vertices · click the first one or double-click to close
+        </div>
+      )}
+
+      {slice && onSliceMove && (
+        <div className="absolute bottom-6 left-8 z-10 flex bg-black/40 p-1 rounded-xl border border-white/5">
+          {(['translate', 'rotate'] as const).map(m => (
+            <button key={m} onClick={() => setGizmoMode(m)}
+              className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${gizmoMode === m ? 'bg-fuchsia-500 text-white shadow-lg shadow-fuchsia-500/20' : 'text-gray-500 hover:text-gray-300'}`}
+            >{m === 'translate' ? 'Move Slice' : 'Tilt Slice'}</button>
+          ))}
+        </div>
+      )}
+
+      <div className="absolute top-20 right-8 z-10 flex items-center gap-2 bg-black/40 p-1 rounded-xl border border-white/5">
+        {(['width', 'height'] as const).map(key => (
+          <input key={key} type="number" min={64} max={MAX_EXPORT_PIXELS} step={16} value={snapshot[key]} title={`${key === 'width' ? 'Width' : 'Height'} (px)`}
+            onChange={e => {
+              const px = parseInt(e.target.value, 10);
+              if (px >= 64 && px <= MAX_EXPORT_PIXELS) setSnapshot(prev => ({ ...prev, [key]: px }));
+            }}
+            className="w-16 bg-black/40 rounded-lg px-2 py-1 border border-white/5 text-[10px] font-mono text-white outline-none" />
+        ))}
+        <button onClick={() => setSnapshot(prev => ({ ...prev, transparent: !prev.transparent }))}
+          className={`px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all ${snapshot.transparent ? 'bg-sky-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+        >Transparent</button>
+        <button onClick={handleSnapshot}
+          className="px-3 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-all"
+        ><i className="fas fa-camera mr-1"></i>PNG</button>
       </div>
 
       <Canvas camera={{ position: [maxDist * 0.8, maxDist * 0.8, maxDist * 0.8], fov: 45, far: maxDist * 10 }}
@@ -328,24 +634,24 @@ const View3D: React.FC<View3DProps> = ({ paths, isFlashing, maxDist, lateralSize
         
         <ambientLight intensity={0.5} />
         <pointLight position={[1000, 1000, 1000]} intensity={1} />
+        <directionalLight position={[1, 2, 1]} intensity={1.5} />
         
+        <SnapshotCapture captureRef={captureRef} />
+
         <Stars radius={maxDist * 4} depth={50} count={3000} factor={4} saturation={0} fade speed={1} />
 
         <group position={[0, 0, 0]}>
-           <ThresholdLines paths={paths} color={lineColor} />
-           
-           {showCones && ledConfig && beamPattern && (
-               <LEDCones 
-                 config={ledConfig} 
-                 beamPattern={beamPattern} 
-                 color={ledColor} 
-                 maxDist={maxDist} 
-                 peakCandela={peakCandela}
-                 effectiveEfficiency={effectiveEfficiency}
-                 threshold={threshold}
-               />
+           <IsoSurfaces surfaces={surfaces} />
+
+           {slice && (
+             <>
+               <SliceGizmo plane={slice.plane} mode={gizmoMode} onMove={onSliceMove} />
+               <ContourShells shells={slice.shells} dashScale={maxDist / 100} />
+             </>
            )}
            
+           {cones && (rotation ? <SpinningGroup rpm={rotation.rpm} axis={rotation.axis}>{cones}</SpinningGroup> : cones)}
+           
            {/* BACKPLANE VISUALIZATION (Mounting Surface) */}
            {/* Visualizes the plane at Distance = 0 to confirm no light leakage behind */}
            <mesh position={[0, 0, 0]} rotation={[0, 0, 0]}>
@@ -363,7 +669,10 @@ const View3D: React.FC<View3DProps> = ({ paths, isFlashing, maxDist, lateralSize
                 fadeDistance={maxDist}
            />
 
-           {targetBox && <TargetBox {...targetBox} />}
+           {targetBox && <TargetBox {...targetBox} mounting={mounting} />}
+           {targetRegions && targetRegions.length > 0 && <TargetRegions regions={targetRegions} labelSize={maxDist * 0.025} />}
+           {receptors && receptors.length > 0 && <Receptors receptors={receptors} size={maxDist * 0.006} />}
+           {drawRegion && onRegionDrawn && <RegionDraft kind={drawRegion} size={maxDist} onDone={onRegionDrawn} />}
            
            <MetricScale maxDist={maxDist} floorY={floorY} />
 
@@ -1,7 +1,32 @@
 
-import { ColorPreset, BeamPoint, GridLimits } from './types';
+import { ColorPreset, BeamPattern, GridLimits, Atmosphere, WeatherPreset, ContourLevel, GeoReference, TerrainSettings, HorizonSettings, VisionSettings, FlashCharacter, FlashType, ArraySettings, MountingSettings, SceneSettings, RotationSettings, SliceSettings, OptTargets, TargetRegionKind, EnvironmentalZone } from './types';
 
-export const ALPHA = 0.00015; // atmospheric attenuation coefficient m^-1
+/**
+ * Koschmieder constant: ln(1 / 0.02) for the 2% contrast threshold
+ * that defines meteorological optical range.
+ */
+export const KOSCHMIEDER_CONSTANT = 3.912;
+
+// Reference wavelength (nm) at which MOR is specified
+export const MOR_REFERENCE_WAVELENGTH = 550;
+
+// ~26 km MOR, i.e. an extinction of 0.00015 m^-1 at 550nm (clear air)
+export const DEFAULT_ATMOSPHERE: Atmosphere = {
+  visibilityKm: 26,
+  precipitation: 'none'
+};
+
+export const WEATHER_PRESETS: WeatherPreset[] = [
+  { name: 'Clear', icon: 'fa-sun', visibilityKm: 26, precipitation: 'none' },
+  { name: 'Haze', icon: 'fa-smog', visibilityKm: 5, precipitation: 'none' },
+  { name: 'Light Fog', icon: 'fa-cloud', visibilityKm: 1, precipitation: 'none' },
+  { name: 'Dense Fog', icon: 'fa-cloud-meatball', visibilityKm: 0.1, precipitation: 'none' },
+  { name: 'Rain', icon: 'fa-cloud-rain', visibilityKm: 3, precipitation: 'rain' },
+  { name: 'Snow', icon: 'fa-snowflake', visibilityKm: 0.6, precipitation: 'snow' }
+];
+
+export const MIN_VISIBILITY_KM = 0.05;
+export const MAX_VISIBILITY_KM = 50;
 
 /**
  * CIE 1951 Scotopic Luminous Efficiency V'(λ) - Rods
@@ -25,13 +50,68 @@ export const PHOTOPIC_DATA: [number, number][] = [
   [680, 0.017000], [700, 0.004102]
 ];
 
-export const DEFAULT_BEAM_PATTERN: BeamPoint[] = [
-  { angle: 0, intensity: 1.0 },
-  { angle: 10, intensity: 0.9 },
-  { angle: 20, intensity: 0.45 },
-  { angle: 30, intensity: 0.0 }
+/**
+ * CIE 191:2010 mesopic system: m = a + b log10(L_mes), with V'(λ0) = 683 / 1699 at λ0 = 555 nm.
+ * Below 0.005 cd/m² vision is scotopic (m = 0), above 5 cd/m² photopic (m = 1).
+ */
+export const MESOPIC_A = 0.767;
+export const MESOPIC_B = 0.3334;
+export const SCOTOPIC_AT_555 = 683 / 1699;
+
+// Dark-adapted by default: the night-time boost the model has always applied
+export const DEFAULT_VISION: VisionSettings = {
+  mode: 'scotopic',
+  adaptationLuminance: 0.1,
+  spRatio: 1.2
+};
+
+// S/P ratios of common background lighting
+export const BACKGROUND_SP_PRESETS: { name: string; spRatio: number }[] = [
+  { name: 'HPS', spRatio: 0.65 },
+  { name: 'LED 3000K', spRatio: 1.2 },
+  { name: 'LED 4000K', spRatio: 1.6 },
+  { name: 'Metal Halide', spRatio: 1.8 }
 ];
 
+export const DEFAULT_BEAM_PATTERN: BeamPattern = {
+  planes: [{
+    c: 0,
+    points: [
+      { angle: 0, intensity: 1.0 },
+      { angle: 10, intensity: 0.9 },
+      { angle: 20, intensity: 0.45 },
+      { angle: 30, intensity: 0.0 }
+    ]
+  }]
+};
+
+/**
+ * Angular fan at the origin, as before physical placement existed.
+ * Pitch and radius suit a 300 mm bar of 50 mm modules and a 150 mm lantern.
+ */
+export const DEFAULT_ARRAY_SETTINGS: ArraySettings = {
+  layout: 'fan',
+  pitch: 0.05,
+  radius: 0.15,
+  emitters: []
+};
+
+// Upper bound for generated and imported emitter tables
+export const MAX_EMITTERS = 256;
+
+export const DEFAULT_MOUNTING: MountingSettings = { yaw: 0, pitch: 0, roll: 0 };
+
+// User slice: off until asked for; the custom plane starts as a level cut ahead of the beacon
+export const DEFAULT_SLICE: SliceSettings = {
+  enabled: false,
+  mode: 'horizontal',
+  height: 30,
+  bearing: 40,
+  origin: { x: 0, y: 1000, z: 30 },
+  normal: { x: 0, y: 0, z: 1 },
+  extent: 1000
+};
+
 export const DEFAULT_GRID_LIMITS: GridLimits = {
   minX: -2000,
   maxX: 2000,
@@ -39,6 +119,106 @@ export const DEFAULT_GRID_LIMITS: GridLimits = {
   maxY: 2000
 };
 
+// The detection threshold is always traced; these rings are drawn inside it.
+export const THRESHOLD_LEVEL_ID = 'threshold';
+
+export const DEFAULT_CONTOUR_LEVELS: ContourLevel[] = [
+  { id: 'approach', name: 'Approach', logValue: -5, color: '#f59e0b', lineStyle: 'dashed' },
+  { id: 'inner', name: 'Inner', logValue: -4, color: '#f43f5e', lineStyle: 'dotted' }
+];
+
+export const CONTOUR_PALETTE = ['#f59e0b', '#f43f5e', '#38bdf8', '#a78bfa', '#facc15', '#fb7185'];
+
+// A single beacon at the origin
+export const DEFAULT_SCENE_SETTINGS: SceneSettings = {
+  beacons: [],
+  coverageArea: []
+};
+
+// Dominance map colours; the primary beacon takes the first
+export const BEACON_PALETTE = ['#22d3ee', '#f97316', '#a3e635', '#e879f9', '#facc15', '#60a5fa', '#f43f5e', '#34d399', '#c084fc', '#fb923c'];
+
+// Sources per scene, primary included (dominance indices must fit a byte below NO_SOURCE)
+export const MAX_SCENE_BEACONS = 32;
+
+// Dominance value of cells that no source lights
+export const NO_SOURCE = 255;
+
+export const DEFAULT_GEO_REFERENCE: GeoReference = {
+  enabled: false,
+  latitude: 51.4779,
+  longitude: -0.0015,
+  heightAboveGround: 10,
+  heading: 0
+};
+
+export const DEFAULT_TERRAIN_SETTINGS: TerrainSettings = {
+  enabled: true,
+  originEasting: 0,
+  originNorthing: 0
+};
+
+// Terrain is resampled to at most this many cells per side before it is posted to the workers
+export const TERRAIN_MAX_DIM = 384;
+
+// Fallback building height (m) when a footprint has no height or level count
+export const DEFAULT_BUILDING_HEIGHT = 10;
+
+/**
+ * Blondel-Rey constant a (s): the eye integrates a flash as if it lasted t + a.
+ * 0.2 s is the value IALA uses for night-time observation.
+ */
+export const BLONDEL_REY_CONSTANT = 0.2;
+
+export const DEFAULT_FLASH_CHARACTER: FlashCharacter = {
+  type: 'Fl',
+  group: 1,
+  letter: 'A',
+  period: 5,
+  flashDuration: 0.5,
+  pulseShape: 'rectangular',
+  riseTime: 0.05,
+  method: 'blondel-rey'
+};
+
+export const DEFAULT_ROTATION: RotationSettings = {
+  enabled: false,
+  rpm: 12,
+  axis: 'vertical',
+  method: 'blondel-rey'
+};
+
+// Rotating beacon sweep sampling: elevation table step and azimuth samples per revolution
+export const SWEEP_ELEVATION_STEP = 1;
+export const SWEEP_SAMPLES = 720;
+// Rated sweep tables kept for reuse (primary and scene beacons, recent settings)
+export const SWEEP_CACHE_SIZE = 32;
+
+// Typical flash (or eclipse, for Oc) length per rhythm class, applied when the class changes
+export const FLASH_TYPE_DEFAULTS: Record<FlashType, { flashDuration: number; period: number }> = {
+  Fl: { flashDuration: 0.5, period: 5 },
+  LFl: { flashDuration: 2, period: 10 },
+  Q: { flashDuration: 0.3, period: 1 },
+  VQ: { flashDuration: 0.2, period: 0.5 },
+  Iso: { flashDuration: 2, period: 4 },
+  Oc: { flashDuration: 1, period: 4 },
+  Mo: { flashDuration: 0.5, period: 8 }
+};
+
+// Mean Earth radius (m)
+export const EARTH_RADIUS = 6371008.8;
+
+/**
+ * Observer eye height of 5 m as used for IALA geographic range.
+ * k = 0.13 is the usual terrestrial refraction coefficient for visible light.
+ * Off until the user turns it on, so the plan view is not clipped unasked.
+ */
+export const DEFAULT_HORIZON_SETTINGS: HorizonSettings = {
+  enabled: false,
+  observerHeight: 5,
+  refractionK: 0.13
+};
+
 export const COLOR_PRESETS: ColorPreset[] = [
   { name: 'Deep Blue', wavelength: 450, hex: '#0000FF' },
   { name: 'Blue', wavelength: 470, hex: '#0080FF' },
@@ -54,3 +234,55 @@ export const COLOR_PRESETS: ColorPreset[] = [
 ];
 
 export const GRID_RES = 450;
+
+// Progressive refinement: a coarse pass is shown first, then refined.
+export const COARSE_GRID_RES = 90;
+export const COARSE_VOLUME_RES = 33;
+
+// 3D iso-surface: samples per axis of the volume (odd, so the fixture's own planes are sampled)
+export const VOLUME_RES = 97;
+
+// Polar range diagram: angular step of the rays (deg)
+export const POLAR_STEP_DEG = 1;
+
+// Auto-optimizer (NSGA-II): population, generations and the search space
+export const OPTIMIZER_POPULATION = 40;
+export const OPTIMIZER_GENERATIONS = 30;
+export const OPTIMIZER_MAX_LEDS_PER_AXIS = 8; // Columns and rows, as on the sliders
+export const OPTIMIZER_MAX_SPREAD = 80;       // Plan and elevation spread (deg)
+export const OPTIMIZER_INTENSITY_RANGE = 10;  // Peak intensity searched from /10 to x10 of the current one
+export const OPTIMIZER_MIN_TARGET = 1;        // Smallest target box width, height and range (m)
+
+// Candidate beams besides the current one: its curve narrowed or widened by these factors
+export const OPTIMIZER_BEAM_SCALES: { name: string; scale: number }[] = [
+  { name: 'Narrow', scale: 0.5 },
+  { name: 'Wide', scale: 2 }
+];
+
+// Optimizer targets: the box on the optical axis, no free regions
+export const DEFAULT_OPT_TARGETS: OptTargets = { width: 1000, height: 600, range: 2000, box: true, regions: [] };
+
+export const MAX_TARGET_REGIONS = 12;
+
+// Outline colours: inclusion regions like the target box, exclusion zones in red
+export const TARGET_REGION_COLORS: Record<TargetRegionKind, string> = { include: '#facc15', exclude: '#f43f5e' };
+
+/**
+ * CIE 150:2017 obtrusive-light limits per environmental zone, before and after curfew:
+ * vertical illuminance on windows (lx) and luminous intensity of each luminaire towards them (cd).
+ */
+export const CIE150_LIMITS: Record<EnvironmentalZone, { label: string; ev: [number, number]; intensity: [number, number] }> = {
+  E1: { label: 'Dark', ev: [2, 0], intensity: [2500, 0] },
+  E2: { label: 'Low district brightness', ev: [5, 1], intensity: [7500, 500] },
+  E3: { label: 'Medium district brightness', ev: [10, 2], intensity: [10000, 1000] },
+  E4: { label: 'High district brightness', ev: [25, 5], intensity: [25000, 2500] }
+};
+
+// Threshold increment allowed to drivers (%), and the adaptation of an unlit road (cd/m²)
+export const DRIVER_TI_LIMIT = 15;
+export const UNLIT_ROAD_LUMINANCE = 0.1;
+
+export const MAX_RECEPTORS = 32;
+
+// Receptor markers: within their limits, or offending
+export const RECEPTOR_COLORS = { pass: '#34d399', fail: '#f43f5e' };
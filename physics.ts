@@ -1,6 +1,6 @@
 
-import { SCOTOPIC_DATA, PHOTOPIC_DATA, ALPHA } from './constants';
-import { BeamPoint } from './types';
+import { SCOTOPIC_DATA, PHOTOPIC_DATA, MESOPIC_A, MESOPIC_B, SCOTOPIC_AT_555, KOSCHMIEDER_CONSTANT, MOR_REFERENCE_WAVELENGTH, EARTH_RADIUS } from './constants';
+import { Atmosphere, BeamPoint, BeamPattern, Emitter, FieldModel, HorizonModel, SourceModel, SweepTable, VisionSettings } from './types';
 
 /**
  * LINEAR INTERPOLATION (Lerp)
@@ -43,49 +43,180 @@ export const getBeamIntensityDynamic = (beamPattern: BeamPoint[], angleDeg: numb
       return 0.0; 
   }
 
-  // 3. Interpolation
-  for (let i = 0; i < beamPattern.length - 1; i++) {
-    if (absAngle >= beamPattern[i].angle && absAngle <= beamPattern[i + 1].angle) {
-      return lerp(absAngle, beamPattern[i].angle, beamPattern[i + 1].angle, beamPattern[i].intensity, beamPattern[i + 1].intensity);
+  // 3. Interpolation (binary search: imported photometry can have hundreds of points)
+  let lo = 0;
+  let hi = beamPattern.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (beamPattern[mid].angle <= absAngle) lo = mid;
+    else hi = mid;
+  }
+  return lerp(absAngle, beamPattern[lo].angle, beamPattern[hi].angle, beamPattern[lo].intensity, beamPattern[hi].intensity);
+};
+
+/**
+ * C-PLANE SYMMETRY FOLDING
+ * Maps any azimuth onto the range the pattern actually defines,
+ * following the symmetry implied by its last C-plane (see BeamPattern).
+ */
+export const foldAzimuth = (pattern: BeamPattern, cDeg: number): number => {
+  let c = ((cDeg % 360) + 360) % 360;
+  const maxC = pattern.planes[pattern.planes.length - 1].c;
+  if (maxC <= 90) {
+    // Quadrant symmetry
+    if (c > 180) c = 360 - c;
+    if (c > 90) c = 180 - c;
+  } else if (maxC <= 180) {
+    // Bilateral symmetry about the C0-C180 plane
+    if (c > 180) c = 360 - c;
+  }
+  return c;
+};
+
+/**
+ * ASYMMETRIC BEAM SAMPLER
+ * Relative intensity at off-axis angle gamma and azimuth c (degrees),
+ * linearly interpolated between the two neighbouring C-planes.
+ */
+export const getBeamIntensityAsymmetric = (pattern: BeamPattern, gammaDeg: number, cDeg: number): number => {
+  const planes = pattern.planes;
+  if (planes.length === 1) return getBeamIntensityDynamic(planes[0].points, gammaDeg);
+
+  const c = foldAzimuth(pattern, cDeg);
+  const first = planes[0];
+  const last = planes[planes.length - 1];
+
+  if (c >= first.c && c <= last.c) {
+    let lo = 0;
+    let hi = planes.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (planes[mid].c <= c) lo = mid;
+      else hi = mid;
     }
+    const i0 = getBeamIntensityDynamic(planes[lo].points, gammaDeg);
+    const i1 = getBeamIntensityDynamic(planes[hi].points, gammaDeg);
+    return lerp(c, planes[lo].c, planes[hi].c, i0, i1);
   }
-  
-  return 0.0;
+
+  // Outside the defined range: either wrap around a full table or clamp.
+  const i0 = getBeamIntensityDynamic(last.points, gammaDeg);
+  const i1 = getBeamIntensityDynamic(first.points, gammaDeg);
+  if (last.c > 180) {
+    const cw = c < first.c ? c + 360 : c;
+    return lerp(cw, last.c, first.c + 360, i0, i1);
+  }
+  return c < first.c ? i1 : i0;
+};
+
+/**
+ * BEAM EDGE FINDER
+ * Smallest off-axis angle (degrees) in the given C-plane at which the
+ * relative intensity falls to 'fraction' of the axial value (0.5 = FWHM edge).
+ */
+export const getBeamHalfAngle = (pattern: BeamPattern, cDeg: number, fraction: number = 0.5): number => {
+  const axial = getBeamIntensityAsymmetric(pattern, 0, cDeg);
+  if (axial <= 0) return 0;
+  for (let g = 0; g <= 90; g += 0.5) {
+    if (getBeamIntensityAsymmetric(pattern, g, cDeg) < axial * fraction) return Math.max(0, g - 0.5);
+  }
+  return 90;
+};
+
+/**
+ * Largest gamma (degrees) at which any C-plane still emits.
+ */
+export const getBeamCutoffAngle = (pattern: BeamPattern): number =>
+  Math.max(...pattern.planes.map(p => p.points[p.points.length - 1].angle));
+
+/**
+ * MESOPIC ADAPTATION (CIE 191:2010)
+ * Adaptation coefficient m for the observer: 1 photopic, 0 scotopic, and in between solved by
+ * iteration from the background's photopic luminance Lp and scotopic luminance Ls = Lp * S/P:
+ *   L_mes = (m Lp + (1 - m) Ls V'(λ0)) / (m + (1 - m) V'(λ0)),  m = a + b log10(L_mes)
+ */
+export const getAdaptationCoefficient = (vision: VisionSettings): number => {
+  if (vision.mode === 'photopic') return 1;
+  if (vision.mode === 'scotopic') return 0;
+  const lp = Math.max(vision.adaptationLuminance, 1e-9);
+  const ls = lp * vision.spRatio;
+  let m = 0.5;
+  for (let i = 0; i < 50; i++) {
+    const lmes = (m * lp + (1 - m) * ls * SCOTOPIC_AT_555) / (m + (1 - m) * SCOTOPIC_AT_555);
+    const next = Math.min(1, Math.max(0, MESOPIC_A + MESOPIC_B * Math.log10(lmes)));
+    if (Math.abs(next - m) < 1e-6) return next;
+    m = next;
+  }
+  return m;
 };
 
 /**
  * SPECTRAL CORRECTION (Purkinje Shift)
+ * Luminous efficiency of a monochromatic source for the adapted eye relative to its photopic
+ * rating: Vmes(λ) / (Vmes(λ0) V(λ)), with Vmes = m V + (1 - m) V'. Scotopic (m = 0) gives the
+ * familiar 1699/683 · V'/V. Never below photopic: the fovea still sees the light with its cones.
  */
-export const getSpectralCorrectionFactor = (wavelength: number): number => {
+export const getSpectralCorrectionFactor = (wavelength: number, vision: VisionSettings): number => {
   // For Infrared (> 700nm), we assume raw radiometric power logic is used
   // rather than photometric scaling. Returns 1.0 so intensity is treated as mW/sr directly.
   if (wavelength >= 700) {
       return 1.0;
   }
 
+  const m = getAdaptationCoefficient(vision);
   const v_scotopic = getLookupValue(SCOTOPIC_DATA, wavelength);
   const v_photopic = getLookupValue(PHOTOPIC_DATA, wavelength);
   const v_photopic_safe = Math.max(v_photopic, 1e-6);
-  const correction = 2.489 * (v_scotopic / v_photopic_safe);
+  const v_mesopic = m * v_photopic + (1 - m) * v_scotopic;
+  const correction = v_mesopic / ((m + (1 - m) * SCOTOPIC_AT_555) * v_photopic_safe);
   return Math.max(1.0, correction);
 };
 
+/**
+ * AEROSOL SIZE-DISTRIBUTION EXPONENT (Kim/Kruse)
+ * q in sigma(λ) ∝ λ^-q. Clear air has small particles (strong wavelength
+ * dependence); dense fog droplets are large (none). Precipitation is always 0.
+ */
+export const getScatteringExponent = (atmosphere: Atmosphere): number => {
+  if (atmosphere.precipitation !== 'none') return 0;
+  const V = atmosphere.visibilityKm;
+  if (V > 50) return 1.6;
+  if (V > 6) return 1.3;
+  if (V > 1) return 0.16 * V + 0.34;
+  if (V > 0.5) return V - 0.5;
+  return 0;
+};
+
+/**
+ * EXTINCTION COEFFICIENT (Koschmieder)
+ * sigma(λ) = 3.912 / MOR * (λ / 550nm)^-q, in m^-1.
+ */
+export const getExtinctionCoefficient = (atmosphere: Atmosphere, wavelength: number): number => {
+  const morMeters = Math.max(1, atmosphere.visibilityKm * 1000);
+  const sigma550 = KOSCHMIEDER_CONSTANT / morMeters;
+  const q = getScatteringExponent(atmosphere);
+  return sigma550 * Math.pow(wavelength / MOR_REFERENCE_WAVELENGTH, -q);
+};
+
 /**
  * ALLARD'S LAW (Point Source Illuminance)
- * Calculates E (Lux) at a point P(x,y,z).
+ * Calculates E (Lux) at a point P(x,y,z) from one emitter at its own position.
  */
 export const calculateIlluminance = (
   x: number, 
   y: number, 
   z: number,
-  angleH: number, // Yaw
-  angleV: number, // Pitch
+  emitter: Emitter,
   peakCandela: number, 
   spectralFactor: number, 
-  beamPattern: BeamPoint[]
+  beamPattern: BeamPattern, // Used unless the emitter has its own
+  extinction: number // Atmospheric extinction coefficient (m^-1)
 ): number => {
-  // 1. Distance Calculation
-  const d2 = x*x + y*y + z*z;
+  // 1. Distance Calculation (from the emitter, not the fixture origin)
+  const rx = x - emitter.x;
+  const ry = y - emitter.y;
+  const rz = z - emitter.z;
+  const d2 = rx*rx + ry*ry + rz*rz;
   const dist = Math.sqrt(d2);
   
   // NEAR FIELD PROTECTION
@@ -97,14 +228,18 @@ export const calculateIlluminance = (
   // 2. Orientation Vectors
   // LED points along +Y in local space, rotated by H (Yaw around Z) and V (Pitch around X)
   // Direction Vector D:
-  const Dx = Math.sin(angleH) * Math.cos(angleV);
-  const Dy = Math.cos(angleH) * Math.cos(angleV);
-  const Dz = Math.sin(angleV);
+  const angleH = emitter.h;
+  const angleV = emitter.v;
+  const sinH = Math.sin(angleH), cosH = Math.cos(angleH);
+  const sinV = Math.sin(angleV), cosV = Math.cos(angleV);
+  const Dx = sinH * cosV;
+  const Dy = cosH * cosV;
+  const Dz = sinV;
 
   // Vector to Point P (normalized using safe distance)
-  const Px = x / d_safe;
-  const Py = y / d_safe;
-  const Pz = z / d_safe;
+  const Px = rx / d_safe;
+  const Py = ry / d_safe;
+  const Pz = rz / d_safe;
 
   // 3. Angle Calculation (Dot Product)
   const cosTheta = Dx*Px + Dy*Py + Dz*Pz;
@@ -118,17 +253,178 @@ export const calculateIlluminance = (
   const thetaDeg = thetaRad * (180 / Math.PI);
 
   // 4. Beam Pattern Lookup
-  const relativeIntensity = getBeamIntensityDynamic(beamPattern, thetaDeg);
+  // For asymmetric optics, resolve the azimuth (C angle) in the LED's own frame:
+  // Right R = (cosH, -sinH, 0) is C0, Up U = (-sinH sinV, -cosH sinV, cosV) is C90,
+  // both turned by the emitter's roll.
+  const pattern = emitter.beamPattern ?? beamPattern;
+  let cDeg = 0;
+  if (pattern.planes.length > 1) {
+    const pr = cosH * Px - sinH * Py;
+    const pu = -sinH * sinV * Px - cosH * sinV * Py + cosV * Pz;
+    cDeg = (Math.atan2(pu, pr) - emitter.roll) * (180 / Math.PI);
+  }
+  const relativeIntensity = getBeamIntensityAsymmetric(pattern, thetaDeg, cDeg);
   
   // Optimization: Early exit if pattern returns 0 (e.g. angle > cutoff)
   if (relativeIntensity <= 0) return 0.0;
 
   // 5. Effective Intensity
-  const I_effective = peakCandela * spectralFactor * relativeIntensity;
+  const I_effective = peakCandela * emitter.intensity * spectralFactor * relativeIntensity;
 
   // 6. Atmospheric Transmissivity (Allard's Law)
-  const T = Math.exp(-ALPHA * d_safe);
+  const T = Math.exp(-extinction * d_safe);
 
   // 7. Final Illuminance
   return (I_effective * T) / (d_safe * d_safe);
 };
+
+/**
+ * ROTATING BEACON
+ * Effective intensity towards the point's elevation above the plane of rotation
+ * (interpolated from the sweep table), through Allard's law from the beacon origin.
+ */
+const evaluateSweep = (sweep: SweepTable, x: number, y: number, z: number, extinction: number): number => {
+  const dist = Math.sqrt(x * x + y * y + z * z);
+  const d = Math.max(0.05, dist);
+  const sinE = dist > 0 ? (x * sweep.axis.x + y * sweep.axis.y + z * sweep.axis.z) / dist : 0;
+  const f = (Math.asin(Math.max(-1, Math.min(1, sinE))) + Math.PI / 2) / sweep.step;
+  const k = Math.min(sweep.effective.length - 2, Math.floor(f));
+  const t = f - k;
+  const intensity = sweep.effective[k] * (1 - t) + sweep.effective[k + 1] * t;
+  return (intensity * Math.exp(-extinction * d)) / (d * d);
+};
+
+/**
+ * ARRAY SUMMATION
+ * Illuminance at P(x,y,z) (scene frame) from every LED of one beacon.
+ */
+export const evaluateSource = (source: SourceModel, x: number, y: number, z: number): number => {
+  // Into the beacon's own frame: forward (+Y) is turned clockwise by heading
+  const dx = x - source.position.x;
+  const dy = y - source.position.y;
+  const sin = Math.sin(source.heading);
+  const cos = Math.cos(source.heading);
+  const lx = dx * cos - dy * sin;
+  const ly = dx * sin + dy * cos;
+  const lz = z - source.position.z;
+  if (source.sweep) return evaluateSweep(source.sweep, lx, ly, lz, source.extinction);
+
+  let total = 0;
+  for (const led of source.leds) {
+    total += calculateIlluminance(lx, ly, lz, led, source.peakIntensity, source.spectralFactor, source.beamPattern, source.extinction);
+  }
+  return total;
+};
+
+/**
+ * Illuminance at P from each LED of one beacon on its own (the terms evaluateSource adds up).
+ * A rotating beacon is rated as one swept beam, so it has no per-LED breakdown.
+ */
+export const evaluateEmitters = (source: SourceModel, x: number, y: number, z: number): number[] | null => {
+  if (source.sweep) return null;
+  const dx = x - source.position.x;
+  const dy = y - source.position.y;
+  const sin = Math.sin(source.heading);
+  const cos = Math.cos(source.heading);
+  const lx = dx * cos - dy * sin;
+  const ly = dx * sin + dy * cos;
+  const lz = z - source.position.z;
+  return source.leds.map(led =>
+    calculateIlluminance(lx, ly, lz, led, source.peakIntensity, source.spectralFactor, source.beamPattern, source.extinction)
+  );
+};
+
+/**
+ * SCENE SUMMATION
+ * Total illuminance at P(x,y,z) from every beacon (line of sight not checked).
+ */
+export const evaluateField = (model: FieldModel, x: number, y: number, z: number): number => {
+  let total = 0;
+  for (const source of model.sources) total += evaluateSource(source, x, y, z);
+  return total;
+};
+
+/**
+ * ALLARD'S LAW INVERSION
+ * Distance (m) at which a source of intensity I falls to the threshold E,
+ * i.e. solves I * exp(-sigma * d) / d^2 = E by bisection.
+ */
+export const solveVisualRange = (intensity: number, threshold: number, extinction: number, maxDist: number = 50000): number => {
+  const K = intensity / threshold;
+  if (!(K > 1e-6)) return 0;
+
+  let low = 0;
+  let high = Math.min(maxDist, Math.sqrt(K)); // Inverse-square limit (no extinction)
+  for (let i = 0; i < 30; i++) {
+    const mid = (low + high) * 0.5;
+    if (mid * mid * Math.exp(extinction * mid) < K) low = mid;
+    else high = mid;
+  }
+  return high;
+};
+
+/**
+ * EFFECTIVE EARTH RADIUS
+ * Refraction bends rays towards the ground; treating them as straight over an earth of
+ * radius R / (1 - k) gives the same horizon.
+ */
+export const getEffectiveEarthRadius = (refractionK: number): number =>
+  EARTH_RADIUS / Math.max(1e-3, 1 - refractionK);
+
+/**
+ * Distance (m) to the horizon from a height h (m) above the surface: sqrt(2 R' h).
+ */
+export const getHorizonDistance = (height: number, effectiveRadius: number): number =>
+  Math.sqrt(2 * effectiveRadius * Math.max(0, height));
+
+/**
+ * IALA GEOGRAPHIC RANGE
+ * Greatest distance at which the light can be seen, limited only by curvature,
+ * refraction and the heights of the light and of the observer's eye.
+ */
+export const getGeographicRange = (beaconHeight: number, observerHeight: number, effectiveRadius: number): number =>
+  getHorizonDistance(beaconHeight, effectiveRadius) + getHorizonDistance(observerHeight, effectiveRadius);
+
+/**
+ * Height of the curved surface below the source's tangent plane at horizontal distance d.
+ */
+export const getSurfaceZ = (horizon: HorizonModel, d: number): number =>
+  -horizon.sourceHeight - (d * d) / (2 * horizon.effectiveRadius);
+
+/**
+ * HORIZON CLIPPING
+ * True when the straight ray from the source to (x, y, z) passes through the curved
+ * surface (a sphere centred c = R' + H below the source). With f(t) = |tP - C|^2 - R'^2,
+ * written without the large cancelling terms: f(t) = t^2 |P|^2 + 2 t z c + H (2R' + H).
+ */
+export const isBelowHorizon = (horizon: HorizonModel, x: number, y: number, z: number): boolean => {
+  const H = horizon.sourceHeight;
+  const R = horizon.effectiveRadius;
+  const c = R + H;
+  const p2 = x * x + y * y + z * z;
+  const f0 = H * (2 * R + H);
+  if (p2 < 1e-9) return f0 < 0;
+  const t = Math.min(1, Math.max(0, (-z * c) / p2));
+  return t * t * p2 + 2 * t * z * c + f0 < 0;
+};
+
+// Photometric distance (m) at which the emitter offsets of a fixture no longer matter
+export const FAR_FIELD_DISTANCE = 1000;
+
+/**
+ * LUMINOUS RANGE
+ * Longest distance along any emitter axis at which one beacon still reaches the threshold
+ * (illuminance and extinction only; terrain and curvature ignored).
+ */
+export const getLuminousRange = (source: SourceModel, threshold: number, maxDist: number = 50000): number => {
+  // Measured in the beacon's own frame
+  const clear: SourceModel = { ...source, extinction: 0, position: { x: 0, y: 0, z: 0 }, heading: 0 };
+  let best = 0;
+  for (const { h, v } of source.leds) {
+    // Intensity towards this axis: E d^2 without extinction, far enough for the array to act as a point
+    const d = FAR_FIELD_DISTANCE;
+    const intensity = evaluateSource(clear, d * Math.sin(h) * Math.cos(v), d * Math.cos(h) * Math.cos(v), d * Math.sin(v)) * d * d;
+    best = Math.max(best, solveVisualRange(intensity, threshold, source.extinction, maxDist));
+  }
+  return best;
+};
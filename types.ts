@@ -4,6 +4,27 @@ export interface BeamPoint {
   intensity: number;
 }
 
+/**
+ * One C-plane of a photometric distribution (CIE convention).
+ * c is the azimuth around the optical axis in degrees: C0 = horizontal (right),
+ * C90 = vertical (up). points are relative intensity vs. gamma (off-axis angle).
+ */
+export interface BeamPlane {
+  c: number;
+  points: BeamPoint[];
+}
+
+/**
+ * Beam distribution as a set of C-planes, sorted by c.
+ * - 1 plane: rotationally symmetric
+ * - planes within C0-C90: quadrant symmetric (e.g. H/V oval optics)
+ * - planes within C0-C180: bilateral symmetric about the C0-C180 plane
+ * - otherwise: full 360° table
+ */
+export interface BeamPattern {
+  planes: BeamPlane[];
+}
+
 export interface GridLimits {
   minX: number;
   maxX: number;
@@ -11,6 +32,181 @@ export interface GridLimits {
   maxY: number;
 }
 
+/**
+ * Particle regime of the atmosphere. Aerosols (haze, fog) scatter short
+ * wavelengths more strongly; rain drops and snowflakes are large enough
+ * that extinction is practically wavelength-independent.
+ */
+export type Precipitation = 'none' | 'rain' | 'snow';
+
+export interface Atmosphere {
+  visibilityKm: number;        // Meteorological optical range (MOR)
+  precipitation: Precipitation;
+}
+
+export interface WeatherPreset extends Atmosphere {
+  name: string;
+  icon: string;
+}
+
+/**
+ * Geographic placement of the beacon. The local simulation frame is
+ * X = right, Y = forward (along heading), Z = up, origin at the source.
+ */
+export interface GeoReference {
+  enabled: boolean;
+  latitude: number;          // WGS84 degrees
+  longitude: number;         // WGS84 degrees
+  heightAboveGround: number; // m
+  heading: number;           // True bearing of the forward (+Y) axis, degrees clockwise from north
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+  height: number; // m, relative to the ground at the beacon
+}
+
+/**
+ * Placement of terrain data that is not geographic (projected DEMs and footprints):
+ * the beacon's own easting/northing in that data's coordinate system.
+ */
+export interface TerrainSettings {
+  enabled: boolean;
+  originEasting: number;
+  originNorthing: number;
+}
+
+/**
+ * Earth curvature with atmospheric refraction, modelled as a straight ray over an
+ * earth of effective radius R / (1 - k). The beacon height is GeoReference.heightAboveGround.
+ */
+export interface HorizonSettings {
+  enabled: boolean;
+  observerHeight: number; // Eye height of the observer above the surface (m)
+  refractionK: number;    // Refraction coefficient k (0 = geometric horizon)
+}
+
+export type VisionMode = 'photopic' | 'mesopic' | 'scotopic';
+
+/**
+ * Observer's adaptation. Mesopic vision (CIE 191:2010) weighs the cone and rod responses by the
+ * adaptation coefficient m (1 = photopic, 0 = scotopic), found from the background luminance and
+ * the S/P ratio of the light it comes from.
+ */
+export interface VisionSettings {
+  mode: VisionMode;
+  adaptationLuminance: number; // Photopic luminance of the background the eye is adapted to (cd/m²)
+  spRatio: number;             // Scotopic/photopic ratio of the background light
+}
+
+/**
+ * IALA rhythm classes: flashing, long-flashing, quick (60/min), very quick (120/min),
+ * isophase, occulting and Morse code.
+ */
+export type FlashType = 'Fl' | 'LFl' | 'Q' | 'VQ' | 'Iso' | 'Oc' | 'Mo';
+
+export type PulseShape = 'rectangular' | 'trapezoidal' | 'half-sine';
+
+export type EffectiveIntensityMethod = 'blondel-rey' | 'schmidt-clausen' | 'iala';
+
+/**
+ * Light character of a flashing beacon and how its effective intensity is rated.
+ * flashDuration is the length of one flash (Morse dot), or of one eclipse for Oc.
+ */
+export interface FlashCharacter {
+  type: FlashType;
+  group: number;          // Flashes (or occultations) per group
+  letter: string;         // Morse character for Mo
+  period: number;         // s
+  flashDuration: number;  // s
+  pulseShape: PulseShape;
+  riseTime: number;       // s, rise and fall of a trapezoidal pulse
+  method: EffectiveIntensityMethod;
+}
+
+/**
+ * Rotating beacon: the whole (mounted) array turns clockwise, seen from the tip of the axis.
+ * 'vertical' turns about the scene's Z axis, 'fixture' about the fixture's own up axis.
+ */
+export type RotationAxis = 'vertical' | 'fixture';
+
+export interface RotationSettings {
+  enabled: boolean; // Takes precedence over isFlashing
+  rpm: number;
+  axis: RotationAxis;
+  method: EffectiveIntensityMethod; // Rates the swept pulse
+}
+
+/**
+ * What a distant observer sees of a rotating beacon, by elevation above the plane of
+ * rotation: entry k is at -90° + k * step. Intensities in the source's units.
+ */
+export interface SweepTable {
+  axis: Point3D;       // Unit rotation axis, beacon frame
+  period: number;      // s per revolution
+  step: number;        // rad between entries
+  peak: number[];      // Highest intensity during a revolution
+  effective: number[]; // Effective intensity of the swept pulse
+  pulse: number[];     // s above half the peak
+}
+
+export type ContourLineStyle = 'solid' | 'dashed' | 'dotted';
+
+/**
+ * A named isoline. logValue is log10 of the illuminance (lx), or of the
+ * irradiance (W/m²) for infrared sources, at which the boundary is traced.
+ */
+export interface ContourLevel {
+  id: string;
+  name: string;
+  logValue: number;
+  color: string;
+  lineStyle: ContourLineStyle;
+}
+
+/**
+ * Optics of one fixture: the per-beacon subset of SimulationParams.
+ */
+export type BeaconOptics = Pick<SimulationParams,
+  'ledCount' | 'spreadAngle' | 'rowCount' | 'verticalSpreadAngle' | 'peakCandela' | 'wavelength' |
+  'isFlashing' | 'flash' | 'rotation' | 'beamPattern' | 'array' | 'mounting'>;
+
+/**
+ * A further beacon of the scene, placed in the primary beacon's frame (the primary sits at the origin).
+ */
+export interface SceneBeacon {
+  id: string;
+  name: string;
+  enabled: boolean;
+  x: number;        // m
+  y: number;        // m
+  z: number;        // m, relative to the primary source
+  heading: number;  // Degrees clockwise from the primary's +Y axis
+  optics: BeaconOptics;
+}
+
+export interface SceneSettings {
+  beacons: SceneBeacon[];
+  coverageArea: Point[]; // Polygon (m) checked by the coverage-gap report; empty = none
+}
+
+/**
+ * User-defined section through the field: a horizontal plane at a height, a vertical plane
+ * through the beacon along a bearing, or any plane by origin and normal ('custom').
+ */
+export type SliceMode = 'horizontal' | 'vertical' | 'custom';
+
+export interface SliceSettings {
+  enabled: boolean;
+  mode: SliceMode;
+  height: number;  // m, horizontal preset
+  bearing: number; // Degrees clockwise from +Y, vertical preset
+  origin: Point3D; // Custom: centre of the cut (m)
+  normal: Point3D; // Custom: plane normal, any length
+  extent: number;  // Custom: half-size of the square sampled around the origin (m)
+}
+
 export interface SimulationParams {
   ledCount: number;      // Horizontal columns
   spreadAngle: number;   // Horizontal spread
@@ -20,8 +216,99 @@ export interface SimulationParams {
   wavelength: number;
   logThreshold: number;
   isFlashing: boolean;
-  beamPattern: BeamPoint[];
+  flash: FlashCharacter;
+  rotation: RotationSettings;
+  beamPattern: BeamPattern;
   gridLimits: GridLimits;
+  atmosphere: Atmosphere;
+  contourLevels: ContourLevel[]; // Drawn in addition to the detection threshold
+  slice: SliceSettings;
+  array: ArraySettings;
+  mounting: MountingSettings;
+  scene: SceneSettings;
+  geo: GeoReference;
+  terrain: TerrainSettings;
+  horizon: HorizonSettings;
+  vision: VisionSettings;
+  receptors: Receptor[];   // Obtrusive-light check points
+}
+
+export type ReceptorKind = 'window' | 'ground' | 'driver';
+export type EnvironmentalZone = 'E1' | 'E2' | 'E3' | 'E4';
+
+/**
+ * Neighbouring receptor checked for obtrusive light from the primary beacon.
+ * Windows take the vertical illuminance on their face (and the intensity towards them), ground
+ * points the horizontal illuminance, drivers the threshold increment (disability glare, CIE 150).
+ * Windows and ground with a size are planes sampled on a lattice and rated by their worst point.
+ */
+export interface Receptor {
+  id: string;
+  name: string;
+  kind: ReceptorKind;
+  x: number;               // Centre, simulation frame (m)
+  y: number;
+  z: number;
+  facing: number;          // Window: bearing its face looks out to; driver: bearing of the line of sight (deg)
+  width: number;           // Window: across its face; ground: along X (m). 0 = a point
+  height: number;          // Window: up its face; ground: along Y (m)
+  limit: number;           // lx (window, ground) or % threshold increment (driver)
+  intensityLimit: number | null;  // Window: cd towards it; null = not checked
+  adaptation: number;      // Driver: road luminance the eye is adapted to (cd/m²)
+}
+
+/**
+ * Receptor as marked on the plots and in 3D, at its worst point.
+ */
+export interface ReceptorMarker {
+  at: Point3D;
+  name: string;
+  pass: boolean;
+}
+
+export type TargetRegionKind = 'include' | 'exclude';
+export type TargetRegionShape = 'sector' | 'polygon';
+
+/**
+ * Optimizer target region: a plan shape (simulation frame, m) between two heights.
+ * Inclusion regions count towards coverage; exclusion regions (windows, runways) must stay below threshold.
+ */
+export interface TargetRegion {
+  id: string;
+  name: string;
+  kind: TargetRegionKind;
+  shape: TargetRegionShape;
+  bearingFrom: number;   // Sector: bearings clockwise from forward (+Y), or from true north once geo-referenced, swept from -> to (deg)
+  bearingTo: number;
+  rangeMin: number;      // Sector: distance from the source (m)
+  rangeMax: number;
+  points: Point[];       // Polygon: plan vertices (m)
+  zMin: number;          // Height band (m)
+  zMax: number;
+}
+
+/**
+ * Optimizer targets: the box starting at the source along the mounted optical axis
+ * (its range is also the range the design must reach), plus free regions.
+ */
+export interface OptTargets {
+  width: number;
+  height: number;
+  range: number;
+  box: boolean;            // The box counts towards coverage and sets the range constraint
+  regions: TargetRegion[];
+}
+
+export type AppTab = '2D' | '3D' | 'HELP';
+
+/**
+ * Display options persisted alongside a project.
+ */
+export interface ViewOptions {
+  autoScale: boolean;
+  showCones: boolean;
+  showTarget: boolean;
+  activeTab: AppTab;
 }
 
 export interface ColorPreset {
@@ -32,6 +319,8 @@ export interface ColorPreset {
 
 export interface GridData {
   data: Float32Array;
+  occluded?: Uint8Array;   // 1 where line of sight to the source is blocked
+  dominant?: Uint8Array;   // Scenes: index of the source contributing most (NO_SOURCE where unlit)
   width: number;
   height: number;
   minX: number;
@@ -50,3 +339,198 @@ export interface Point3D {
   y: number;
   z: number;
 }
+
+/**
+ * Isolines traced for one contour level.
+ * threshold is the effective value actually traced (after flash gain).
+ */
+export interface LevelContours<P = Point> {
+  level: ContourLevel;
+  threshold: number;
+  paths: P[][];
+}
+
+/**
+ * Field sampled on a regular 3D lattice (sim frame, m). data[(k * ny + j) * nx + i]
+ * is the value at min + (i, j, k) * (max - min) / (n - 1).
+ */
+export interface VolumeGrid {
+  data: Float32Array;
+  nx: number;
+  ny: number;
+  nz: number;
+  min: Point3D;
+  max: Point3D;
+}
+
+/**
+ * Indexed triangle mesh in the sim frame (m), with per-vertex normals.
+ * Triangles wind counter-clockwise seen from outside (the unlit side).
+ */
+export interface IsoMesh {
+  positions: Float32Array; // x, y, z per vertex
+  normals: Float32Array;   // Unit outward normal per vertex
+  indices: Uint32Array;    // Three per triangle
+}
+
+/**
+ * Iso-surface traced for one contour level.
+ */
+export interface LevelSurface {
+  level: ContourLevel;
+  threshold: number;
+  mesh: IsoMesh;
+}
+
+/**
+ * A single LED of the array: position relative to the fixture origin (m) and
+ * pointing direction (radians). h = Yaw around Z, v = Pitch around X, 0/0 points
+ * along +Y; roll turns the C-planes about the optical axis (C0 towards C90).
+ */
+export interface Emitter {
+  x: number;
+  y: number;
+  z: number;
+  h: number;
+  v: number;
+  roll: number;
+  intensity: number;               // Scale on the array's peak intensity
+  beamPattern: BeamPattern | null; // null = the array's beam pattern
+}
+
+/**
+ * Emitter layouts. 'fan' keeps every LED at the origin; the others place them
+ * physically (line, grid and ring at pitch spacing, dome and hemisphere on a sphere
+ * of radius). 'custom' uses the hand-edited emitter table.
+ */
+export type ArrayLayout = 'fan' | 'line' | 'grid' | 'ring' | 'dome' | 'hemisphere' | 'custom';
+
+export interface ArraySettings {
+  layout: ArrayLayout;
+  pitch: number;       // m between neighbouring emitters
+  radius: number;      // m, ring and sphere radius
+  emitters: Emitter[]; // Custom layout
+}
+
+/**
+ * Rigid-body mounting of the whole fixture (degrees), applied after the layout.
+ * Yaw turns it clockwise seen from above, pitch tilts the optical axis up,
+ * roll turns it about that axis (right side towards up).
+ */
+export interface MountingSettings {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+/**
+ * Raster elevation model as loaded from file.
+ * Row-major, northernmost row first; NaN marks missing data.
+ * Geographic models are in degrees, projected ones in metres.
+ */
+export interface ElevationModel {
+  name: string;
+  cols: number;
+  rows: number;
+  values: Float32Array;
+  west: number;   // Outer edge of the first column
+  north: number;  // Outer edge of the first row
+  cellX: number;
+  cellY: number;
+  crs: 'geographic' | 'projected';
+}
+
+/**
+ * Elevation resampled onto a regular East/North grid in metres, centred on the beacon.
+ * Row-major, southernmost row first (n increases with the row index).
+ */
+export interface TerrainGrid {
+  heights: Float32Array;
+  cols: number;
+  rows: number;
+  minE: number;
+  minN: number;
+  cellE: number;
+  cellN: number;
+}
+
+/**
+ * Building outline as loaded from GeoJSON: [lon, lat] or projected [easting, northing] vertices.
+ */
+export interface BuildingFootprint {
+  ring: [number, number][];
+  height: number; // m above local ground
+  crs: 'geographic' | 'projected';
+}
+
+/**
+ * Extruded building footprint in the simulation frame. base/top are absolute elevations (m).
+ */
+export interface BuildingPrism {
+  footprint: Point[];
+  base: number;
+  top: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/**
+ * Line-of-sight blockers. The simulation frame is rotated from ENU by heading,
+ * and its z = 0 plane sits at emitterElevation.
+ */
+export interface OccluderModel {
+  heading: number;
+  emitterElevation: number;
+  terrain: TerrainGrid | null;
+  buildings: BuildingPrism[];
+}
+
+/**
+ * Curved surface below the source: a sphere of effectiveRadius whose top lies sourceHeight below z = 0.
+ */
+export interface HorizonModel {
+  sourceHeight: number;
+  effectiveRadius: number;
+}
+
+/**
+ * One beacon as seen by the physics engine. Its LEDs are in its own frame, which sits
+ * at position and is turned clockwise by heading (radians) about Z.
+ */
+export interface SourceModel {
+  leds: Emitter[];
+  peakIntensity: number;   // cd (visible) or W/sr (infrared)
+  spectralFactor: number;
+  beamPattern: BeamPattern;
+  extinction: number;      // Atmospheric extinction coefficient (m^-1)
+  position: Point3D;
+  heading: number;
+  sweep: SweepTable | null; // Rotating: rated by the swept pulse, far field
+}
+
+/**
+ * Everything the physics engine needs to evaluate the light field at a point.
+ * Must stay structured-clone friendly: it is posted to the simulation workers.
+ * sources[0] is the primary beacon at the origin.
+ */
+export interface FieldModel {
+  sources: SourceModel[];
+  occluders: OccluderModel | null;
+  horizon: HorizonModel | null;
+}
+
+/**
+ * A sampling plane in world space.
+ * World = origin + a * u + b * v, with a in [minX, maxX] and b in [minY, maxY].
+ * Grid X follows 'a' and grid Y follows 'b', matching GridData.
+ */
+export interface SamplePlane {
+  origin: Point3D;
+  u: Point3D;
+  v: Point3D;
+  limits: GridLimits;
+  // With a horizon model: sample this high above the curved surface instead of on the plane (observer surface)
+  surfaceHeight?: number;
+}
@@ -0,0 +1,186 @@
+import { GeoReference, GridLimits, Point } from '../types';
+import { openSqlite, SqliteFormatError, SqliteTable, RowRef } from './sqliteReader';
+import { localToGeodetic, geodeticToLocal, lonToTileX, latToTileY, tileXToLon, tileYToLat, tileResolution } from './geo';
+
+/**
+ * Offline raster tiles addressed in the XYZ (slippy map) scheme.
+ */
+export interface TileSource {
+  name: string;
+  zooms: number[]; // Available zoom levels, ascending
+  getTile: (z: number, x: number, y: number) => Promise<Blob | null>;
+}
+
+export interface TilePlacement {
+  key: string;
+  z: number;
+  x: number;
+  y: number;
+  // Tile corners in the simulation frame (m): north-west, north-east, south-west
+  nw: Point;
+  ne: Point;
+  sw: Point;
+}
+
+const MAX_TILES = 64;
+
+const tileKey = (z: number, x: number, y: number) => `${z}/${x}/${y}`;
+
+const MIME_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+/**
+ * MBTILES (SQLite)
+ * Supports the plain `tiles` table and the deduplicated `map` + `images` layout.
+ * Rows are indexed once on load; tile blobs are read on demand.
+ */
+export const openMBTiles = async (file: File): Promise<TileSource> => {
+  const db = await openSqlite(file);
+  const { tables } = db;
+
+  const metadata: Record<string, string> = {};
+  const metaTable = tables.get('metadata');
+  if (metaTable?.type === 'table') {
+    await db.scan(metaTable.rootPage, async ref => {
+      const [name, value] = await db.readColumns(metaTable, ref, ['name', 'value']);
+      metadata[String(name)] = String(value);
+    });
+  }
+  if (metadata.format && !MIME_TYPES[metadata.format]) {
+    throw new SqliteFormatError(`unsupported tile format '${metadata.format}' (vector tiles cannot be drawn)`);
+  }
+  const mime = MIME_TYPES[metadata.format ?? 'png'];
+
+  // z/x/y (XYZ row) -> location of the tile_data value
+  const index = new Map<string, { table: SqliteTable; ref: RowRef }>();
+  const zooms = new Set<number>();
+  // MBTiles rows follow TMS: row 0 is the southern edge
+  const addTile = (z: number, x: number, row: number) => {
+    zooms.add(z);
+    return tileKey(z, x, Math.pow(2, z) - 1 - row);
+  };
+
+  const tilesTable = tables.get('tiles');
+  const mapTable = tables.get('map');
+  const imagesTable = tables.get('images');
+  if (tilesTable?.type === 'table') {
+    await db.scan(tilesTable.rootPage, async ref => {
+      const [z, x, row] = await db.readColumns(tilesTable, ref, ['zoom_level', 'tile_column', 'tile_row']);
+      index.set(addTile(Number(z), Number(x), Number(row)), { table: tilesTable, ref });
+    });
+  } else if (mapTable?.type === 'table' && imagesTable?.type === 'table') {
+    const images = new Map<string, RowRef>();
+    await db.scan(imagesTable.rootPage, async ref => {
+      const [id] = await db.readColumns(imagesTable, ref, ['tile_id']);
+      images.set(String(id), ref);
+    });
+    await db.scan(mapTable.rootPage, async ref => {
+      const [z, x, row, id] = await db.readColumns(mapTable, ref, ['zoom_level', 'tile_column', 'tile_row', 'tile_id']);
+      const image = images.get(String(id));
+      if (image) index.set(addTile(Number(z), Number(x), Number(row)), { table: imagesTable, ref: image });
+    });
+  } else {
+    throw new SqliteFormatError("no 'tiles' table (or 'map' + 'images' tables) found; is this an MBTiles file?");
+  }
+  if (index.size === 0) throw new SqliteFormatError('the tileset is empty');
+
+  return {
+    name: metadata.name || file.name,
+    zooms: [...zooms].sort((a, b) => a - b),
+    getTile: async (z, x, y) => {
+      const entry = index.get(tileKey(z, x, y));
+      if (!entry) return null;
+      const [data] = await db.readColumns(entry.table, entry.ref, ['tile_data']);
+      return data instanceof Uint8Array ? new Blob([data], { type: mime }) : null;
+    }
+  };
+};
+
+/**
+ * Local XYZ folder (<root>/{z}/{x}/{y}.png) picked through a directory input.
+ */
+export const openXYZFolder = (files: File[]): TileSource => {
+  const index = new Map<string, File>();
+  const zooms = new Set<number>();
+  let root = '';
+  for (const file of files) {
+    const path = (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+    const m = path.match(/(?:^|\/)(\d+)\/(\d+)\/(\d+)\.(png|jpe?g|webp)$/i);
+    if (!m) continue;
+    const z = Number(m[1]);
+    zooms.add(z);
+    index.set(tileKey(z, Number(m[2]), Number(m[3])), file);
+    root = root || path.split('/')[0];
+  }
+  if (index.size === 0) throw new Error('no {z}/{x}/{y}.png|jpg|webp tiles found in the selected folder');
+
+  return {
+    name: root || 'XYZ tiles',
+    zooms: [...zooms].sort((a, b) => a - b),
+    getTile: async (z, x, y) => index.get(tileKey(z, x, y)) ?? null
+  };
+};
+
+/**
+ * Picks the available zoom whose ground resolution best matches the screen, then
+ * lists the tiles covering the view with their corners in the simulation frame.
+ */
+export const getTilePlacements = (source: TileSource, geo: GeoReference, limits: GridLimits, screenWidthPx: number): TilePlacement[] => {
+  const corners = [
+    [limits.minX, limits.minY], [limits.maxX, limits.minY],
+    [limits.minX, limits.maxY], [limits.maxX, limits.maxY]
+  ].map(([x, y]) => localToGeodetic(geo, x, y));
+  const lats = corners.map(c => c.latitude);
+  const lons = corners.map(c => c.longitude);
+
+  const metresPerPixel = (limits.maxX - limits.minX) / Math.max(1, screenWidthPx);
+  const ideal = Math.round(Math.log2(tileResolution(geo.latitude, 0) / metresPerPixel));
+  const candidates = source.zooms.filter(z => z <= ideal);
+  let z = candidates.length ? candidates[candidates.length - 1] : source.zooms[0];
+
+  const range = (zoom: number) => ({
+    x0: Math.floor(lonToTileX(Math.min(...lons), zoom)),
+    x1: Math.floor(lonToTileX(Math.max(...lons), zoom)),
+    y0: Math.floor(latToTileY(Math.max(...lats), zoom)),
+    y1: Math.floor(latToTileY(Math.min(...lats), zoom))
+  });
+
+  // Step down until the view is covered by a sensible number of tiles
+  let r = range(z);
+  while ((r.x1 - r.x0 + 1) * (r.y1 - r.y0 + 1) > MAX_TILES) {
+    const lower = source.zooms.filter(zz => zz < z);
+    if (!lower.length) return [];
+    z = lower[lower.length - 1];
+    r = range(z);
+  }
+
+  const max = Math.pow(2, z) - 1;
+  const placements: TilePlacement[] = [];
+  for (let x = Math.max(0, r.x0); x <= Math.min(max, r.x1); x++) {
+    for (let y = Math.max(0, r.y0); y <= Math.min(max, r.y1); y++) {
+      const at = (tx: number, ty: number) => geodeticToLocal(geo, tileYToLat(ty, z), tileXToLon(tx, z));
+      placements.push({ key: tileKey(z, x, y), z, x, y, nw: at(x, y), ne: at(x + 1, y), sw: at(x, y + 1) });
+    }
+  }
+  return placements;
+};
+
+const imageCache = new WeakMap<TileSource, Map<string, Promise<ImageBitmap | null>>>();
+
+/**
+ * Decoded tile image, cached per source.
+ */
+export const loadTileImage = (source: TileSource, tile: TilePlacement): Promise<ImageBitmap | null> => {
+  let cache = imageCache.get(source);
+  if (!cache) {
+    cache = new Map();
+    imageCache.set(source, cache);
+  }
+  let pending = cache.get(tile.key);
+  if (!pending) {
+    pending = source.getTile(tile.z, tile.x, tile.y)
+      .then(blob => blob ? createImageBitmap(blob) : null)
+      .catch(() => null);
+    cache.set(tile.key, pending);
+  }
+  return pending;
+};
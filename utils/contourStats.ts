@@ -0,0 +1,58 @@
+import { Point } from '../types';
+
+export interface ContourStats {
+  area: number;     // Enclosed area (m²)
+  maxRange: number; // Farthest boundary point from the source (m)
+}
+
+export const formatArea = (m2: number) => m2 >= 1e5 ? `${(m2 / 1e6).toFixed(2)} km²` : `${Math.round(m2).toLocaleString()} m²`;
+
+/**
+ * SHOELACE AREA
+ * Paths that end on the grid edge are closed implicitly by the formula,
+ * which is the area inside the visible part of the boundary.
+ */
+export const polygonArea = (path: Point[]): number => {
+  let sum = 0;
+  for (let i = 0; i < path.length; i++) {
+    const a = path[i];
+    const b = path[(i + 1) % path.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+};
+
+/**
+ * Area and reach of one contour level. Separate loops (e.g. side lobes) add up.
+ */
+export const getContourStats = (paths: Point[][]): ContourStats => {
+  let area = 0;
+  let maxRange = 0;
+  for (const path of paths) {
+    if (path.length < 3) continue;
+    area += polygonArea(path);
+    for (const p of path) {
+      const r = Math.hypot(p.x, p.y);
+      if (r > maxRange) maxRange = r;
+    }
+  }
+  return { area, maxRange };
+};
+
+/**
+ * Point used to anchor a level label: the boundary point farthest from the source.
+ */
+export const getLabelAnchor = (paths: Point[][]): Point | null => {
+  let best: Point | null = null;
+  let bestR = -1;
+  for (const path of paths) {
+    for (const p of path) {
+      const r = Math.hypot(p.x, p.y);
+      if (r > bestR) {
+        bestR = r;
+        best = p;
+      }
+    }
+  }
+  return best;
+};
@@ -0,0 +1,107 @@
+import { GridData, Point } from '../types';
+import { polygonArea } from './contourStats';
+import { pointInPolygon } from './occlusion';
+
+/**
+ * A connected patch of the coverage area where no beacon reaches the threshold.
+ */
+export interface CoverageGap {
+  area: number;     // m²
+  centroid: Point;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  occluded: boolean; // Mostly shadowed (terrain, buildings, horizon) rather than too dim
+}
+
+export interface CoverageReport {
+  area: number;          // Polygon area (m²)
+  coveredArea: number;   // Inside the polygon and above threshold
+  unsampledArea: number; // Inside the polygon but outside the plan view
+  gaps: CoverageGap[];   // Largest first
+}
+
+/**
+ * COVERAGE GAP REPORT
+ * Marks every plan-view cell inside the polygon that stays below the threshold and groups
+ * them into 4-connected gaps. Each sample stands for one cell of the lattice spacing.
+ */
+export const analyzeCoverage = (grid: GridData, polygon: Point[], threshold: number): CoverageReport => {
+  const { data, occluded, width, height, minX, maxX, minY, maxY } = grid;
+  const dx = (maxX - minX) / (width - 1);
+  const dy = (maxY - minY) / (height - 1);
+  const cellArea = dx * dy;
+
+  // 0 = outside the polygon, 1 = covered, 2 = gap not yet assigned
+  const state = new Uint8Array(width * height);
+  let insideCells = 0;
+  let coveredCells = 0;
+  for (let gy = 0; gy < height; gy++) {
+    const y = minY + gy * dy;
+    for (let gx = 0; gx < width; gx++) {
+      const i = gy * width + gx;
+      if (!pointInPolygon(polygon, minX + gx * dx, y)) continue;
+      insideCells++;
+      if (data[i] >= threshold) {
+        state[i] = 1;
+        coveredCells++;
+      } else {
+        state[i] = 2;
+      }
+    }
+  }
+
+  const gaps: CoverageGap[] = [];
+  const stack: number[] = [];
+  for (let start = 0; start < state.length; start++) {
+    if (state[start] !== 2) continue;
+    state[start] = 3;
+    stack.push(start);
+    let cells = 0;
+    let shadowed = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let gMinX = Infinity, gMaxX = -Infinity, gMinY = Infinity, gMaxY = -Infinity;
+
+    while (stack.length > 0) {
+      const i = stack.pop() as number;
+      const gx = i % width;
+      const gy = (i - gx) / width;
+      const x = minX + gx * dx;
+      const y = minY + gy * dy;
+      cells++;
+      if (occluded?.[i]) shadowed++;
+      sumX += x;
+      sumY += y;
+      gMinX = Math.min(gMinX, x);
+      gMaxX = Math.max(gMaxX, x);
+      gMinY = Math.min(gMinY, y);
+      gMaxY = Math.max(gMaxY, y);
+
+      const neighbours = [gx > 0 ? i - 1 : -1, gx < width - 1 ? i + 1 : -1, gy > 0 ? i - width : -1, gy < height - 1 ? i + width : -1];
+      for (const n of neighbours) {
+        if (n >= 0 && state[n] === 2) {
+          state[n] = 3;
+          stack.push(n);
+        }
+      }
+    }
+
+    gaps.push({
+      area: cells * cellArea,
+      centroid: { x: sumX / cells, y: sumY / cells },
+      minX: gMinX, maxX: gMaxX, minY: gMinY, maxY: gMaxY,
+      occluded: shadowed * 2 > cells
+    });
+  }
+
+  gaps.sort((a, b) => b.area - a.area);
+  const area = polygonArea(polygon);
+  return {
+    area,
+    coveredArea: coveredCells * cellArea,
+    unsampledArea: Math.max(0, area - insideCells * cellArea),
+    gaps
+  };
+};
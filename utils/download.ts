@@ -0,0 +1,17 @@
+/**
+ * Triggers a browser download of in-memory content.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (content: string, filename: string, mimeType: string = 'text/plain') => {
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+};
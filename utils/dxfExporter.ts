@@ -1,52 +1,308 @@
+import { LevelContours, LevelSurface, ContourLineStyle, Point, Point3D, SamplePlane } from '../types';
+import { downloadText } from './download';
+import { planeToWorld } from './simulationJobs';
 
-import { Point } from '../types';
+// AutoCAD Color Index for the basic palette, used to approximate each level's colour
+const ACI_COLORS: [number, [number, number, number]][] = [
+  [1, [255, 0, 0]], [2, [255, 255, 0]], [3, [0, 255, 0]], [4, [0, 255, 255]],
+  [5, [0, 0, 255]], [6, [255, 0, 255]], [7, [255, 255, 255]], [30, [255, 127, 0]]
+];
+
+const hexToAci = (hex: string): number => {
+  const v = parseInt(hex.replace('#', ''), 16);
+  const rgb = [(v >> 16) & 255, (v >> 8) & 255, v & 255];
+  let best = 7;
+  let bestDist = Infinity;
+  for (const [aci, ref] of ACI_COLORS) {
+    const d = (rgb[0] - ref[0]) ** 2 + (rgb[1] - ref[1]) ** 2 + (rgb[2] - ref[2]) ** 2;
+    if (d < bestDist) {
+      bestDist = d;
+      best = aci;
+    }
+  }
+  return best;
+};
+
+const LINETYPES: Record<ContourLineStyle, string> = { solid: 'CONTINUOUS', dashed: 'DASHED', dotted: 'DOT' };
+
+// Layer names may not contain <>/\":;?*|=` in AutoCAD
+const toLayerName = (name: string) => `Visibility_${name.trim().replace(/[<>/\\":;?*|=`\s]+/g, '_') || 'Level'}`;
+
+/**
+ * Linetype table. Pattern lengths scale with the drawing so dashes stay visible
+ * on contours spanning kilometres.
+ */
+const linetypeTable = (unit: number): string => {
+  const dash = unit.toFixed(4);
+  const gap = (-unit * 0.5).toFixed(4);
+  const dot = (unit * 0.05).toFixed(4);
+  let table = `0\nTABLE\n2\nLTYPE\n70\n3\n`;
+  table += `0\nLTYPE\n2\nCONTINUOUS\n70\n0\n3\nSolid line\n72\n65\n73\n0\n40\n0.0\n`;
+  table += `0\nLTYPE\n2\nDASHED\n70\n0\n3\nDashed __ __ __\n72\n65\n73\n2\n40\n${(unit * 1.5).toFixed(4)}\n49\n${dash}\n74\n0\n49\n${gap}\n74\n0\n`;
+  table += `0\nLTYPE\n2\nDOT\n70\n0\n3\nDot . . . .\n72\n65\n73\n2\n40\n${(unit * 0.55).toFixed(4)}\n49\n${dot}\n74\n0\n49\n${gap}\n74\n0\n`;
+  return table + `0\nENDTAB\n`;
+};
+
+export type DxfUnits = 'm' | 'mm' | 'ft';
+
+// Drawing units per metre, the $INSUNITS code and the suffix for dimension text (also used by the mesh exports)
+export const UNITS: Record<DxfUnits, { scale: number; insunits: number; metric: boolean; suffix: string }> = {
+  m: { scale: 1, insunits: 6, metric: true, suffix: 'm' },
+  mm: { scale: 1000, insunits: 4, metric: true, suffix: 'mm' },
+  ft: { scale: 1 / 0.3048, insunits: 2, metric: false, suffix: 'ft' }
+};
+
+/**
+ * One sampled plane to draw. Contours are in plane coordinates (a, b); a 'top' view
+ * draws a across and b up the sheet, a 'side' view draws b across (distance) and a up (height).
+ */
+export interface DxfView {
+  title: string;
+  levels: LevelContours[];
+  plane: SamplePlane;
+  layout: 'top' | 'side';
+  dimensions: { x: string; y: string }; // Labels of the threshold contour's extent across and up the sheet
+}
+
+export interface DxfSegment {
+  from: Point3D;
+  to: Point3D;
+}
 
 /**
- * Generates a clean DXF string using LWPOLYLINE for continuous paths.
- * LWPOLYLINE (Lightweight Polyline) is standard for AC1015+ and 
- * provides a single selectable object in CAD.
+ * Everything that can go into the drawing, in the sim frame (m).
  */
-export const generateDXF = (paths: Point[][]): string => {
-  // Use AC1015 (AutoCAD 2000) for LWPOLYLINE support
-  // $INSUNITS: 4 = Millimeters. 
-  // This ensures that coordinates (e.g. 1000) are treated as 1000mm.
-  let dxf = `0\nSECTION\n2\nHEADER\n9\n$ACADVER\n1\nAC1015\n9\n$INSUNITS\n70\n4\n0\nENDSEC\n`;
-  
-  dxf += `0\nSECTION\n2\nTABLES\n0\nTABLE\n2\nLAYER\n70\n1\n0\nLAYER\n2\nVisibility_Boundary\n70\n0\n62\n3\n6\nCONTINUOUS\n0\nENDTAB\n0\nENDSEC\n`;
-  
-  dxf += `0\nSECTION\n2\nENTITIES\n`;
-
-  paths.forEach((path) => {
-    if (path.length < 2) return;
-
-    const isClosed = Math.abs(path[0].x - path[path.length - 1].x) < 1e-4 && 
-                     Math.abs(path[0].y - path[path.length - 1].y) < 1e-4;
-
-    dxf += `0\nLWPOLYLINE\n`;
-    dxf += `8\nVisibility_Boundary\n`; // Layer
-    dxf += `90\n${path.length}\n`;    // Number of vertices
-    dxf += `70\n${isClosed ? 1 : 0}\n`; // 1 = closed, 0 = open
-    dxf += `43\n0.0\n`;               // Constant width
-
-    path.forEach((p) => {
-      dxf += `10\n${p.x.toFixed(4)}\n`; // X coordinate
-      dxf += `20\n${p.y.toFixed(4)}\n`; // Y coordinate
+export interface DxfDrawing {
+  views: DxfView[];           // Laid out left to right in 2D; placed in space in 3D
+  beacons: Point3D[];
+  rays: DxfSegment[];         // LED axes, drawn out to the luminous range
+  targetBox?: DxfSegment[];   // Edges of the optimiser's target box
+  targetRegions?: DxfSegment[];  // Edges of its inclusion regions
+  exclusionZones?: DxfSegment[]; // and of its exclusion regions
+  surfaces?: LevelSurface[];  // 3D mode: iso-surfaces as 3DFACE entities
+  titleBlock: string[];       // Parameter lines, first line as the heading
+}
+
+export interface DxfOptions {
+  units: DxfUnits;
+  mode: '2d' | '3d';
+}
+
+// Fixed layers besides one per contour level
+const LAYER_BEACON = 'Beacon';
+const LAYER_RAYS = 'LED_Rays';
+const LAYER_TARGET = 'Target_Box';
+const LAYER_REGIONS = 'Target_Regions';
+const LAYER_EXCLUSION = 'Exclusion_Zones';
+const LAYER_DIMENSIONS = 'Dimensions';
+const LAYER_TITLE = 'Title_Block';
+const ANNOTATION_LAYERS: [string, number][] = [
+  [LAYER_BEACON, 2], [LAYER_RAYS, 30], [LAYER_TARGET, 2], [LAYER_REGIONS, 2], [LAYER_EXCLUSION, 1], [LAYER_DIMENSIONS, 7], [LAYER_TITLE, 7]
+];
+
+const f = (v: number) => v.toFixed(4);
+
+const isClosedPath = (path: Point[]) =>
+  Math.abs(path[0].x - path[path.length - 1].x) < 1e-4 && Math.abs(path[0].y - path[path.length - 1].y) < 1e-4;
+
+const lwPolyline = (layer: string, path: Point[], closed: boolean): string => {
+  let out = `0\nLWPOLYLINE\n8\n${layer}\n90\n${path.length}\n70\n${closed ? 1 : 0}\n43\n0.0\n`;
+  path.forEach(p => { out += `10\n${f(p.x)}\n20\n${f(p.y)}\n`; });
+  return out;
+};
+
+// Heavy POLYLINE flagged as 3D (70 = 8), one VERTEX per point (70 = 32)
+const polyline3D = (layer: string, path: Point3D[], closed: boolean): string => {
+  let out = `0\nPOLYLINE\n8\n${layer}\n66\n1\n10\n0.0\n20\n0.0\n30\n0.0\n70\n${closed ? 9 : 8}\n`;
+  path.forEach(p => { out += `0\nVERTEX\n8\n${layer}\n10\n${f(p.x)}\n20\n${f(p.y)}\n30\n${f(p.z)}\n70\n32\n`; });
+  return out + `0\nSEQEND\n8\n${layer}\n`;
+};
+
+const line = (layer: string, a: Point3D, b: Point3D): string =>
+  `0\nLINE\n8\n${layer}\n10\n${f(a.x)}\n20\n${f(a.y)}\n30\n${f(a.z)}\n11\n${f(b.x)}\n21\n${f(b.y)}\n31\n${f(b.z)}\n`;
+
+const face3D = (layer: string, a: Point3D, b: Point3D, c: Point3D): string =>
+  `0\n3DFACE\n8\n${layer}\n10\n${f(a.x)}\n20\n${f(a.y)}\n30\n${f(a.z)}\n11\n${f(b.x)}\n21\n${f(b.y)}\n31\n${f(b.z)}\n` +
+  `12\n${f(c.x)}\n22\n${f(c.y)}\n32\n${f(c.z)}\n13\n${f(c.x)}\n23\n${f(c.y)}\n33\n${f(c.z)}\n`;
+
+const circle = (layer: string, c: Point3D, r: number): string =>
+  `0\nCIRCLE\n8\n${layer}\n10\n${f(c.x)}\n20\n${f(c.y)}\n30\n${f(c.z)}\n40\n${f(r)}\n`;
+
+const point = (layer: string, p: Point3D): string =>
+  `0\nPOINT\n8\n${layer}\n10\n${f(p.x)}\n20\n${f(p.y)}\n30\n${f(p.z)}\n`;
+
+// align: 0 left, 1 centre (horizontal justification, aligned on the insertion point)
+const text = (layer: string, at: Point, height: number, value: string, align: 0 | 1 = 0, rotation = 0): string => {
+  let out = `0\nTEXT\n8\n${layer}\n10\n${f(at.x)}\n20\n${f(at.y)}\n30\n0.0\n40\n${f(height)}\n1\n${value.replace(/[\r\n]+/g, ' ')}\n`;
+  if (rotation) out += `50\n${rotation}\n`;
+  if (align) out += `72\n${align}\n11\n${f(at.x)}\n21\n${f(at.y)}\n31\n0.0\n`;
+  return out;
+};
+
+const scalePoint = (p: Point3D, k: number): Point3D => ({ x: p.x * k, y: p.y * k, z: p.z * k });
+
+interface Box { minX: number; maxX: number; minY: number; maxY: number }
+
+const boundsOf = (points: Point[]): Box | null => {
+  if (points.length === 0) return null;
+  const box = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity };
+  points.forEach(p => {
+    box.minX = Math.min(box.minX, p.x); box.maxX = Math.max(box.maxX, p.x);
+    box.minY = Math.min(box.minY, p.y); box.maxY = Math.max(box.maxY, p.y);
+  });
+  return box;
+};
+
+/**
+ * Unique layer names, in level order
+ */
+const levelLayers = (levels: LevelContours[]) => {
+  const used = new Set<string>();
+  return levels.map(l => {
+    let name = toLayerName(l.level.name);
+    for (let n = 2; used.has(name); n++) name = `${toLayerName(l.level.name)}_${n}`;
+    used.add(name);
+    return { id: l.level.id, name, color: hexToAci(l.level.color), linetype: LINETYPES[l.level.lineStyle] };
+  });
+};
+
+/**
+ * DXF EXPORT
+ * AC1015 (AutoCAD 2000) drawing in the chosen units, with $INSUNITS to match.
+ * Every contour level gets its own layer with the level's colour and linetype; the beacons,
+ * LED rays, target box, dimensions and title block sit on layers of their own.
+ *
+ * 2D: the views side by side as LWPOLYLINEs, the first at true coordinates (beacon at the origin),
+ * with the annotations projected into each and the threshold contour's extent dimensioned.
+ * 3D: the contours as 3D POLYLINEs on their sampling planes, the iso-surfaces as 3DFACEs and the
+ * annotations in space; the title block lies flat below the first view.
+ */
+export const generateDXF = (drawing: DxfDrawing, options: DxfOptions): string => {
+  const unit = UNITS[options.units];
+  const k = unit.scale;
+  const layers = levelLayers(drawing.views[0]?.levels ?? []);
+  const layerOf = (id: string) => layers.find(l => l.id === id)?.name ?? LAYER_DIMENSIONS;
+
+  // Sheet coordinates (drawing units) of each view: project world points onto the plane, then lay out
+  const project = (view: DxfView, p: Point3D): Point => {
+    const { origin, u, v } = view.plane;
+    const d = { x: p.x - origin.x, y: p.y - origin.y, z: p.z - origin.z };
+    const a = d.x * u.x + d.y * u.y + d.z * u.z;
+    const b = d.x * v.x + d.y * v.y + d.z * v.z;
+    return view.layout === 'top' ? { x: a * k, y: b * k } : { x: b * k, y: a * k };
+  };
+  const toSheet = (view: DxfView, p: Point): Point => view.layout === 'top' ? { x: p.x * k, y: p.y * k } : { x: p.y * k, y: p.x * k };
+  const viewBounds = drawing.views.map(view => {
+    const { minX, maxX, minY, maxY } = view.plane.limits;
+    return boundsOf([toSheet(view, { x: minX, y: minY }), toSheet(view, { x: maxX, y: maxY })]) as Box;
+  });
+  const size = Math.max(1e-3, ...viewBounds.map(b => Math.max(b.maxX - b.minX, b.maxY - b.minY)));
+  const gap = size * 0.15;
+  const textHeight = size / 60;
+
+  // Each view starts a gap to the right of the previous one
+  const offsets: number[] = [];
+  viewBounds.forEach((b, i) => {
+    offsets.push(i === 0 ? 0 : offsets[i - 1] + viewBounds[i - 1].maxX + gap - b.minX);
+  });
+  const place = (i: number, p: Point): Point => ({ x: p.x + offsets[i], y: p.y });
+
+  let entities = '';
+  let sheet: Box = { minX: 0, maxX: 0, minY: 0, maxY: 0 };
+
+  if (options.mode === '2d') {
+    drawing.views.forEach((view, i) => {
+      const b = viewBounds[i];
+      const at = (p: Point) => place(i, p);
+      entities += text(LAYER_TITLE, at({ x: (b.minX + b.maxX) / 2, y: b.maxY + textHeight * 2 }), textHeight * 1.5, view.title, 1);
+
+      view.levels.forEach(l => l.paths.forEach(path => {
+        if (path.length < 2) return;
+        entities += lwPolyline(layerOf(l.level.id), path.map(p => at(toSheet(view, p))), isClosedPath(path));
+      }));
+
+      const flat = (p: Point3D) => { const q = at(project(view, p)); return { x: q.x, y: q.y, z: 0 }; };
+      drawing.beacons.forEach(p => {
+        entities += point(LAYER_BEACON, flat(p)) + circle(LAYER_BEACON, flat(p), textHeight);
+      });
+      drawing.rays.forEach(r => { entities += line(LAYER_RAYS, flat(r.from), flat(r.to)); });
+      drawing.targetBox?.forEach(e => { entities += line(LAYER_TARGET, flat(e.from), flat(e.to)); });
+      drawing.targetRegions?.forEach(e => { entities += line(LAYER_REGIONS, flat(e.from), flat(e.to)); });
+      drawing.exclusionZones?.forEach(e => { entities += line(LAYER_EXCLUSION, flat(e.from), flat(e.to)); });
+
+      // Extent of the threshold contour, dimensioned below and to the right of it
+      const extent = boundsOf((view.levels[0]?.paths ?? []).flat().map(p => at(toSheet(view, p))));
+      if (extent) {
+        const tick = textHeight / 2;
+        const y = extent.minY - textHeight * 2;
+        const x = extent.maxX + textHeight * 2;
+        const width = extent.maxX - extent.minX;
+        const height = extent.maxY - extent.minY;
+        entities += line(LAYER_DIMENSIONS, { x: extent.minX, y, z: 0 }, { x: extent.maxX, y, z: 0 });
+        entities += line(LAYER_DIMENSIONS, { x: extent.minX, y: y - tick, z: 0 }, { x: extent.minX, y: y + tick, z: 0 });
+        entities += line(LAYER_DIMENSIONS, { x: extent.maxX, y: y - tick, z: 0 }, { x: extent.maxX, y: y + tick, z: 0 });
+        entities += text(LAYER_DIMENSIONS, { x: (extent.minX + extent.maxX) / 2, y: y - textHeight * 1.5 }, textHeight,
+          `${view.dimensions.x} ${width.toFixed(1)} ${unit.suffix}`, 1);
+        entities += line(LAYER_DIMENSIONS, { x, y: extent.minY, z: 0 }, { x, y: extent.maxY, z: 0 });
+        entities += line(LAYER_DIMENSIONS, { x: x - tick, y: extent.minY, z: 0 }, { x: x + tick, y: extent.minY, z: 0 });
+        entities += line(LAYER_DIMENSIONS, { x: x - tick, y: extent.maxY, z: 0 }, { x: x + tick, y: extent.maxY, z: 0 });
+        entities += text(LAYER_DIMENSIONS, { x: x + textHeight * 1.5, y: (extent.minY + extent.maxY) / 2 }, textHeight,
+          `${view.dimensions.y} ${height.toFixed(1)} ${unit.suffix}`, 1, 90);
+      }
+    });
+    const placed = viewBounds.map((b, i) => ({ minX: b.minX + offsets[i], maxX: b.maxX + offsets[i], minY: b.minY, maxY: b.maxY }));
+    sheet = boundsOf(placed.flatMap(b => [{ x: b.minX, y: b.minY }, { x: b.maxX, y: b.maxY }])) ?? sheet;
+  } else {
+    drawing.views.forEach(view => view.levels.forEach(l => l.paths.forEach(path => {
+      if (path.length < 2) return;
+      entities += polyline3D(layerOf(l.level.id), path.map(p => scalePoint(planeToWorld(view.plane, p.x, p.y), k)), isClosedPath(path));
+    })));
+    drawing.surfaces?.forEach(s => {
+      const layer = layerOf(s.level.id);
+      const { positions: pos, indices } = s.mesh;
+      const vertex = (i: number) => ({ x: pos[i * 3] * k, y: pos[i * 3 + 1] * k, z: pos[i * 3 + 2] * k });
+      for (let t = 0; t < indices.length; t += 3) entities += face3D(layer, vertex(indices[t]), vertex(indices[t + 1]), vertex(indices[t + 2]));
+    });
+    drawing.beacons.forEach(p => { entities += point(LAYER_BEACON, scalePoint(p, k)) + circle(LAYER_BEACON, scalePoint(p, k), textHeight); });
+    drawing.rays.forEach(r => { entities += line(LAYER_RAYS, scalePoint(r.from, k), scalePoint(r.to, k)); });
+    drawing.targetBox?.forEach(e => { entities += line(LAYER_TARGET, scalePoint(e.from, k), scalePoint(e.to, k)); });
+    drawing.targetRegions?.forEach(e => { entities += line(LAYER_REGIONS, scalePoint(e.from, k), scalePoint(e.to, k)); });
+    drawing.exclusionZones?.forEach(e => { entities += line(LAYER_EXCLUSION, scalePoint(e.from, k), scalePoint(e.to, k)); });
+    sheet = viewBounds[0] ?? sheet;
+  }
+
+  // Title block: framed parameter list under the drawing
+  if (drawing.titleBlock.length > 0) {
+    const rowHeight = textHeight * 1.8;
+    const width = Math.max(size * 0.6, ...drawing.titleBlock.map(s => s.length * textHeight * 0.9));
+    const top = sheet.minY - gap;
+    const bottom = top - rowHeight * (drawing.titleBlock.length + 1);
+    const left = sheet.minX;
+    const frame = [{ x: left, y: top }, { x: left + width, y: top }, { x: left + width, y: bottom }, { x: left, y: bottom }, { x: left, y: top }];
+    entities += lwPolyline(LAYER_TITLE, frame, true);
+    drawing.titleBlock.forEach((row, i) => {
+      entities += text(LAYER_TITLE, { x: left + textHeight, y: top - rowHeight * (i + 1) }, i === 0 ? textHeight * 1.3 : textHeight, row);
     });
+    entities += text(LAYER_TITLE, { x: left + textHeight, y: bottom + textHeight * 0.5 }, textHeight * 0.8, `Units: ${unit.suffix}`);
+  }
+
+  let dxf = `0\nSECTION\n2\nHEADER\n9\n$ACADVER\n1\nAC1015\n9\n$INSUNITS\n70\n${unit.insunits}\n9\n$MEASUREMENT\n70\n${unit.metric ? 1 : 0}\n0\nENDSEC\n`;
+
+  dxf += `0\nSECTION\n2\nTABLES\n`;
+  dxf += linetypeTable(size / 100);
+  dxf += `0\nTABLE\n2\nLAYER\n70\n${layers.length + ANNOTATION_LAYERS.length}\n`;
+  layers.forEach(layer => {
+    dxf += `0\nLAYER\n2\n${layer.name}\n70\n0\n62\n${layer.color}\n6\n${layer.linetype}\n`;
+  });
+  ANNOTATION_LAYERS.forEach(([name, color]) => {
+    dxf += `0\nLAYER\n2\n${name}\n70\n0\n62\n${color}\n6\nCONTINUOUS\n`;
   });
+  dxf += `0\nENDTAB\n0\nENDSEC\n`;
 
-  dxf += `0\nENDSEC\n0\nEOF\n`;
+  dxf += `0\nSECTION\n2\nENTITIES\n${entities}0\nENDSEC\n0\nEOF\n`;
   return dxf;
 };
 
-export const downloadDXF = (paths: Point[][], filename: string = 'LED_Visibility_Contour.dxf') => {
-  const content = generateDXF(paths);
-  const blob = new Blob([content], { type: 'application/dxf' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+export const downloadDXF = (drawing: DxfDrawing, options: DxfOptions, filename: string = 'LED_Visibility_Contour.dxf') => {
+  downloadText(generateDXF(drawing, options), filename, 'application/dxf');
 };
@@ -0,0 +1,241 @@
+import { ArrayLayout, ArraySettings, Emitter, MountingSettings, Point3D } from '../types';
+import { MAX_EMITTERS } from '../constants';
+
+const DEG = Math.PI / 180;
+
+export const LAYOUT_LABELS: Record<ArrayLayout, string> = {
+  fan: 'Fan',
+  line: 'Line',
+  grid: 'Grid',
+  ring: 'Ring',
+  dome: 'Dome',
+  hemisphere: 'Hemi',
+  custom: 'Custom'
+};
+
+export const createEmitter = (patch: Partial<Emitter> = {}): Emitter => ({
+  x: 0, y: 0, z: 0, h: 0, v: 0, roll: 0, intensity: 1, beamPattern: null, ...patch
+});
+
+// Evenly spaced angles (radians) across ±spread (degrees); a single LED points straight ahead
+const fanAngles = (count: number, spreadDeg: number): number[] => {
+  if (count <= 1) return [0];
+  const half = spreadDeg * DEG;
+  const step = (half * 2) / (count - 1);
+  return Array.from({ length: count }, (_, i) => -half + i * step);
+};
+
+// Offsets (m) centred on zero
+const centredOffsets = (count: number, pitch: number): number[] =>
+  Array.from({ length: count }, (_, i) => (i - (count - 1) / 2) * pitch);
+
+const direction = (h: number, v: number) => ({
+  x: Math.sin(h) * Math.cos(v),
+  y: Math.cos(h) * Math.cos(v),
+  z: Math.sin(v)
+});
+
+/**
+ * EMITTER LAYOUT GENERATOR
+ * Columns share the plan spread and rows the elevation spread, as in the original fan:
+ * - fan: every LED at the origin
+ * - line: columns along X at pitch spacing, each column's rows stacked in one housing
+ * - grid: columns along X and rows along Z at pitch spacing
+ * - ring: columns round a horizontal ring facing outwards (360°), rows stacked along Z
+ * - dome: the fan's directions placed on a sphere of radius, facing outwards
+ * - hemisphere: columns x rows LEDs spread evenly over the upper hemisphere
+ * - custom: the emitter table as edited or imported
+ */
+export const generateEmitters = (
+  array: ArraySettings,
+  columns: number,
+  spreadAngle: number,
+  rows: number,
+  verticalSpreadAngle: number
+): Emitter[] => {
+  const hAngles = fanAngles(columns, spreadAngle);
+  const vAngles = fanAngles(rows, verticalSpreadAngle);
+  const xs = centredOffsets(columns, array.pitch);
+  const zs = centredOffsets(rows, array.pitch);
+  const emitters: Emitter[] = [];
+
+  switch (array.layout) {
+    case 'custom':
+      return array.emitters;
+    case 'ring':
+      for (let i = 0; i < columns; i++) {
+        const h = (2 * Math.PI * i) / columns;
+        vAngles.forEach((v, j) => emitters.push(createEmitter({
+          x: array.radius * Math.sin(h), y: array.radius * Math.cos(h), z: zs[j], h, v
+        })));
+      }
+      return emitters;
+    case 'hemisphere': {
+      // Fibonacci lattice: equal solid angle per LED, heights uniform in z
+      const n = columns * rows;
+      const golden = Math.PI * (3 - Math.sqrt(5));
+      for (let k = 0; k < n; k++) {
+        const v = Math.asin(1 - (k + 0.5) / n);
+        const h = Math.atan2(Math.sin(k * golden), Math.cos(k * golden));
+        const d = direction(h, v);
+        emitters.push(createEmitter({ x: array.radius * d.x, y: array.radius * d.y, z: array.radius * d.z, h, v }));
+      }
+      return emitters;
+    }
+    default:
+      hAngles.forEach((h, i) => vAngles.forEach((v, j) => {
+        if (array.layout === 'dome') {
+          const d = direction(h, v);
+          emitters.push(createEmitter({ x: array.radius * d.x, y: array.radius * d.y, z: array.radius * d.z, h, v }));
+        } else {
+          emitters.push(createEmitter({
+            x: array.layout === 'fan' ? 0 : xs[i],
+            z: array.layout === 'grid' ? zs[j] : 0,
+            h, v
+          }));
+        }
+      }));
+      return emitters;
+  }
+};
+
+/**
+ * FIXTURE MOUNTING
+ * Maps a fixture-frame vector into the scene: roll about the optical axis (+Y) first,
+ * then the tilt up, then the clockwise yaw, so the axis ends up at (yaw, pitch).
+ */
+export const createMountTransform = (mounting: MountingSettings): ((p: Point3D) => Point3D) => {
+  const sy = Math.sin(mounting.yaw * DEG), cy = Math.cos(mounting.yaw * DEG);
+  const sp = Math.sin(mounting.pitch * DEG), cp = Math.cos(mounting.pitch * DEG);
+  const sr = Math.sin(mounting.roll * DEG), cr = Math.cos(mounting.roll * DEG);
+  return ({ x, y, z }) => {
+    // Roll: right towards up
+    const x1 = x * cr - z * sr;
+    const z1 = x * sr + z * cr;
+    // Pitch: forward towards up
+    const y2 = y * cp - z1 * sp;
+    const z2 = y * sp + z1 * cp;
+    // Yaw: forward towards right
+    return { x: x1 * cy + y2 * sy, y: -x1 * sy + y2 * cy, z: z2 };
+  };
+};
+
+export const isMounted = (mounting: MountingSettings) => mounting.yaw !== 0 || mounting.pitch !== 0 || mounting.roll !== 0;
+
+/**
+ * Turns the whole array as a rigid body about the fixture origin. Each emitter's axis and
+ * C0 half-plane (right, turned by its roll) are carried over and read back as yaw, pitch and roll.
+ */
+export const mountEmitters = (emitters: Emitter[], mounting: MountingSettings): Emitter[] => {
+  if (!isMounted(mounting)) return emitters;
+  const mount = createMountTransform(mounting);
+  return emitters.map(e => {
+    const sh = Math.sin(e.h), ch = Math.cos(e.h);
+    const sv = Math.sin(e.v), cv = Math.cos(e.v);
+    const sr = Math.sin(e.roll), cr = Math.cos(e.roll);
+    const pos = mount({ x: e.x, y: e.y, z: e.z });
+    const axis = mount(direction(e.h, e.v));
+    // C0 = cos(roll) * right + sin(roll) * up, in the emitter's own frame
+    const c0 = mount({ x: cr * ch - sr * sh * sv, y: -cr * sh - sr * ch * sv, z: sr * cv });
+
+    const h = Math.atan2(axis.x, axis.y);
+    const v = Math.asin(Math.max(-1, Math.min(1, axis.z)));
+    const sh2 = Math.sin(h), ch2 = Math.cos(h);
+    const sv2 = Math.sin(v), cv2 = Math.cos(v);
+    const right = c0.x * ch2 - c0.y * sh2;
+    const up = -c0.x * sh2 * sv2 - c0.y * ch2 * sv2 + c0.z * cv2;
+    return { ...e, ...pos, h, v, roll: Math.atan2(up, right) };
+  });
+};
+
+/**
+ * Raised for a malformed emitter table; line is 1-based.
+ */
+export class EmitterCSVError extends Error {
+  line: number;
+
+  constructor(line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'EmitterCSVError';
+    this.line = line;
+  }
+}
+
+const CSV_COLUMNS = ['x', 'y', 'z', 'yaw', 'pitch', 'roll', 'intensity'] as const;
+type CSVColumn = typeof CSV_COLUMNS[number];
+
+const COLUMN_ALIASES: Record<string, CSVColumn> = {
+  x: 'x', y: 'y', z: 'z',
+  yaw: 'yaw', h: 'yaw', azimuth: 'yaw',
+  pitch: 'pitch', v: 'pitch', tilt: 'pitch', elevation: 'pitch',
+  roll: 'roll',
+  intensity: 'intensity', scale: 'intensity', weight: 'intensity'
+};
+
+/**
+ * EMITTER TABLE IMPORT
+ * One emitter per line: x, y, z in metres, yaw, pitch, roll in degrees and a relative
+ * intensity. Separators may be commas, semicolons or tabs; '#' starts a comment. An
+ * optional header row names the columns in any order, otherwise they follow CSV_COLUMNS
+ * and roll/intensity may be left out.
+ */
+export const parseEmitterCSV = (text: string): Emitter[] => {
+  const emitters: Emitter[] = [];
+  let columns: (CSVColumn | null)[] = [...CSV_COLUMNS];
+  let firstRow = true;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const content = raw.replace(/#.*$/, '').trim();
+    if (!content) return;
+    const cells = content.split(/[,;\t]/).map(c => c.trim());
+    const isFirst = firstRow;
+    firstRow = false;
+
+    if (isFirst && cells.every(c => c === '' || !Number.isFinite(Number(c)))) {
+      columns = cells.map(c => COLUMN_ALIASES[c.toLowerCase().replace(/\s*\(.*\)$/, '')] ?? null);
+      for (const required of ['x', 'y', 'z', 'yaw', 'pitch'] as const) {
+        if (!columns.includes(required)) throw new EmitterCSVError(line, `header has no '${required}' column`);
+      }
+      return;
+    }
+
+    const values: Partial<Record<CSVColumn, number>> = {};
+    cells.forEach((cell, i) => {
+      const column = columns[i];
+      if (!column || cell === '') return;
+      const value = Number(cell);
+      if (!Number.isFinite(value)) throw new EmitterCSVError(line, `'${cell}' is not a number (${column})`);
+      values[column] = value;
+    });
+    for (const required of ['x', 'y', 'z', 'yaw', 'pitch'] as const) {
+      if (values[required] === undefined) throw new EmitterCSVError(line, `missing ${required}`);
+    }
+    const intensity = values.intensity ?? 1;
+    if (intensity < 0) throw new EmitterCSVError(line, 'intensity must not be negative');
+    if (emitters.length >= MAX_EMITTERS) throw new EmitterCSVError(line, `more than ${MAX_EMITTERS} emitters`);
+
+    emitters.push(createEmitter({
+      x: values.x, y: values.y, z: values.z,
+      h: values.yaw! * DEG, v: values.pitch! * DEG, roll: (values.roll ?? 0) * DEG,
+      intensity
+    }));
+  });
+
+  if (emitters.length === 0) throw new EmitterCSVError(1, 'no emitters found');
+  return emitters;
+};
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * Emitter table in the format parseEmitterCSV reads. Per-emitter beam patterns are not included.
+ */
+export const generateEmitterCSV = (emitters: Emitter[]): string => [
+  'x (m),y (m),z (m),yaw (deg),pitch (deg),roll (deg),intensity',
+  ...emitters.map(e => [
+    round(e.x, 4), round(e.y, 4), round(e.z, 4),
+    round(e.h / DEG, 3), round(e.v / DEG, 3), round(e.roll / DEG, 3),
+    round(e.intensity, 4)
+  ].join(','))
+].join('\n');
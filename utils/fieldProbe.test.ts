@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { GridData } from '../types';
+import { clipToGrid, sampleProfile } from './fieldProbe';
+
+// 11 x 11 cells over -50..50 m, the value rising with x
+const grid: GridData = {
+  data: new Float32Array(121).map((_, i) => 1 + (i % 11)),
+  width: 11,
+  height: 11,
+  minX: -50,
+  maxX: 50,
+  minY: -50,
+  maxY: 50
+};
+
+describe('clipToGrid', () => {
+  it('cuts a line that runs off the grid at its edges', () => {
+    expect(clipToGrid(grid, { x: -150, y: 0 }, { x: 20, y: 0 })).toEqual({ start: { x: -50, y: 0 }, end: { x: 20, y: 0 } });
+    const diagonal = clipToGrid(grid, { x: -100, y: -100 }, { x: 100, y: 100 })!;
+    expect(diagonal.start.x).toBeCloseTo(-50, 9);
+    expect(diagonal.end.y).toBeCloseTo(50, 9);
+  });
+
+  it('leaves a line inside the grid alone and drops one that misses it', () => {
+    expect(clipToGrid(grid, { x: -10, y: 5 }, { x: 30, y: -5 })).toEqual({ start: { x: -10, y: 5 }, end: { x: 30, y: -5 } });
+    expect(clipToGrid(grid, { x: 60, y: -100 }, { x: 60, y: 100 })).toBeNull();
+    expect(clipToGrid(grid, { x: 100, y: 0 }, { x: 0, y: 200 })).toBeNull();
+  });
+});
+
+describe('sampleProfile', () => {
+  it('samples a clipped line end to end, so its distance axis is the length over the grid', () => {
+    const line = clipToGrid(grid, { x: -150, y: 0 }, { x: 20, y: 0 })!;
+    const samples = sampleProfile(grid, line.start, line.end, 70);
+    expect(samples).toHaveLength(71);
+    expect(samples[0]).toEqual({ distance: 0, value: 1 });
+    expect(samples[70].distance).toBeCloseTo(70, 9);
+    expect(samples[70].value).toBeCloseTo(8, 5);
+  });
+});
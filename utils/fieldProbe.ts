@@ -0,0 +1,83 @@
+import { GridData, Point } from '../types';
+
+export interface ProfileSample {
+  distance: number; // m along the line from its start
+  value: number;    // Illuminance (lx or W/m²)
+}
+
+// Samples along a profile line
+const PROFILE_SAMPLES = 400;
+
+/**
+ * Field value at plane coordinates (a, b), bilinear between the four surrounding cells.
+ * Null outside the grid.
+ */
+export const sampleGrid = (grid: GridData, a: number, b: number): number | null => {
+  const { data, width, height, minX, maxX, minY, maxY } = grid;
+  const fx = ((a - minX) / (maxX - minX)) * (width - 1);
+  const fy = ((b - minY) / (maxY - minY)) * (height - 1);
+  if (!(fx >= 0 && fx <= width - 1 && fy >= 0 && fy <= height - 1)) return null;
+  const x0 = Math.min(width - 2, Math.floor(fx));
+  const y0 = Math.min(height - 2, Math.floor(fy));
+  const tx = fx - x0;
+  const ty = fy - y0;
+  const i = y0 * width + x0;
+  const top = data[i] * (1 - tx) + data[i + 1] * tx;
+  const bottom = data[i + width] * (1 - tx) + data[i + width + 1] * tx;
+  return top * (1 - ty) + bottom * ty;
+};
+
+/**
+ * Nearest grid cell to (a, b), for per-cell flags such as occlusion. -1 outside the grid.
+ */
+export const getCellIndex = (grid: GridData, a: number, b: number): number => {
+  const gx = Math.round(((a - grid.minX) / (grid.maxX - grid.minX)) * (grid.width - 1));
+  const gy = Math.round(((b - grid.minY) / (grid.maxY - grid.minY)) * (grid.height - 1));
+  if (gx < 0 || gx >= grid.width || gy < 0 || gy >= grid.height) return -1;
+  return gy * grid.width + gx;
+};
+
+/**
+ * The part of the line from start to end that lies over the grid (Liang-Barsky), or null if
+ * it misses the grid. The ends are clamped onto the grid edges so they sample cleanly.
+ */
+export const clipToGrid = (grid: GridData, start: Point, end: Point): { start: Point; end: Point } | null => {
+  const { minX, maxX, minY, maxY } = grid;
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  let t0 = 0;
+  let t1 = 1;
+  const edges: [number, number][] = [[-dx, start.x - minX], [dx, maxX - start.x], [-dy, start.y - minY], [dy, maxY - start.y]];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return null;
+    } else if (p < 0) {
+      t0 = Math.max(t0, q / p);
+    } else {
+      t1 = Math.min(t1, q / p);
+    }
+  }
+  if (t0 > t1) return null;
+  const at = (t: number): Point => ({
+    x: Math.min(maxX, Math.max(minX, start.x + dx * t)),
+    y: Math.min(maxY, Math.max(minY, start.y + dy * t))
+  });
+  return { start: at(t0), end: at(t1) };
+};
+
+/**
+ * CROSS-SECTION PROFILE
+ * Field along the straight line from start to end (plane coordinates), evenly sampled.
+ * Pass a line already clipped to the grid: samples that fall outside it are left out, which
+ * would leave the distance axis longer than the curve.
+ */
+export const sampleProfile = (grid: GridData, start: Point, end: Point, count: number = PROFILE_SAMPLES): ProfileSample[] => {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  const samples: ProfileSample[] = [];
+  for (let i = 0; i <= count; i++) {
+    const t = i / count;
+    const value = sampleGrid(grid, start.x + (end.x - start.x) * t, start.y + (end.y - start.y) * t);
+    if (value !== null) samples.push({ distance: length * t, value });
+  }
+  return samples;
+};
@@ -0,0 +1,192 @@
+import { FlashCharacter, EffectiveIntensityMethod } from '../types';
+import { BLONDEL_REY_CONSTANT } from '../constants';
+
+export interface LightInterval {
+  start: number; // s from the start of the period
+  end: number;
+}
+
+const MORSE: Record<string, string> = {
+  A: '.-', B: '-...', C: '-.-.', D: '-..', E: '.', F: '..-.', G: '--.', H: '....', I: '..', J: '.---',
+  K: '-.-', L: '.-..', M: '--', N: '-.', O: '---', P: '.--.', Q: '--.-', R: '.-.', S: '...', T: '-',
+  U: '..-', V: '...-', W: '.--', X: '-..-', Y: '-.--', Z: '--..',
+  0: '-----', 1: '.----', 2: '..---', 3: '...--', 4: '....-', 5: '.....', 6: '-....', 7: '--...', 8: '---..', 9: '----.'
+};
+
+export const METHOD_LABELS: Record<EffectiveIntensityMethod, string> = {
+  'blondel-rey': 'Blondel–Rey',
+  'schmidt-clausen': 'Schmidt-Clausen',
+  iala: 'IALA E-200-4'
+};
+
+export const isMorseCharacter = (letter: string) => MORSE[letter.toUpperCase()] !== undefined;
+
+// Flash cycle inside a group: quick lights are defined by their rate, others get an eclipse of twice the flash
+const groupCycle = (c: FlashCharacter) => {
+  if (c.type === 'Q') return 1;
+  if (c.type === 'VQ') return 0.5;
+  return 3 * c.flashDuration;
+};
+
+/**
+ * LIGHT CHARACTER RHYTHM
+ * Intervals during which the light is on within one period, truncated to the period.
+ */
+export const getLightIntervals = (c: FlashCharacter): LightInterval[] => {
+  const d = c.flashDuration;
+  const intervals: LightInterval[] = [];
+
+  switch (c.type) {
+    case 'Iso':
+      intervals.push({ start: 0, end: c.period / 2 });
+      break;
+    case 'Oc': {
+      // Group of eclipses of length d, light everywhere else
+      const cycle = groupCycle(c);
+      for (let k = 0; k < c.group; k++) {
+        const eclipseEnd = k * cycle + d;
+        const nextEclipse = k === c.group - 1 ? c.period : (k + 1) * cycle;
+        intervals.push({ start: eclipseEnd, end: nextEclipse });
+      }
+      break;
+    }
+    case 'Mo': {
+      // Dot = d, dash = 3d, gap between elements = d
+      let t = 0;
+      for (const symbol of MORSE[c.letter.toUpperCase()] ?? '') {
+        const length = symbol === '-' ? 3 * d : d;
+        intervals.push({ start: t, end: t + length });
+        t += length + d;
+      }
+      break;
+    }
+    default: {
+      const cycle = groupCycle(c);
+      for (let k = 0; k < c.group; k++) intervals.push({ start: k * cycle, end: k * cycle + d });
+    }
+  }
+
+  return intervals
+    .map(i => ({ start: i.start, end: Math.min(i.end, c.period) }))
+    .filter(i => i.end - i.start > 1e-6);
+};
+
+/**
+ * Relative intensity (0-1) within one flash of the given length, by pulse shape.
+ */
+const pulseValue = (c: FlashCharacter, t: number, duration: number): number => {
+  if (t < 0 || t > duration) return 0;
+  switch (c.pulseShape) {
+    case 'trapezoidal': {
+      const ramp = Math.min(c.riseTime, duration / 2);
+      if (ramp <= 0) return 1;
+      return Math.min(1, t / ramp, (duration - t) / ramp);
+    }
+    case 'half-sine':
+      return Math.sin((Math.PI * t) / duration);
+    default:
+      return 1;
+  }
+};
+
+/**
+ * Relative intensity (0-1) of the light at time t (s), repeating every period.
+ */
+export const sampleFlash = (c: FlashCharacter, t: number, intervals: LightInterval[] = getLightIntervals(c)): number => {
+  const tm = ((t % c.period) + c.period) % c.period;
+  for (const i of intervals) {
+    if (tm >= i.start && tm <= i.end) return pulseValue(c, tm - i.start, i.end - i.start);
+  }
+  return 0;
+};
+
+const FLASH_SAMPLES = 200;
+
+/**
+ * BLONDEL-REY (Douglas form for shaped pulses)
+ * Ie = max over [t1, t2] of  ∫ I dt / (a + t2 - t1). For a rectangular flash: I t / (a + t).
+ */
+const blondelRey = (c: FlashCharacter, duration: number): number => {
+  const dt = duration / FLASH_SAMPLES;
+  const prefix = [0];
+  for (let k = 0; k < FLASH_SAMPLES; k++) prefix.push(prefix[k] + pulseValue(c, (k + 0.5) * dt, duration) * dt);
+  let best = 0;
+  for (let i = 0; i < FLASH_SAMPLES; i++) {
+    for (let j = i + 1; j <= FLASH_SAMPLES; j++) {
+      best = Math.max(best, (prefix[j] - prefix[i]) / (BLONDEL_REY_CONSTANT + (j - i) * dt));
+    }
+  }
+  return best;
+};
+
+/**
+ * SCHMIDT-CLAUSEN
+ * Ie = ∫ I dt / (a + T) over the whole pulse of duration T, ramps included.
+ */
+const schmidtClausen = (c: FlashCharacter, duration: number): number => {
+  const dt = duration / FLASH_SAMPLES;
+  let integral = 0;
+  for (let k = 0; k < FLASH_SAMPLES; k++) integral += pulseValue(c, (k + 0.5) * dt, duration) * dt;
+  return integral / (BLONDEL_REY_CONSTANT + duration);
+};
+
+// Convolution budget for the IALA method (samples x kernel taps)
+const MAX_CONVOLUTION_OPS = 3e7;
+const ALLARD_MEMORY = 20; // s of history; the remaining kernel weight is applied to the mean
+
+/**
+ * IALA E-200-4 (modified Allard)
+ * Peak of the eye's response, i.e. the periodic light curve convolved with
+ * q(t) = a / (a + t)^2 (unit area, so a steady light rates at its own intensity).
+ * Closely spaced flashes reinforce each other, unlike the single-flash methods.
+ */
+const allard = (c: FlashCharacter, intervals: LightInterval[]): number => {
+  const shortest = Math.min(...intervals.map(i => i.end - i.start));
+  let dt = Math.min(0.005, shortest / 20);
+  const memory = Math.max(ALLARD_MEMORY, c.period);
+  while ((c.period / dt) * (memory / dt) > MAX_CONVOLUTION_OPS) dt *= 1.5;
+
+  const n = Math.max(1, Math.round(c.period / dt));
+  const step = c.period / n;
+  const light = new Float64Array(n);
+  let mean = 0;
+  for (let k = 0; k < n; k++) {
+    light[k] = sampleFlash(c, (k + 0.5) * step, intervals);
+    mean += light[k] / n;
+  }
+
+  const a = BLONDEL_REY_CONSTANT;
+  const taps = Math.ceil(memory / step);
+  const weights = new Float64Array(taps);
+  for (let j = 0; j < taps; j++) weights[j] = a / (a + j * step) - a / (a + (j + 1) * step);
+  const tail = (a / (a + taps * step)) * mean;
+
+  let best = 0;
+  for (let k = 0; k < n; k++) {
+    let response = tail;
+    for (let j = 0; j < taps; j++) response += light[(((k - j) % n) + n) % n] * weights[j];
+    best = Math.max(best, response);
+  }
+  return best;
+};
+
+/**
+ * EFFECTIVE INTENSITY RATIO
+ * Effective / peak intensity of the character (1 for a steady light). Single-flash
+ * methods rate the weakest flash of the group, e.g. the dot of a Morse character.
+ */
+export const getEffectiveIntensityRatio = (c: FlashCharacter, method: EffectiveIntensityMethod = c.method): number => {
+  const intervals = getLightIntervals(c);
+  if (intervals.length === 0) return 0;
+  if (method === 'iala') return Math.min(1, allard(c, intervals));
+  const rate = method === 'blondel-rey' ? blondelRey : schmidtClausen;
+  return Math.min(...intervals.map(i => rate(c, i.end - i.start)));
+};
+
+/**
+ * Chart abbreviation, e.g. "Fl(2) 10s", "Mo(A) 8s", "Iso 4s".
+ */
+export const formatFlashCharacter = (c: FlashCharacter): string => {
+  const group = c.type === 'Mo' ? `(${c.letter.toUpperCase()})` : c.type !== 'Iso' && c.group > 1 ? `(${c.group})` : '';
+  return `${c.type}${group} ${Number(c.period.toFixed(2))}s`;
+};
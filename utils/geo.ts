@@ -0,0 +1,133 @@
+import { GeoReference, GeoPoint, Point } from '../types';
+
+// WGS84 ellipsoid
+const WGS84_A = 6378137.0;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+
+const DEG = Math.PI / 180;
+
+interface Ecef {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export const geodeticToEcef = (latDeg: number, lonDeg: number, h: number): Ecef => {
+  const lat = latDeg * DEG;
+  const lon = lonDeg * DEG;
+  const sinLat = Math.sin(lat);
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+  return {
+    x: (n + h) * Math.cos(lat) * Math.cos(lon),
+    y: (n + h) * Math.cos(lat) * Math.sin(lon),
+    z: (n * (1 - WGS84_E2) + h) * sinLat
+  };
+};
+
+/**
+ * ECEF -> geodetic by fixed-point iteration on latitude (converges to < 1 mm in a few steps).
+ */
+export const ecefToGeodetic = ({ x, y, z }: Ecef) => {
+  const lon = Math.atan2(y, x);
+  const p = Math.hypot(x, y);
+  let lat = Math.atan2(z, p * (1 - WGS84_E2));
+  let h = 0;
+  for (let i = 0; i < 6; i++) {
+    const sinLat = Math.sin(lat);
+    const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+    h = p / Math.cos(lat) - n;
+    lat = Math.atan2(z, p * (1 - WGS84_E2 * n / (n + h)));
+  }
+  return { latitude: lat / DEG, longitude: lon / DEG, height: h };
+};
+
+/**
+ * LOCAL TANGENT PLANE (ENU)
+ * East/North/Up offsets around a geodetic origin, rotated into ECEF.
+ */
+export const enuToGeodetic = (originLat: number, originLon: number, originH: number, e: number, n: number, u: number) => {
+  const o = geodeticToEcef(originLat, originLon, originH);
+  const lat = originLat * DEG;
+  const lon = originLon * DEG;
+  const sLat = Math.sin(lat), cLat = Math.cos(lat);
+  const sLon = Math.sin(lon), cLon = Math.cos(lon);
+  return ecefToGeodetic({
+    x: o.x - sLon * e - sLat * cLon * n + cLat * cLon * u,
+    y: o.y + cLon * e - sLat * sLon * n + cLat * sLon * u,
+    z: o.z + cLat * n + sLat * u
+  });
+};
+
+export const geodeticToEnu = (originLat: number, originLon: number, originH: number, latDeg: number, lonDeg: number, h: number) => {
+  const o = geodeticToEcef(originLat, originLon, originH);
+  const p = geodeticToEcef(latDeg, lonDeg, h);
+  const dx = p.x - o.x, dy = p.y - o.y, dz = p.z - o.z;
+  const lat = originLat * DEG;
+  const lon = originLon * DEG;
+  const sLat = Math.sin(lat), cLat = Math.cos(lat);
+  const sLon = Math.sin(lon), cLon = Math.cos(lon);
+  return {
+    e: -sLon * dx + cLon * dy,
+    n: -sLat * cLon * dx - sLat * sLon * dy + cLat * dz,
+    u: cLat * cLon * dx + cLat * sLon * dy + sLat * dz
+  };
+};
+
+/**
+ * Simulation frame -> ENU. Heading is the true bearing of +Y, so
+ * heading 0 puts +Y north and +X east.
+ */
+export const localToEnu = (heading: number, x: number, y: number) => {
+  const t = heading * DEG;
+  return {
+    e: x * Math.cos(t) + y * Math.sin(t),
+    n: -x * Math.sin(t) + y * Math.cos(t)
+  };
+};
+
+export const enuToLocal = (heading: number, e: number, n: number): Point => {
+  const t = heading * DEG;
+  return {
+    x: e * Math.cos(t) - n * Math.sin(t),
+    y: e * Math.sin(t) + n * Math.cos(t)
+  };
+};
+
+/**
+ * Projects a point of the simulation frame (metres, z up from the source) to WGS84.
+ * The ellipsoid is taken as ground level at the beacon; heights are relative to it.
+ */
+export const localToGeodetic = (geo: GeoReference, x: number, y: number, z: number = 0): GeoPoint => {
+  const { e, n } = localToEnu(geo.heading, x, y);
+  const p = enuToGeodetic(geo.latitude, geo.longitude, 0, e, n, geo.heightAboveGround + z);
+  return { latitude: p.latitude, longitude: p.longitude, height: p.height };
+};
+
+export const geodeticToLocal = (geo: GeoReference, latitude: number, longitude: number): Point => {
+  const { e, n } = geodeticToEnu(geo.latitude, geo.longitude, 0, latitude, longitude, 0);
+  return enuToLocal(geo.heading, e, n);
+};
+
+// --- Web Mercator tile math (XYZ / slippy map scheme) ---
+
+export const EARTH_CIRCUMFERENCE = 2 * Math.PI * WGS84_A;
+
+export const lonToTileX = (lon: number, z: number) => ((lon + 180) / 360) * Math.pow(2, z);
+
+export const latToTileY = (lat: number, z: number) => {
+  const r = lat * DEG;
+  return ((1 - Math.log(Math.tan(r) + 1 / Math.cos(r)) / Math.PI) / 2) * Math.pow(2, z);
+};
+
+export const tileXToLon = (x: number, z: number) => (x / Math.pow(2, z)) * 360 - 180;
+
+export const tileYToLat = (y: number, z: number) => {
+  const n = Math.PI - (2 * Math.PI * y) / Math.pow(2, z);
+  return Math.atan(Math.sinh(n)) / DEG;
+};
+
+/**
+ * Ground resolution (m per pixel) of a 256 px tile at this zoom and latitude.
+ */
+export const tileResolution = (lat: number, z: number) => (EARTH_CIRCUMFERENCE * Math.cos(lat * DEG)) / (256 * Math.pow(2, z));
@@ -0,0 +1,133 @@
+import { GeoReference, LevelContours, Point } from '../types';
+import { localToGeodetic } from './geo';
+import { getContourStats } from './contourStats';
+
+const COORD_DIGITS = 7; // ~1 cm
+
+const round = (v: number, digits: number) => Number(v.toFixed(digits));
+
+const isClosed = (path: Point[]) =>
+  path.length > 2 && Math.abs(path[0].x - path[path.length - 1].x) < 1e-4 && Math.abs(path[0].y - path[path.length - 1].y) < 1e-4;
+
+const projectPath = (geo: GeoReference, path: Point[]) => path.map(p => localToGeodetic(geo, p.x, p.y));
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/**
+ * GEOJSON (RFC 7946)
+ * Beacon as a Point, each contour loop as a Polygon (closed) or LineString (clipped by the grid).
+ * Coordinates are [lon, lat, height above ground].
+ */
+export const generateGeoJSON = (geo: GeoReference, levels: LevelContours[]): string => {
+  const features: object[] = [{
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [round(geo.longitude, COORD_DIGITS), round(geo.latitude, COORD_DIGITS), geo.heightAboveGround] },
+    properties: { name: 'Beacon', heading: geo.heading, heightAboveGround: geo.heightAboveGround }
+  }];
+
+  levels.forEach(({ level, threshold, paths }) => {
+    const stats = getContourStats(paths);
+    paths.forEach((path, i) => {
+      if (path.length < 2) return;
+      const coords = projectPath(geo, path).map(p => [round(p.longitude, COORD_DIGITS), round(p.latitude, COORD_DIGITS), round(p.height, 2)]);
+      const closed = isClosed(path);
+      features.push({
+        type: 'Feature',
+        geometry: closed ? { type: 'Polygon', coordinates: [coords] } : { type: 'LineString', coordinates: coords },
+        properties: {
+          level: level.name,
+          logValue: level.logValue,
+          threshold,
+          color: level.color,
+          lineStyle: level.lineStyle,
+          part: i,
+          levelArea: Math.round(stats.area),
+          levelMaxRange: Math.round(stats.maxRange)
+        }
+      });
+    });
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+// KML colours are aabbggrr
+const toKmlColor = (hex: string, alpha: string = 'ff') => {
+  const h = hex.replace('#', '');
+  return `${alpha}${h.slice(4, 6)}${h.slice(2, 4)}${h.slice(0, 2)}`;
+};
+
+/**
+ * KML 2.2 with one style and folder per contour level. Altitudes are relative to ground.
+ */
+export const generateKML = (geo: GeoReference, levels: LevelContours[], name: string = 'BeaconSim Visibility'): string => {
+  const coordText = (path: Point[]) =>
+    projectPath(geo, path).map(p => `${p.longitude.toFixed(COORD_DIGITS)},${p.latitude.toFixed(COORD_DIGITS)},${p.height.toFixed(2)}`).join(' ');
+
+  const styles = levels.map(({ level }, i) => `
+    <Style id="level${i}">
+      <LineStyle><color>${toKmlColor(level.color)}</color><width>2</width></LineStyle>
+      <PolyStyle><color>${toKmlColor(level.color, '33')}</color></PolyStyle>
+    </Style>`).join('');
+
+  const folders = levels.map(({ level, threshold, paths }, i) => {
+    const placemarks = paths.filter(p => p.length >= 2).map((path, j) => {
+      const geometry = isClosed(path)
+        ? `<Polygon><altitudeMode>relativeToGround</altitudeMode><outerBoundaryIs><LinearRing><coordinates>${coordText(path)}</coordinates></LinearRing></outerBoundaryIs></Polygon>`
+        : `<LineString><altitudeMode>relativeToGround</altitudeMode><coordinates>${coordText(path)}</coordinates></LineString>`;
+      return `
+      <Placemark><name>${escapeXml(level.name)} #${j + 1}</name><styleUrl>#level${i}</styleUrl>${geometry}</Placemark>`;
+    }).join('');
+    return `
+    <Folder>
+      <name>${escapeXml(level.name)}</name>
+      <description>10^${level.logValue} (traced at ${threshold.toExponential(3)})</description>${placemarks}
+    </Folder>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(name)}</name>${styles}
+    <Placemark>
+      <name>Beacon</name>
+      <description>Heading ${geo.heading}° true, ${geo.heightAboveGround} m above ground</description>
+      <Point><altitudeMode>relativeToGround</altitudeMode><coordinates>${geo.longitude.toFixed(COORD_DIGITS)},${geo.latitude.toFixed(COORD_DIGITS)},${geo.heightAboveGround}</coordinates></Point>
+    </Placemark>${folders}
+  </Document>
+</kml>
+`;
+};
+
+/**
+ * GPX 1.1: beacon as a waypoint, every contour loop as a track.
+ * GPX has no relative altitude, so <ele> carries the height above ground at the beacon.
+ */
+export const generateGPX = (geo: GeoReference, levels: LevelContours[]): string => {
+  const tracks = levels.flatMap(({ level, paths }) =>
+    paths.filter(p => p.length >= 2).map((path, j) => {
+      const pts = projectPath(geo, path)
+        .map(p => `<trkpt lat="${p.latitude.toFixed(COORD_DIGITS)}" lon="${p.longitude.toFixed(COORD_DIGITS)}"><ele>${p.height.toFixed(2)}</ele></trkpt>`)
+        .join('\n        ');
+      return `
+  <trk>
+    <name>${escapeXml(level.name)} #${j + 1}</name>
+    <type>${escapeXml(level.name)}</type>
+    <trkseg>
+        ${pts}
+    </trkseg>
+  </trk>`;
+    })
+  ).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="BeaconSim" xmlns="http://www.topografix.com/GPX/1/1">
+  <wpt lat="${geo.latitude.toFixed(COORD_DIGITS)}" lon="${geo.longitude.toFixed(COORD_DIGITS)}">
+    <ele>${geo.heightAboveGround}</ele>
+    <name>Beacon</name>
+    <desc>Heading ${geo.heading}° true</desc>
+  </wpt>${tracks}
+</gpx>
+`;
+};
@@ -0,0 +1,344 @@
+import { ElevationModel } from '../types';
+
+/**
+ * Parse failure in a GeoTIFF; tag and byte context go in the message.
+ */
+export class TiffParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TiffParseError';
+  }
+}
+
+const TAG = {
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  StripByteCounts: 279,
+  PlanarConfiguration: 284,
+  Predictor: 317,
+  TileWidth: 322,
+  TileLength: 323,
+  TileOffsets: 324,
+  TileByteCounts: 325,
+  SampleFormat: 339,
+  ModelPixelScale: 33550,
+  ModelTiepoint: 33922,
+  ModelTransformation: 34264,
+  GeoKeyDirectory: 34735,
+  GdalNoData: 42113
+};
+
+const GEOKEY_MODEL_TYPE = 1024;  // 1 projected, 2 geographic
+const GEOKEY_RASTER_TYPE = 1025; // 1 PixelIsArea, 2 PixelIsPoint
+
+// Byte size per IFD field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+type TagValue = number[] | string;
+
+const readIFD = (view: DataView, offset: number, le: boolean): Map<number, TagValue> => {
+  const tags = new Map<number, TagValue>();
+  const count = view.getUint16(offset, le);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, le);
+    const type = view.getUint16(entry + 2, le);
+    const n = view.getUint32(entry + 4, le);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    const dataOffset = n * size <= 4 ? entry + 8 : view.getUint32(entry + 8, le);
+    if (dataOffset + n * size > view.byteLength) throw new TiffParseError(`tag ${tag} points beyond the end of the file`);
+
+    if (type === 2) {
+      let text = '';
+      for (let k = 0; k < n; k++) {
+        const c = view.getUint8(dataOffset + k);
+        if (c === 0) break;
+        text += String.fromCharCode(c);
+      }
+      tags.set(tag, text);
+      continue;
+    }
+    const values: number[] = [];
+    for (let k = 0; k < n; k++) {
+      const o = dataOffset + k * size;
+      switch (type) {
+        case 1: case 7: values.push(view.getUint8(o)); break;
+        case 6: values.push(view.getInt8(o)); break;
+        case 3: values.push(view.getUint16(o, le)); break;
+        case 8: values.push(view.getInt16(o, le)); break;
+        case 4: values.push(view.getUint32(o, le)); break;
+        case 9: values.push(view.getInt32(o, le)); break;
+        case 5: values.push(view.getUint32(o, le) / view.getUint32(o + 4, le)); break;
+        case 10: values.push(view.getInt32(o, le) / view.getInt32(o + 4, le)); break;
+        case 11: values.push(view.getFloat32(o, le)); break;
+        case 12: values.push(view.getFloat64(o, le)); break;
+      }
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+};
+
+/**
+ * TIFF LZW (MSB-first codes, early change).
+ */
+const decodeLZW = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let outPos = 0;
+  let dict: Uint8Array[] = [];
+  const reset = () => {
+    dict = [];
+    for (let i = 0; i < 256; i++) dict.push(new Uint8Array([i]));
+    dict.push(new Uint8Array(0), new Uint8Array(0)); // 256 Clear, 257 EOI
+  };
+  reset();
+
+  let bitPos = 0;
+  let codeLen = 9;
+  const readCode = () => {
+    let code = 0;
+    for (let i = 0; i < codeLen; i++) {
+      const byte = input[(bitPos + i) >> 3];
+      if (byte === undefined) return 257;
+      code = (code << 1) | ((byte >> (7 - ((bitPos + i) & 7))) & 1);
+    }
+    bitPos += codeLen;
+    return code;
+  };
+  const emit = (seq: Uint8Array) => {
+    const n = Math.min(seq.length, expected - outPos);
+    out.set(seq.subarray(0, n), outPos);
+    outPos += n;
+  };
+
+  let prev: Uint8Array | null = null;
+  while (outPos < expected) {
+    const code = readCode();
+    if (code === 257) break;
+    if (code === 256) {
+      reset();
+      codeLen = 9;
+      prev = null;
+      continue;
+    }
+    let entry: Uint8Array;
+    if (code < dict.length) {
+      entry = dict[code];
+      if (prev) {
+        const next = new Uint8Array(prev.length + 1);
+        next.set(prev);
+        next[prev.length] = entry[0];
+        dict.push(next);
+      }
+    } else if (prev) {
+      entry = new Uint8Array(prev.length + 1);
+      entry.set(prev);
+      entry[prev.length] = prev[0];
+      dict.push(entry);
+    } else {
+      throw new TiffParseError('corrupt LZW stream');
+    }
+    emit(entry);
+    prev = entry;
+    if (dict.length + 1 >= 1 << codeLen && codeLen < 12) codeLen++;
+  }
+  return out;
+};
+
+const decodePackBits = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let i = 0;
+  let o = 0;
+  while (i < input.length && o < expected) {
+    const n = (input[i++] << 24) >> 24;
+    if (n >= 0) {
+      for (let k = 0; k <= n && o < expected; k++) out[o++] = input[i++];
+    } else if (n !== -128) {
+      const v = input[i++];
+      for (let k = 0; k < 1 - n && o < expected; k++) out[o++] = v;
+    }
+  }
+  return out;
+};
+
+const inflate = async (input: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = async (compression: number, input: Uint8Array, expected: number): Promise<Uint8Array> => {
+  switch (compression) {
+    case 1: return input;
+    case 5: return decodeLZW(input, expected);
+    case 8: case 32946: return inflate(input);
+    case 32773: return decodePackBits(input, expected);
+    default: throw new TiffParseError(`unsupported compression ${compression} (use none, LZW, Deflate or PackBits)`);
+  }
+};
+
+/**
+ * GEOTIFF ELEVATION READER
+ * First image, first band. Strips or tiles; uncompressed, LZW, Deflate or PackBits;
+ * horizontal (2) and floating-point (3) predictors; 8-64 bit int and float samples.
+ * Georeferencing from ModelTiepoint + ModelPixelScale or a non-rotated ModelTransformation.
+ */
+export const parseGeoTIFF = async (buffer: ArrayBuffer, name: string): Promise<ElevationModel> => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 8) throw new TiffParseError('file too short');
+  const order = String.fromCharCode(view.getUint8(0), view.getUint8(1));
+  if (order !== 'II' && order !== 'MM') throw new TiffParseError('not a TIFF file');
+  const le = order === 'II';
+  const magic = view.getUint16(2, le);
+  if (magic === 43) throw new TiffParseError('BigTIFF is not supported');
+  if (magic !== 42) throw new TiffParseError('not a TIFF file');
+
+  const tags = readIFD(view, view.getUint32(4, le), le);
+  const num = (tag: number, fallback?: number): number => {
+    const v = tags.get(tag);
+    if (Array.isArray(v) && v.length) return v[0];
+    if (fallback === undefined) throw new TiffParseError(`missing required tag ${tag}`);
+    return fallback;
+  };
+  const arr = (tag: number): number[] | null => {
+    const v = tags.get(tag);
+    return Array.isArray(v) ? v : null;
+  };
+
+  const width = num(TAG.ImageWidth);
+  const height = num(TAG.ImageLength);
+  const bits = num(TAG.BitsPerSample, 8);
+  const spp = num(TAG.SamplesPerPixel, 1);
+  const planar = num(TAG.PlanarConfiguration, 1);
+  const compression = num(TAG.Compression, 1);
+  const predictor = num(TAG.Predictor, 1);
+  const format = num(TAG.SampleFormat, 1);
+  const bps = bits / 8;
+  if (![1, 2, 4, 8].includes(bps)) throw new TiffParseError(`unsupported bit depth ${bits}`);
+  if (format === 3 && bps < 4) throw new TiffParseError(`unsupported ${bits}-bit float samples`);
+
+  // Samples interleaved per chunk (planar 2 stores band 0 in the first chunks)
+  const chunkSpp = planar === 2 ? 1 : spp;
+
+  const tiled = tags.has(TAG.TileWidth);
+  const chunkW = tiled ? num(TAG.TileWidth) : width;
+  const chunkH = tiled ? num(TAG.TileLength) : Math.min(num(TAG.RowsPerStrip, height), height);
+  const offsets = arr(tiled ? TAG.TileOffsets : TAG.StripOffsets);
+  const counts = arr(tiled ? TAG.TileByteCounts : TAG.StripByteCounts);
+  if (!offsets || !counts) throw new TiffParseError('missing strip/tile offsets');
+  const across = Math.ceil(width / chunkW);
+  const down = Math.ceil(height / chunkH);
+
+  const readSample = (dv: DataView, o: number, littleEndian: boolean): number => {
+    if (format === 3) return bps === 4 ? dv.getFloat32(o, littleEndian) : dv.getFloat64(o, littleEndian);
+    const signed = format === 2;
+    switch (bps) {
+      case 1: return signed ? dv.getInt8(o) : dv.getUint8(o);
+      case 2: return signed ? dv.getInt16(o, littleEndian) : dv.getUint16(o, littleEndian);
+      case 4: return signed ? dv.getInt32(o, littleEndian) : dv.getUint32(o, littleEndian);
+      default: return Number(signed ? dv.getBigInt64(o, littleEndian) : dv.getBigUint64(o, littleEndian));
+    }
+  };
+
+  const values = new Float32Array(width * height);
+  const rowBytes = chunkW * chunkSpp * bps;
+
+  for (let c = 0; c < across * down; c++) {
+    const cx = (c % across) * chunkW;
+    const cy = Math.floor(c / across) * chunkH;
+    const rows = tiled ? chunkH : Math.min(chunkH, height - cy);
+    const expected = rowBytes * rows;
+    const raw = new Uint8Array(buffer, offsets[c], Math.min(counts[c], buffer.byteLength - offsets[c]));
+    let bytes = await decompress(compression, raw, expected);
+    if (bytes.length < expected) throw new TiffParseError(`chunk ${c} is truncated`);
+    bytes = bytes === raw ? bytes.slice(0, expected) : bytes;
+
+    let littleEndian = le;
+    if (predictor === 2) {
+      // Horizontal differencing on whole samples
+      const dv = new DataView(bytes.buffer, bytes.byteOffset, expected);
+      for (let r = 0; r < rows; r++) {
+        for (let i = chunkSpp; i < chunkW * chunkSpp; i++) {
+          const o = r * rowBytes + i * bps;
+          const p = o - chunkSpp * bps;
+          if (bps === 1) dv.setUint8(o, (dv.getUint8(o) + dv.getUint8(p)) & 0xff);
+          else if (bps === 2) dv.setUint16(o, (dv.getUint16(o, le) + dv.getUint16(p, le)) & 0xffff, le);
+          else if (bps === 4) dv.setUint32(o, (dv.getUint32(o, le) + dv.getUint32(p, le)) >>> 0, le);
+        }
+      }
+    } else if (predictor === 3) {
+      // Floating-point predictor: byte-wise differencing, then bytes regrouped by significance (MSB plane first)
+      const out = new Uint8Array(expected);
+      const n = chunkW * chunkSpp;
+      for (let r = 0; r < rows; r++) {
+        const row = bytes.subarray(r * rowBytes, (r + 1) * rowBytes).slice();
+        for (let i = chunkSpp; i < rowBytes; i++) row[i] = (row[i] + row[i - chunkSpp]) & 0xff;
+        for (let i = 0; i < n; i++) {
+          for (let b = 0; b < bps; b++) out[r * rowBytes + i * bps + b] = row[b * n + i];
+        }
+      }
+      bytes = out;
+      littleEndian = false;
+    }
+
+    const dv = new DataView(bytes.buffer, bytes.byteOffset, expected);
+    for (let r = 0; r < rows; r++) {
+      const y = cy + r;
+      if (y >= height) break;
+      for (let i = 0; i < chunkW; i++) {
+        const x = cx + i;
+        if (x >= width) break;
+        values[y * width + x] = readSample(dv, r * rowBytes + i * chunkSpp * bps, littleEndian);
+      }
+    }
+  }
+
+  const nodataText = tags.get(TAG.GdalNoData);
+  const nodata = typeof nodataText === 'string' && nodataText.trim() !== '' ? Number(nodataText) : NaN;
+  if (Number.isFinite(nodata)) {
+    for (let i = 0; i < values.length; i++) if (values[i] === nodata) values[i] = NaN;
+  }
+
+  // GeoKeys: header (4 shorts) followed by 4-short entries
+  let modelType = 0;
+  let rasterType = 1;
+  const keys = arr(TAG.GeoKeyDirectory);
+  if (keys) {
+    for (let k = 4; k + 3 < keys.length; k += 4) {
+      if (keys[k] === GEOKEY_MODEL_TYPE && keys[k + 1] === 0) modelType = keys[k + 3];
+      if (keys[k] === GEOKEY_RASTER_TYPE && keys[k + 1] === 0) rasterType = keys[k + 3];
+    }
+  }
+
+  let west: number, north: number, cellX: number, cellY: number;
+  const scale = arr(TAG.ModelPixelScale);
+  const tie = arr(TAG.ModelTiepoint);
+  const transform = arr(TAG.ModelTransformation);
+  if (scale && tie) {
+    cellX = scale[0];
+    cellY = scale[1];
+    west = tie[3] - tie[0] * cellX;
+    north = tie[4] + tie[1] * cellY;
+  } else if (transform && transform.length >= 16) {
+    if (transform[1] !== 0 || transform[4] !== 0) throw new TiffParseError('rotated rasters are not supported');
+    cellX = transform[0];
+    cellY = -transform[5];
+    west = transform[3];
+    north = transform[7];
+  } else {
+    throw new TiffParseError('no georeferencing (ModelTiepoint/ModelPixelScale) found');
+  }
+  if (rasterType === 2) {
+    // PixelIsPoint: the tie point is the cell centre
+    west -= cellX / 2;
+    north += cellY / 2;
+  }
+
+  const crs = modelType === 2 || (modelType === 0 && Math.abs(west) <= 180 && Math.abs(north) <= 90 && cellX < 0.1) ? 'geographic' : 'projected';
+  return { name, cols: width, rows: height, values, west, north, cellX, cellY, crs };
+};
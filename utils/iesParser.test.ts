@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { BeamPattern } from '../types';
+import { DEFAULT_BEAM_PATTERN } from '../constants';
+import { getBeamIntensityAsymmetric } from '../physics';
+import { parseIES, exportIES } from './iesParser';
+import { PhotometricParseError, toBeamPattern } from './photometry';
+
+const IES_2002 = [
+  'IESNA:LM-63-2002',
+  '[TEST] 12345',
+  '[MANUFAC] Acme',
+  '[LUMINAIRE] Beacon',
+  '[MORE] lantern',
+  'TILT=NONE',
+  '1 -1 2 3 1 1 2 0 0 0',
+  '1 1 5',
+  '0 10 20',
+  '0',
+  '100 50 0'
+].join('\n');
+
+// Every point of every plane of the original, against the imported pattern
+const expectSamePattern = (imported: BeamPattern, original: BeamPattern) => {
+  original.planes.forEach(plane => plane.points.forEach(({ angle }) => {
+    expect(getBeamIntensityAsymmetric(imported, angle, plane.c)).toBeCloseTo(getBeamIntensityAsymmetric(original, angle, plane.c), 3);
+  }));
+};
+
+const roundTrip = (pattern: BeamPattern, peak: number) => toBeamPattern(parseIES(exportIES(pattern, peak)));
+
+describe('parseIES', () => {
+  it('reads the version, keywords and the scaled candela table', () => {
+    const data = parseIES(IES_2002);
+    expect(data.version).toBe('LM-63-2002');
+    expect(data.photometricType).toBe('C');
+    expect(data.metadata.MANUFAC).toBe('Acme');
+    expect(data.metadata.LUMINAIRE).toBe('Beacon lantern');
+    expect(data.verticalAngles).toEqual([0, 10, 20]);
+    expect(data.horizontalAngles).toEqual([0]);
+    expect(data.candela).toEqual([[200, 100, 0]]);
+  });
+
+  it('expands tables symmetric about C90-C270 to a full circle', () => {
+    const text = IES_2002.replace('1 -1 2 3 1 1 2 0 0 0', '1 -1 1 3 3 1 2 0 0 0').replace(/\n0\n100 50 0$/, '\n90 180 270\n100 50 0\n80 40 0\n60 30 0');
+    const data = parseIES(text);
+    expect(data.horizontalAngles).toEqual([0, 90, 180, 270]);
+    expect(data.candela[0]).toEqual([80, 40, 0]);   // C0 mirrors C180
+    expect(data.candela[1]).toEqual([100, 50, 0]);
+    expect(data.candela[3]).toEqual([60, 30, 0]);
+  });
+
+  it('reports the line of a missing TILT', () => {
+    const text = IES_2002.replace('TILT=NONE', 'NOTILT');
+    expect(() => parseIES(text)).toThrow(PhotometricParseError);
+    expect(() => parseIES(text)).toThrow(/^Line 11: missing 'TILT=' line/);
+  });
+
+  it('reports the line of a malformed number', () => {
+    const text = IES_2002.replace('0 10 20', '0 ten 20');
+    expect(() => parseIES(text)).toThrow("Line 9: expected vertical angle (2 of 3), got 'ten'");
+  });
+
+  it('reports the line of an unknown photometric type', () => {
+    expect(() => parseIES(IES_2002.replace('1 -1 2 3 1 1 2 0 0 0', '1 -1 2 3 1 4 2 0 0 0'))).toThrow(/^Line 7: photometric type must be 1, 2 or 3/);
+  });
+
+  it('reports the line of angles out of order', () => {
+    expect(() => parseIES(IES_2002.replace('0 10 20', '0 20 10'))).toThrow(/^Line 9: vertical angles must be strictly ascending/);
+  });
+
+  it('reports a truncated candela table at the last line', () => {
+    expect(() => parseIES(IES_2002.replace('100 50 0', '100 50'))).toThrow(/^Line 11: unexpected end of file/);
+  });
+});
+
+describe('exportIES round trip', () => {
+  it('keeps a rotationally symmetric beam and its peak', () => {
+    const beam = roundTrip(DEFAULT_BEAM_PATTERN, 1500);
+    expect(beam.peakCandela).toBeCloseTo(1500, 3);
+    expect(beam.pattern.planes).toHaveLength(1);
+    expect(beam.warnings).toEqual([]);
+    expectSamePattern(beam.pattern, DEFAULT_BEAM_PATTERN);
+  });
+
+  it('keeps quadrant symmetry', () => {
+    const pattern: BeamPattern = {
+      planes: [
+        { c: 0, points: [{ angle: 0, intensity: 1 }, { angle: 20, intensity: 0.5 }, { angle: 40, intensity: 0 }] },
+        { c: 90, points: [{ angle: 0, intensity: 1 }, { angle: 5, intensity: 0.5 }, { angle: 10, intensity: 0 }] }
+      ]
+    };
+    const beam = roundTrip(pattern, 200);
+    expect(beam.pattern.planes.map(p => p.c)).toEqual([0, 90]);
+    expectSamePattern(beam.pattern, pattern);
+  });
+
+  it('writes asymmetric beams as a closed 0-360° table', () => {
+    const pattern: BeamPattern = {
+      planes: [
+        { c: 0, points: [{ angle: 0, intensity: 1 }, { angle: 30, intensity: 0.2 }] },
+        { c: 90, points: [{ angle: 0, intensity: 1 }, { angle: 30, intensity: 0.6 }] },
+        { c: 200, points: [{ angle: 0, intensity: 1 }, { angle: 15, intensity: 0.1 }, { angle: 30, intensity: 0 }] }
+      ]
+    };
+    const text = exportIES(pattern, 50);
+    expect(parseIES(text).horizontalAngles).toEqual([0, 90, 200, 360]);
+    const beam = toBeamPattern(parseIES(text));
+    expect(beam.pattern.planes.map(p => p.c)).toEqual([0, 90, 200]);
+    expectSamePattern(beam.pattern, pattern);
+  });
+});
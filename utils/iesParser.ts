@@ -0,0 +1,158 @@
+import { BeamPattern } from '../types';
+import { getBeamIntensityAsymmetric } from '../physics';
+import {
+  PhotometricData, PhotometricParseError, PhotometricType,
+  tokenize, createTokenReader, assertAscending, expandC90Symmetry
+} from './photometry';
+
+const PHOTOMETRIC_TYPES: Record<number, PhotometricType> = { 1: 'C', 2: 'B', 3: 'A' };
+
+/**
+ * IES LM-63 PARSER
+ * Handles LM-63-1986 (no header), -1991, -1995, -2002 and -2019.
+ *
+ * Layout after the header and keyword lines:
+ *   TILT=NONE | INCLUDE | <file>      (INCLUDE is followed by an inline tilt table)
+ *   #lamps lumens/lamp multiplier #vertical #horizontal type units width length height
+ *   ballastFactor ballastLampFactor|futureUse inputWatts
+ *   vertical angles, horizontal angles, then candela values per horizontal angle
+ */
+export const parseIES = (text: string): PhotometricData => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  let version = 'LM-63-1986';
+  let cursor = 0;
+  const header = lines[0]?.trim() ?? '';
+  const versionMatch = header.match(/^IES(?:NA)?\s*:\s*(.+)$/i);
+  if (versionMatch) {
+    version = versionMatch[1].trim();
+    cursor = 1;
+  } else if (/^IESNA91$/i.test(header)) {
+    version = 'LM-63-1991';
+    cursor = 1;
+  }
+
+  // Keywords (or free-form label lines for 1986 files) up to TILT=
+  const metadata: Record<string, string> = {};
+  let lastKey = '';
+  let tiltLine = -1;
+  for (; cursor < lines.length; cursor++) {
+    const line = lines[cursor].trim();
+    if (/^TILT\s*=/i.test(line)) {
+      tiltLine = cursor;
+      break;
+    }
+    const kw = line.match(/^\[([^\]]+)\]\s*(.*)$/);
+    if (kw) {
+      const key = kw[1].trim().toUpperCase();
+      if (key === 'MORE' && lastKey) {
+        metadata[lastKey] += ` ${kw[2].trim()}`;
+      } else {
+        metadata[key] = metadata[key] ? `${metadata[key]} ${kw[2].trim()}` : kw[2].trim();
+        lastKey = key;
+      }
+    } else if (line) {
+      metadata.LABEL = metadata.LABEL ? `${metadata.LABEL} ${line}` : line;
+    }
+  }
+  if (tiltLine < 0) throw new PhotometricParseError(lines.length, "missing 'TILT=' line");
+
+  const tilt = lines[tiltLine].trim().replace(/^TILT\s*=\s*/i, '').toUpperCase();
+  const reader = createTokenReader(tokenize(lines, tiltLine + 1), lines.length);
+
+  if (tilt === 'INCLUDE') {
+    reader.integer('lamp-to-luminaire geometry', 1);
+    const pairs = reader.integer('number of tilt angles', 0);
+    reader.numbers(pairs, 'tilt angle');
+    reader.numbers(pairs, 'tilt multiplying factor');
+  }
+
+  reader.integer('number of lamps');
+  reader.number('lumens per lamp');
+  const multiplier = reader.number('candela multiplier');
+  const vLine = reader.peekLine();
+  const nV = reader.integer('number of vertical angles', 1);
+  const nH = reader.integer('number of horizontal angles', 1);
+  const typeLine = reader.peekLine();
+  const typeCode = reader.integer('photometric type', 1);
+  const photometricType = PHOTOMETRIC_TYPES[typeCode];
+  if (!photometricType) throw new PhotometricParseError(typeLine, `photometric type must be 1, 2 or 3, got ${typeCode}`);
+  reader.integer('units type', 1);
+  reader.numbers(3, 'luminous opening dimension');
+
+  const ballastFactor = reader.number('ballast factor');
+  const ballastLampFactor = reader.number('ballast-lamp photometric factor');
+  reader.number('input watts');
+
+  const anglesLine = reader.peekLine();
+  const verticalAngles = reader.numbers(nV, 'vertical angle');
+  assertAscending(verticalAngles, 'vertical angles', anglesLine);
+  const hLine = reader.peekLine();
+  let horizontalAngles = reader.numbers(nH, 'horizontal angle');
+  assertAscending(horizontalAngles, 'horizontal angles', hLine);
+  if (nV < 2 && nH < 2) throw new PhotometricParseError(vLine, 'distribution needs at least two angles');
+
+  // LM-63-1995 and earlier fold the ballast-lamp factor into the candela scale; later versions reserve the field
+  const isLegacy = /1986|1991|1995/.test(version);
+  const scale = multiplier * ballastFactor * (isLegacy && ballastLampFactor > 0 ? ballastLampFactor : 1);
+
+  let candela: number[][] = [];
+  for (let h = 0; h < nH; h++) {
+    candela.push(reader.numbers(nV, `candela value for horizontal angle ${horizontalAngles[h]}°`).map(v => v * scale));
+  }
+
+  // Type C files symmetric about the C90-C270 plane are expanded to a full circle
+  if (photometricType === 'C' && nH > 1 && horizontalAngles[0] === 90 && horizontalAngles[nH - 1] === 270) {
+    ({ horizontalAngles, candela } = expandC90Symmetry(horizontalAngles, candela));
+  }
+
+  return { format: 'IES', version, photometricType, metadata, verticalAngles, horizontalAngles, candela };
+};
+
+export interface IESExportOptions {
+  manufacturer?: string;
+  description?: string;
+}
+
+const formatValues = (values: number[], digits: number): string => {
+  const out: string[] = [];
+  for (let i = 0; i < values.length; i += 10) {
+    out.push(values.slice(i, i + 10).map(v => Number(v.toFixed(digits)).toString()).join(' '));
+  }
+  return out.join('\n');
+};
+
+/**
+ * IES LM-63-2002 EXPORT
+ * Writes absolute (lumens = -1) type C photometry. Quadrant and bilateral
+ * patterns keep their symmetry; anything else is written as a closed 0-360° table.
+ */
+export const exportIES = (pattern: BeamPattern, peakCandela: number, options: IESExportOptions = {}): string => {
+  const planes = pattern.planes;
+  const gammas = [...new Set(planes.flatMap(p => p.points.map(pt => pt.angle)))].sort((a, b) => a - b);
+  if (gammas[0] !== 0) gammas.unshift(0);
+
+  let horizontals: number[];
+  const first = planes[0].c;
+  const last = planes[planes.length - 1].c;
+  if (planes.length === 1) horizontals = [0];
+  else if (first === 0 && (last === 90 || last === 180)) horizontals = planes.map(p => p.c);
+  else horizontals = [...new Set([0, ...planes.map(p => p.c), 360])].sort((a, b) => a - b);
+
+  const candela = horizontals.map(c => gammas.map(g => peakCandela * getBeamIntensityAsymmetric(pattern, g, c)));
+
+  const lines = [
+    'IESNA:LM-63-2002',
+    '[TEST] BeaconSim export',
+    `[MANUFAC] ${options.manufacturer ?? 'BeaconSim'}`,
+    `[LUMINAIRE] ${options.description ?? 'LED beacon emitter'}`,
+    `[ISSUEDATE] ${new Date().toISOString().slice(0, 10)}`,
+    'TILT=NONE',
+    `1 -1 1 ${gammas.length} ${horizontals.length} 1 2 0 0 0`,
+    '1 1 0',
+    formatValues(gammas, 3),
+    formatValues(horizontals, 3),
+    ...candela.map(row => formatValues(row, 4))
+  ];
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,113 @@
+import { downloadBlob } from './download';
+
+export type ImageFormat = 'png' | 'svg';
+
+export interface ImageExportOptions {
+  format: ImageFormat;
+  widthMm: number;
+  heightMm: number;
+  dpi: number;
+}
+
+export const EXPORT_DPIS = [72, 150, 300, 600];
+
+// A single-column report figure at print resolution
+export const DEFAULT_IMAGE_EXPORT: ImageExportOptions = { format: 'png', widthMm: 170, heightMm: 190, dpi: 300 };
+
+// Largest PNG side: browsers refuse bigger canvases, and the memory grows with its square
+export const MAX_EXPORT_PIXELS = 8192;
+
+const MM_PER_INCH = 25.4;
+
+export const mmToPixels = (mm: number, dpi: number) => Math.round((mm / MM_PER_INCH) * dpi);
+
+/**
+ * Figure size for an export: the plot keeps the on-screen width in logical px (so fonts and
+ * line weights read the same) and the printed width sets the scale. The height follows the
+ * paper's aspect; a caption band is taken off its bottom.
+ */
+export const getExportLayout = (options: ImageExportOptions, logicalWidth: number, captionHeight: number) => {
+  const height = Math.max(Math.round(logicalWidth * 0.4) + captionHeight, Math.round(logicalWidth * options.heightMm / options.widthMm));
+  const wanted = mmToPixels(options.widthMm, options.dpi) / logicalWidth;
+  const scale = Math.min(wanted, MAX_EXPORT_PIXELS / logicalWidth, MAX_EXPORT_PIXELS / height);
+  return {
+    width: logicalWidth,
+    height,
+    plotHeight: height - captionHeight,
+    scale,
+    pixelWidth: Math.round(logicalWidth * scale),
+    pixelHeight: Math.round(height * scale),
+    // Printed size: the requested width, and the height the figure actually took
+    widthMm: options.widthMm,
+    heightMm: (options.widthMm * height) / logicalWidth
+  };
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * PNG PHYSICAL SIZE
+ * Inserts a pHYs chunk (pixels per metre) after IHDR, so page layout and image
+ * programs place the figure at its intended print size.
+ */
+export const setPngDpi = (png: ArrayBuffer, dpi: number): ArrayBuffer => {
+  const src = new Uint8Array(png);
+  const ihdrEnd = 8 + 4 + 4 + 13 + 4; // Signature, then IHDR: length, type, data, CRC
+  const ppm = Math.round(dpi / (MM_PER_INCH / 1000));
+  const chunk = new Uint8Array(4 + 4 + 9 + 4);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, ppm);
+  view.setUint32(12, ppm);
+  chunk[16] = 1; // Unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  const out = new Uint8Array(src.length + chunk.length);
+  out.set(src.subarray(0, ihdrEnd), 0);
+  out.set(chunk, ihdrEnd);
+  out.set(src.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return out.buffer;
+};
+
+/**
+ * Canvas to PNG, tagged with its print resolution when given. The pixels are
+ * captured when called, so a WebGL canvas can be read straight after rendering.
+ */
+export const canvasToPng = (canvas: HTMLCanvasElement, dpi?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error('Image is too large for this browser'));
+        return;
+      }
+      if (!dpi) {
+        resolve(blob);
+        return;
+      }
+      blob.arrayBuffer().then(png => resolve(new Blob([setPngDpi(png, dpi)], { type: 'image/png' })), reject);
+    }, 'image/png');
+  });
+
+export const downloadPNG = async (canvas: HTMLCanvasElement, filename: string, dpi?: number) => {
+  downloadBlob(await canvasToPng(canvas, dpi), filename);
+};
+
+export const downloadSVG = (svg: SVGSVGElement, filename: string) => {
+  const markup = new XMLSerializer().serializeToString(svg);
+  downloadBlob(new Blob([`<?xml version="1.0" encoding="UTF-8"?>\n${markup}`], { type: 'image/svg+xml' }), filename);
+};
@@ -0,0 +1,171 @@
+import { IsoMesh, Point3D, VolumeGrid } from '../types';
+import { triTable } from 'three/examples/jsm/objects/MarchingCubes.js';
+
+// Paul Bourke's case table: 16 edge indices per cube case, -1 terminated.
+// The bundled typings declare it as nested arrays; the module exports it flat.
+const TRI_TABLE = triTable as unknown as Int32Array;
+
+// log10 given to unlit samples and to the padding around the volume
+const LOG_FLOOR = -30;
+
+// Cube corners in Bourke's order, and the two corners of each of the 12 edges
+const CORNERS = [[0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0], [0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1]];
+const EDGES = [[0, 1], [1, 2], [2, 3], [3, 0], [4, 5], [5, 6], [6, 7], [7, 4], [0, 4], [1, 5], [2, 6], [3, 7]];
+
+/**
+ * A unit of work for the iso-surface worker: one sampled volume, one surface per level.
+ */
+export interface IsoJob {
+  volume: VolumeGrid;
+  levels: number[];
+}
+
+export interface IsoJobResult {
+  meshes: IsoMesh[]; // One per requested level
+}
+
+/**
+ * Lattice coordinates along one axis, with the padding layer on either side placed on the bound itself.
+ */
+const paddedCoords = (n: number, lo: number, hi: number): Float64Array => {
+  const coords = new Float64Array(n + 2);
+  const step = n > 1 ? (hi - lo) / (n - 1) : 0;
+  for (let p = 0; p < n + 2; p++) coords[p] = lo + Math.min(n - 1, Math.max(0, p - 1)) * step;
+  return coords;
+};
+
+/**
+ * MARCHING CUBES
+ * Closed surface where the field crosses level. Crossings are interpolated on log10 of the field,
+ * which follows the inverse-square fall-off far better than the raw values. The volume is padded
+ * with an unlit layer, so where the lit region reaches the bounds the surface is capped flat on them
+ * and the mesh stays watertight. Vertices are shared between neighbouring cubes; normals are the
+ * area-weighted average of the adjoining faces.
+ */
+export const marchingCubes = (volume: VolumeGrid, level: number): IsoMesh => {
+  const { data, nx, ny, nz, min, max } = volume;
+  const px = nx + 2;
+  const py = ny + 2;
+  const pz = nz + 2;
+
+  const field = new Float32Array(px * py * pz).fill(LOG_FLOOR);
+  for (let k = 0; k < nz; k++) {
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        const v = data[(k * ny + j) * nx + i];
+        field[((k + 1) * py + j + 1) * px + i + 1] = v > 0 ? Math.max(LOG_FLOOR, Math.log10(v)) : LOG_FLOOR;
+      }
+    }
+  }
+  const iso = Math.log10(level);
+  const xs = paddedCoords(nx, min.x, max.x);
+  const ys = paddedCoords(ny, min.y, max.y);
+  const zs = paddedCoords(nz, min.z, max.z);
+
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const edgeVertex = new Map<number, number>();
+
+  // Vertex on the lattice edge leaving node (i, j, k) along axis d, created once and shared
+  const getEdgeVertex = (i: number, j: number, k: number, d: number): number => {
+    const i1 = d === 0 ? i + 1 : i;
+    const j1 = d === 1 ? j + 1 : j;
+    const k1 = d === 2 ? k + 1 : k;
+    const node = (k * py + j) * px + i;
+    const next = (k1 * py + j1) * px + i1;
+    // An edge into the padding has no length: its vertex is the sample on the bound, keyed by that
+    // sample so the caps on neighbouring faces of the volume share it
+    const onPad = [i, j, k][d] === 0 ? next : [i1, j1, k1][d] === [px, py, pz][d] - 1 ? node : -1;
+    const key = onPad >= 0 ? -1 - onPad : node * 3 + d;
+    const known = edgeVertex.get(key);
+    if (known !== undefined) return known;
+    const f0 = field[node];
+    const f1 = field[next];
+    const t = f1 !== f0 ? (iso - f0) / (f1 - f0) : 0.5;
+    const index = positions.length / 3;
+    positions.push(xs[i] + t * (xs[i1] - xs[i]), ys[j] + t * (ys[j1] - ys[j]), zs[k] + t * (zs[k1] - zs[k]));
+    edgeVertex.set(key, index);
+    return index;
+  };
+
+  const cornerOffsets = CORNERS.map(([ci, cj, ck]) => (ck * py + cj) * px + ci);
+  const cubeEdges = new Int32Array(12);
+  for (let k = 0; k < pz - 1; k++) {
+    for (let j = 0; j < py - 1; j++) {
+      for (let i = 0; i < px - 1; i++) {
+        // Bourke's convention: bit c set where corner c lies below the level
+        const base = (k * py + j) * px + i;
+        let cubeIndex = 0;
+        for (let c = 0; c < 8; c++) {
+          if (field[base + cornerOffsets[c]] < iso) cubeIndex |= 1 << c;
+        }
+        if (cubeIndex === 0 || cubeIndex === 255) continue;
+
+        cubeEdges.fill(-1);
+        const row = cubeIndex * 16;
+        for (let t = row; TRI_TABLE[t] !== -1; t += 3) {
+          const tri = [TRI_TABLE[t], TRI_TABLE[t + 1], TRI_TABLE[t + 2]].map(e => {
+            if (cubeEdges[e] < 0) {
+              const [a, b] = EDGES[e];
+              const ca = CORNERS[a];
+              const cb = CORNERS[b];
+              // Each edge runs along one axis; start from its lower corner
+              const d = ca[0] !== cb[0] ? 0 : ca[1] !== cb[1] ? 1 : 2;
+              const lo = ca[d] < cb[d] ? ca : cb;
+              cubeEdges[e] = getEdgeVertex(i + lo[0], j + lo[1], k + lo[2], d);
+            }
+            return cubeEdges[e];
+          });
+          // Shared vertices on the bounds can collapse a triangle
+          if (tri[0] === tri[1] || tri[1] === tri[2] || tri[0] === tri[2]) continue;
+          indices.push(tri[0], tri[1], tri[2]);
+        }
+      }
+    }
+  }
+
+  return withNormals(new Float32Array(positions), indices);
+};
+
+/**
+ * Area-weighted vertex normals.
+ */
+const withNormals = (positions: Float32Array, triangles: number[]): IsoMesh => {
+  const normals = new Float32Array(positions.length);
+  const at = (v: number): Point3D => ({ x: positions[v * 3], y: positions[v * 3 + 1], z: positions[v * 3 + 2] });
+  for (let t = 0; t < triangles.length; t += 3) {
+    const [a, b, c] = [triangles[t], triangles[t + 1], triangles[t + 2]];
+    const pa = at(a);
+    const pb = at(b);
+    const pc = at(c);
+    const ux = pb.x - pa.x, uy = pb.y - pa.y, uz = pb.z - pa.z;
+    const vx = pc.x - pa.x, vy = pc.y - pa.y, vz = pc.z - pa.z;
+    const nx = uy * vz - uz * vy;
+    const ny = uz * vx - ux * vz;
+    const nz = ux * vy - uy * vx;
+    for (const v of [a, b, c]) {
+      normals[v * 3] += nx;
+      normals[v * 3 + 1] += ny;
+      normals[v * 3 + 2] += nz;
+    }
+  }
+  for (let v = 0; v < normals.length; v += 3) {
+    const len = Math.hypot(normals[v], normals[v + 1], normals[v + 2]);
+    if (len > 0) {
+      normals[v] /= len;
+      normals[v + 1] /= len;
+      normals[v + 2] /= len;
+    }
+  }
+  return { positions, normals, indices: new Uint32Array(triangles) };
+};
+
+export const runIsoJob = (job: IsoJob): IsoJobResult => ({
+  meshes: job.levels.map(level => marchingCubes(job.volume, level))
+});
+
+/**
+ * Buffers to hand over with postMessage instead of copying.
+ */
+export const getIsoTransferables = (result: IsoJobResult): Transferable[] =>
+  result.meshes.flatMap(m => [m.positions.buffer, m.normals.buffer, m.indices.buffer]);
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { parseLDT } from './ldtParser';
+import { PhotometricParseError } from './photometry';
+
+/**
+ * A one-lamp-set EULUMDAT file. Lines 1-42 are the header; the C angles start on line 43.
+ */
+const buildLDT = (isym: number, cAngles: number[], gammas: number[], rows: number[][], flux: number = 2000) => [
+  'Acme', '1', String(isym), String(cAngles.length), '90', String(gammas.length), '10',
+  'Report 1', 'Beacon', 'B-1', 'beacon.ldt', '2024-01-01',
+  '100', '0', '100', '100', '100', '0', '0', '0', '0',
+  '100', '100', '1', '0',
+  '1', '1', 'LED', String(flux), '3000', '80', '5',
+  ...Array(10).fill('0,5'),
+  ...cAngles.map(String), ...gammas.map(String), ...rows.flat().map(String)
+].join('\r\n');
+
+describe('parseLDT', () => {
+  it('scales rotationally symmetric intensities from cd/klm to candela', () => {
+    const data = parseLDT(buildLDT(1, [0], [0, 10, 20], [[500, 250, 0]]));
+    expect(data.metadata.COMPANY).toBe('Acme');
+    expect(data.metadata.LUMINAIRE).toBe('Beacon');
+    expect(data.horizontalAngles).toEqual([0]);
+    expect(data.verticalAngles).toEqual([0, 10, 20]);
+    expect(data.candela).toEqual([[1000, 500, 0]]);
+  });
+
+  it('keeps the stored quadrant of a doubly symmetric table', () => {
+    const data = parseLDT(buildLDT(4, [0, 90, 180, 270], [0, 45], [[100, 50], [80, 20]], 1000));
+    expect(data.horizontalAngles).toEqual([0, 90]);
+    expect(data.candela).toEqual([[100, 50], [80, 20]]);
+  });
+
+  it('expands symmetry about C90-C270 from the stored C270-C90 half', () => {
+    const data = parseLDT(buildLDT(3, [0, 90, 180, 270], [0, 45], [[10, 1], [20, 2], [30, 3]], 1000));
+    expect(data.horizontalAngles).toEqual([0, 90, 180, 270]);
+    expect(data.candela).toEqual([[20, 2], [30, 3], [20, 2], [10, 1]]);
+  });
+
+  it('reports the line of an out-of-range symmetry indicator', () => {
+    expect(() => parseLDT(buildLDT(7, [0], [0, 10], [[1, 0]]))).toThrow(PhotometricParseError);
+    expect(() => parseLDT(buildLDT(7, [0], [0, 10], [[1, 0]]))).toThrow(/^Line 3: symmetry indicator must be an integer in \[0, 4\]/);
+  });
+
+  it('reports the line of a malformed intensity', () => {
+    const text = buildLDT(1, [0], [0, 10], [[1, 0]]).replace(/1\r\n0$/, '1\r\nbright');
+    expect(() => parseLDT(text)).toThrow("Line 47: expected intensity C0 γ10, got 'bright'");
+  });
+
+  it('reports a truncated file at its last line', () => {
+    const text = buildLDT(1, [0], [0, 10], [[1, 0]]).replace(/\r\n0$/, '');
+    expect(() => parseLDT(text)).toThrow('Line 46: unexpected end of file');
+  });
+});
@@ -0,0 +1,109 @@
+import { PhotometricData, PhotometricParseError, assertAscending, expandC90Symmetry } from './photometry';
+
+/**
+ * EULUMDAT (.ldt) PARSER
+ * Fixed line-oriented format; intensities are stored in cd/1000 lm and scaled
+ * back to absolute candela with the first lamp set's flux.
+ *
+ * Symmetry indicator (line 3) decides which C-planes are stored:
+ *   0 none (all), 1 rotational (one), 2 about C0-C180, 3 about C90-C270, 4 about both
+ */
+export const parseLDT = (text: string): PhotometricData => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  let cursor = 0;
+
+  const str = (): string => {
+    if (cursor >= lines.length) throw new PhotometricParseError(lines.length, 'unexpected end of file');
+    return lines[cursor++].trim();
+  };
+
+  const num = (what: string): number => {
+    const lineNo = cursor + 1;
+    const raw = str();
+    // Some writers use a decimal comma
+    const v = Number(raw.replace(',', '.'));
+    if (raw === '' || !Number.isFinite(v)) throw new PhotometricParseError(lineNo, `expected ${what}, got '${raw}'`);
+    return v;
+  };
+
+  const int = (what: string, min: number, max: number = Infinity): number => {
+    const lineNo = cursor + 1;
+    const v = num(what);
+    if (!Number.isInteger(v) || v < min || v > max) {
+      throw new PhotometricParseError(lineNo, `${what} must be an integer in [${min}, ${max}], got ${v}`);
+    }
+    return v;
+  };
+
+  const metadata: Record<string, string> = {};
+  metadata.COMPANY = str();
+  int('type indicator', 0, 3);
+  const symLine = cursor + 1;
+  const isym = int('symmetry indicator', 0, 4);
+  const mc = int('number of C-planes', 1);
+  num('distance between C-planes');
+  const ng = int('number of intensities per C-plane', 1);
+  num('distance between intensities');
+  metadata.REPORT = str();
+  metadata.LUMINAIRE = str();
+  metadata.LUMINAIRE_NUMBER = str();
+  metadata.FILENAME = str();
+  metadata.DATE = str();
+  for (let i = 0; i < 5; i++) num('luminaire / luminous area dimension');
+  for (let i = 0; i < 4; i++) num('luminous area height');
+  num('downward flux fraction');
+  num('light output ratio');
+  const conversion = num('intensity conversion factor');
+  num('measurement tilt');
+
+  const nSets = int('number of standard lamp sets', 1);
+  const fluxes: number[] = [];
+  for (let i = 0; i < nSets; i++) num('number of lamps');
+  for (let i = 0; i < nSets; i++) str(); // Lamp type
+  for (let i = 0; i < nSets; i++) fluxes.push(num('total luminous flux'));
+  for (let i = 0; i < nSets; i++) str(); // Colour temperature
+  for (let i = 0; i < nSets; i++) str(); // Colour rendering
+  for (let i = 0; i < nSets; i++) num('wattage');
+  for (let i = 0; i < 10; i++) num('direct ratio');
+
+  const cLine = cursor + 1;
+  const allC: number[] = [];
+  for (let i = 0; i < mc; i++) allC.push(num(`C angle (${i + 1} of ${mc})`));
+  assertAscending(allC, 'C angles', cLine);
+  const gLine = cursor + 1;
+  const verticalAngles: number[] = [];
+  for (let i = 0; i < ng; i++) verticalAngles.push(num(`gamma angle (${i + 1} of ${ng})`));
+  assertAscending(verticalAngles, 'gamma angles', gLine);
+
+  // Range of stored C-planes (1-based, inclusive) per symmetry indicator
+  let mc1 = 1;
+  let mc2 = mc;
+  if (isym === 1) mc2 = 1;
+  else if (isym === 2) mc2 = mc / 2 + 1;
+  else if (isym === 3) { mc1 = (3 * mc) / 4 + 1; mc2 = mc1 + mc / 2; }
+  else if (isym === 4) mc2 = mc / 4 + 1;
+  if (!Number.isInteger(mc1) || !Number.isInteger(mc2)) {
+    throw new PhotometricParseError(symLine, `symmetry ${isym} is inconsistent with ${mc} C-planes`);
+  }
+
+  // Negative lamp counts flag absolute (LED) photometry; the flux is then the luminaire's own
+  const flux = fluxes[0];
+  const scale = (conversion || 1) * (flux > 0 ? flux / 1000 : 1);
+
+  let horizontalAngles: number[] = [];
+  let candela: number[][] = [];
+  for (let k = mc1; k <= mc2; k++) {
+    // isym 3 wraps past C360 back to the start of the C list
+    const idx = (k - 1) % mc;
+    horizontalAngles.push(k - 1 >= mc ? allC[idx] + 360 : allC[idx]);
+    const row: number[] = [];
+    for (let j = 0; j < ng; j++) row.push(num(`intensity C${allC[idx]} γ${verticalAngles[j]}`) * scale);
+    candela.push(row);
+  }
+
+  if (isym === 3) {
+    ({ horizontalAngles, candela } = expandC90Symmetry(horizontalAngles, candela));
+  }
+
+  return { format: 'LDT', version: 'EULUMDAT', photometricType: 'C', metadata, verticalAngles, horizontalAngles, candela };
+};
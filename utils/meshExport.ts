@@ -0,0 +1,184 @@
+import { IsoMesh, LevelSurface } from '../types';
+import { downloadBlob, downloadText } from './download';
+import { DxfUnits, UNITS } from './dxfExporter';
+
+// STL and OBJ carry no units; they are written in the units chosen for the DXF. glTF is metres by definition.
+// OBJ decimals: millimetre resolution in any unit
+const objDecimals = (units: DxfUnits) => Math.max(1, Math.ceil(Math.log10(1000 / UNITS[units].scale)));
+
+const GENERATOR = 'Light Beacon Simulator';
+
+const GLB_MAGIC = 0x46546c67;      // "glTF"
+const GLB_CHUNK_JSON = 0x4e4f534a; // "JSON"
+const GLB_CHUNK_BIN = 0x004e4942;  // "BIN\0"
+const GL_FLOAT = 5126;
+const GL_UNSIGNED_INT = 5125;
+const GL_ARRAY_BUFFER = 34962;
+const GL_ELEMENT_ARRAY_BUFFER = 34963;
+
+// Opacity of the surfaces in the glTF viewer
+const GLTF_ALPHA = 0.35;
+
+const toObjectName = (name: string) => name.trim().replace(/\s+/g, '_') || 'Level';
+
+/**
+ * BINARY STL
+ * One solid, facet normals from the winding (outward), coordinates in the given units, Z up.
+ */
+export const generateSTL = (mesh: IsoMesh, name: string, units: DxfUnits): ArrayBuffer => {
+  const { scale, suffix } = UNITS[units];
+  const { positions: p, indices } = mesh;
+  const count = indices.length / 3;
+  const buffer = new ArrayBuffer(84 + count * 50);
+  const view = new DataView(buffer);
+  const header = `${GENERATOR} - ${name} (${suffix})`.slice(0, 80);
+  for (let i = 0; i < header.length; i++) view.setUint8(i, header.charCodeAt(i) & 0x7f);
+  view.setUint32(80, count, true);
+
+  let o = 84;
+  for (let t = 0; t < indices.length; t += 3) {
+    const a = indices[t] * 3, b = indices[t + 1] * 3, c = indices[t + 2] * 3;
+    const ux = p[b] - p[a], uy = p[b + 1] - p[a + 1], uz = p[b + 2] - p[a + 2];
+    const vx = p[c] - p[a], vy = p[c + 1] - p[a + 1], vz = p[c + 2] - p[a + 2];
+    let nx = uy * vz - uz * vy, ny = uz * vx - ux * vz, nz = ux * vy - uy * vx;
+    const len = Math.hypot(nx, ny, nz);
+    if (len > 0) { nx /= len; ny /= len; nz /= len; }
+    for (const v of [nx, ny, nz]) { view.setFloat32(o, v, true); o += 4; }
+    for (const v of [a, b, c]) {
+      for (let k = 0; k < 3; k++) { view.setFloat32(o, p[v + k] * scale, true); o += 4; }
+    }
+    view.setUint16(o, 0, true);
+    o += 2;
+  }
+  return buffer;
+};
+
+/**
+ * WAVEFRONT OBJ
+ * One object per level with vertex normals, coordinates in the given units, Z up.
+ */
+export const generateOBJ = (surfaces: LevelSurface[], units: DxfUnits): string => {
+  const { scale, suffix } = UNITS[units];
+  const decimals = objDecimals(units);
+  const lines = [`# ${GENERATOR} - visibility iso-surfaces`, `# Units: ${suffix}, Z up`];
+  let offset = 1; // OBJ indices are 1-based and global to the file
+  for (const { level, threshold, mesh } of surfaces) {
+    const { positions, normals, indices } = mesh;
+    if (indices.length === 0) continue;
+    lines.push(`o ${toObjectName(level.name)}`, `# ${level.name}: ${threshold.toExponential(3)}`);
+    for (let v = 0; v < positions.length; v += 3) {
+      lines.push(`v ${(positions[v] * scale).toFixed(decimals)} ${(positions[v + 1] * scale).toFixed(decimals)} ${(positions[v + 2] * scale).toFixed(decimals)}`);
+    }
+    for (let v = 0; v < normals.length; v += 3) {
+      lines.push(`vn ${normals[v].toFixed(4)} ${normals[v + 1].toFixed(4)} ${normals[v + 2].toFixed(4)}`);
+    }
+    for (let t = 0; t < indices.length; t += 3) {
+      const [a, b, c] = [indices[t] + offset, indices[t + 1] + offset, indices[t + 2] + offset];
+      lines.push(`f ${a}//${a} ${b}//${b} ${c}//${c}`);
+    }
+    offset += positions.length / 3;
+  }
+  return lines.join('\n') + '\n';
+};
+
+const srgbToLinear = (c: number) => c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+
+const hexToLinearRgb = (hex: string): number[] => {
+  const v = parseInt(hex.replace('#', ''), 16);
+  return [(v >> 16) & 255, (v >> 8) & 255, v & 255].map(c => srgbToLinear(c / 255));
+};
+
+const padTo4 = (n: number) => (n + 3) & ~3;
+
+/**
+ * BINARY GLTF (GLB)
+ * One translucent mesh per level, in metres. The sim frame is Z up, glTF is Y up,
+ * so the root node turns the scene -90° about X.
+ */
+export const generateGLB = (surfaces: LevelSurface[]): ArrayBuffer => {
+  const used = surfaces.filter(s => s.mesh.indices.length > 0);
+  const arrays: ArrayBufferView[] = [];
+  const bufferViews: object[] = [];
+  const accessors: object[] = [];
+  let byteLength = 0;
+
+  const addView = (array: Float32Array | Uint32Array, target: number) => {
+    bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: array.byteLength, target });
+    arrays.push(array);
+    byteLength += padTo4(array.byteLength);
+    return bufferViews.length - 1;
+  };
+
+  const meshes = used.map(({ mesh }, i) => {
+    const { positions, normals, indices } = mesh;
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let v = 0; v < positions.length; v += 3) {
+      for (let k = 0; k < 3; k++) {
+        min[k] = Math.min(min[k], positions[v + k]);
+        max[k] = Math.max(max[k], positions[v + k]);
+      }
+    }
+    const count = positions.length / 3;
+    accessors.push({ bufferView: addView(positions, GL_ARRAY_BUFFER), componentType: GL_FLOAT, count, type: 'VEC3', min, max });
+    accessors.push({ bufferView: addView(normals, GL_ARRAY_BUFFER), componentType: GL_FLOAT, count, type: 'VEC3' });
+    accessors.push({ bufferView: addView(indices, GL_ELEMENT_ARRAY_BUFFER), componentType: GL_UNSIGNED_INT, count: indices.length, type: 'SCALAR' });
+    const a = accessors.length - 3;
+    return { primitives: [{ attributes: { POSITION: a, NORMAL: a + 1 }, indices: a + 2, material: i }] };
+  });
+
+  const gltf = {
+    asset: { version: '2.0', generator: GENERATOR },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [
+      { name: 'Visibility', rotation: [-Math.SQRT1_2, 0, 0, Math.SQRT1_2], children: used.map((_, i) => i + 1) },
+      ...used.map((s, i) => ({ name: toObjectName(s.level.name), mesh: i }))
+    ],
+    meshes,
+    materials: used.map(s => ({
+      name: toObjectName(s.level.name),
+      pbrMetallicRoughness: { baseColorFactor: [...hexToLinearRgb(s.level.color), GLTF_ALPHA], metallicFactor: 0, roughnessFactor: 1 },
+      alphaMode: 'BLEND',
+      doubleSided: true
+    })),
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength }]
+  };
+
+  const json = new TextEncoder().encode(JSON.stringify(gltf));
+  const jsonLength = padTo4(json.length);
+  const total = 12 + 8 + jsonLength + 8 + byteLength;
+  const out = new ArrayBuffer(total);
+  const view = new DataView(out);
+  const bytes = new Uint8Array(out);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, total, true);
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, GLB_CHUNK_JSON, true);
+  bytes.set(json, 20);
+  bytes.fill(0x20, 20 + json.length, 20 + jsonLength); // JSON chunk is padded with spaces
+  let o = 20 + jsonLength;
+  view.setUint32(o, byteLength, true);
+  view.setUint32(o + 4, GLB_CHUNK_BIN, true);
+  o += 8;
+  for (const array of arrays) {
+    bytes.set(new Uint8Array(array.buffer, array.byteOffset, array.byteLength), o);
+    o += padTo4(array.byteLength);
+  }
+  return out;
+};
+
+export const downloadSTL = (mesh: IsoMesh, name: string, units: DxfUnits, filename: string) => {
+  downloadBlob(new Blob([generateSTL(mesh, name, units)], { type: 'model/stl' }), filename);
+};
+
+export const downloadOBJ = (surfaces: LevelSurface[], units: DxfUnits, filename: string) => {
+  downloadText(generateOBJ(surfaces, units), filename, 'model/obj');
+};
+
+export const downloadGLB = (surfaces: LevelSurface[], filename: string) => {
+  downloadBlob(new Blob([generateGLB(surfaces)], { type: 'model/gltf-binary' }), filename);
+};
@@ -0,0 +1,211 @@
+import { OccluderModel, Point3D, Receptor, ReceptorKind, SourceModel } from '../types';
+import { CIE150_LIMITS, DRIVER_TI_LIMIT, UNLIT_ROAD_LUMINANCE } from '../constants';
+import { calculateIlluminance } from '../physics';
+import { isOccluded } from './occlusion';
+
+const DEG = Math.PI / 180;
+
+// Lattice across and up a receptor plane
+const PLANE_SAMPLES = 5;
+
+// A rotating beacon is rated at its worst turn, searched in steps of this many degrees
+const SPIN_STEP_DEG = 5;
+
+// CIE veiling luminance Lv = 10 Σ E / θ² holds for glare angles θ from 1.5° to 60°
+const MIN_GLARE_ANGLE_DEG = 1.5;
+const MAX_GLARE_ANGLE_DEG = 60;
+
+// Below what any meter resolves (lx, cd, %): counts as no light against a zero limit
+const NEGLIGIBLE = 1e-4;
+
+export type ReceptorQuantity = 'Ev' | 'Eh' | 'TI';
+
+export interface ReceptorResult {
+  id: string;
+  quantity: ReceptorQuantity;
+  value: number;              // lx (Ev, Eh) or % (TI), at the worst point
+  intensity: number | null;   // Window: fixture intensity towards its worst point (cd)
+  pass: boolean;
+  worst: Point3D;             // Where on the receptor the value was found
+  shadowed: boolean;          // No sample in sight of the beacon
+}
+
+/**
+ * A beacon lighting the receptors: its standing beam, and the spin axis (beacon frame) if it rotates.
+ */
+export interface ReceptorSource {
+  source: SourceModel;
+  spinAxis?: Point3D;
+}
+
+export const RECEPTOR_QUANTITY: Record<Receptor['kind'], ReceptorQuantity> = { window: 'Ev', ground: 'Eh', driver: 'TI' };
+
+const dot = (a: Point3D, b: Point3D) => a.x * b.x + a.y * b.y + a.z * b.z;
+
+const horizontal = (bearingDeg: number): Point3D => ({ x: Math.sin(bearingDeg * DEG), y: Math.cos(bearingDeg * DEG), z: 0 });
+
+// Rodrigues: v turned by angle about the unit axis
+const rotate = (v: Point3D, axis: Point3D, angle: number): Point3D => {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const k = dot(axis, v) * (1 - c);
+  return {
+    x: v.x * c + (axis.y * v.z - axis.z * v.y) * s + axis.x * k,
+    y: v.y * c + (axis.z * v.x - axis.x * v.z) * s + axis.y * k,
+    z: v.z * c + (axis.x * v.y - axis.y * v.x) * s + axis.z * k
+  };
+};
+
+/**
+ * Points of the receptor: its centre, or a lattice over its plane.
+ */
+export const getReceptorSamples = (r: Receptor): Point3D[] => {
+  const centre = { x: r.x, y: r.y, z: r.z };
+  if (r.kind === 'driver' || (r.width <= 0 && r.height <= 0)) return [centre];
+  const [across, up] = r.kind === 'window'
+    ? [horizontal(r.facing + 90), { x: 0, y: 0, z: 1 }]
+    : [{ x: 1, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }];
+  const steps = (size: number) => size > 0 ? Array.from({ length: PLANE_SAMPLES }, (_, i) => (i / (PLANE_SAMPLES - 1) - 0.5) * size) : [0];
+  return steps(r.width).flatMap(a => steps(r.height).map(b => ({
+    x: centre.x + across.x * a + up.x * b,
+    y: centre.y + across.y * a + up.y * b,
+    z: centre.z + across.z * a + up.z * b
+  })));
+};
+
+/**
+ * One point, in the beacon's own frame, against every LED. Windows and ground sum the illuminance
+ * on their face (cosine of incidence) and the intensity reaching them; drivers the veiling luminance
+ * of each LED at its angle from the line of sight.
+ */
+const ratePoint = (source: SourceModel, p: Point3D, dir: Point3D, driver: boolean) => {
+  let e = 0;
+  let intensity = 0;
+  let veiling = 0;
+  for (const led of source.leds) {
+    const lux = calculateIlluminance(p.x, p.y, p.z, led, source.peakIntensity, source.spectralFactor, source.beamPattern, source.extinction);
+    if (lux <= 0) continue;
+    const r = { x: p.x - led.x, y: p.y - led.y, z: p.z - led.z };
+    const dist = Math.max(0.05, Math.sqrt(dot(r, r)));
+    const cos = -dot(r, dir) / dist;  // Face normal against the light, or the line of sight towards the LED
+    if (cos <= 0) continue;
+    if (driver) {
+      const angle = Math.acos(Math.min(1, cos)) / DEG;
+      if (angle <= MAX_GLARE_ANGLE_DEG) veiling += (10 * lux * cos) / Math.pow(Math.max(angle, MIN_GLARE_ANGLE_DEG), 2);
+    } else {
+      e += lux * cos;
+      intensity += lux * dist * dist * Math.exp(source.extinction * dist);
+    }
+  }
+  return { e, intensity, veiling };
+};
+
+/**
+ * One beacon at one receptor point, at the turn that lights the point most if it rotates.
+ * Null where the beacon is out of sight.
+ */
+const rateBeacon = ({ source, spinAxis }: ReceptorSource, r: Receptor, s: Point3D, normal: Point3D, occluders: OccluderModel | null) => {
+  const { position } = source;
+  if (occluders && isOccluded(occluders, s.x, s.y, s.z, position.x, position.y, position.z)) return null;
+  const driver = r.kind === 'driver';
+  // Into the beacon's frame: forward (+Y) turned clockwise by heading
+  const sin = Math.sin(source.heading);
+  const cos = Math.cos(source.heading);
+  const toLocal = (v: Point3D): Point3D => ({ x: v.x * cos - v.y * sin, y: v.x * sin + v.y * cos, z: v.z });
+  const local = toLocal({ x: s.x - position.x, y: s.y - position.y, z: s.z - position.z });
+  const dir = toLocal(normal);
+  const turns = spinAxis ? Array.from({ length: 360 / SPIN_STEP_DEG }, (_, i) => i * SPIN_STEP_DEG * DEG) : [0];
+
+  let value = 0;
+  let intensity = 0;
+  for (const turn of turns) {
+    const rated = spinAxis
+      ? ratePoint(source, rotate(local, spinAxis, -turn), rotate(dir, spinAxis, -turn), driver)
+      : ratePoint(source, local, dir, driver);
+    value = Math.max(value, driver ? (65 * rated.veiling) / Math.pow(Math.max(r.adaptation, 1e-3), 0.8) : rated.e);
+    intensity = Math.max(intensity, rated.intensity);
+  }
+  return { value, intensity };
+};
+
+/**
+ * OBTRUSIVE LIGHT CHECK
+ * Rates one receptor against the LEDs of every beacon given: vertical illuminance on a window and
+ * the strongest fixture intensity towards it, horizontal illuminance on the ground, or the threshold
+ * increment TI = 65 Lv / L^0.8 for a driver adapted to road luminance L. The beacons' light adds up;
+ * each one counts only where it is in sight, and a rotating one at the turn that lights the point most.
+ */
+export const checkReceptor = (r: Receptor, sources: ReceptorSource[], occluders: OccluderModel | null): ReceptorResult => {
+  // Face normal, or the driver's line of sight
+  const normal = r.kind === 'ground' ? { x: 0, y: 0, z: 1 } : horizontal(r.facing);
+
+  let value = 0;
+  let intensity = 0;
+  let worst: Point3D = { x: r.x, y: r.y, z: r.z };
+  let visible = 0;
+  for (const s of getReceptorSamples(r)) {
+    let total = 0;
+    let seen = false;
+    for (const beacon of sources) {
+      const rated = rateBeacon(beacon, r, s, normal, occluders);
+      if (!rated) continue;
+      seen = true;
+      total += rated.value;
+      intensity = Math.max(intensity, rated.intensity);
+    }
+    if (seen) visible++;
+    if (total > value) {
+      value = total;
+      worst = s;
+    }
+  }
+
+  const withinIntensity = r.kind !== 'window' || r.intensityLimit === null || intensity <= Math.max(r.intensityLimit, NEGLIGIBLE);
+  return {
+    id: r.id,
+    quantity: RECEPTOR_QUANTITY[r.kind],
+    value,
+    intensity: r.kind === 'window' ? intensity : null,
+    pass: value <= Math.max(r.limit, NEGLIGIBLE) && withinIntensity,
+    worst,
+    shadowed: visible === 0
+  };
+};
+
+export const checkReceptors = (receptors: Receptor[], sources: ReceptorSource[], occluders: OccluderModel | null): ReceptorResult[] =>
+  receptors.map(r => checkReceptor(r, sources, occluders));
+
+/**
+ * Pass/fail table as CSV, one row per receptor.
+ */
+export const formatReceptorCsv = (receptors: Receptor[], results: ReceptorResult[]): string => {
+  const rows = receptors.flatMap(r => {
+    const res = results.find(x => x.id === r.id);
+    if (!res) return [];
+    return [[
+      `"${r.name.replace(/"/g, '""')}"`, r.kind, r.x.toFixed(1), r.y.toFixed(1), r.z.toFixed(1), res.quantity,
+      res.value.toPrecision(3), r.limit, res.intensity === null ? '' : res.intensity.toPrecision(3),
+      r.kind === 'window' ? r.intensityLimit ?? '' : '', res.pass ? 'pass' : 'fail'
+    ].join(',')];
+  });
+  return ['receptor,kind,x_m,y_m,z_m,quantity,value,limit,intensity_cd,intensity_limit_cd,result', ...rows].join('\n');
+};
+
+/**
+ * New receptor with usable defaults: a window facing the beacon (zone E2 before curfew),
+ * a ground point, or a driver looking back towards the beacon on an unlit road.
+ */
+export const createReceptor = (kind: ReceptorKind, count: number): Receptor => ({
+  id: `receptor-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: `${kind === 'window' ? 'Window' : kind === 'ground' ? 'Ground' : 'Driver'} ${count + 1}`,
+  kind,
+  x: 0,
+  y: kind === 'driver' ? 300 : 200,
+  z: kind === 'window' ? 5 : kind === 'driver' ? 1.5 : 0,
+  facing: 180,
+  width: kind === 'window' ? 1.2 : 0,
+  height: kind === 'window' ? 1.5 : 0,
+  limit: kind === 'window' ? CIE150_LIMITS.E2.ev[0] : kind === 'driver' ? DRIVER_TI_LIMIT : 1,
+  intensityLimit: kind === 'window' ? CIE150_LIMITS.E2.intensity[0] : null,
+  adaptation: UNLIT_ROAD_LUMINANCE
+});
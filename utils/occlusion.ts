@@ -0,0 +1,101 @@
+import { OccluderModel, TerrainGrid, BuildingPrism, Point } from '../types';
+
+// Upper bound on terrain samples per ray
+const MAX_RAY_STEPS = 1024;
+
+/**
+ * Bilinear terrain height at an East/North offset from the beacon. NaN outside the grid or on missing data.
+ */
+export const sampleTerrain = (t: TerrainGrid, e: number, n: number): number => {
+  const fx = (e - t.minE) / t.cellE;
+  const fy = (n - t.minN) / t.cellN;
+  if (fx < 0 || fy < 0 || fx > t.cols - 1 || fy > t.rows - 1) return NaN;
+  const ix = Math.min(Math.floor(fx), t.cols - 2);
+  const iy = Math.min(Math.floor(fy), t.rows - 2);
+  const tx = fx - ix;
+  const ty = fy - iy;
+  const h = t.heights;
+  const i0 = iy * t.cols + ix;
+  const i1 = i0 + t.cols;
+  const a = h[i0] + (h[i0 + 1] - h[i0]) * tx;
+  const b = h[i1] + (h[i1 + 1] - h[i1]) * tx;
+  return a + (b - a) * ty;
+};
+
+export const pointInPolygon = (poly: Point[], x: number, y: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i];
+    const b = poly[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Does the segment from the source (sx, sy, elevation e0) to (x, y, elevation e1) pass through the prism?
+ * Checks where the ray crosses each footprint edge, plus targets inside the footprint.
+ */
+const blockedByBuilding = (b: BuildingPrism, sx: number, sy: number, x: number, y: number, e0: number, e1: number): boolean => {
+  if (Math.max(sx, x) < b.minX || Math.min(sx, x) > b.maxX || Math.max(sy, y) < b.minY || Math.min(sy, y) > b.maxY) return false;
+  if (Math.max(e0, e1) < b.base || Math.min(e0, e1) > b.top) return false;
+  if (e1 <= b.top && e1 >= b.base && pointInPolygon(b.footprint, x, y)) return true;
+
+  const dx = x - sx;
+  const dy = y - sy;
+  const fp = b.footprint;
+  for (let i = 0, j = fp.length - 1; i < fp.length; j = i++) {
+    // Edge relative to the source
+    const px = fp[j].x - sx;
+    const py = fp[j].y - sy;
+    // Solve source + t*(dx,dy) = p + s*(q-p)
+    const ex = fp[i].x - fp[j].x;
+    const ey = fp[i].y - fp[j].y;
+    const den = dx * ey - dy * ex;
+    if (Math.abs(den) < 1e-12) continue;
+    const t = (px * ey - py * ex) / den;
+    const s = (px * dy - py * dx) / den;
+    if (t <= 0 || t >= 1 || s < 0 || s > 1) continue;
+    const e = e0 + (e1 - e0) * t;
+    if (e >= b.base && e <= b.top) return true;
+  }
+  return false;
+};
+
+/**
+ * LINE OF SIGHT
+ * Marches the straight ray from a source (default: the primary at the origin) to (x, y, z)
+ * in the simulation frame over the terrain, then tests it against every building prism.
+ * Points below ground are occluded.
+ */
+export const isOccluded = (occ: OccluderModel, x: number, y: number, z: number, sx: number = 0, sy: number = 0, sz: number = 0): boolean => {
+  const e0 = occ.emitterElevation + sz;
+  const e1 = occ.emitterElevation + z;
+
+  const t = occ.terrain;
+  if (t) {
+    const rad = (occ.heading * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const toEast = (px: number, py: number) => px * cos + py * sin;
+    const toNorth = (px: number, py: number) => -px * sin + py * cos;
+    const e = toEast(x, y);
+    const n = toNorth(x, y);
+    const se = toEast(sx, sy);
+    const sn = toNorth(sx, sy);
+
+    if (sampleTerrain(t, e, n) > e1) return true;
+
+    const dist = Math.hypot(e - se, n - sn);
+    const steps = Math.min(MAX_RAY_STEPS, Math.ceil(dist / (0.5 * Math.min(t.cellE, t.cellN))));
+    for (let i = 1; i < steps; i++) {
+      const f = i / steps;
+      if (sampleTerrain(t, se + (e - se) * f, sn + (n - sn) * f) > e0 + (e1 - e0) * f) return true;
+    }
+  }
+
+  for (const b of occ.buildings) {
+    if (blockedByBuilding(b, sx, sy, x, y, e0, e1)) return true;
+  }
+  return false;
+};
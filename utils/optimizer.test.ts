@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { FieldModel, OptTargets } from '../types';
+import { DEFAULT_ARRAY_SETTINGS, DEFAULT_BEAM_PATTERN, DEFAULT_MOUNTING } from '../constants';
+import { Individual, OptResult, OptimizerProblem, assignCrowding, createOptimizer, dominates, getBeamCandidates, sortFronts } from './optimizer';
+import { createTargetRegion } from './targetRegions';
+
+// Objectives as the optimizer has them: LEDs, total intensity, minus coverage
+const individual = (objectives: number[], violation = 0): Individual => ({
+  genes: [],
+  result: {} as OptResult,
+  objectives,
+  violation,
+  rank: -1,
+  crowding: 0
+});
+
+const model: FieldModel = {
+  sources: [{
+    leds: [],
+    peakIntensity: 1,
+    spectralFactor: 1,
+    beamPattern: DEFAULT_BEAM_PATTERN,
+    extinction: 0,
+    position: { x: 0, y: 0, z: 0 },
+    heading: 0,
+    sweep: null
+  }],
+  occluders: null,
+  horizon: null
+};
+
+const problem = (targets: Partial<OptTargets> = {}): OptimizerProblem => ({
+  model,
+  array: DEFAULT_ARRAY_SETTINGS,
+  mounting: DEFAULT_MOUNTING,
+  targets: { width: 200, height: 100, range: 500, box: true, regions: [], ...targets },
+  threshold: 1e-6,
+  peak: 1,
+  intensityScale: 1,
+  beams: getBeamCandidates(DEFAULT_BEAM_PATTERN)
+});
+
+const run = (p: OptimizerProblem) => {
+  const optimizer = createOptimizer(p, { population: 12, generations: 4, seed: 7 });
+  while (!optimizer.done) optimizer.step();
+  return optimizer.front();
+};
+
+describe('dominates', () => {
+  it('prefers less constraint violation over any objective', () => {
+    expect(dominates(individual([9, 90, -10]), individual([1, 10, -90], 0.5))).toBe(true);
+    expect(dominates(individual([1, 10, -90], 0.2), individual([1, 10, -90], 0.1))).toBe(false);
+  });
+
+  it('needs no worse on every objective and better on one', () => {
+    expect(dominates(individual([1, 10, -50]), individual([2, 10, -50]))).toBe(true);
+    expect(dominates(individual([1, 10, -50]), individual([1, 10, -50]))).toBe(false);
+    expect(dominates(individual([1, 20, -50]), individual([2, 10, -50]))).toBe(false);
+  });
+});
+
+describe('sortFronts', () => {
+  it('ranks a hand-built population', () => {
+    const pop = [
+      individual([1, 10, -50]),      // 0: trades against 1
+      individual([2, 20, -80]),      // 1
+      individual([2, 20, -40]),      // 2: beaten by 0 and 1
+      individual([3, 30, -30]),      // 3: beaten by 2 as well
+      individual([1, 10, -90], 0.5)  // 4: best objectives, but breaks a constraint
+    ];
+    expect(sortFronts(pop)).toEqual([[0, 1], [2], [3], [4]]);
+    expect(pop.map(p => p.rank)).toEqual([0, 0, 1, 2, 3]);
+  });
+
+  it('orders infeasible designs by how far they miss', () => {
+    const pop = [individual([1, 1, -1], 0.3), individual([5, 5, -1], 0.1)];
+    expect(sortFronts(pop)).toEqual([[1], [0]]);
+  });
+});
+
+describe('assignCrowding', () => {
+  it('keeps the ends of a front and spaces the rest by their neighbours', () => {
+    const pop = [individual([1, 30, -10]), individual([2, 20, -20]), individual([3, 10, -30])];
+    assignCrowding(pop, [0, 1, 2]);
+    expect(pop[0].crowding).toBe(Infinity);
+    expect(pop[2].crowding).toBe(Infinity);
+    // Each objective: neighbours span the whole range
+    expect(pop[1].crowding).toBeCloseTo(3, 12);
+  });
+});
+
+describe('createOptimizer', () => {
+  it('returns a non-dominated front, best coverage first', () => {
+    const front = run(problem());
+    expect(front.length).toBeGreaterThan(0);
+    const objectives = (r: OptResult) => individual([r.leds, r.totalIntensity, -r.coverage], r.feasible ? 0 : 1);
+    for (const a of front) {
+      for (const b of front) expect(dominates(objectives(a), objectives(b))).toBe(false);
+      expect(a.coverage).toBeGreaterThan(2);
+    }
+    front.slice(1).forEach((r, i) => expect(r.coverage).toBeLessThanOrEqual(front[i].coverage));
+  });
+
+  it('is repeatable for the same seed', () => {
+    expect(run(problem())).toEqual(run(problem()));
+  });
+
+  it('still returns the closest misses, flagged, when no design can keep an exclusion zone dark', () => {
+    // All round the beacon out to 300 m: every design lights some of it
+    const zone = { ...createTargetRegion('exclude', 'sector', 0), bearingFrom: 0, bearingTo: 0, rangeMax: 300 };
+    const front = run(problem({ regions: [zone] }));
+    expect(front.length).toBeGreaterThan(0);
+    front.forEach(r => {
+      expect(r.spill).toBeGreaterThan(0);
+      expect(r.feasible).toBe(false);
+    });
+  });
+
+  it('takes a blank or zero range as the smallest target', () => {
+    for (const range of [NaN, 0]) {
+      const front = run(problem({ range }));
+      expect(front.length).toBeGreaterThan(0);
+      front.forEach(r => expect(r.reachesRange).toBe(true));
+    }
+  });
+});
@@ -0,0 +1,407 @@
+import { ArraySettings, BeamPattern, FieldModel, MountingSettings, OptTargets, Point3D, SourceModel } from '../types';
+import { OPTIMIZER_BEAM_SCALES, OPTIMIZER_GENERATIONS, OPTIMIZER_INTENSITY_RANGE, OPTIMIZER_MAX_LEDS_PER_AXIS, OPTIMIZER_MAX_SPREAD, OPTIMIZER_MIN_TARGET, OPTIMIZER_POPULATION } from '../constants';
+import { createMountTransform, generateEmitters, mountEmitters } from './emitterLayout';
+import { AXIS_X, AXIS_Y, AXIS_Z, ORIGIN, getSourceHorizons, samplePoint } from './simulationJobs';
+import { sampleRegion } from './targetRegions';
+
+// NSGA-II operators (Deb et al. 2002): simulated binary crossover and polynomial mutation
+const CROSSOVER_RATE = 0.9;
+const CROSSOVER_ETA = 15;
+const MUTATION_ETA = 20;
+
+// Target box samples: across the half width, up the half height, along the range
+const SAMPLES_X = 4;
+const SAMPLES_Z = 4;
+const SAMPLES_Y = 8;
+
+// Designs covering less of the target than this (%) are not worth listing
+const MIN_COVERAGE = 2;
+
+export interface BeamCandidate {
+  name: string;
+  pattern: BeamPattern;
+}
+
+/**
+ * What the optimizer tunes and against what. Structured-clone friendly.
+ * model is the scene; its primary beacon (sources[0]) is replaced by each design, the others are ignored.
+ * Terrain, buildings and the horizon shadow the designs as they do the plots.
+ */
+export interface OptimizerProblem {
+  model: FieldModel;
+  array: ArraySettings;
+  mounting: MountingSettings;
+  targets: OptTargets;
+  threshold: number;
+  peak: number;            // Current peak intensity per LED (cd, or mW/sr in the infrared)
+  intensityScale: number;  // Physics units per peak unit (mW/sr to W/sr in the infrared)
+  beams: BeamCandidate[];  // The current beam first
+}
+
+export interface OptimizerOptions {
+  population: number;
+  generations: number;
+  seed: number;
+}
+
+/**
+ * One evaluated design. Objectives: fewer LEDs, less total intensity (the power drawn),
+ * more of the target covered; reaching the target range and lighting no exclusion region are constraints.
+ */
+export interface OptResult {
+  columns: number;
+  rows: number;
+  h: number;           // Plan spread (deg)
+  v: number;           // Elevation spread (deg)
+  peak: number;        // Per LED, in the input unit
+  beam: BeamCandidate;
+  leds: number;
+  totalIntensity: number; // leds x peak
+  coverage: number;    // % of the target volume (box and inclusion regions) above threshold
+  spill: number;       // % of the exclusion regions above threshold
+  range: number;       // Along the optical axis (m)
+  w: number;           // Lit width and height at half the range (m)
+  hDim: number;
+  reachesRange: boolean; // Reaches the box's range (always, without the box)
+  feasible: boolean;   // Reaches the range and keeps the exclusion regions dark
+}
+
+/**
+ * Worker protocol: one request per run, answered by a progress message after every generation.
+ * The run is cancelled by terminating the worker.
+ */
+export interface OptimizerRequest {
+  problem: OptimizerProblem;
+  options: OptimizerOptions;
+}
+
+export interface OptimizerProgress {
+  generation: number;
+  generations: number;
+  front: OptResult[];   // Non-dominated designs so far
+  done: boolean;
+  error?: string;
+}
+
+export interface Individual {
+  genes: number[];
+  result: OptResult;
+  objectives: number[];
+  violation: number;
+  rank: number;
+  crowding: number;
+}
+
+export const DEFAULT_OPTIMIZER: OptimizerOptions = {
+  population: OPTIMIZER_POPULATION,
+  generations: OPTIMIZER_GENERATIONS,
+  seed: 1
+};
+
+// Results arrive as copies from the worker, so designs are matched by their decision variables
+export const isSameDesign = (a: OptResult | null, b: OptResult | null): boolean =>
+  !!a && !!b && a.columns === b.columns && a.rows === b.rows && a.h === b.h && a.v === b.v &&
+  a.peak === b.peak && a.beam.name === b.beam.name;
+
+/**
+ * Beam curve with its angles scaled, cut at 180°.
+ */
+const scaleBeamPattern = (pattern: BeamPattern, scale: number): BeamPattern => ({
+  planes: pattern.planes.map(plane => ({
+    ...plane,
+    points: plane.points.filter(p => p.angle * scale <= 180).map(p => ({ ...p, angle: p.angle * scale }))
+  }))
+});
+
+export const getBeamCandidates = (current: BeamPattern): BeamCandidate[] => [
+  { name: 'Current', pattern: current },
+  ...OPTIMIZER_BEAM_SCALES.map(({ name, scale }) => ({ name: `${name} x${scale}`, pattern: scaleBeamPattern(current, scale) }))
+];
+
+// Mulberry32: repeatable runs for the same inputs
+const createRng = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Constrained domination: feasible beats infeasible, less violation beats more, else Pareto dominance
+export const dominates = (a: Individual, b: Individual): boolean => {
+  if (a.violation !== b.violation) return a.violation < b.violation;
+  let better = false;
+  for (let k = 0; k < a.objectives.length; k++) {
+    if (a.objectives[k] > b.objectives[k]) return false;
+    if (a.objectives[k] < b.objectives[k]) better = true;
+  }
+  return better;
+};
+
+/**
+ * Fast non-dominated sort: fronts of indices, best first. Sets each individual's rank.
+ */
+export const sortFronts = (pop: Individual[]): number[][] => {
+  const dominated: number[][] = pop.map(() => []);
+  const counts = new Array(pop.length).fill(0);
+  const fronts: number[][] = [[]];
+  for (let p = 0; p < pop.length; p++) {
+    for (let q = 0; q < pop.length; q++) {
+      if (p === q) continue;
+      if (dominates(pop[p], pop[q])) dominated[p].push(q);
+      else if (dominates(pop[q], pop[p])) counts[p]++;
+    }
+    if (counts[p] === 0) {
+      pop[p].rank = 0;
+      fronts[0].push(p);
+    }
+  }
+  for (let f = 0; fronts[f].length > 0; f++) {
+    const next: number[] = [];
+    for (const p of fronts[f]) {
+      for (const q of dominated[p]) {
+        if (--counts[q] === 0) {
+          pop[q].rank = f + 1;
+          next.push(q);
+        }
+      }
+    }
+    fronts.push(next);
+  }
+  return fronts.filter(f => f.length > 0);
+};
+
+export const assignCrowding = (pop: Individual[], front: number[]) => {
+  front.forEach(i => { pop[i].crowding = 0; });
+  const m = pop[front[0]].objectives.length;
+  for (let k = 0; k < m; k++) {
+    const sorted = [...front].sort((a, b) => pop[a].objectives[k] - pop[b].objectives[k]);
+    const lo = pop[sorted[0]].objectives[k];
+    const hi = pop[sorted[sorted.length - 1]].objectives[k];
+    pop[sorted[0]].crowding = Infinity;
+    pop[sorted[sorted.length - 1]].crowding = Infinity;
+    if (hi - lo <= 0) continue;
+    for (let s = 1; s < sorted.length - 1; s++) {
+      pop[sorted[s]].crowding += (pop[sorted[s + 1]].objectives[k] - pop[sorted[s - 1]].objectives[k]) / (hi - lo);
+    }
+  }
+};
+
+/**
+ * NSGA-II OPTIMIZER
+ * Searches columns, rows, plan and elevation spread, peak intensity per LED and the beam
+ * among the candidates. Each design is rated on lattices through the target box and regions
+ * (coverage, spill into exclusion regions) and by bisection along the mounted axis (range). step() runs one generation; the first call
+ * rates the initial population.
+ */
+export const createOptimizer = (problem: OptimizerProblem, options: OptimizerOptions = DEFAULT_OPTIMIZER) => {
+  const { array, mounting, threshold, peak, intensityScale, beams } = problem;
+  // A blank or zero box size would turn every constraint violation into NaN
+  const atLeastMin = (v: number) => Number.isFinite(v) ? Math.max(v, OPTIMIZER_MIN_TARGET) : OPTIMIZER_MIN_TARGET;
+  const targets: OptTargets = {
+    ...problem.targets,
+    width: atLeastMin(problem.targets.width),
+    height: atLeastMin(problem.targets.height),
+    range: atLeastMin(problem.targets.range)
+  };
+  const random = createRng(options.seed);
+  const mount = createMountTransform(mounting);
+
+  // The box sits on the mounted optical axis; regions bring their own lattices
+  const samples: Point3D[] = [];
+  if (targets.box) {
+    for (let i = 0; i <= SAMPLES_X; i++) {
+      for (let k = 0; k <= SAMPLES_Z; k++) {
+        for (let j = 1; j <= SAMPLES_Y; j++) {
+          samples.push(mount({ x: (i / SAMPLES_X) * (targets.width / 2), y: (j / SAMPLES_Y) * targets.range, z: (k / SAMPLES_Z) * (targets.height / 2) }));
+        }
+      }
+    }
+  }
+  const excluded: Point3D[] = [];
+  targets.regions.forEach(region => (region.kind === 'include' ? samples : excluded).push(...sampleRegion(region)));
+
+  // Gene bounds: integer genes span half a step either side so each value is equally likely
+  const logPeak = Math.log10(Math.max(peak, 1e-6));
+  const logRange = Math.log10(OPTIMIZER_INTENSITY_RANGE);
+  const bounds: [number, number][] = [
+    [0.5, OPTIMIZER_MAX_LEDS_PER_AXIS + 0.499],
+    [0.5, OPTIMIZER_MAX_LEDS_PER_AXIS + 0.499],
+    [0, OPTIMIZER_MAX_SPREAD],
+    [0, OPTIMIZER_MAX_SPREAD],
+    [logPeak - logRange, logPeak + logRange],
+    [-0.5, beams.length - 0.501]
+  ];
+
+  // Every design sits where the primary does, so they all share its horizon
+  const horizons = getSourceHorizons({ ...problem.model, sources: problem.model.sources.slice(0, 1) });
+  const isLit = (model: FieldModel, p: Point3D) => samplePoint(model, horizons, p).total >= threshold;
+
+  const findExtent = (model: FieldModel, start: Point3D, dir: Point3D, maxDist: number): number => {
+    let low = 0;
+    let high = maxDist;
+    let limit = 0;
+    for (let i = 0; i < 12; i++) {
+      const mid = (low + high) / 2;
+      if (isLit(model, { x: start.x + dir.x * mid, y: start.y + dir.y * mid, z: start.z + dir.z * mid })) {
+        limit = mid;
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return limit;
+  };
+
+  const cache = new Map<string, OptResult>();
+
+  const evaluate = (genes: number[]): OptResult => {
+    const columns = Math.round(genes[0]);
+    const rows = Math.round(genes[1]);
+    // Spreads the layout does not use are pinned, so equal fixtures share one rating
+    const planUsed = columns > 1 && array.layout !== 'ring' && array.layout !== 'hemisphere';
+    const elevationUsed = rows > 1 && array.layout !== 'hemisphere';
+    const h = planUsed ? Math.round(genes[2]) : 0;
+    const v = elevationUsed ? Math.round(genes[3]) : 0;
+    const p = Number(Math.pow(10, genes[4]).toPrecision(2));
+    const beam = beams[Math.round(genes[5])];
+    const key = `${columns}|${rows}|${h}|${v}|${p}|${beam.name}`;
+    const known = cache.get(key);
+    if (known) return known;
+
+    const [primary] = problem.model.sources;
+    const source: SourceModel = {
+      ...primary,
+      leds: mountEmitters(generateEmitters(array, columns, h, rows, v), mounting),
+      peakIntensity: p * intensityScale,
+      beamPattern: beam.pattern,
+      sweep: null
+    };
+    const model: FieldModel = { ...problem.model, sources: [source] };
+
+    let hits = 0;
+    for (const s of samples) {
+      if (isLit(model, s)) hits++;
+    }
+    let spilled = 0;
+    for (const s of excluded) {
+      if (isLit(model, s)) spilled++;
+    }
+    const range = findExtent(model, ORIGIN, mount(AXIS_Y), targets.range * 2);
+    const mid = mount({ x: 0, y: range * 0.5, z: 0 });
+    const leds = source.leds.length;
+    const result: OptResult = {
+      columns, rows, h, v, peak: p, beam, leds,
+      totalIntensity: leds * p,
+      coverage: samples.length > 0 ? (hits / samples.length) * 100 : 0,
+      spill: excluded.length > 0 ? (spilled / excluded.length) * 100 : 0,
+      range,
+      w: findExtent(model, mid, mount(AXIS_X), targets.width * 2) * 2,
+      hDim: findExtent(model, mid, mount(AXIS_Z), targets.height * 2) * 2,
+      reachesRange: !targets.box || range >= targets.range,
+      feasible: false
+    };
+    result.feasible = result.reachesRange && result.spill === 0;
+    cache.set(key, result);
+    return result;
+  };
+
+  const createIndividual = (genes: number[]): Individual => {
+    const result = evaluate(genes);
+    return {
+      genes,
+      result,
+      objectives: [result.leds, result.totalIntensity, -result.coverage],
+      violation: (result.reachesRange ? 0 : (targets.range - result.range) / targets.range) + result.spill / 100,
+      rank: 0,
+      crowding: 0
+    };
+  };
+
+  const clampGene = (g: number, k: number) => Math.min(bounds[k][1], Math.max(bounds[k][0], g));
+
+  // Binary tournament on rank, then crowding
+  const select = (pop: Individual[]): Individual => {
+    const a = pop[Math.floor(random() * pop.length)];
+    const b = pop[Math.floor(random() * pop.length)];
+    if (a.rank !== b.rank) return a.rank < b.rank ? a : b;
+    return a.crowding >= b.crowding ? a : b;
+  };
+
+  const crossover = (p1: number[], p2: number[]): [number[], number[]] => {
+    const c1 = [...p1];
+    const c2 = [...p2];
+    if (random() > CROSSOVER_RATE) return [c1, c2];
+    for (let k = 0; k < p1.length; k++) {
+      if (random() > 0.5 || Math.abs(p1[k] - p2[k]) < 1e-9) continue;
+      const u = random();
+      const beta = u <= 0.5 ? Math.pow(2 * u, 1 / (CROSSOVER_ETA + 1)) : Math.pow(1 / (2 * (1 - u)), 1 / (CROSSOVER_ETA + 1));
+      c1[k] = clampGene(0.5 * ((1 + beta) * p1[k] + (1 - beta) * p2[k]), k);
+      c2[k] = clampGene(0.5 * ((1 - beta) * p1[k] + (1 + beta) * p2[k]), k);
+    }
+    return [c1, c2];
+  };
+
+  const mutate = (genes: number[]): number[] => genes.map((g, k) => {
+    if (random() > 1 / genes.length) return g;
+    const [lo, hi] = bounds[k];
+    const u = random();
+    const delta = u < 0.5 ? Math.pow(2 * u, 1 / (MUTATION_ETA + 1)) - 1 : 1 - Math.pow(2 * (1 - u), 1 / (MUTATION_ETA + 1));
+    return clampGene(g + delta * (hi - lo), k);
+  });
+
+  const rankPopulation = (pop: Individual[]) => sortFronts(pop).forEach(front => assignCrowding(pop, front));
+
+  let population: Individual[] = [];
+  let generation = 0;
+
+  const step = () => {
+    if (generation === 0) {
+      population = Array.from({ length: options.population }, () => createIndividual(bounds.map(([lo, hi]) => lo + random() * (hi - lo))));
+      rankPopulation(population);
+    } else {
+      const offspring: Individual[] = [];
+      while (offspring.length < options.population) {
+        const [c1, c2] = crossover(select(population).genes, select(population).genes);
+        offspring.push(createIndividual(mutate(c1)), createIndividual(mutate(c2)));
+      }
+      // Elitist survival: best fronts of parents and offspring, the last one cut by crowding
+      const merged = [...population, ...offspring];
+      const next: Individual[] = [];
+      for (const front of sortFronts(merged)) {
+        assignCrowding(merged, front);
+        if (next.length + front.length <= options.population) {
+          front.forEach(i => next.push(merged[i]));
+        } else {
+          [...front].sort((a, b) => merged[b].crowding - merged[a].crowding)
+            .slice(0, options.population - next.length)
+            .forEach(i => next.push(merged[i]));
+          break;
+        }
+      }
+      population = next;
+      rankPopulation(population);
+    }
+    generation++;
+  };
+
+  // Non-dominated designs found so far, one per fixture, best coverage first
+  const front = (): OptResult[] => {
+    const seen = new Set<OptResult>();
+    return population
+      .filter(ind => ind.rank === 0 && ind.result.coverage > MIN_COVERAGE)
+      .map(ind => ind.result)
+      .filter(r => !seen.has(r) && seen.add(r))
+      .sort((a, b) => b.coverage - a.coverage || a.totalIntensity - b.totalIntensity);
+  };
+
+  return {
+    step,
+    front,
+    get generation() { return generation; },
+    get done() { return generation >= options.generations; }
+  };
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getBeamIntensityAsymmetric } from '../physics';
+import { PhotometricData, expandC90Symmetry, toBeamPattern, tokenize } from './photometry';
+
+const table = (photometricType: 'A' | 'B', horizontalAngles: number[], verticalAngles: number[], value: (h: number, v: number) => number): PhotometricData => ({
+  format: 'IES',
+  version: 'LM-63-2002',
+  photometricType,
+  metadata: {},
+  verticalAngles,
+  horizontalAngles,
+  candela: horizontalAngles.map(h => verticalAngles.map(v => value(h, v)))
+});
+
+const steps = (from: number, to: number, step: number) => Array.from({ length: (to - from) / step + 1 }, (_, i) => from + i * step);
+
+describe('tokenize', () => {
+  it('keeps the 1-based line of every token', () => {
+    expect(tokenize(['skip', '1, 2', '', '3'], 1)).toEqual([
+      { text: '1', line: 2 }, { text: '2', line: 2 }, { text: '3', line: 4 }
+    ]);
+  });
+});
+
+describe('expandC90Symmetry', () => {
+  it('mirrors C90-C270 onto the other half', () => {
+    const out = expandC90Symmetry([90, 135, 180, 225, 270], [[1], [2], [3], [4], [5]]);
+    expect(out.horizontalAngles).toEqual([0, 45, 90, 135, 180, 225, 270, 315]);
+    expect(out.candela.map(r => r[0])).toEqual([3, 2, 1, 2, 3, 4, 5, 4]);
+  });
+});
+
+describe('toBeamPattern', () => {
+  it('drops the back hemisphere of type C tables and warns when the peak was there', () => {
+    const beam = toBeamPattern({ ...table('A', [0], [0, 90, 180], () => 0), photometricType: 'C', candela: [[10, 5, 20]] });
+    expect(beam.peakCandela).toBe(10);
+    expect(beam.pattern.planes[0].points.map(p => p.angle)).toEqual([0, 90]);
+    expect(beam.warnings).toHaveLength(1);
+  });
+
+  it('resamples type A (planes about the vertical axis) onto C-planes', () => {
+    // Intensity falls off with H alone: C0 (lateral) follows it, C90 (vertical) stays at the peak
+    const data = table('A', steps(-90, 90, 5), steps(-90, 90, 5), h => 100 * Math.cos((h * Math.PI) / 180));
+    const beam = toBeamPattern(data);
+    expect(beam.peakCandela).toBeCloseTo(100, 6);
+    expect(beam.warnings[0]).toMatch(/^Type A photometry resampled/);
+    expect(getBeamIntensityAsymmetric(beam.pattern, 40, 0)).toBeCloseTo(Math.cos((40 * Math.PI) / 180), 2);
+    expect(getBeamIntensityAsymmetric(beam.pattern, 40, 90)).toBeCloseTo(1, 3);
+  });
+
+  it('resamples type B (planes about the lateral axis) onto C-planes, mirroring half tables', () => {
+    // Only positive V stored: mirror symmetric about the horizontal plane
+    const data = table('B', steps(-90, 90, 5), steps(0, 90, 5), (_, v) => 100 * Math.cos((v * Math.PI) / 180));
+    const beam = toBeamPattern(data);
+    expect(getBeamIntensityAsymmetric(beam.pattern, 30, 90)).toBeCloseTo(Math.cos((30 * Math.PI) / 180), 2);
+    expect(getBeamIntensityAsymmetric(beam.pattern, 30, 270)).toBeCloseTo(Math.cos((30 * Math.PI) / 180), 2);
+    expect(getBeamIntensityAsymmetric(beam.pattern, 30, 0)).toBeCloseTo(1, 3);
+  });
+
+  it('rejects distributions without forward light', () => {
+    expect(() => toBeamPattern(table('A', [0, 10], [0, 10], () => 0))).toThrow(/^Line 1: distribution has no positive intensity/);
+  });
+});
@@ -0,0 +1,233 @@
+import { BeamPattern, BeamPlane } from '../types';
+
+/**
+ * Photometric coordinate system of a candela table.
+ * C: C-planes around the optical axis, gamma from the axis (our native system).
+ * B: planes rotate about the lateral (horizontal) axis, H measured within the plane.
+ * A: planes rotate about the vertical axis, V measured as elevation.
+ */
+export type PhotometricType = 'A' | 'B' | 'C';
+
+/**
+ * Format-independent candela table produced by the IES and EULUMDAT parsers.
+ * For type C the horizontal angles follow the BeamPattern symmetry convention
+ * (single plane, C0-C90, C0-C180 or a full circle); parsers expand other symmetries.
+ */
+export interface PhotometricData {
+  format: 'IES' | 'LDT';
+  version: string;
+  photometricType: PhotometricType;
+  metadata: Record<string, string>;
+  verticalAngles: number[];
+  horizontalAngles: number[];
+  candela: number[][]; // [horizontal][vertical], absolute cd
+}
+
+export interface ImportedBeam {
+  pattern: BeamPattern;
+  peakCandela: number;
+  warnings: string[];
+}
+
+/**
+ * Parse failure pointing at the offending (1-based) line of the source file.
+ */
+export class PhotometricParseError extends Error {
+  line: number;
+
+  constructor(line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'PhotometricParseError';
+    this.line = line;
+  }
+}
+
+export interface Token {
+  text: string;
+  line: number;
+}
+
+/**
+ * Splits lines into whitespace/comma separated tokens, remembering their line numbers.
+ */
+export const tokenize = (lines: string[], firstLine: number): Token[] => {
+  const tokens: Token[] = [];
+  for (let i = firstLine; i < lines.length; i++) {
+    for (const text of lines[i].split(/[\s,]+/)) {
+      if (text) tokens.push({ text, line: i + 1 });
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Sequential reader over a token stream with numeric validation.
+ */
+export const createTokenReader = (tokens: Token[], lastLine: number) => {
+  let pos = 0;
+
+  const next = (what: string): Token => {
+    if (pos >= tokens.length) throw new PhotometricParseError(lastLine, `unexpected end of file, expected ${what}`);
+    return tokens[pos++];
+  };
+
+  const number = (what: string): number => {
+    const t = next(what);
+    const v = Number(t.text);
+    if (!Number.isFinite(v)) throw new PhotometricParseError(t.line, `expected ${what}, got '${t.text}'`);
+    return v;
+  };
+
+  const integer = (what: string, min: number = -Infinity): number => {
+    const t = tokens[pos];
+    const v = number(what);
+    if (!Number.isInteger(v) || v < min) throw new PhotometricParseError(t.line, `${what} must be an integer >= ${min}, got '${t.text}'`);
+    return v;
+  };
+
+  const numbers = (count: number, what: string): number[] => {
+    const out: number[] = [];
+    for (let i = 0; i < count; i++) out.push(number(`${what} (${i + 1} of ${count})`));
+    return out;
+  };
+
+  return { next, number, integer, numbers, peekLine: () => tokens[Math.min(pos, tokens.length - 1)]?.line ?? lastLine };
+};
+
+/**
+ * Throws unless the angles are strictly ascending.
+ */
+export const assertAscending = (angles: number[], what: string, line: number) => {
+  for (let i = 1; i < angles.length; i++) {
+    if (angles[i] <= angles[i - 1]) {
+      throw new PhotometricParseError(line, `${what} must be strictly ascending (${angles[i - 1]} followed by ${angles[i]})`);
+    }
+  }
+};
+
+/**
+ * Expands a table that is symmetric about the C90-C270 plane (I(c) = I(180 - c))
+ * into a full 0-360° table.
+ */
+export const expandC90Symmetry = (horizontalAngles: number[], candela: number[][]) => {
+  const map = new Map<number, number[]>();
+  horizontalAngles.forEach((h, i) => {
+    map.set(((h % 360) + 360) % 360, candela[i]);
+    map.set(((180 - h) % 360 + 360) % 360, candela[i]);
+  });
+  const angles = [...map.keys()].sort((a, b) => a - b);
+  return { horizontalAngles: angles, candela: angles.map(a => map.get(a)!) };
+};
+
+// Bilinear lookup in a table indexed by ascending axes, clamped at the edges
+const sampleTable = (xs: number[], ys: number[], table: number[][], x: number, y: number): number => {
+  const locate = (axis: number[], v: number) => {
+    if (v <= axis[0]) return { i: 0, t: 0 };
+    if (v >= axis[axis.length - 1]) return { i: Math.max(0, axis.length - 2), t: axis.length > 1 ? 1 : 0 };
+    let i = 0;
+    while (axis[i + 1] < v) i++;
+    return { i, t: (v - axis[i]) / (axis[i + 1] - axis[i]) };
+  };
+  const a = locate(xs, x);
+  const b = locate(ys, y);
+  const row = (i: number) => table[Math.min(i, xs.length - 1)];
+  const at = (r: number[], j: number) => r[Math.min(j, ys.length - 1)];
+  const r0 = row(a.i);
+  const r1 = row(a.i + 1);
+  const v0 = at(r0, b.i) + (at(r0, b.i + 1) - at(r0, b.i)) * b.t;
+  const v1 = at(r1, b.i) + (at(r1, b.i + 1) - at(r1, b.i)) * b.t;
+  return v0 + (v1 - v0) * a.t;
+};
+
+const RESAMPLE_C_STEP = 15;
+const RESAMPLE_GAMMA_STEP = 2;
+
+/**
+ * Resamples a type A or B table onto C-planes.
+ * Direction for (gamma, C): right = sinγ·cosC, up = sinγ·sinC, forward = cosγ.
+ */
+const resampleToCPlanes = (data: PhotometricData): { c: number; gammas: number[]; values: number[] }[] => {
+  const hs = data.horizontalAngles;
+  const vs = data.verticalAngles;
+  // Tables that only cover positive angles are mirror symmetric about 0
+  const hSym = hs[0] >= 0;
+  const vSym = vs[0] >= 0;
+  const toRad = Math.PI / 180;
+
+  const gammas: number[] = [];
+  for (let g = 0; g <= 90; g += RESAMPLE_GAMMA_STEP) gammas.push(g);
+
+  const planes = [];
+  for (let c = 0; c < 360; c += RESAMPLE_C_STEP) {
+    const values = gammas.map(g => {
+      const right = Math.sin(g * toRad) * Math.cos(c * toRad);
+      const up = Math.sin(g * toRad) * Math.sin(c * toRad);
+      const fwd = Math.cos(g * toRad);
+      let H: number, V: number;
+      if (data.photometricType === 'B') {
+        H = Math.asin(Math.max(-1, Math.min(1, right))) / toRad;
+        V = Math.atan2(up, fwd) / toRad;
+      } else {
+        V = Math.asin(Math.max(-1, Math.min(1, up))) / toRad;
+        H = Math.atan2(right, fwd) / toRad;
+      }
+      if (hSym) H = Math.abs(H);
+      if (vSym) V = Math.abs(V);
+      return sampleTable(hs, vs, data.candela, H, V);
+    });
+    planes.push({ c, gammas, values });
+  }
+  return planes;
+};
+
+const round4 = (v: number) => Math.round(v * 1e4) / 1e4;
+
+/**
+ * Converts a parsed candela table into the simulator's normalised BeamPattern.
+ * The optical axis is gamma = 0 (nadir for type C files); anything beyond 90° is
+ * behind the emitter and dropped, since the physics culls the back hemisphere anyway.
+ */
+export const toBeamPattern = (data: PhotometricData): ImportedBeam => {
+  const warnings: string[] = [];
+
+  let raw: { c: number; gammas: number[]; values: number[] }[];
+  if (data.photometricType === 'C') {
+    raw = data.horizontalAngles.map((c, i) => {
+      const gammas: number[] = [];
+      const values: number[] = [];
+      data.verticalAngles.forEach((g, j) => {
+        if (g <= 90) {
+          gammas.push(g);
+          values.push(data.candela[i][j]);
+        }
+      });
+      return { c, gammas, values };
+    });
+    // A closing 360° plane duplicates C0
+    if (raw.length > 1 && raw[raw.length - 1].c >= 360 && raw[0].c === 0) raw.pop();
+    const backPeak = Math.max(...data.candela.flat());
+    const frontPeak = Math.max(0, ...raw.flatMap(p => p.values));
+    if (backPeak > frontPeak * 1.001) {
+      warnings.push('Peak intensity lies beyond 90° from the axis and was discarded; check the file orientation.');
+    }
+  } else {
+    warnings.push(`Type ${data.photometricType} photometry resampled onto C-planes every ${RESAMPLE_C_STEP}°.`);
+    raw = resampleToCPlanes(data);
+  }
+
+  if (raw.length === 0 || raw[0].gammas.length === 0) {
+    throw new PhotometricParseError(1, 'distribution contains no angles within 90° of the optical axis');
+  }
+
+  const peakCandela = Math.max(...raw.flatMap(p => p.values));
+  if (!(peakCandela > 0)) {
+    throw new PhotometricParseError(1, 'distribution has no positive intensity in the forward hemisphere');
+  }
+
+  const planes: BeamPlane[] = raw.map(p => ({
+    c: p.c,
+    points: p.gammas.map((angle, j) => ({ angle, intensity: round4(p.values[j] / peakCandela) }))
+  }));
+
+  return { pattern: { planes }, peakCandela, warnings };
+};
@@ -0,0 +1,320 @@
+import { create } from 'd3';
+import { LevelContours, Point } from '../types';
+import { getLabelAnchor } from './contourStats';
+import { MARGIN_LEFT, MARGIN_RIGHT, MARGIN_TOP, PlotLimits, createViewMapping, getGridStep, getGridTicks, formatTick } from './plotLayout';
+
+const LEGEND_WIDTH = 260;
+const LEGEND_PAD = 12;
+const LEGEND_ROW = 20;
+const COLOR_BAR_HEIGHT = 40; // Title, bar and end labels
+const CAPTION_LINE = 18;
+const CAPTION_PAD = 14;
+
+/**
+ * One isoline of the legend: label, stroke colour and dash pattern.
+ */
+export interface LegendEntry {
+  label: string;
+  color: string;
+  dash: number[];
+}
+
+/**
+ * Field colour scale as drawn in the legend: evenly spaced colours from low to high.
+ */
+export interface ColorBar {
+  title: string;
+  colors: string[];
+  low: string;
+  high: string;
+}
+
+/**
+ * Optimizer target region as drawn: closed rings (even-odd) in plane coordinates, shaded when it is an exclusion zone.
+ */
+export interface FigureRegion {
+  paths: Point[][];
+  anchor: Point | null;
+  name: string;
+  color: string;
+  fill: boolean;
+}
+
+/**
+ * Obtrusive-light receptor as drawn: a dot in plane coordinates, ringed and named when it offends.
+ */
+export interface FigureReceptor {
+  at: Point;
+  name: string;
+  color: string;
+  offending: boolean;
+}
+
+/**
+ * What a report figure adds around the plot: the legend in its top-right corner and a
+ * caption band under it.
+ */
+export interface FigureDecorations {
+  legend: LegendEntry[];
+  colorBar: ColorBar;
+  caption: string[];
+}
+
+/**
+ * A heatmap as vector figure. Geometry is in plane coordinates; field is the grid image
+ * (a across, b along, as the grid stores it).
+ */
+export interface PlotFigure extends FigureDecorations {
+  viewType: 'top' | 'side';
+  limits: PlotLimits;
+  width: number;      // Logical px
+  plotHeight: number;
+  height: number;     // Plot plus caption band
+  widthMm: number;    // Printed size
+  heightMm: number;
+  field: { href: string; width: number; height: number };
+  title?: string;
+  axisLabels: { x: string; y: string };
+  contours: LevelContours[];
+  contourWidth: number;
+  target?: Point[];
+  regions?: FigureRegion[];
+  receptors?: FigureReceptor[];
+  leds: { origin: Point; tip: Point; edges: [Point, Point] }[];
+}
+
+export const getCaptionHeight = (caption: string[]) =>
+  caption.length > 0 ? CAPTION_PAD * 2 + caption.length * CAPTION_LINE : 0;
+
+const getLegendBox = (width: number, entries: number) => ({
+  x: width - MARGIN_RIGHT - 14 - LEGEND_WIDTH,
+  y: MARGIN_TOP + 14,
+  w: LEGEND_WIDTH,
+  h: LEGEND_PAD * 2 + COLOR_BAR_HEIGHT + entries * LEGEND_ROW
+});
+
+/**
+ * LEGEND AND CAPTION (canvas)
+ * Drawn over a plot of the given logical size, in the context's current transform.
+ */
+export const drawDecorations = (ctx: CanvasRenderingContext2D, deco: FigureDecorations, width: number, plotHeight: number) => {
+  const box = getLegendBox(width, deco.legend.length);
+  const left = box.x + LEGEND_PAD;
+  const barWidth = box.w - LEGEND_PAD * 2;
+  ctx.save();
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.roundRect(box.x, box.y, box.w, box.h, 10);
+  ctx.fill();
+  ctx.stroke();
+
+  const { colorBar } = deco;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.font = 'bold 11px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillText(colorBar.title, left, box.y + LEGEND_PAD);
+  const gradient = ctx.createLinearGradient(left, 0, left + barWidth, 0);
+  colorBar.colors.forEach((c, i) => gradient.addColorStop(i / (colorBar.colors.length - 1), c));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(left, box.y + LEGEND_PAD + 15, barWidth, 8);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.font = '10px monospace';
+  ctx.fillText(colorBar.low, left, box.y + LEGEND_PAD + 26);
+  ctx.textAlign = 'right';
+  ctx.fillText(colorBar.high, left + barWidth, box.y + LEGEND_PAD + 26);
+
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.font = 'bold 12px sans-serif';
+  deco.legend.forEach((entry, i) => {
+    const y = box.y + LEGEND_PAD + COLOR_BAR_HEIGHT + i * LEGEND_ROW + LEGEND_ROW / 2;
+    ctx.strokeStyle = entry.color;
+    ctx.lineWidth = 2;
+    ctx.setLineDash(entry.dash);
+    ctx.beginPath();
+    ctx.moveTo(left, y);
+    ctx.lineTo(left + 28, y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.fillStyle = entry.color;
+    ctx.fillText(entry.label, left + 38, y);
+  });
+
+  if (deco.caption.length > 0) {
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.beginPath();
+    ctx.moveTo(20, plotHeight);
+    ctx.lineTo(width - 20, plotHeight);
+    ctx.stroke();
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+    ctx.font = '13px monospace';
+    ctx.textBaseline = 'top';
+    deco.caption.forEach((line, i) => ctx.fillText(line, 20, plotHeight + CAPTION_PAD + i * CAPTION_LINE));
+  }
+  ctx.restore();
+};
+
+const toPath = (points: Point[], close = false) =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x.toFixed(2)} ${p.y.toFixed(2)}`).join('') + (close ? 'Z' : '');
+
+/**
+ * HEATMAP AS SVG
+ * The same layout as the canvas plot: field as an embedded image, everything else as vectors
+ * (grid and ticks, isolines and their labels, target box and regions, receptors, LED arrows, titles, legend, caption).
+ */
+export const buildPlotSvg = (figure: PlotFigure): SVGSVGElement => {
+  const { viewType, limits, width, plotHeight, height, field } = figure;
+  const { minX, maxX, minY, maxY } = limits;
+  const { toCanvas, drawWidth, drawHeight } = createViewMapping(viewType, limits, width, plotHeight);
+  const toScreen = (p: Point) => toCanvas(p.x, p.y);
+
+  const svg = create('svg')
+    .attr('width', `${figure.widthMm.toFixed(1)}mm`)
+    .attr('height', `${figure.heightMm.toFixed(1)}mm`)
+    .attr('viewBox', `0 0 ${width} ${height}`)
+    .attr('font-family', 'sans-serif');
+  svg.append('rect').attr('width', width).attr('height', height).attr('fill', '#000');
+
+  const defs = svg.append('defs');
+  defs.append('clipPath').attr('id', 'plot-area')
+    .append('rect').attr('x', MARGIN_LEFT).attr('y', MARGIN_TOP).attr('width', drawWidth).attr('height', drawHeight);
+  const gradient = defs.append('linearGradient').attr('id', 'field-scale');
+  figure.colorBar.colors.forEach((c, i) => gradient.append('stop')
+    .attr('offset', i / (figure.colorBar.colors.length - 1)).attr('stop-color', c));
+
+  // Field: the grid image mapped like the canvas (side view swaps axes, top view flips b)
+  const transform = viewType === 'side'
+    ? `translate(${MARGIN_LEFT} ${MARGIN_TOP}) matrix(0 1 1 0 0 0) scale(${drawWidth / field.height} ${drawHeight / field.width})`
+    : `translate(${MARGIN_LEFT} ${MARGIN_TOP + drawHeight}) scale(${drawWidth / field.width} ${-drawHeight / field.height})`;
+  svg.append('g').attr('clip-path', 'url(#plot-area)')
+    .append('image')
+    .attr('xlink:href', field.href) // SVG 1.1 form, for drawing programs
+    .attr('width', field.width)
+    .attr('height', field.height)
+    .attr('preserveAspectRatio', 'none')
+    .attr('transform', transform);
+
+  // Grid lines and ticks: a runs down the screen in the side view, across it in the top view
+  const step = getGridStep(Math.max(maxX - minX, maxY - minY));
+  const grid = svg.append('g')
+    .attr('stroke', 'rgba(255,255,255,0.15)').attr('stroke-dasharray', '4 6')
+    .attr('font-family', 'monospace').attr('font-size', 12).attr('font-weight', 'bold');
+  const tick = (at: Point, across: boolean, label: string | null) => {
+    if (across) grid.append('line').attr('x1', at.x).attr('x2', at.x).attr('y1', MARGIN_TOP).attr('y2', MARGIN_TOP + drawHeight);
+    else grid.append('line').attr('x1', MARGIN_LEFT).attr('x2', MARGIN_LEFT + drawWidth).attr('y1', at.y).attr('y2', at.y);
+    if (label === null) return;
+    const text = grid.append('text').attr('stroke', 'none').attr('fill', 'rgba(255,255,255,0.7)').text(label);
+    if (across) text.attr('x', at.x).attr('y', MARGIN_TOP + drawHeight + 10).attr('text-anchor', 'middle').attr('dominant-baseline', 'hanging');
+    else text.attr('x', MARGIN_LEFT - 10).attr('y', at.y).attr('text-anchor', 'end').attr('dominant-baseline', 'middle');
+  };
+  getGridTicks(minX, maxX, step).forEach(val => {
+    const shown = viewType === 'top' || Math.abs(val) > 1e-10 || minX < 0;
+    tick(toCanvas(val, minY), viewType === 'top', shown ? `${formatTick(val)}m` : null);
+  });
+  getGridTicks(minY, maxY, step).forEach(val => {
+    tick(toCanvas(minX, val), viewType === 'side', val > minY ? `${formatTick(val)}m` : null);
+  });
+
+  const plot = svg.append('g').attr('clip-path', 'url(#plot-area)');
+
+  if (figure.target) {
+    const corners = figure.target.map(toScreen);
+    plot.append('path').attr('d', toPath(corners, true))
+      .attr('fill', 'none').attr('stroke', 'rgba(250,204,21,0.6)').attr('stroke-width', 3).attr('stroke-dasharray', '10 10');
+    plot.append('text').attr('x', corners[2].x + 10).attr('y', corners[2].y - 10)
+      .attr('fill', 'rgba(250,204,21,0.8)').attr('font-size', 16).attr('font-weight', 'bold').text('TARGET');
+  }
+
+  figure.regions?.forEach(r => {
+    plot.append('path').attr('d', r.paths.map(p => toPath(p.map(toScreen), true)).join(''))
+      .attr('fill', r.fill ? r.color : 'none').attr('fill-opacity', r.fill ? 0.18 : null).attr('fill-rule', 'evenodd')
+      .attr('stroke', r.color).attr('stroke-width', 2).attr('stroke-dasharray', '10 6');
+    if (r.anchor) {
+      const a = toScreen(r.anchor);
+      plot.append('text').attr('x', a.x).attr('y', a.y).attr('text-anchor', 'middle').attr('dominant-baseline', 'middle')
+        .attr('fill', r.color).attr('font-size', 13).attr('font-weight', 'bold').text(r.name.toUpperCase());
+    }
+  });
+
+  figure.contours.forEach(({ level, paths }, idx) => {
+    const d = paths.filter(p => p.length >= 2).map(p => toPath(p.map(toScreen))).join('');
+    if (!d) return;
+    plot.append('path').attr('d', d)
+      .attr('fill', 'none').attr('stroke', level.color).attr('stroke-linejoin', 'round')
+      .attr('stroke-width', figure.contourWidth - Math.min(idx, 1) * 0.5)
+      .attr('stroke-dasharray', figure.legend[idx]?.dash.join(' ') || null);
+    const anchor = getLabelAnchor(paths);
+    if (anchor) {
+      const a = toScreen(anchor);
+      plot.append('text').attr('x', a.x + 6).attr('y', a.y - 4)
+        .attr('fill', level.color).attr('font-size', 13).attr('font-weight', 'bold').text(level.name);
+    }
+  });
+
+  figure.receptors?.forEach(r => {
+    const a = toScreen(r.at);
+    plot.append('circle').attr('cx', a.x).attr('cy', a.y).attr('r', 5).attr('fill', r.color).attr('stroke', '#fff').attr('stroke-width', 1);
+    if (r.offending) {
+      plot.append('circle').attr('cx', a.x).attr('cy', a.y).attr('r', 11).attr('fill', 'none').attr('stroke', r.color).attr('stroke-width', 2);
+      plot.append('text').attr('x', a.x + 14).attr('y', a.y).attr('dominant-baseline', 'middle')
+        .attr('fill', r.color).attr('font-size', 12).attr('font-weight', 'bold').text(r.name);
+    }
+  });
+
+  const centre = [toCanvas(0, minY), toCanvas(0, maxY)];
+  plot.append('path').attr('d', toPath(centre)).attr('stroke', 'rgba(255,255,255,0.4)').attr('stroke-width', 1);
+
+  figure.leds.forEach(({ origin, tip, edges }) => {
+    const o = toScreen(origin);
+    plot.append('path').attr('d', toPath([o, toScreen(edges[0]), toScreen(edges[1])], true)).attr('fill', 'rgba(6,182,212,0.1)');
+    plot.append('path').attr('d', toPath([o, toScreen(tip)]))
+      .attr('stroke', '#06b6d4').attr('stroke-width', 2).attr('stroke-linecap', 'round');
+    plot.append('circle').attr('cx', o.x).attr('cy', o.y).attr('r', 2).attr('fill', '#fff');
+  });
+  const origin = toCanvas(0, 0);
+  plot.append('circle').attr('cx', origin.x).attr('cy', origin.y).attr('r', 4).attr('fill', '#fff');
+
+  if (figure.title) {
+    svg.append('text').attr('x', 20).attr('y', 15).attr('dominant-baseline', 'hanging')
+      .attr('fill', '#fff').attr('font-size', 20).attr('font-weight', 'bold').text(figure.title);
+  }
+  svg.append('text').attr('x', MARGIN_LEFT + drawWidth / 2).attr('y', plotHeight - 15).attr('text-anchor', 'middle')
+    .attr('fill', 'rgba(255,255,255,0.5)').attr('font-size', 14).text(figure.axisLabels.x);
+  svg.append('text').attr('transform', `translate(20 ${MARGIN_TOP + drawHeight / 2}) rotate(-90)`).attr('text-anchor', 'middle')
+    .attr('fill', 'rgba(255,255,255,0.5)').attr('font-size', 14).text(figure.axisLabels.y);
+
+  // Legend
+  const box = getLegendBox(width, figure.legend.length);
+  const left = box.x + LEGEND_PAD;
+  const barWidth = box.w - LEGEND_PAD * 2;
+  const legend = svg.append('g');
+  legend.append('rect').attr('x', box.x).attr('y', box.y).attr('width', box.w).attr('height', box.h).attr('rx', 10)
+    .attr('fill', 'rgba(0,0,0,0.6)').attr('stroke', 'rgba(255,255,255,0.1)');
+  legend.append('text').attr('x', left).attr('y', box.y + LEGEND_PAD).attr('dominant-baseline', 'hanging')
+    .attr('fill', 'rgba(255,255,255,0.7)').attr('font-size', 11).attr('font-weight', 'bold').text(figure.colorBar.title);
+  legend.append('rect').attr('x', left).attr('y', box.y + LEGEND_PAD + 15).attr('width', barWidth).attr('height', 8).attr('fill', 'url(#field-scale)');
+  [[left, 'start', figure.colorBar.low], [left + barWidth, 'end', figure.colorBar.high]].forEach(([x, anchor, label]) => {
+    legend.append('text').attr('x', x).attr('y', box.y + LEGEND_PAD + 26).attr('dominant-baseline', 'hanging').attr('text-anchor', anchor)
+      .attr('fill', 'rgba(255,255,255,0.6)').attr('font-family', 'monospace').attr('font-size', 10).text(label);
+  });
+  figure.legend.forEach((entry, i) => {
+    const y = box.y + LEGEND_PAD + COLOR_BAR_HEIGHT + i * LEGEND_ROW + LEGEND_ROW / 2;
+    legend.append('line').attr('x1', left).attr('x2', left + 28).attr('y1', y).attr('y2', y)
+      .attr('stroke', entry.color).attr('stroke-width', 2).attr('stroke-dasharray', entry.dash.join(' ') || null);
+    legend.append('text').attr('x', left + 38).attr('y', y).attr('dominant-baseline', 'middle')
+      .attr('fill', entry.color).attr('font-size', 12).attr('font-weight', 'bold').text(entry.label);
+  });
+
+  // Caption
+  if (figure.caption.length > 0) {
+    svg.append('line').attr('x1', 20).attr('x2', width - 20).attr('y1', plotHeight).attr('y2', plotHeight).attr('stroke', 'rgba(255,255,255,0.15)');
+    const caption = svg.append('g').attr('fill', 'rgba(255,255,255,0.75)').attr('font-family', 'monospace').attr('font-size', 13);
+    figure.caption.forEach((line, i) => caption.append('text')
+      .attr('x', 20).attr('y', plotHeight + CAPTION_PAD + i * CAPTION_LINE).attr('dominant-baseline', 'hanging').text(line));
+  }
+
+  return svg.node() as SVGSVGElement;
+};
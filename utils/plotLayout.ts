@@ -0,0 +1,66 @@
+import { Point } from '../types';
+
+// Plot margins (canvas px)
+export const MARGIN_LEFT = 70;
+export const MARGIN_BOTTOM = 60;
+export const MARGIN_TOP = 50;
+export const MARGIN_RIGHT = 30;
+
+export interface PlotLimits {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/**
+ * Plane coordinates (a, b) to canvas pixels and back. The top view puts a across and b up
+ * the screen; the side view puts b (distance) across and a (height) down the screen.
+ */
+export const createViewMapping = (viewType: 'top' | 'side', limits: PlotLimits, canvasWidth: number, canvasHeight: number) => {
+  const { minX, maxX, minY, maxY } = limits;
+  const drawWidth = canvasWidth - MARGIN_LEFT - MARGIN_RIGHT;
+  const drawHeight = canvasHeight - MARGIN_TOP - MARGIN_BOTTOM;
+  const toCanvas = (a: number, b: number): Point => viewType === 'side'
+    ? { x: MARGIN_LEFT + ((b - minY) / (maxY - minY)) * drawWidth, y: MARGIN_TOP + ((a - minX) / (maxX - minX)) * drawHeight }
+    : { x: MARGIN_LEFT + ((a - minX) / (maxX - minX)) * drawWidth, y: MARGIN_TOP + drawHeight - ((b - minY) / (maxY - minY)) * drawHeight };
+  const toPlane = (sx: number, sy: number): Point => viewType === 'side'
+    ? { x: minX + ((sy - MARGIN_TOP) / drawHeight) * (maxX - minX), y: minY + ((sx - MARGIN_LEFT) / drawWidth) * (maxY - minY) }
+    : { x: minX + ((sx - MARGIN_LEFT) / drawWidth) * (maxX - minX), y: minY + ((MARGIN_TOP + drawHeight - sy) / drawHeight) * (maxY - minY) };
+  const inPlot = (sx: number, sy: number) =>
+    sx >= MARGIN_LEFT && sx <= MARGIN_LEFT + drawWidth && sy >= MARGIN_TOP && sy <= MARGIN_TOP + drawHeight;
+  return { toCanvas, toPlane, inPlot, drawWidth, drawHeight };
+};
+
+/**
+ * Grid spacing giving about ten lines over the range, on a 1-2-5 sequence.
+ */
+export const getGridStep = (range: number) => {
+  if (range <= 1e-6) return 100;
+  const targetTicks = 10; // Aim for ~10 ticks
+  const rawStep = range / targetTicks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const residual = rawStep / magnitude;
+
+  if (residual > 5) return 10 * magnitude;
+  if (residual > 2) return 5 * magnitude;
+  if (residual > 1) return 2 * magnitude;
+  return magnitude;
+};
+
+/**
+ * Multiples of step within [min, max], rounded to the mm.
+ */
+export const getGridTicks = (min: number, max: number, step: number): number[] => {
+  const ticks: number[] = [];
+  for (let t = Math.ceil(min / step) * step; t <= max + step * 0.001; t += step) {
+    const val = Math.round(t * 1000) / 1000;
+    if (val >= min && val <= max) ticks.push(val);
+  }
+  return ticks;
+};
+
+export const formatTick = (val: number) => {
+  if (Math.abs(val) >= 10000) return `${val / 1000}k`;
+  return `${val}`;
+};
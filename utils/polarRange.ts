@@ -0,0 +1,100 @@
+import { FieldModel, Point3D } from '../types';
+import { getSurfaceZ } from '../physics';
+import { getSourceHorizons, samplePoint } from './simulationJobs';
+
+const DEG = Math.PI / 180;
+
+// Samples per ray before the last crossing is refined
+const MARCH_STEPS = 400;
+const REFINE_STEPS = 16;
+
+/**
+ * A unit of work for the polar worker: ray-march both sections of the primary beacon.
+ */
+export interface PolarJob {
+  model: FieldModel;
+  threshold: number;
+  maxRange: number;       // m, farthest distance searched along any ray
+  stepDeg: number;        // Angular step of the rays
+  surfaceHeight?: number; // With a horizon model, the horizontal rays follow this eye height over the curved surface
+}
+
+export interface PolarRange {
+  angle: number; // deg
+  range: number; // m, farthest distance at which the field still reaches the threshold
+}
+
+export interface PolarJobResult {
+  horizontal: PolarRange[]; // By bearing, clockwise from forward (+Y)
+  vertical: PolarRange[];   // By elevation in the forward vertical plane: 0 forward, 90 up, 180 behind, 270 down
+}
+
+/**
+ * Visible range along one ray from the origin. The field need not fall monotonically
+ * (terrain shadows, further beacons), so the whole ray is marched and the last lit
+ * sample is refined by bisection.
+ */
+const marchRay = (maxRange: number, isLit: (d: number) => boolean): number => {
+  const step = maxRange / MARCH_STEPS;
+  let last = -1;
+  for (let k = 1; k <= MARCH_STEPS; k++) {
+    if (isLit(k * step)) last = k;
+  }
+  if (last < 0) return 0;
+  if (last === MARCH_STEPS) return maxRange;
+  let low = last * step;
+  let high = low + step;
+  for (let i = 0; i < REFINE_STEPS; i++) {
+    const mid = (low + high) * 0.5;
+    if (isLit(mid)) low = mid;
+    else high = mid;
+  }
+  return low;
+};
+
+/**
+ * POLAR RANGE DIAGRAM
+ * Threshold distance from the primary beacon at every bearing (horizontal section, on the
+ * plan view's surface) and at every elevation (vertical section through the forward axis).
+ */
+export const runPolarJob = (job: PolarJob): PolarJobResult => {
+  const { model, threshold, maxRange, stepDeg, surfaceHeight } = job;
+  const horizons = getSourceHorizons(model);
+  const followSurface = model.horizon && surfaceHeight !== undefined;
+  const isLit = (p: Point3D) => samplePoint(model, horizons, p).total >= threshold;
+  const count = Math.round(360 / stepDeg);
+
+  const horizontal: PolarRange[] = [];
+  const vertical: PolarRange[] = [];
+  for (let i = 0; i < count; i++) {
+    const angle = i * stepDeg;
+    const s = Math.sin(angle * DEG);
+    const c = Math.cos(angle * DEG);
+    horizontal.push({
+      angle,
+      range: marchRay(maxRange, d => isLit({
+        x: d * s,
+        y: d * c,
+        z: followSurface ? getSurfaceZ(model.horizon!, d) + (surfaceHeight as number) : 0
+      }))
+    });
+    vertical.push({ angle, range: marchRay(maxRange, d => isLit({ x: 0, y: d * c, z: d * s })) });
+  }
+  return { horizontal, vertical };
+};
+
+/**
+ * CSV of both sections. True bearings are added when the beacon is geo-referenced.
+ */
+export const generatePolarCSV = (result: PolarJobResult, trueHeading?: number): string => {
+  const header = trueHeading === undefined ? 'section,angle_deg,range_m' : 'section,angle_deg,true_bearing_deg,range_m';
+  const rows = [
+    ...result.horizontal.map(r => trueHeading === undefined
+      ? `bearing,${r.angle},${r.range.toFixed(1)}`
+      : `bearing,${r.angle},${(((r.angle + trueHeading) % 360 + 360) % 360).toFixed(1)},${r.range.toFixed(1)}`),
+    ...result.vertical.map(r => trueHeading === undefined
+      ? `elevation,${r.angle},${r.range.toFixed(1)}`
+      : `elevation,${r.angle},,${r.range.toFixed(1)}`)
+  ];
+  return [header, ...rows].join('\n');
+};
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationParams } from '../types';
+import {
+  DEFAULT_ARRAY_SETTINGS, DEFAULT_ATMOSPHERE, DEFAULT_BEAM_PATTERN, DEFAULT_CONTOUR_LEVELS, DEFAULT_FLASH_CHARACTER,
+  DEFAULT_GEO_REFERENCE, DEFAULT_GRID_LIMITS, DEFAULT_HORIZON_SETTINGS, DEFAULT_MOUNTING, DEFAULT_OPT_TARGETS,
+  DEFAULT_ROTATION, DEFAULT_SCENE_SETTINGS, DEFAULT_SLICE, DEFAULT_TERRAIN_SETTINGS, DEFAULT_VISION
+} from '../constants';
+import { PROJECT_FORMAT, PROJECT_VERSION, ProjectState, ProjectValidationError, createProject, migrateProject, validateProject } from './projectFile';
+import { createTargetRegion } from './targetRegions';
+
+const clone = <T,>(v: T): T => JSON.parse(JSON.stringify(v));
+
+const optics = {
+  ledCount: 3,
+  spreadAngle: 45,
+  rowCount: 1,
+  verticalSpreadAngle: 0,
+  peakCandela: 2,
+  wavelength: 525,
+  isFlashing: false,
+  flash: { ...DEFAULT_FLASH_CHARACTER },
+  rotation: { ...DEFAULT_ROTATION },
+  beamPattern: clone(DEFAULT_BEAM_PATTERN),
+  array: { ...DEFAULT_ARRAY_SETTINGS, emitters: [] },
+  mounting: { ...DEFAULT_MOUNTING }
+};
+
+// A session as the app starts it, with one scene beacon so the per-beacon migrations have work to do
+const params: SimulationParams = {
+  ledCount: 3,
+  spreadAngle: 45,
+  rowCount: 1,
+  verticalSpreadAngle: 0,
+  peakCandela: 1,
+  wavelength: 525,
+  logThreshold: -6,
+  isFlashing: false,
+  flash: { ...DEFAULT_FLASH_CHARACTER },
+  rotation: { ...DEFAULT_ROTATION },
+  beamPattern: clone(DEFAULT_BEAM_PATTERN),
+  array: { ...DEFAULT_ARRAY_SETTINGS, emitters: [] },
+  mounting: { ...DEFAULT_MOUNTING },
+  scene: { ...DEFAULT_SCENE_SETTINGS, beacons: [{ id: 'beacon-a', name: 'Beacon 2', enabled: true, x: 100, y: 0, z: 0, heading: 0, optics }], coverageArea: [] },
+  gridLimits: { ...DEFAULT_GRID_LIMITS },
+  atmosphere: { ...DEFAULT_ATMOSPHERE },
+  contourLevels: DEFAULT_CONTOUR_LEVELS.map(l => ({ ...l })),
+  slice: clone(DEFAULT_SLICE),
+  geo: { ...DEFAULT_GEO_REFERENCE },
+  terrain: { ...DEFAULT_TERRAIN_SETTINGS },
+  horizon: { ...DEFAULT_HORIZON_SETTINGS },
+  vision: { ...DEFAULT_VISION },
+  receptors: []
+};
+
+const state: ProjectState = {
+  params,
+  optTargets: { ...DEFAULT_OPT_TARGETS, regions: [] },
+  view: { autoScale: true, showCones: true, showTarget: false, activeTab: '2D' }
+};
+
+// Version each field first appeared in
+const PARAM_SINCE: Record<string, number> = {
+  contourLevels: 2, geo: 3, terrain: 4, horizon: 5, flash: 6, array: 7, scene: 8,
+  mounting: 9, rotation: 10, slice: 11, receptors: 13, vision: 14
+};
+const OPTICS_SINCE: Record<string, number> = { mounting: 9, rotation: 10 };
+
+/**
+ * The session as a file of the given version wrote it: the fields it did not know yet left out.
+ */
+const fixture = (version: number) => {
+  const file = clone(createProject(state)) as any;
+  file.version = version;
+  const drop = (o: any, since: Record<string, number>) => Object.entries(since).forEach(([key, v]) => {
+    if (version < v) delete o[key];
+  });
+  drop(file.params, PARAM_SINCE);
+  file.params.scene?.beacons.forEach((b: any) => drop(b.optics, OPTICS_SINCE));
+  if (version < 12) file.optTargets = { width: 1000, height: 600, range: 2000 };
+  return file;
+};
+
+describe('migrateProject', () => {
+  it('saves at the current version', () => {
+    expect(createProject(state).version).toBe(PROJECT_VERSION);
+    expect(validateProject(clone(createProject(state)))).toMatchObject(state);
+  });
+
+  for (let version = 1; version < PROJECT_VERSION; version++) {
+    it(`brings a version ${version} file up to date`, () => {
+      const project = validateProject(fixture(version));
+      expect(project.version).toBe(PROJECT_VERSION);
+      expect(project.params.contourLevels.length).toBeGreaterThan(0);
+      // Scenes came with version 8; their beacons gain mounting and rotation like the primary
+      expect(project.params.scene.beacons).toHaveLength(version >= 8 ? 1 : 0);
+      project.params.scene.beacons.forEach(b => {
+        expect(b.optics.mounting).toEqual(DEFAULT_MOUNTING);
+        expect(b.optics.rotation).toEqual(DEFAULT_ROTATION);
+      });
+      expect(project.params.mounting).toEqual(DEFAULT_MOUNTING);
+      expect(project.params.rotation).toEqual(DEFAULT_ROTATION);
+      expect(project.params.slice).toEqual(DEFAULT_SLICE);
+      expect(project.optTargets).toMatchObject({ range: 2000, box: true, regions: [] });
+      expect(project.params.receptors).toEqual([]);
+      expect(project.params.vision.mode).toBe('scotopic');
+    });
+  }
+
+  it('keeps files from before curvature on a flat earth', () => {
+    expect(validateProject(fixture(4)).params.horizon.enabled).toBe(false);
+  });
+
+  it('turns geo-referenced sectors of version 14 into true bearings', () => {
+    const file = fixture(14);
+    file.params.geo = { ...file.params.geo, enabled: true, heading: 100 };
+    file.optTargets.regions = [
+      { ...createTargetRegion('include', 'sector', 0), bearingFrom: 300, bearingTo: 20 },
+      createTargetRegion('exclude', 'polygon', 0, [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 10 }])
+    ];
+    const [sector, polygon] = validateProject(file).optTargets.regions;
+    expect(sector).toMatchObject({ bearingFrom: 40, bearingTo: 120 });
+    expect(polygon.points).toEqual(file.optTargets.regions[1].points);
+  });
+
+  it('rejects files from a newer build', () => {
+    expect(() => migrateProject({ format: PROJECT_FORMAT, version: PROJECT_VERSION + 1 })).toThrow(ProjectValidationError);
+  });
+
+  it('rejects other formats and versions', () => {
+    expect(() => migrateProject({ format: 'other', version: 1 })).toThrow("format: expected 'beaconsim-project'");
+    expect(() => migrateProject({ format: PROJECT_FORMAT, version: 0 })).toThrow('version: expected a positive integer');
+  });
+});
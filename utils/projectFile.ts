@@ -0,0 +1,579 @@
+import { SimulationParams, OptTargets, ViewOptions, AppTab, Precipitation, ContourLineStyle, FlashType, PulseShape, EffectiveIntensityMethod, ArrayLayout, BeamPattern, FlashCharacter, ArraySettings, BeaconOptics, SceneSettings, MountingSettings, RotationSettings, RotationAxis, SliceSettings, SliceMode, TargetRegion, TargetRegionKind, TargetRegionShape, Receptor, ReceptorKind, VisionMode } from '../types';
+import { DEFAULT_CONTOUR_LEVELS, DEFAULT_GEO_REFERENCE, DEFAULT_TERRAIN_SETTINGS, DEFAULT_HORIZON_SETTINGS, DEFAULT_FLASH_CHARACTER, DEFAULT_ARRAY_SETTINGS, MAX_EMITTERS, DEFAULT_SCENE_SETTINGS, MAX_SCENE_BEACONS, DEFAULT_MOUNTING, DEFAULT_ROTATION, DEFAULT_SLICE, MAX_TARGET_REGIONS, MAX_RECEPTORS, DEFAULT_VISION } from '../constants';
+
+export const PROJECT_FORMAT = 'beaconsim-project';
+export const PROJECT_VERSION = 15;
+export const PROJECT_FILE_EXTENSION = '.beacon.json';
+export const AUTOSAVE_KEY = 'beaconsim:autosave';
+export const SHARE_HASH_KEY = 'p';
+
+/**
+ * Everything needed to restore a session exactly.
+ */
+export interface ProjectState {
+  params: SimulationParams;
+  optTargets: OptTargets;
+  view: ViewOptions;
+}
+
+export interface ProjectFile extends ProjectState {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+}
+
+/**
+ * Raised when a project does not match the schema; path points at the offending field.
+ */
+export class ProjectValidationError extends Error {
+  path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'ProjectValidationError';
+    this.path = path;
+  }
+}
+
+type Json = Record<string, any>;
+
+/**
+ * Migrations keyed by the version they upgrade FROM. Each returns the next version.
+ */
+const MIGRATIONS: Record<number, (raw: Json) => Json> = {
+  // v1: single threshold isoline only
+  1: raw => ({
+    ...raw,
+    version: 2,
+    params: { ...raw.params, contourLevels: raw.params?.contourLevels ?? DEFAULT_CONTOUR_LEVELS.map(l => ({ ...l })) }
+  }),
+  // v2: no geo-reference
+  2: raw => ({
+    ...raw,
+    version: 3,
+    params: { ...raw.params, geo: raw.params?.geo ?? { ...DEFAULT_GEO_REFERENCE } }
+  }),
+  // v3: no terrain placement
+  3: raw => ({
+    ...raw,
+    version: 4,
+    params: { ...raw.params, terrain: raw.params?.terrain ?? { ...DEFAULT_TERRAIN_SETTINGS } }
+  }),
+  // v4: flat earth; keep it that way so older results are reproduced
+  4: raw => ({
+    ...raw,
+    version: 5,
+    params: { ...raw.params, horizon: raw.params?.horizon ?? { ...DEFAULT_HORIZON_SETTINGS, enabled: false } }
+  }),
+  // v5: flashing meant a fixed 8x conspicuity gain; the nearest real character is the default Fl
+  5: raw => ({
+    ...raw,
+    version: 6,
+    params: { ...raw.params, flash: raw.params?.flash ?? { ...DEFAULT_FLASH_CHARACTER } }
+  }),
+  // v6: every LED at the origin, i.e. the angular fan
+  6: raw => ({
+    ...raw,
+    version: 7,
+    params: { ...raw.params, array: raw.params?.array ?? { ...DEFAULT_ARRAY_SETTINGS, emitters: [] } }
+  }),
+  // v7: a single beacon, no coverage polygon
+  7: raw => ({
+    ...raw,
+    version: 8,
+    params: { ...raw.params, scene: raw.params?.scene ?? { ...DEFAULT_SCENE_SETTINGS, beacons: [], coverageArea: [] } }
+  }),
+  // v8: fixtures mounted upright, facing their heading
+  8: raw => {
+    const mount = (optics: Json | undefined) => ({ ...optics, mounting: optics?.mounting ?? { ...DEFAULT_MOUNTING } });
+    const scene = raw.params?.scene;
+    return {
+      ...raw,
+      version: 9,
+      params: {
+        ...mount(raw.params),
+        scene: scene && Array.isArray(scene.beacons)
+          ? { ...scene, beacons: scene.beacons.map((b: Json) => isObject(b) ? { ...b, optics: mount(b.optics) } : b) }
+          : scene
+      }
+    };
+  },
+  // v9: steady or flashing only
+  9: raw => {
+    const rotate = (optics: Json | undefined) => ({ ...optics, rotation: optics?.rotation ?? { ...DEFAULT_ROTATION } });
+    const scene = raw.params?.scene;
+    return {
+      ...raw,
+      version: 10,
+      params: {
+        ...rotate(raw.params),
+        scene: scene && Array.isArray(scene.beacons)
+          ? { ...scene, beacons: scene.beacons.map((b: Json) => isObject(b) ? { ...b, optics: rotate(b.optics) } : b) }
+          : scene
+      }
+    };
+  },
+  // v10: top and side views only
+  10: raw => ({
+    ...raw,
+    version: 11,
+    params: { ...raw.params, slice: raw.params?.slice ?? { ...DEFAULT_SLICE, origin: { ...DEFAULT_SLICE.origin }, normal: { ...DEFAULT_SLICE.normal } } }
+  }),
+  // v11: the optimizer target was the axis box alone
+  11: raw => ({
+    ...raw,
+    version: 12,
+    optTargets: { ...raw.optTargets, box: raw.optTargets?.box ?? true, regions: raw.optTargets?.regions ?? [] }
+  }),
+  // v12: no obtrusive-light receptors
+  12: raw => ({
+    ...raw,
+    version: 13,
+    params: { ...raw.params, receptors: raw.params?.receptors ?? [] }
+  }),
+  // v13: the observer was always dark-adapted (scotopic)
+  13: raw => ({
+    ...raw,
+    version: 14,
+    params: { ...raw.params, vision: raw.params?.vision ?? { ...DEFAULT_VISION, mode: 'scotopic' } }
+  }),
+  // v14: sector bearings were always from the beacon's forward axis; geo-referenced ones are now true
+  14: raw => {
+    const geo = raw.params?.geo;
+    const regions = raw.optTargets?.regions;
+    if (!geo?.enabled || !Number.isFinite(geo.heading) || !Array.isArray(regions)) return { ...raw, version: 15 };
+    const toTrue = (deg: unknown) => typeof deg === 'number' ? (((deg + geo.heading) % 360) + 360) % 360 : deg;
+    return {
+      ...raw,
+      version: 15,
+      optTargets: {
+        ...raw.optTargets,
+        regions: regions.map((r: Json) => isObject(r) && r.shape === 'sector'
+          ? { ...r, bearingFrom: toTrue(r.bearingFrom), bearingTo: toTrue(r.bearingTo) }
+          : r)
+      }
+    };
+  }
+};
+
+const isObject = (v: unknown): v is Json => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const migrateProject = (raw: unknown): Json => {
+  if (!isObject(raw)) throw new ProjectValidationError('$', 'expected a JSON object');
+  if (raw.format !== PROJECT_FORMAT) throw new ProjectValidationError('format', `expected '${PROJECT_FORMAT}'`);
+  if (!Number.isInteger(raw.version) || raw.version < 1) throw new ProjectValidationError('version', 'expected a positive integer');
+  if (raw.version > PROJECT_VERSION) {
+    throw new ProjectValidationError('version', `file is version ${raw.version}, this build supports up to ${PROJECT_VERSION}`);
+  }
+
+  let project: Json = raw;
+  while (project.version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[project.version];
+    if (!migrate) throw new ProjectValidationError('version', `no migration from version ${project.version}`);
+    project = migrate(project);
+  }
+  return project;
+};
+
+// --- Field validators ---
+
+const num = (obj: Json, key: string, path: string, min: number = -Infinity, max: number = Infinity): number => {
+  const v = obj[key];
+  if (typeof v !== 'number' || !Number.isFinite(v)) throw new ProjectValidationError(`${path}.${key}`, 'expected a finite number');
+  if (v < min || v > max) throw new ProjectValidationError(`${path}.${key}`, `expected a value in [${min}, ${max}], got ${v}`);
+  return v;
+};
+
+const bool = (obj: Json, key: string, path: string): boolean => {
+  const v = obj[key];
+  if (typeof v !== 'boolean') throw new ProjectValidationError(`${path}.${key}`, 'expected true or false');
+  return v;
+};
+
+const oneOf = <T extends string>(obj: Json, key: string, path: string, options: readonly T[]): T => {
+  const v = obj[key];
+  if (!options.includes(v)) throw new ProjectValidationError(`${path}.${key}`, `expected one of ${options.join(', ')}`);
+  return v;
+};
+
+const obj = (parent: Json, key: string, path: string): Json => {
+  const v = parent[key];
+  if (!isObject(v)) throw new ProjectValidationError(`${path}.${key}`, 'expected an object');
+  return v;
+};
+
+const str = (obj: Json, key: string, path: string, pattern?: RegExp): string => {
+  const v = obj[key];
+  if (typeof v !== 'string') throw new ProjectValidationError(`${path}.${key}`, 'expected a string');
+  if (pattern && !pattern.test(v)) throw new ProjectValidationError(`${path}.${key}`, `'${v}' is not in the expected format`);
+  return v;
+};
+
+const arr = (parent: Json, key: string, path: string, allowEmpty: boolean = false): unknown[] => {
+  const v = parent[key];
+  if (!Array.isArray(v) || (!allowEmpty && v.length === 0)) {
+    throw new ProjectValidationError(`${path}.${key}`, allowEmpty ? 'expected an array' : 'expected a non-empty array');
+  }
+  return v;
+};
+
+const PRECIPITATION: readonly Precipitation[] = ['none', 'rain', 'snow'];
+const TABS: readonly AppTab[] = ['2D', '3D', 'HELP'];
+const LINE_STYLES: readonly ContourLineStyle[] = ['solid', 'dashed', 'dotted'];
+const FLASH_TYPES: readonly FlashType[] = ['Fl', 'LFl', 'Q', 'VQ', 'Iso', 'Oc', 'Mo'];
+const PULSE_SHAPES: readonly PulseShape[] = ['rectangular', 'trapezoidal', 'half-sine'];
+const INTENSITY_METHODS: readonly EffectiveIntensityMethod[] = ['blondel-rey', 'schmidt-clausen', 'iala'];
+const ARRAY_LAYOUTS: readonly ArrayLayout[] = ['fan', 'line', 'grid', 'ring', 'dome', 'hemisphere', 'custom'];
+const ROTATION_AXES: readonly RotationAxis[] = ['vertical', 'fixture'];
+const SLICE_MODES: readonly SliceMode[] = ['horizontal', 'vertical', 'custom'];
+const VISION_MODES: readonly VisionMode[] = ['photopic', 'mesopic', 'scotopic'];
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const validateBeamPattern = (beam: Json, path: string): BeamPattern => ({
+  planes: arr(beam, 'planes', path).map((plane, i) => {
+    const pp = `${path}.planes[${i}]`;
+    if (!isObject(plane)) throw new ProjectValidationError(pp, 'expected an object');
+    return {
+      c: num(plane, 'c', pp, 0, 360),
+      points: arr(plane, 'points', pp).map((pt, j) => {
+        const ptp = `${pp}.points[${j}]`;
+        if (!isObject(pt)) throw new ProjectValidationError(ptp, 'expected an object');
+        return { angle: num(pt, 'angle', ptp, 0, 180), intensity: num(pt, 'intensity', ptp, 0) };
+      })
+    };
+  })
+});
+
+const validateFlash = (flash: Json, fp: string): FlashCharacter => ({
+  type: oneOf(flash, 'type', fp, FLASH_TYPES),
+  group: Math.round(num(flash, 'group', fp, 1)),
+  letter: str(flash, 'letter', fp, /^[A-Z0-9]$/i),
+  period: num(flash, 'period', fp, 0.1),
+  flashDuration: num(flash, 'flashDuration', fp, 0.01),
+  pulseShape: oneOf(flash, 'pulseShape', fp, PULSE_SHAPES),
+  riseTime: num(flash, 'riseTime', fp, 0),
+  method: oneOf(flash, 'method', fp, INTENSITY_METHODS)
+});
+
+const validateArray = (array: Json, arp: string): ArraySettings => {
+  const emitters = arr(array, 'emitters', arp, true).map((e, i) => {
+    const ep = `${arp}.emitters[${i}]`;
+    if (!isObject(e)) throw new ProjectValidationError(ep, 'expected an object');
+    if (e.beamPattern !== null && !isObject(e.beamPattern)) throw new ProjectValidationError(`${ep}.beamPattern`, 'expected an object or null');
+    return {
+      x: num(e, 'x', ep), y: num(e, 'y', ep), z: num(e, 'z', ep),
+      h: num(e, 'h', ep), v: num(e, 'v', ep), roll: num(e, 'roll', ep),
+      intensity: num(e, 'intensity', ep, 0),
+      beamPattern: e.beamPattern === null ? null : validateBeamPattern(e.beamPattern, `${ep}.beamPattern`)
+    };
+  });
+  if (emitters.length > MAX_EMITTERS) throw new ProjectValidationError(`${arp}.emitters`, `expected at most ${MAX_EMITTERS} emitters`);
+  const layout = oneOf(array, 'layout', arp, ARRAY_LAYOUTS);
+  if (layout === 'custom' && emitters.length === 0) throw new ProjectValidationError(`${arp}.emitters`, 'a custom layout needs at least one emitter');
+  return {
+    layout,
+    pitch: num(array, 'pitch', arp, 0.001),
+    radius: num(array, 'radius', arp, 0.001),
+    emitters
+  };
+};
+
+const validateRotation = (r: Json, rp: string): RotationSettings => ({
+  enabled: bool(r, 'enabled', rp),
+  rpm: num(r, 'rpm', rp, 0.1, 600),
+  axis: oneOf(r, 'axis', rp, ROTATION_AXES),
+  method: oneOf(r, 'method', rp, INTENSITY_METHODS)
+});
+
+const validateMounting = (m: Json, mp: string): MountingSettings => ({
+  yaw: num(m, 'yaw', mp, -180, 180),
+  pitch: num(m, 'pitch', mp, -90, 90),
+  roll: num(m, 'roll', mp, -180, 180)
+});
+
+const point3 = (parent: Json, key: string, path: string) => {
+  const p = obj(parent, key, path);
+  const pp = `${path}.${key}`;
+  return { x: num(p, 'x', pp), y: num(p, 'y', pp), z: num(p, 'z', pp) };
+};
+
+const validateSlice = (s: Json, sp: string): SliceSettings => {
+  const normal = point3(s, 'normal', sp);
+  if (Math.hypot(normal.x, normal.y, normal.z) < 1e-9) throw new ProjectValidationError(`${sp}.normal`, 'expected a non-zero vector');
+  return {
+    enabled: bool(s, 'enabled', sp),
+    mode: oneOf(s, 'mode', sp, SLICE_MODES),
+    height: num(s, 'height', sp),
+    bearing: num(s, 'bearing', sp, 0, 360),
+    origin: point3(s, 'origin', sp),
+    normal,
+    extent: num(s, 'extent', sp, 1)
+  };
+};
+
+/**
+ * Everything that describes one fixture: shared by the primary beacon and the scene beacons.
+ */
+const validateOptics = (p: Json, path: string): BeaconOptics => ({
+  ledCount: num(p, 'ledCount', path, 1),
+  spreadAngle: num(p, 'spreadAngle', path, 0, 180),
+  rowCount: num(p, 'rowCount', path, 1),
+  verticalSpreadAngle: num(p, 'verticalSpreadAngle', path, 0, 180),
+  peakCandela: num(p, 'peakCandela', path, 0),
+  wavelength: num(p, 'wavelength', path, 300, 1100),
+  isFlashing: bool(p, 'isFlashing', path),
+  flash: validateFlash(obj(p, 'flash', path), `${path}.flash`),
+  rotation: validateRotation(obj(p, 'rotation', path), `${path}.rotation`),
+  beamPattern: validateBeamPattern(obj(p, 'beamPattern', path), `${path}.beamPattern`),
+  array: validateArray(obj(p, 'array', path), `${path}.array`),
+  mounting: validateMounting(obj(p, 'mounting', path), `${path}.mounting`)
+});
+
+const REGION_KINDS: readonly TargetRegionKind[] = ['include', 'exclude'];
+const REGION_SHAPES: readonly TargetRegionShape[] = ['sector', 'polygon'];
+
+const validateTargets = (t: Json, tp: string): OptTargets => {
+  const regions = arr(t, 'regions', tp, true).map((r, i): TargetRegion => {
+    const rp = `${tp}.regions[${i}]`;
+    if (!isObject(r)) throw new ProjectValidationError(rp, 'expected an object');
+    const points = arr(r, 'points', rp, true).map((pt, j) => {
+      const pp = `${rp}.points[${j}]`;
+      if (!isObject(pt)) throw new ProjectValidationError(pp, 'expected an object');
+      return { x: num(pt, 'x', pp), y: num(pt, 'y', pp) };
+    });
+    const shape = oneOf(r, 'shape', rp, REGION_SHAPES);
+    if (shape === 'polygon' && points.length < 3) throw new ProjectValidationError(`${rp}.points`, 'expected a polygon of at least 3');
+    const rangeMin = num(r, 'rangeMin', rp, 0);
+    const zMin = num(r, 'zMin', rp);
+    return {
+      id: str(r, 'id', rp),
+      name: str(r, 'name', rp),
+      kind: oneOf(r, 'kind', rp, REGION_KINDS),
+      shape,
+      bearingFrom: num(r, 'bearingFrom', rp, 0, 360),
+      bearingTo: num(r, 'bearingTo', rp, 0, 360),
+      rangeMin,
+      rangeMax: num(r, 'rangeMax', rp, rangeMin),
+      points,
+      zMin,
+      zMax: num(r, 'zMax', rp, zMin)
+    };
+  });
+  if (regions.length > MAX_TARGET_REGIONS) throw new ProjectValidationError(`${tp}.regions`, `expected at most ${MAX_TARGET_REGIONS} regions`);
+  return {
+    width: num(t, 'width', tp, 0),
+    height: num(t, 'height', tp, 0),
+    range: num(t, 'range', tp, 0),
+    box: bool(t, 'box', tp),
+    regions
+  };
+};
+
+const validateScene = (scene: Json, sp: string): SceneSettings => {
+  const beacons = arr(scene, 'beacons', sp, true).map((b, i) => {
+    const bp = `${sp}.beacons[${i}]`;
+    if (!isObject(b)) throw new ProjectValidationError(bp, 'expected an object');
+    return {
+      id: str(b, 'id', bp),
+      name: str(b, 'name', bp),
+      enabled: bool(b, 'enabled', bp),
+      x: num(b, 'x', bp), y: num(b, 'y', bp), z: num(b, 'z', bp),
+      heading: num(b, 'heading', bp, 0, 360),
+      optics: validateOptics(obj(b, 'optics', bp), `${bp}.optics`)
+    };
+  });
+  if (beacons.length > MAX_SCENE_BEACONS - 1) throw new ProjectValidationError(`${sp}.beacons`, `expected at most ${MAX_SCENE_BEACONS - 1} beacons`);
+  const coverageArea = arr(scene, 'coverageArea', sp, true).map((pt, i) => {
+    const pp = `${sp}.coverageArea[${i}]`;
+    if (!isObject(pt)) throw new ProjectValidationError(pp, 'expected an object');
+    return { x: num(pt, 'x', pp), y: num(pt, 'y', pp) };
+  });
+  if (coverageArea.length > 0 && coverageArea.length < 3) throw new ProjectValidationError(`${sp}.coverageArea`, 'expected no points or a polygon of at least 3');
+  return { beacons, coverageArea };
+};
+
+const RECEPTOR_KINDS: readonly ReceptorKind[] = ['window', 'ground', 'driver'];
+
+const validateReceptors = (p: Json, path: string): Receptor[] => {
+  const receptors = arr(p, 'receptors', path, true).map((r, i): Receptor => {
+    const rp = `${path}.receptors[${i}]`;
+    if (!isObject(r)) throw new ProjectValidationError(rp, 'expected an object');
+    return {
+      id: str(r, 'id', rp),
+      name: str(r, 'name', rp),
+      kind: oneOf(r, 'kind', rp, RECEPTOR_KINDS),
+      x: num(r, 'x', rp), y: num(r, 'y', rp), z: num(r, 'z', rp),
+      facing: num(r, 'facing', rp, 0, 360),
+      width: num(r, 'width', rp, 0),
+      height: num(r, 'height', rp, 0),
+      limit: num(r, 'limit', rp, 0),
+      intensityLimit: r.intensityLimit === null ? null : num(r, 'intensityLimit', rp, 0),
+      adaptation: num(r, 'adaptation', rp, 0.001)
+    };
+  });
+  if (receptors.length > MAX_RECEPTORS) throw new ProjectValidationError(`${path}.receptors`, `expected at most ${MAX_RECEPTORS} receptors`);
+  return receptors;
+};
+
+const validateParams = (p: Json, path: string): SimulationParams => {
+  const limits = obj(p, 'gridLimits', path);
+  const lp = `${path}.gridLimits`;
+  const atmosphere = obj(p, 'atmosphere', path);
+  const ap = `${path}.atmosphere`;
+  const geo = obj(p, 'geo', path);
+  const gp = `${path}.geo`;
+  const terrain = obj(p, 'terrain', path);
+  const tp = `${path}.terrain`;
+  const horizon = obj(p, 'horizon', path);
+  const hp = `${path}.horizon`;
+  const vision = obj(p, 'vision', path);
+  const vp = `${path}.vision`;
+  const contourLevels = arr(p, 'contourLevels', path, true).map((level, i) => {
+    const cp = `${path}.contourLevels[${i}]`;
+    if (!isObject(level)) throw new ProjectValidationError(cp, 'expected an object');
+    return {
+      id: str(level, 'id', cp),
+      name: str(level, 'name', cp),
+      logValue: num(level, 'logValue', cp),
+      color: str(level, 'color', cp, HEX_COLOR),
+      lineStyle: oneOf(level, 'lineStyle', cp, LINE_STYLES)
+    };
+  });
+
+  const optics = validateOptics(p, path);
+
+  return {
+    ...optics,
+    logThreshold: num(p, 'logThreshold', path),
+    scene: validateScene(obj(p, 'scene', path), `${path}.scene`),
+    gridLimits: {
+      minX: num(limits, 'minX', lp), maxX: num(limits, 'maxX', lp),
+      minY: num(limits, 'minY', lp), maxY: num(limits, 'maxY', lp)
+    },
+    atmosphere: {
+      visibilityKm: num(atmosphere, 'visibilityKm', ap, 0.001),
+      precipitation: oneOf(atmosphere, 'precipitation', ap, PRECIPITATION)
+    },
+    contourLevels,
+    slice: validateSlice(obj(p, 'slice', path), `${path}.slice`),
+    geo: {
+      enabled: bool(geo, 'enabled', gp),
+      latitude: num(geo, 'latitude', gp, -90, 90),
+      longitude: num(geo, 'longitude', gp, -180, 180),
+      heightAboveGround: num(geo, 'heightAboveGround', gp),
+      heading: num(geo, 'heading', gp, 0, 360)
+    },
+    terrain: {
+      enabled: bool(terrain, 'enabled', tp),
+      originEasting: num(terrain, 'originEasting', tp),
+      originNorthing: num(terrain, 'originNorthing', tp)
+    },
+    horizon: {
+      enabled: bool(horizon, 'enabled', hp),
+      observerHeight: num(horizon, 'observerHeight', hp, 0),
+      refractionK: num(horizon, 'refractionK', hp, -1, 0.9)
+    },
+    vision: {
+      mode: oneOf(vision, 'mode', vp, VISION_MODES),
+      adaptationLuminance: num(vision, 'adaptationLuminance', vp, 1e-6),
+      spRatio: num(vision, 'spRatio', vp, 0.1)
+    },
+    receptors: validateReceptors(p, path)
+  };
+};
+
+/**
+ * Migrates and validates untrusted project data. Unknown fields are dropped.
+ */
+export const validateProject = (raw: unknown): ProjectFile => {
+  const project = migrateProject(raw);
+  const targets = obj(project, 'optTargets', '$');
+  const view = obj(project, 'view', '$');
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: typeof project.savedAt === 'string' ? project.savedAt : new Date().toISOString(),
+    params: validateParams(obj(project, 'params', '$'), 'params'),
+    optTargets: validateTargets(targets, 'optTargets'),
+    view: {
+      autoScale: bool(view, 'autoScale', 'view'),
+      showCones: bool(view, 'showCones', 'view'),
+      showTarget: bool(view, 'showTarget', 'view'),
+      activeTab: oneOf(view, 'activeTab', 'view', TABS)
+    }
+  };
+};
+
+export const parseProject = (text: string): ProjectFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new ProjectValidationError('$', `invalid JSON (${err instanceof Error ? err.message : String(err)})`);
+  }
+  return validateProject(raw);
+};
+
+export const createProject = (state: ProjectState): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  ...state
+});
+
+export const serializeProject = (state: ProjectState): string => JSON.stringify(createProject(state), null, 2);
+
+// --- Share links: deflate-raw + base64url in the URL hash ---
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let bin = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const b64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const bin = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4));
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+};
+
+const pipeBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const out = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+};
+
+const hasCompression = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+/**
+ * Encodes a project for the URL hash. Prefix 'z' = deflate-raw, 'j' = plain JSON (no CompressionStream).
+ */
+export const encodeShareHash = async (state: ProjectState): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(createProject(state)));
+  const payload = hasCompression()
+    ? 'z' + toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')))
+    : 'j' + toBase64Url(json);
+  return `#${SHARE_HASH_KEY}=${payload}`;
+};
+
+/**
+ * Decodes a share hash. Returns null when the hash carries no project.
+ */
+export const decodeShareHash = async (hash: string): Promise<ProjectFile | null> => {
+  const payload = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_HASH_KEY);
+  if (!payload) return null;
+
+  const kind = payload[0];
+  let bytes = fromBase64Url(payload.slice(1));
+  if (kind === 'z') {
+    if (!hasCompression()) throw new ProjectValidationError('$', 'this browser cannot decompress share links');
+    bytes = await pipeBytes(bytes, new DecompressionStream('deflate-raw'));
+  } else if (kind !== 'j') {
+    throw new ProjectValidationError('$', 'unrecognised share link encoding');
+  }
+  return parseProject(new TextDecoder().decode(bytes));
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { BLONDEL_REY_CONSTANT } from '../constants';
+import { rateSweep } from './rotatingBeacon';
+
+// Every window tried, as the rating is defined
+const bruteForceBlondelRey = (light: number[], period: number) => {
+  const n = light.length;
+  const dt = period / n;
+  let best = 0;
+  for (let i = 0; i < n; i++) {
+    let integral = 0;
+    for (let j = i; j < i + n; j++) {
+      integral += light[j % n] * dt;
+      best = Math.max(best, integral / (BLONDEL_REY_CONSTANT + (j - i + 1) * dt));
+    }
+  }
+  return best;
+};
+
+// Deterministic pseudo-random curve: a few lobes over a dim floor
+const lobes = (n: number, seed: number) => {
+  let state = seed;
+  const rand = () => (state = (state * 16807) % 2147483647) / 2147483647;
+  const centres = Array.from({ length: 3 }, () => ({ at: rand() * n, width: 2 + rand() * n / 8, height: 10 + rand() * 990 }));
+  return Array.from({ length: n }, (_, k) => 0.5 * rand() + centres.reduce((sum, c) => {
+    const d = Math.min(Math.abs(k - c.at), n - Math.abs(k - c.at));
+    return sum + c.height * Math.exp(-0.5 * (d / c.width) ** 2);
+  }, 0));
+};
+
+describe('rateSweep (Blondel-Rey)', () => {
+  it('finds the best window of every curve', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const light = lobes(240, seed);
+      for (const period of [0.5, 2, 10]) {
+        const { effective } = rateSweep(light, period, 'blondel-rey');
+        expect(effective).toBeCloseTo(bruteForceBlondelRey(light, period), 6);
+      }
+    }
+  });
+
+  it('rates a steady light at its peak', () => {
+    expect(rateSweep(new Array(360).fill(50), 4, 'blondel-rey')).toEqual({ peak: 50, effective: 50, pulse: 4 });
+  });
+
+  it('rates a short rectangular flash by Blondel-Rey', () => {
+    const light = Array.from({ length: 1000 }, (_, k) => (k < 10 ? 100 : 0));
+    // 0.1 s at 100 cd
+    expect(rateSweep(light, 10, 'blondel-rey').effective).toBeCloseTo(100 * 0.1 / (BLONDEL_REY_CONSTANT + 0.1), 9);
+  });
+});
@@ -0,0 +1,212 @@
+import { SourceModel, SweepTable, Point3D, RotationSettings, MountingSettings, EffectiveIntensityMethod } from '../types';
+import { BLONDEL_REY_CONSTANT, SWEEP_ELEVATION_STEP, SWEEP_SAMPLES } from '../constants';
+import { evaluateSource, FAR_FIELD_DISTANCE } from '../physics';
+import { createMountTransform } from './emitterLayout';
+
+const DEG = Math.PI / 180;
+
+// Share of the peak above which a sample counts as part of the flash
+const PULSE_FLOOR = 0.05;
+const ALLARD_MEMORY = 20; // s of eye response history, as for flash characters
+
+export interface SweepRating {
+  peak: number;
+  effective: number;
+  pulse: number; // s above half the peak
+}
+
+/**
+ * Rotation axis in the beacon frame: scene vertical, or the mounted fixture's up axis.
+ */
+export const getRotationAxis = (rotation: RotationSettings, mounting: MountingSettings): Point3D =>
+  rotation.axis === 'fixture' ? createMountTransform(mounting)({ x: 0, y: 0, z: 1 }) : { x: 0, y: 0, z: 1 };
+
+export const getRotationPeriod = (rpm: number) => 60 / Math.max(1e-3, rpm);
+
+// Completes the axis to a frame. Azimuth runs from b1 towards b2, i.e. clockwise seen from the axis tip.
+const sweepBasis = (axis: Point3D) => {
+  const ref = Math.abs(axis.y) < 0.99 ? { x: 0, y: 1, z: 0 } : { x: 1, y: 0, z: 0 };
+  const dot = ref.x * axis.x + ref.y * axis.y + ref.z * axis.z;
+  const bx = ref.x - dot * axis.x, by = ref.y - dot * axis.y, bz = ref.z - dot * axis.z;
+  const len = Math.hypot(bx, by, bz);
+  const b1 = { x: bx / len, y: by / len, z: bz / len };
+  const b2 = {
+    x: b1.y * axis.z - b1.z * axis.y,
+    y: b1.z * axis.x - b1.x * axis.z,
+    z: b1.x * axis.y - b1.y * axis.x
+  };
+  return { b1, b2 };
+};
+
+/**
+ * Far-field intensity of the standing array towards each azimuth of one elevation
+ * cone (SWEEP_SAMPLES steps, starting at the forward side of the axis).
+ */
+const sampleCone = (source: SourceModel, axis: Point3D, elevation: number): number[] => {
+  const clear: SourceModel = { ...source, extinction: 0, position: { x: 0, y: 0, z: 0 }, heading: 0, sweep: null };
+  const { b1, b2 } = sweepBasis(axis);
+  const d = FAR_FIELD_DISTANCE;
+  const ce = Math.cos(elevation), se = Math.sin(elevation);
+  const out: number[] = [];
+  for (let k = 0; k < SWEEP_SAMPLES; k++) {
+    const phi = (2 * Math.PI * k) / SWEEP_SAMPLES;
+    const c = Math.cos(phi) * ce, s = Math.sin(phi) * ce;
+    out.push(evaluateSource(clear,
+      d * (c * b1.x + s * b2.x + se * axis.x),
+      d * (c * b1.y + s * b2.y + se * axis.y),
+      d * (c * b1.z + s * b2.z + se * axis.z)) * d * d);
+  }
+  return out;
+};
+
+/**
+ * Light curve over one revolution for an observer on the forward side: the beam turns
+ * clockwise, so the observer sees the azimuths in decreasing order.
+ */
+export const getSweepProfile = (source: SourceModel, axis: Point3D, elevation: number): number[] => {
+  const cone = sampleCone(source, axis, elevation);
+  return cone.map((_, j) => cone[(SWEEP_SAMPLES - j) % SWEEP_SAMPLES]);
+};
+
+// IALA kernel q(t) = a / (a + t)^2 folded onto one revolution, plus the weight left for the mean
+const foldKernel = (n: number, dt: number) => {
+  const a = BLONDEL_REY_CONSTANT;
+  const taps = Math.ceil(Math.max(ALLARD_MEMORY, n * dt) / dt);
+  const folded = new Float64Array(n);
+  for (let j = 0; j < taps; j++) folded[j % n] += a / (a + j * dt) - a / (a + (j + 1) * dt);
+  return { folded, tail: a / (a + taps * dt) };
+};
+
+/**
+ * SWEPT PULSE RATING
+ * Peak, effective intensity and pulse length of a periodic light curve (one revolution):
+ * - Blondel-Rey: best ∫ I dt / (a + t2 - t1) over any window, i.e. the strongest flash
+ * - Schmidt-Clausen: ∫ I dt / (a + T) over the flash around the peak, down to PULSE_FLOOR
+ * - IALA: peak of the curve convolved with the modified Allard response
+ * A curve that never drops is a steady light and rates at its peak.
+ */
+export const rateSweep = (light: number[], period: number, method: EffectiveIntensityMethod, kernel = foldKernel(light.length, period / light.length)): SweepRating => {
+  const n = light.length;
+  const dt = period / n;
+  let peak = 0;
+  let low = Infinity;
+  let lowIndex = 0;
+  light.forEach((v, i) => {
+    peak = Math.max(peak, v);
+    if (v < low) { low = v; lowIndex = i; }
+  });
+  if (peak <= 0) return { peak: 0, effective: 0, pulse: 0 };
+  if (low >= peak * 0.999) return { peak, effective: peak, pulse: period };
+
+  // Start at the darkest sample so no flash is split by the wrap
+  const s = light.map((_, j) => light[(lowIndex + j) % n]);
+  const top = s.indexOf(peak);
+  const run = (floor: number) => {
+    let i = top, j = top;
+    while (i > 0 && s[i - 1] >= floor) i--;
+    while (j < n - 1 && s[j + 1] >= floor) j++;
+    return { i, j };
+  };
+  const half = run(peak / 2);
+  const pulse = (half.j - half.i + 1) * dt;
+
+  const a = BLONDEL_REY_CONSTANT;
+  let effective = 0;
+  if (method === 'blondel-rey') {
+    // Dinkelbach: the window with the largest ∫ (I - E) dt rates above E unless E is already the best.
+    // Each guess is one linear max-subarray scan, and the guesses climb to the optimum in a few steps.
+    effective = peak * dt / (a + dt);
+    for (let iter = 0; iter < 64; iter++) {
+      let sum = 0, len = 0, bestSum = -Infinity, bestLen = 1;
+      for (let k = 0; k < n; k++) {
+        const gain = (s[k] - effective) * dt;
+        if (sum <= 0) { sum = 0; len = 0; }
+        sum += gain;
+        len++;
+        if (sum > bestSum) { bestSum = sum; bestLen = len; }
+      }
+      // Back from the excess over E to the window's own rating
+      const rating = (bestSum + effective * bestLen * dt) / (a + bestLen * dt);
+      if (rating <= effective * (1 + 1e-12)) break;
+      effective = rating;
+    }
+  } else if (method === 'schmidt-clausen') {
+    const flash = run(peak * PULSE_FLOOR);
+    let integral = 0;
+    for (let k = flash.i; k <= flash.j; k++) integral += s[k] * dt;
+    effective = integral / (a + (flash.j - flash.i + 1) * dt);
+  } else {
+    const mean = s.reduce((sum, v) => sum + v, 0) / n;
+    for (let k = 0; k < n; k++) {
+      if (s[k] < peak * PULSE_FLOOR) continue; // The response peaks while the flash is still on
+      let response = kernel.tail * mean;
+      for (let m = 0; m < n; m++) response += s[(k - m + n) % n] * kernel.folded[m];
+      effective = Math.max(effective, response);
+    }
+  }
+  return { peak, effective: Math.min(peak, effective), pulse };
+};
+
+/**
+ * ROTATING BEACON TABLE
+ * Rates the swept pulse for every elevation above the plane of rotation. The array acts as a
+ * point at the beacon origin (far field); azimuth only shifts the phase of the pulse.
+ */
+export const buildSweepTable = (source: SourceModel, axis: Point3D, rpm: number, method: EffectiveIntensityMethod): SweepTable => {
+  const period = getRotationPeriod(rpm);
+  const kernel = foldKernel(SWEEP_SAMPLES, period / SWEEP_SAMPLES);
+  const count = Math.round(180 / SWEEP_ELEVATION_STEP) + 1;
+  const table: SweepTable = { axis, period, step: SWEEP_ELEVATION_STEP * DEG, peak: [], effective: [], pulse: [] };
+  for (let k = 0; k < count; k++) {
+    const rating = rateSweep(getSweepProfile(source, axis, (-90 + k * SWEEP_ELEVATION_STEP) * DEG), period, method, kernel);
+    table.peak.push(rating.peak);
+    table.effective.push(rating.effective);
+    table.pulse.push(rating.pulse);
+  }
+  return table;
+};
+
+/**
+ * Elevation (rad) at which the beam sweeps past brightest, nearest the plane of rotation on a tie.
+ */
+export const getMainElevation = (table: SweepTable): number => {
+  const elevation = (k: number) => k * table.step - Math.PI / 2;
+  let best = 0;
+  table.peak.forEach((p, k) => {
+    const top = table.peak[best];
+    if (p > top * (1 + 1e-9) || (p >= top * (1 - 1e-9) && Math.abs(elevation(k)) < Math.abs(elevation(best)))) best = k;
+  });
+  return elevation(best);
+};
+
+/**
+ * A unit of work for the sweep worker: one rotating beacon's table, rated at unit intensity.
+ * Intensity and spectral weight only scale the table, so dimming the beam reuses it.
+ */
+export interface SweepJob {
+  source: SourceModel;
+  axis: Point3D;
+  rpm: number;
+  method: EffectiveIntensityMethod;
+}
+
+export const createSweepJob = (source: SourceModel, axis: Point3D, rpm: number, method: EffectiveIntensityMethod): SweepJob => ({
+  source: { ...source, peakIntensity: 1, spectralFactor: 1, extinction: 0, position: { x: 0, y: 0, z: 0 }, heading: 0, sweep: null },
+  axis,
+  rpm,
+  method
+});
+
+// Cache key: everything the table depends on
+export const getSweepKey = (job: SweepJob): string =>
+  JSON.stringify([job.source.leds, job.source.beamPattern, job.axis, job.rpm, job.method]);
+
+export const runSweepJob = (job: SweepJob): SweepTable => buildSweepTable(job.source, job.axis, job.rpm, job.method);
+
+/**
+ * A unit-intensity table brought to the source's peak intensity and spectral weight.
+ */
+export const scaleSweepTable = (table: SweepTable, source: SourceModel): SweepTable => {
+  const f = source.peakIntensity * source.spectralFactor;
+  return { ...table, peak: table.peak.map(v => v * f), effective: table.effective.map(v => v * f) };
+};
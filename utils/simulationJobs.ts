@@ -0,0 +1,182 @@
+import { FieldModel, GridData, HorizonModel, OccluderModel, Point, Point3D, Receptor, SamplePlane } from '../types';
+import { evaluateSource, isBelowHorizon, getSurfaceZ } from '../physics';
+import { NO_SOURCE } from '../constants';
+import { marchSquares } from './marchSquares';
+import { isOccluded } from './occlusion';
+import { checkReceptors, ReceptorResult, ReceptorSource } from './obtrusiveLight';
+
+/**
+ * A unit of work for the simulation workers: sample one plane and contour it.
+ */
+export interface PlaneJob {
+  model: FieldModel;
+  plane: SamplePlane;
+  width: number;
+  height: number;
+  levels: number[];      // Thresholds to contour at
+  includeGrid: boolean;  // false for 3D slices, where only the contours are needed
+}
+
+/**
+ * Contours flattened into typed arrays so they can be transferred without copying.
+ * coords = [a0, b0, a1, b1, ...], lengths = vertex count of each path.
+ */
+export interface PackedPaths {
+  coords: Float32Array;
+  lengths: Uint32Array;
+}
+
+export interface PlaneJobResult {
+  grid: GridData | null;
+  contours: PackedPaths[]; // One entry per requested level
+}
+
+/**
+ * A unit of work for the receptor worker: the obtrusive-light check of every receptor.
+ */
+export interface ReceptorJob {
+  receptors: Receptor[];
+  sources: ReceptorSource[];
+  occluders: OccluderModel | null;
+}
+
+export const ORIGIN: Point3D = { x: 0, y: 0, z: 0 };
+export const AXIS_X: Point3D = { x: 1, y: 0, z: 0 };
+export const AXIS_Y: Point3D = { x: 0, y: 1, z: 0 };
+export const AXIS_Z: Point3D = { x: 0, y: 0, z: 1 };
+
+/**
+ * Maps plane coordinates (a, b) to a world position.
+ */
+export const planeToWorld = (plane: SamplePlane, a: number, b: number): Point3D => ({
+  x: plane.origin.x + a * plane.u.x + b * plane.v.x,
+  y: plane.origin.y + a * plane.u.y + b * plane.v.y,
+  z: plane.origin.z + a * plane.u.z + b * plane.v.z
+});
+
+export interface PointSample {
+  total: number;    // Summed illuminance of the beacons in line of sight
+  dominant: number; // Index of the beacon contributing most (NO_SOURCE where unlit)
+  blocked: boolean; // Some beacon was hidden by the horizon or terrain
+}
+
+/**
+ * The curved surface as seen from each beacon (its height above the surface grows with its z).
+ */
+export const getSourceHorizons = (model: FieldModel): (HorizonModel | null)[] =>
+  model.sources.map(s => model.horizon && { ...model.horizon, sourceHeight: model.horizon.sourceHeight + s.position.z });
+
+/**
+ * Field at one world point. Each beacon only counts where it has line of sight
+ * (above its horizon, clear of terrain).
+ */
+export const samplePoint = (model: FieldModel, horizons: (HorizonModel | null)[], p: Point3D): PointSample => {
+  const { sources, occluders: occ } = model;
+  let total = 0;
+  let best = 0;
+  let dominant = NO_SOURCE;
+  let blocked = false;
+  for (let k = 0; k < sources.length; k++) {
+    const { x: sx, y: sy, z: sz } = sources[k].position;
+    const h = horizons[k];
+    if (h && isBelowHorizon(h, p.x - sx, p.y - sy, p.z - sz)) {
+      blocked = true;
+      continue;
+    }
+    const value = evaluateSource(sources[k], p.x, p.y, p.z);
+    if (value <= 0) continue;
+    // Only lit points need the (comparatively expensive) ray march
+    if (occ && isOccluded(occ, p.x, p.y, p.z, sx, sy, sz)) {
+      blocked = true;
+      continue;
+    }
+    total += value;
+    if (value > best) {
+      best = value;
+      dominant = k;
+    }
+  }
+  return { total, dominant, blocked };
+};
+
+/**
+ * Evaluates the field over a regular width x height lattice on the plane.
+ * Points that no beacon reaches for lack of line of sight are zeroed and flagged in `occluded`.
+ * Scenes also record which beacon contributes most in `dominant`.
+ */
+export const samplePlane = (model: FieldModel, plane: SamplePlane, width: number, height: number): GridData => {
+  const { minX, maxX, minY, maxY } = plane.limits;
+  const data = new Float32Array(width * height);
+  const { sources, occluders: occ, horizon } = model;
+  const occluded = occ || horizon ? new Uint8Array(width * height) : undefined;
+  const dominant = sources.length > 1 ? new Uint8Array(width * height).fill(NO_SOURCE) : undefined;
+  const followSurface = horizon && plane.surfaceHeight !== undefined;
+  const horizons = getSourceHorizons(model);
+  const da = (maxX - minX) / (width - 1);
+  const db = (maxY - minY) / (height - 1);
+
+  for (let gy = 0; gy < height; gy++) {
+    const b = minY + gy * db;
+    for (let gx = 0; gx < width; gx++) {
+      const a = minX + gx * da;
+      const p = planeToWorld(plane, a, b);
+      if (followSurface) p.z = getSurfaceZ(horizon, Math.hypot(p.x, p.y)) + (plane.surfaceHeight as number);
+      const i = gy * width + gx;
+
+      const sample = samplePoint(model, horizons, p);
+      data[i] = sample.total;
+      if (dominant) dominant[i] = sample.dominant;
+      if (occluded && sample.blocked && sample.total === 0) occluded[i] = 1;
+    }
+  }
+  return { data, occluded, dominant, width, height, minX, maxX, minY, maxY };
+};
+
+export const packPaths = (paths: Point[][]): PackedPaths => {
+  const total = paths.reduce((n, p) => n + p.length, 0);
+  const coords = new Float32Array(total * 2);
+  const lengths = new Uint32Array(paths.length);
+  let o = 0;
+  paths.forEach((path, i) => {
+    lengths[i] = path.length;
+    for (const p of path) {
+      coords[o++] = p.x;
+      coords[o++] = p.y;
+    }
+  });
+  return { coords, lengths };
+};
+
+export const unpackPaths = ({ coords, lengths }: PackedPaths): Point[][] => {
+  const paths: Point[][] = [];
+  let o = 0;
+  for (let i = 0; i < lengths.length; i++) {
+    const path: Point[] = [];
+    for (let k = 0; k < lengths[i]; k++) {
+      path.push({ x: coords[o], y: coords[o + 1] });
+      o += 2;
+    }
+    paths.push(path);
+  }
+  return paths;
+};
+
+/**
+ * Buffers to hand over with postMessage instead of copying.
+ */
+export const getResultTransferables = (result: PlaneJobResult): Transferable[] => {
+  const list: Transferable[] = [];
+  if (result.grid) list.push(result.grid.data.buffer);
+  if (result.grid?.occluded) list.push(result.grid.occluded.buffer);
+  if (result.grid?.dominant) list.push(result.grid.dominant.buffer);
+  for (const c of result.contours) list.push(c.coords.buffer, c.lengths.buffer);
+  return list;
+};
+
+export const runPlaneJob = (job: PlaneJob): PlaneJobResult => {
+  const grid = samplePlane(job.model, job.plane, job.width, job.height);
+  const contours = job.levels.map(level => packPaths(marchSquares(grid, level)));
+  return { grid: job.includeGrid ? grid : null, contours };
+};
+
+export const runReceptorJob = (job: ReceptorJob): ReceptorResult[] => checkReceptors(job.receptors, job.sources, job.occluders);
@@ -0,0 +1,111 @@
+import { GridLimits, Point3D, SamplePlane, SliceSettings } from '../types';
+import { AXIS_X, AXIS_Y, AXIS_Z } from './simulationJobs';
+
+const DEG = Math.PI / 180;
+
+// Planes closer than this to level (|n.z| above cos 45°) are drawn like the plan view
+const LEVEL_NORMAL_Z = Math.SQRT1_2;
+
+export interface SliceView {
+  plane: SamplePlane;
+  viewType: 'top' | 'side';          // How the heatmap lays the plane out
+  labels: { x: string; y: string };  // Screen axis titles
+  title: string;
+}
+
+const dot = (a: Point3D, b: Point3D) => a.x * b.x + a.y * b.y + a.z * b.z;
+
+const cross = (a: Point3D, b: Point3D): Point3D => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x
+});
+
+const normalize = (p: Point3D): Point3D => {
+  const len = Math.hypot(p.x, p.y, p.z);
+  return { x: p.x / len, y: p.y / len, z: p.z / len };
+};
+
+/**
+ * In-plane axes for a custom normal. Near-level planes keep u towards +X and v towards +Y,
+ * like the plan view; steeper ones keep v level (distance) and u up the slope (height),
+ * like the side view, with v turned to face forward (+Y, else +X).
+ */
+export const getSliceBasis = (normal: Point3D): { u: Point3D; v: Point3D; level: boolean } => {
+  let n = normalize(normal);
+  if (Math.abs(n.z) > LEVEL_NORMAL_Z) {
+    if (n.z < 0) n = { x: -n.x, y: -n.y, z: -n.z };
+    const u = normalize({ x: 1 - n.x * n.x, y: -n.x * n.y, z: -n.x * n.z });
+    return { u, v: cross(n, u), level: true };
+  }
+  let v = normalize(cross(AXIS_Z, n));
+  if (v.y < -1e-9 || (Math.abs(v.y) <= 1e-9 && v.x < 0)) {
+    v = { x: -v.x, y: -v.y, z: -v.z };
+    n = { x: -n.x, y: -n.y, z: -n.z };
+  }
+  return { u: cross(n, v), v, level: false };
+};
+
+/**
+ * SLICE PLANE
+ * The sampling plane of a user slice. The presets cover the same area as the fixed views
+ * (the horizontal one like the plan, the vertical one like the elevation turned to its bearing);
+ * a custom plane samples a square of +-extent around its origin.
+ */
+export const getSliceView = (slice: SliceSettings, limits: GridLimits): SliceView => {
+  if (slice.mode === 'horizontal') {
+    return {
+      plane: { origin: { x: 0, y: 0, z: slice.height }, u: AXIS_X, v: AXIS_Y, limits },
+      viewType: 'top',
+      labels: { x: 'LATERAL (X)', y: 'DISTANCE (Y)' },
+      title: `SLICE · HORIZONTAL @ ${slice.height} m`
+    };
+  }
+  if (slice.mode === 'vertical') {
+    const along = { x: Math.sin(slice.bearing * DEG), y: Math.cos(slice.bearing * DEG), z: 0 };
+    return {
+      plane: { origin: { x: 0, y: 0, z: 0 }, u: AXIS_Z, v: along, limits },
+      viewType: 'side',
+      labels: { x: `DISTANCE (${slice.bearing}°)`, y: 'HEIGHT (Z)' },
+      title: `SLICE · VERTICAL @ ${slice.bearing}°`
+    };
+  }
+  const { u, v, level } = getSliceBasis(slice.normal);
+  const e = slice.extent;
+  const n = normalize(slice.normal);
+  return {
+    plane: { origin: slice.origin, u, v, limits: { minX: -e, maxX: e, minY: -e, maxY: e } },
+    viewType: level ? 'top' : 'side',
+    labels: level ? { x: 'ACROSS (U)', y: 'ALONG (V)' } : { x: 'ALONG (V)', y: 'UP-SLOPE (U)' },
+    title: `SLICE · CUSTOM (N ${n.x.toFixed(2)}, ${n.y.toFixed(2)}, ${n.z.toFixed(2)})`
+  };
+};
+
+/**
+ * Centre of the sampled area, and the plane normal (u x v), in world space.
+ */
+export const getSlicePose = (plane: SamplePlane): { centre: Point3D; normal: Point3D } => {
+  const { origin, u, v, limits } = plane;
+  const a = (limits.minX + limits.maxX) / 2;
+  const b = (limits.minY + limits.maxY) / 2;
+  return {
+    centre: { x: origin.x + a * u.x + b * v.x, y: origin.y + a * u.y + b * v.y, z: origin.z + a * u.z + b * v.z },
+    normal: normalize(cross(u, v))
+  };
+};
+
+const roundPoint = (p: Point3D, decimals: number): Point3D => {
+  const f = 10 ** decimals;
+  return { x: Math.round(p.x * f) / f, y: Math.round(p.y * f) / f, z: Math.round(p.z * f) / f };
+};
+
+/**
+ * Custom slice through a given centre and normal, keeping the extent of the plane it replaces.
+ * Rounded (0.1 m, 0.001) so a dragged pose stays readable in the number fields.
+ */
+export const toCustomSlice = (slice: SliceSettings, plane: SamplePlane, centre: Point3D, normal: Point3D): SliceSettings => {
+  const { minX, maxX, minY, maxY } = plane.limits;
+  const extent = slice.mode === 'custom' ? slice.extent : Math.max(maxX - minX, maxY - minY) / 2;
+  const n = dot(normal, normal) > 0 ? roundPoint(normalize(normal), 3) : slice.normal;
+  return { ...slice, mode: 'custom', origin: roundPoint(centre, 1), normal: dot(n, n) > 0 ? n : slice.normal, extent };
+};
@@ -0,0 +1,263 @@
+/**
+ * MINIMAL READ-ONLY SQLITE READER
+ * Just enough of the SQLite file format to scan rowid tables from a Blob without
+ * loading it into memory: database header, table b-tree pages, overflow chains and
+ * the record format. Index b-trees, WITHOUT ROWID tables and WAL files are not supported.
+ * Format reference: https://www.sqlite.org/fileformat2.html
+ */
+
+export type SqlValue = number | string | Uint8Array | null;
+
+export class SqliteFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SqliteFormatError';
+  }
+}
+
+export interface SqliteColumn {
+  name: string;
+  isRowidAlias: boolean; // INTEGER PRIMARY KEY columns are stored as NULL and read from the rowid
+}
+
+export interface SqliteTable {
+  name: string;
+  type: 'table' | 'view';
+  rootPage: number;
+  columns: SqliteColumn[];
+}
+
+/**
+ * Location of one row; values are decoded on demand so large blobs are only read when needed.
+ */
+export interface RowRef {
+  rowid: number;
+  page: number;
+  cell: number; // Byte offset of the cell in its page
+}
+
+const HEADER_MAGIC = 'SQLite format 3\u0000';
+const PAGE_CACHE_SIZE = 512;
+
+const u16 = (b: Uint8Array, o: number) => (b[o] << 8) | b[o + 1];
+const u32 = (b: Uint8Array, o: number) => ((b[o] << 24) >>> 0) + (b[o + 1] << 16) + (b[o + 2] << 8) + b[o + 3];
+
+// Big-endian varint, 1-9 bytes. Returns [value, length].
+const varint = (b: Uint8Array, o: number): [number, number] => {
+  let v = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = b[o + i];
+    v = v * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) return [v, i + 1];
+  }
+  return [v * 256 + b[o + 8], 9];
+};
+
+const serialSize = (t: number): number => {
+  if (t >= 12) return t % 2 === 0 ? (t - 12) / 2 : (t - 13) / 2;
+  return [0, 1, 2, 3, 4, 6, 8, 8, 0, 0, 0, 0][t];
+};
+
+const decodeValue = (t: number, b: Uint8Array, o: number): SqlValue => {
+  switch (t) {
+    case 0: return null;
+    case 8: return 0;
+    case 9: return 1;
+    case 7: return new DataView(b.buffer, b.byteOffset + o, 8).getFloat64(0);
+    case 1: case 2: case 3: case 4: case 5: case 6: {
+      // Big-endian two's complement
+      const n = serialSize(t);
+      let v = 0;
+      for (let i = 0; i < n; i++) v = v * 256 + b[o + i];
+      return b[o] & 0x80 ? v - Math.pow(2, 8 * n) : v;
+    }
+    default:
+      if (t >= 12 && t % 2 === 0) return b.slice(o, o + serialSize(t));
+      if (t >= 13) return new TextDecoder().decode(b.subarray(o, o + serialSize(t)));
+      throw new SqliteFormatError(`invalid serial type ${t}`);
+  }
+};
+
+/**
+ * Splits a CREATE TABLE statement into column definitions.
+ */
+const parseColumns = (sql: string | null): SqliteColumn[] => {
+  if (!sql) return [];
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const defs: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of body) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      defs.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  defs.push(current);
+
+  return defs
+    .map(d => d.trim())
+    .filter(d => d && !/^(PRIMARY|UNIQUE|CHECK|FOREIGN|CONSTRAINT)\b/i.test(d))
+    .map(d => ({
+      name: d.split(/\s+/)[0].replace(/^["`[]|["`\]]$/g, ''),
+      isRowidAlias: /^\S+\s+INTEGER\s+PRIMARY\s+KEY/i.test(d)
+    }));
+};
+
+export const openSqlite = async (blob: Blob) => {
+  const readBytes = async (offset: number, length: number) =>
+    new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer());
+
+  const header = await readBytes(0, 100);
+  if (new TextDecoder().decode(header.subarray(0, 16)) !== HEADER_MAGIC) {
+    throw new SqliteFormatError('not an SQLite 3 database');
+  }
+  const rawPageSize = u16(header, 16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const usable = pageSize - header[20];
+  if (u32(header, 56) > 1) {
+    throw new SqliteFormatError('only UTF-8 databases are supported');
+  }
+
+  const cache = new Map<number, Uint8Array>();
+  const readPage = async (n: number): Promise<Uint8Array> => {
+    const hit = cache.get(n);
+    if (hit) return hit;
+    const page = await readBytes((n - 1) * pageSize, pageSize);
+    if (page.length < pageSize) throw new SqliteFormatError(`page ${n} lies beyond the end of the file`);
+    if (cache.size >= PAGE_CACHE_SIZE) cache.delete(cache.keys().next().value as number);
+    cache.set(n, page);
+    return page;
+  };
+
+  // Bytes of a table-leaf payload of size p stored on the leaf page itself
+  const localSize = (p: number) => {
+    const x = usable - 35;
+    if (p <= x) return p;
+    const m = Math.floor(((usable - 12) * 32) / 255) - 23;
+    const k = m + ((p - m) % (usable - 4));
+    return k <= x ? k : m;
+  };
+
+  /**
+   * Visits every row of a table b-tree in rowid order.
+   */
+  const scan = async (rootPage: number, visit: (ref: RowRef) => void | Promise<void>) => {
+    const walk = async (pageNo: number, depth: number): Promise<void> => {
+      if (depth > 64) throw new SqliteFormatError('b-tree too deep (corrupt file?)');
+      const page = await readPage(pageNo);
+      const h = pageNo === 1 ? 100 : 0;
+      const type = page[h];
+      const nCells = u16(page, h + 3);
+      if (type === 0x05) {
+        for (let i = 0; i < nCells; i++) await walk(u32(page, u16(page, h + 12 + 2 * i)), depth + 1);
+        await walk(u32(page, h + 8), depth + 1);
+      } else if (type === 0x0d) {
+        for (let i = 0; i < nCells; i++) {
+          const cell = u16(page, h + 8 + 2 * i);
+          const [, n1] = varint(page, cell);
+          const [rowid] = varint(page, cell + n1);
+          await visit({ rowid, page: pageNo, cell });
+        }
+      } else {
+        throw new SqliteFormatError(`page ${pageNo} is not a table b-tree page (type ${type}); WITHOUT ROWID tables are not supported`);
+      }
+    };
+    await walk(rootPage, 0);
+  };
+
+  /**
+   * Decodes the requested column indices of a row. Overflow pages are followed only as far as needed.
+   */
+  const readRow = async (ref: RowRef, columns: number[]): Promise<SqlValue[]> => {
+    const page = await readPage(ref.page);
+    const [total, n1] = varint(page, ref.cell);
+    const [, n2] = varint(page, ref.cell + n1);
+    const start = ref.cell + n1 + n2;
+    const local = localSize(total);
+
+    let payload = page.subarray(start, start + local);
+    let nextOverflow = local < total ? u32(page, start + local) : 0;
+    const ensure = async (length: number) => {
+      if (length <= payload.length) return;
+      const chunks = [payload];
+      let have = payload.length;
+      while (have < length && have < total) {
+        if (!nextOverflow) throw new SqliteFormatError('truncated overflow chain');
+        const ov = await readPage(nextOverflow);
+        nextOverflow = u32(ov, 0);
+        const take = Math.min(usable - 4, total - have);
+        chunks.push(ov.subarray(4, 4 + take));
+        have += take;
+      }
+      const merged = new Uint8Array(have);
+      let o = 0;
+      for (const c of chunks) {
+        merged.set(c, o);
+        o += c.length;
+      }
+      payload = merged;
+    };
+
+    await ensure(Math.min(total, 9));
+    const [headerSize] = varint(payload, 0);
+    await ensure(headerSize);
+    const types: number[] = [];
+    for (let o = varint(payload, 0)[1]; o < headerSize;) {
+      const [t, n] = varint(payload, o);
+      types.push(t);
+      o += n;
+    }
+
+    const offsets: number[] = [];
+    let o = headerSize;
+    for (const t of types) {
+      offsets.push(o);
+      o += serialSize(t);
+    }
+
+    const out: SqlValue[] = [];
+    for (const c of columns) {
+      if (c >= types.length) {
+        out.push(null);
+        continue;
+      }
+      await ensure(offsets[c] + serialSize(types[c]));
+      out.push(decodeValue(types[c], payload, offsets[c]));
+    }
+    return out;
+  };
+
+  const tables = new Map<string, SqliteTable>();
+  await scan(1, async ref => {
+    const [type, name, , rootPage, sql] = await readRow(ref, [0, 1, 2, 3, 4]);
+    if (type !== 'table' && type !== 'view') return;
+    tables.set(String(name), {
+      name: String(name),
+      type,
+      rootPage: Number(rootPage) || 0,
+      columns: parseColumns(typeof sql === 'string' ? sql : null)
+    });
+  });
+
+  /**
+   * Reads named columns of a row, resolving INTEGER PRIMARY KEY aliases to the rowid.
+   */
+  const readColumns = async (table: SqliteTable, ref: RowRef, names: string[]): Promise<SqlValue[]> => {
+    const idx = names.map(n => {
+      const i = table.columns.findIndex(c => c.name.toLowerCase() === n.toLowerCase());
+      if (i < 0) throw new SqliteFormatError(`table '${table.name}' has no column '${n}'`);
+      return i;
+    });
+    const values = await readRow(ref, idx);
+    return values.map((v, k) => table.columns[idx[k]].isRowidAlias && v === null ? ref.rowid : v);
+  };
+
+  return { pageSize, tables, scan, readColumns };
+};
+
+export type SqliteDatabase = Awaited<ReturnType<typeof openSqlite>>;
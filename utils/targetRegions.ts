@@ -0,0 +1,181 @@
+import { GeoReference, Point, Point3D, TargetRegion, TargetRegionKind, TargetRegionShape } from '../types';
+import { pointInPolygon } from './occlusion';
+import { polygonArea } from './contourStats';
+
+const DEG = Math.PI / 180;
+
+// Sector arcs are traced in steps of this many degrees
+const ARC_STEP_DEG = 5;
+
+// Optimizer samples per region: a plan lattice of about this many points at each of the heights
+const SAMPLES_PER_LEVEL = 48;
+const HEIGHT_LEVELS = 3;
+
+// Outline vertices turning more than this get a vertical edge in 3D and CAD (arc steps do not)
+const CORNER_TURN_DEG = 15;
+
+const wrapBearing = (deg: number) => ((deg % 360) + 360) % 360;
+
+/**
+ * Bearings the sector sweeps, clockwise from its first bearing; equal bearings mean all round.
+ */
+const getSectorSpan = (region: TargetRegion) => wrapBearing(region.bearingTo - region.bearingFrom) || 360;
+
+/**
+ * Sectors turned clockwise by deg; polygons stay as they are.
+ */
+export const turnSectorBearings = (regions: TargetRegion[], deg: number): TargetRegion[] => {
+  if (wrapBearing(deg) === 0) return regions;
+  return regions.map(r => r.shape === 'sector'
+    ? { ...r, bearingFrom: wrapBearing(r.bearingFrom + deg), bearingTo: wrapBearing(r.bearingTo + deg) }
+    : r);
+};
+
+/**
+ * Regions in the plan frame. A geo-referenced beacon's sectors are given in true bearings,
+ * which turn by its heading into bearings from the forward axis; polygons are already local.
+ */
+export const toBeaconBearings = (regions: TargetRegion[], geo: GeoReference): TargetRegion[] =>
+  geo.enabled ? turnSectorBearings(regions, -geo.heading) : regions;
+
+const atBearing = (bearing: number, range: number): Point => ({
+  x: Math.sin(bearing * DEG) * range,
+  y: Math.cos(bearing * DEG) * range
+});
+
+const traceArc = (from: number, span: number, range: number): Point[] => {
+  const steps = Math.max(1, Math.ceil(span / ARC_STEP_DEG));
+  return Array.from({ length: steps + 1 }, (_, i) => atBearing(from + (span * i) / steps, range));
+};
+
+/**
+ * Plan outline of a region as closed rings (even-odd): one, or two for a full annulus.
+ */
+export const getRegionRings = (region: TargetRegion): Point[][] => {
+  if (region.shape === 'polygon') return region.points.length >= 3 ? [region.points] : [];
+  const span = getSectorSpan(region);
+  const { bearingFrom, rangeMin, rangeMax } = region;
+  if (span >= 360) {
+    const outer = traceArc(0, 360, rangeMax).slice(0, -1);
+    return rangeMin > 0 ? [outer, traceArc(0, 360, rangeMin).slice(0, -1).reverse()] : [outer];
+  }
+  const outer = traceArc(bearingFrom, span, rangeMax);
+  const inner = rangeMin > 0 ? traceArc(bearingFrom, span, rangeMin).reverse() : [{ x: 0, y: 0 }];
+  return [[...outer, ...inner]];
+};
+
+/**
+ * Is the plan position inside the region's shape (any height)?
+ */
+export const isInRegionPlan = (region: TargetRegion, x: number, y: number): boolean => {
+  if (region.shape === 'polygon') return region.points.length >= 3 && pointInPolygon(region.points, x, y);
+  const r = Math.hypot(x, y);
+  if (r < region.rangeMin || r > region.rangeMax) return false;
+  return wrapBearing(Math.atan2(x, y) / DEG - region.bearingFrom) <= getSectorSpan(region);
+};
+
+export const isInRegion = (region: TargetRegion, p: Point3D): boolean =>
+  p.z >= region.zMin && p.z <= region.zMax && isInRegionPlan(region, p.x, p.y);
+
+export const getRegionArea = (region: TargetRegion): number => {
+  const [outer, ...holes] = getRegionRings(region);
+  if (!outer) return 0;
+  return holes.reduce((area, hole) => area - polygonArea(hole), polygonArea(outer));
+};
+
+/**
+ * OPTIMIZER SAMPLES
+ * An even plan lattice over the region at a few heights through its band. Narrow shapes
+ * get a finer lattice, so every region is represented.
+ */
+export const sampleRegion = (region: TargetRegion): Point3D[] => {
+  const rings = getRegionRings(region);
+  const area = getRegionArea(region);
+  if (rings.length === 0 || area <= 0) return [];
+  const all = rings.flat();
+  const minX = Math.min(...all.map(p => p.x));
+  const maxX = Math.max(...all.map(p => p.x));
+  const minY = Math.min(...all.map(p => p.y));
+  const maxY = Math.max(...all.map(p => p.y));
+
+  let spacing = Math.sqrt(area / SAMPLES_PER_LEVEL);
+  let plan: Point[] = [];
+  for (let attempt = 0; attempt < 4 && plan.length < SAMPLES_PER_LEVEL / 4; attempt++, spacing /= 2) {
+    plan = [];
+    for (let x = minX + spacing / 2; x < maxX; x += spacing) {
+      for (let y = minY + spacing / 2; y < maxY; y += spacing) {
+        if (isInRegionPlan(region, x, y)) plan.push({ x, y });
+      }
+    }
+  }
+
+  const levels = region.zMax > region.zMin ? HEIGHT_LEVELS : 1;
+  const heights = Array.from({ length: levels }, (_, i) => levels === 1 ? region.zMin : region.zMin + ((region.zMax - region.zMin) * i) / (levels - 1));
+  return heights.flatMap(z => plan.map(p => ({ x: p.x, y: p.y, z })));
+};
+
+/**
+ * Elevation section (the X = 0 plane): one rectangle per stretch of Y the region covers,
+ * in that view's plane coordinates (x = height, y = distance).
+ */
+export const getRegionSection = (region: TargetRegion): Point[][] => {
+  const crossings: number[] = [];
+  getRegionRings(region).forEach(ring => ring.forEach((a, i) => {
+    const b = ring[(i + 1) % ring.length];
+    if ((a.x > 0) !== (b.x > 0)) crossings.push(a.y + ((b.y - a.y) * (0 - a.x)) / (b.x - a.x));
+  }));
+  crossings.sort((a, b) => a - b);
+  const sections: Point[][] = [];
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    const [y0, y1] = [crossings[i], crossings[i + 1]];
+    sections.push([{ x: region.zMin, y: y0 }, { x: region.zMax, y: y0 }, { x: region.zMax, y: y1 }, { x: region.zMin, y: y1 }]);
+  }
+  return sections;
+};
+
+/**
+ * Wireframe of the region's prism: the outline at the bottom and top of its band,
+ * joined at the corners.
+ */
+export const getRegionEdges = (region: TargetRegion): [Point3D, Point3D][] => {
+  const edges: [Point3D, Point3D][] = [];
+  const at = (p: Point, z: number): Point3D => ({ x: p.x, y: p.y, z });
+  getRegionRings(region).forEach(ring => ring.forEach((p, i) => {
+    const next = ring[(i + 1) % ring.length];
+    const prev = ring[(i + ring.length - 1) % ring.length];
+    edges.push([at(p, region.zMin), at(next, region.zMin)]);
+    if (region.zMax > region.zMin) {
+      edges.push([at(p, region.zMax), at(next, region.zMax)]);
+      const turn = Math.abs(Math.atan2(next.y - p.y, next.x - p.x) - Math.atan2(p.y - prev.y, p.x - prev.x)) / DEG;
+      if (Math.min(turn, 360 - turn) > CORNER_TURN_DEG) edges.push([at(p, region.zMin), at(p, region.zMax)]);
+    }
+  }));
+  return edges;
+};
+
+// Where the region's name is drawn: the mean of its outer vertices
+export const getRegionLabelAnchor = (region: TargetRegion): Point | null => {
+  const [outer] = getRegionRings(region);
+  if (!outer) return null;
+  return {
+    x: outer.reduce((s, p) => s + p.x, 0) / outer.length,
+    y: outer.reduce((s, p) => s + p.y, 0) / outer.length
+  };
+};
+
+/**
+ * New region with usable defaults: a sector ahead of the source, or the given polygon.
+ */
+export const createTargetRegion = (kind: TargetRegionKind, shape: TargetRegionShape, count: number, points: Point[] = []): TargetRegion => ({
+  id: `region-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: `${kind === 'include' ? 'Target' : 'Exclusion'} ${count + 1}`,
+  kind,
+  shape,
+  bearingFrom: 315,
+  bearingTo: 45,
+  rangeMin: 0,
+  rangeMax: 2000,
+  points,
+  zMin: 0,
+  zMax: kind === 'include' ? 100 : 10
+});
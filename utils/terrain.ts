@@ -0,0 +1,200 @@
+import { ElevationModel, TerrainGrid, TerrainSettings, GeoReference, BuildingFootprint, BuildingPrism, OccluderModel } from '../types';
+import { TERRAIN_MAX_DIM, DEFAULT_BUILDING_HEIGHT } from '../constants';
+import { enuToGeodetic, geodeticToEnu, enuToLocal } from './geo';
+import { sampleTerrain } from './occlusion';
+
+const METRES_PER_DEGREE = 111320;
+
+// Geographic data needs a geo-referenced beacon; everything else is offset by the beacon's easting/northing
+const toEnu = (crs: 'geographic' | 'projected', geo: GeoReference, settings: TerrainSettings, x: number, y: number) => {
+  if (crs === 'geographic') {
+    const { e, n } = geodeticToEnu(geo.latitude, geo.longitude, 0, y, x, 0);
+    return { e, n };
+  }
+  return { e: x - settings.originEasting, n: y - settings.originNorthing };
+};
+
+const looksGeographic = (west: number, north: number, cell: number) =>
+  cell < 0.1 && Math.abs(west) <= 180 && Math.abs(north) <= 90;
+
+/**
+ * ESRI ASCII GRID (.asc)
+ * Header keys ncols, nrows, xllcorner|xllcenter, yllcorner|yllcenter, cellsize (or dx/dy), NODATA_value,
+ * followed by rows from north to south.
+ */
+export const parseASCIIGrid = (text: string, name: string): ElevationModel => {
+  const tokens = text.trim().split(/\s+/);
+  const header: Record<string, number> = {};
+  let i = 0;
+  while (i + 1 < tokens.length && /^[a-z_]+$/i.test(tokens[i])) {
+    header[tokens[i].toLowerCase()] = Number(tokens[i + 1]);
+    i += 2;
+  }
+
+  const cols = header.ncols;
+  const rows = header.nrows;
+  const cellX = header.cellsize ?? header.dx;
+  const cellY = header.cellsize ?? header.dy;
+  if (!(cols > 0) || !(rows > 0) || !(cellX > 0) || !(cellY > 0)) {
+    throw new Error('ASCII grid header needs ncols, nrows and cellsize');
+  }
+  const isCenter = header.xllcenter !== undefined;
+  const xll = header.xllcorner ?? header.xllcenter;
+  const yll = header.yllcorner ?? header.yllcenter;
+  if (!Number.isFinite(xll) || !Number.isFinite(yll)) throw new Error('ASCII grid header needs xllcorner/yllcorner');
+
+  const values = new Float32Array(cols * rows);
+  if (tokens.length - i < values.length) {
+    throw new Error(`ASCII grid has ${tokens.length - i} values, expected ${values.length}`);
+  }
+  const nodata = header.nodata_value;
+  for (let k = 0; k < values.length; k++) {
+    const v = Number(tokens[i + k]);
+    values[k] = v === nodata || !Number.isFinite(v) ? NaN : v;
+  }
+
+  const west = isCenter ? xll - cellX / 2 : xll;
+  const north = (isCenter ? yll - cellY / 2 : yll) + rows * cellY;
+  return { name, cols, rows, values, west, north, cellX, cellY, crs: looksGeographic(west, north, cellX) ? 'geographic' : 'projected' };
+};
+
+/**
+ * Bilinear DEM value between cell centres. NaN outside the raster or next to missing data.
+ */
+const sampleElevation = (dem: ElevationModel, x: number, y: number): number => {
+  const fx = (x - dem.west) / dem.cellX - 0.5;
+  const fy = (dem.north - y) / dem.cellY - 0.5;
+  if (fx < 0 || fy < 0 || fx > dem.cols - 1 || fy > dem.rows - 1) return NaN;
+  const ix = Math.min(Math.floor(fx), Math.max(0, dem.cols - 2));
+  const iy = Math.min(Math.floor(fy), Math.max(0, dem.rows - 2));
+  const tx = fx - ix;
+  const ty = fy - iy;
+  const v = dem.values;
+  const at = (c: number, r: number) => v[Math.min(r, dem.rows - 1) * dem.cols + Math.min(c, dem.cols - 1)];
+  const a = at(ix, iy) + (at(ix + 1, iy) - at(ix, iy)) * tx;
+  const b = at(ix, iy + 1) + (at(ix + 1, iy + 1) - at(ix, iy + 1)) * tx;
+  return a + (b - a) * ty;
+};
+
+/**
+ * TERRAIN RESAMPLING
+ * Projects the DEM onto an East/North grid around the beacon, no finer than the source
+ * and at most TERRAIN_MAX_DIM cells per side, so workers can ray-march it cheaply.
+ */
+export const buildTerrainGrid = (dem: ElevationModel, geo: GeoReference, settings: TerrainSettings): TerrainGrid => {
+  const east = dem.west + dem.cols * dem.cellX;
+  const south = dem.north - dem.rows * dem.cellY;
+  const corners = [[dem.west, dem.north], [east, dem.north], [dem.west, south], [east, south]]
+    .map(([x, y]) => toEnu(dem.crs, geo, settings, x, y));
+  const minE = Math.min(...corners.map(c => c.e));
+  const maxE = Math.max(...corners.map(c => c.e));
+  const minN = Math.min(...corners.map(c => c.n));
+  const maxN = Math.max(...corners.map(c => c.n));
+
+  const nativeCell = dem.crs === 'geographic'
+    ? Math.min(dem.cellX * METRES_PER_DEGREE * Math.cos((geo.latitude * Math.PI) / 180), dem.cellY * METRES_PER_DEGREE)
+    : Math.min(dem.cellX, dem.cellY);
+  const cell = Math.max(nativeCell, (maxE - minE) / (TERRAIN_MAX_DIM - 1), (maxN - minN) / (TERRAIN_MAX_DIM - 1));
+  const cols = Math.max(2, Math.floor((maxE - minE) / cell) + 1);
+  const rows = Math.max(2, Math.floor((maxN - minN) / cell) + 1);
+
+  const heights = new Float32Array(cols * rows);
+  for (let r = 0; r < rows; r++) {
+    const n = minN + r * cell;
+    for (let c = 0; c < cols; c++) {
+      const e = minE + c * cell;
+      if (dem.crs === 'geographic') {
+        const p = enuToGeodetic(geo.latitude, geo.longitude, 0, e, n, 0);
+        heights[r * cols + c] = sampleElevation(dem, p.longitude, p.latitude);
+      } else {
+        heights[r * cols + c] = sampleElevation(dem, e + settings.originEasting, n + settings.originNorthing);
+      }
+    }
+  }
+  return { heights, cols, rows, minE, minN, cellE: cell, cellN: cell };
+};
+
+const readHeight = (props: Record<string, unknown>): number => {
+  for (const key of ['height', 'HEIGHT', 'building:height', 'Height']) {
+    const v = parseFloat(String(props[key] ?? ''));
+    if (v > 0) return v;
+  }
+  const levels = parseFloat(String(props['building:levels'] ?? props.levels ?? ''));
+  return levels > 0 ? levels * 3 : DEFAULT_BUILDING_HEIGHT;
+};
+
+/**
+ * Extruded footprints from GeoJSON (Polygon / MultiPolygon outer rings).
+ * Height comes from height, building:height or building:levels (3 m each).
+ */
+export const parseBuildings = (text: string): BuildingFootprint[] => {
+  const json = JSON.parse(text);
+  const features: { geometry?: { type: string; coordinates: unknown }; properties?: Record<string, unknown> }[] =
+    json.type === 'FeatureCollection' ? json.features : json.type === 'Feature' ? [json] : [];
+
+  const footprints: BuildingFootprint[] = [];
+  for (const f of features) {
+    const g = f.geometry;
+    if (!g) continue;
+    const polygons = g.type === 'Polygon' ? [g.coordinates as number[][][]] : g.type === 'MultiPolygon' ? g.coordinates as number[][][][] : [];
+    const height = readHeight(f.properties ?? {});
+    for (const poly of polygons) {
+      const ring = (poly[0] ?? []).filter(p => Number.isFinite(p[0]) && Number.isFinite(p[1])).map(p => [p[0], p[1]] as [number, number]);
+      if (ring.length < 3) continue;
+      const crs = ring.some(([x, y]) => Math.abs(x) > 180 || Math.abs(y) > 90) ? 'projected' : 'geographic';
+      footprints.push({ ring, height, crs });
+    }
+  }
+  if (footprints.length === 0) throw new Error('no Polygon or MultiPolygon features found');
+  return footprints;
+};
+
+/**
+ * OCCLUDER MODEL
+ * Places footprints in the simulation frame on top of the terrain and fixes the
+ * emitter elevation (ground at the beacon + mounting height).
+ */
+export const buildOccluderModel = (
+  terrain: TerrainGrid | null,
+  footprints: BuildingFootprint[],
+  geo: GeoReference,
+  settings: TerrainSettings
+): OccluderModel => {
+  const groundAt = (e: number, n: number) => {
+    const h = terrain ? sampleTerrain(terrain, e, n) : NaN;
+    return Number.isFinite(h) ? h : 0;
+  };
+
+  const buildings: BuildingPrism[] = [];
+  for (const fp of footprints) {
+    if (fp.crs === 'geographic' && !geo.enabled) continue;
+    const enu = fp.ring.map(([x, y]) => toEnu(fp.crs, geo, settings, x, y));
+    const ce = enu.reduce((s, p) => s + p.e, 0) / enu.length;
+    const cn = enu.reduce((s, p) => s + p.n, 0) / enu.length;
+    const base = groundAt(ce, cn);
+    const footprint = enu.map(p => enuToLocal(geo.heading, p.e, p.n));
+    const xs = footprint.map(p => p.x);
+    const ys = footprint.map(p => p.y);
+    buildings.push({
+      footprint,
+      base,
+      top: base + fp.height,
+      minX: Math.min(...xs),
+      maxX: Math.max(...xs),
+      minY: Math.min(...ys),
+      maxY: Math.max(...ys)
+    });
+  }
+
+  return {
+    heading: geo.heading,
+    emitterElevation: groundAt(0, 0) + geo.heightAboveGround,
+    terrain,
+    buildings
+  };
+};
+
+/**
+ * Ground elevation under the beacon, or NaN when the DEM does not cover it.
+ */
+export const groundElevation = (terrain: TerrainGrid) => sampleTerrain(terrain, 0, 0);
@@ -0,0 +1,158 @@
+/**
+ * Message protocol shared by every pooled worker.
+ * Requests carry an id; the worker answers with the same id and either a result or an error.
+ */
+export interface WorkerRequest<TJob> {
+  id: number;
+  job: TJob;
+}
+
+export interface WorkerResponse<TResult> {
+  id: number;
+  result?: TResult;
+  error?: string;
+}
+
+export interface WorkerPool<TJob, TResult> {
+  /** Queues a job. Rejects with an AbortError if the signal fires before the result arrives. */
+  run: (job: TJob, signal?: AbortSignal) => Promise<TResult>;
+  destroy: () => void;
+}
+
+interface Task<TJob, TResult> {
+  id: number;
+  job: TJob;
+  signal?: AbortSignal;
+  resolve: (r: TResult) => void;
+  reject: (e: unknown) => void;
+  detach: () => void;
+}
+
+interface Slot<TJob, TResult> {
+  worker: Worker;
+  task: Task<TJob, TResult> | null;
+}
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+const abortError = () => new DOMException('Job cancelled', 'AbortError');
+
+/**
+ * Default pool size: leave one core for the UI thread.
+ */
+export const defaultPoolSize = (): number => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 4 : 4;
+  return Math.max(1, Math.min(8, cores - 1));
+};
+
+/**
+ * Fixed-size pool of workers fed from a FIFO queue.
+ *
+ * Cancellation is hard: a job whose signal aborts while running terminates its worker
+ * (the worker is busy in a synchronous loop and cannot be interrupted otherwise)
+ * and a fresh one takes its slot.
+ */
+export const createWorkerPool = <TJob, TResult>(
+  spawn: () => Worker,
+  size: number = defaultPoolSize(),
+  getTransferables: (job: TJob) => Transferable[] = () => []
+): WorkerPool<TJob, TResult> => {
+  let nextId = 1;
+  let destroyed = false;
+  const queue: Task<TJob, TResult>[] = [];
+  const slots: Slot<TJob, TResult>[] = [];
+
+  const finish = (slot: Slot<TJob, TResult>) => {
+    const task = slot.task;
+    slot.task = null;
+    task?.detach();
+    return task;
+  };
+
+  const attach = (slot: Slot<TJob, TResult>) => {
+    slot.worker.onmessage = (e: MessageEvent<WorkerResponse<TResult>>) => {
+      if (!slot.task || slot.task.id !== e.data.id) return;
+      const task = finish(slot)!;
+      if (e.data.error !== undefined) task.reject(new Error(e.data.error));
+      else task.resolve(e.data.result as TResult);
+      pump();
+    };
+    slot.worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      const task = finish(slot);
+      respawn(slot);
+      task?.reject(new Error(e.message || 'Worker crashed'));
+      pump();
+    };
+  };
+
+  const respawn = (slot: Slot<TJob, TResult>) => {
+    slot.worker.terminate();
+    slot.worker = spawn();
+    attach(slot);
+  };
+
+  const pump = () => {
+    if (destroyed) return;
+    for (const slot of slots) {
+      if (slot.task || queue.length === 0) continue;
+      const task = queue.shift()!;
+      slot.task = task;
+      const msg: WorkerRequest<TJob> = { id: task.id, job: task.job };
+      slot.worker.postMessage(msg, getTransferables(task.job));
+    }
+  };
+
+  for (let i = 0; i < size; i++) {
+    const slot: Slot<TJob, TResult> = { worker: spawn(), task: null };
+    attach(slot);
+    slots.push(slot);
+  }
+
+  const run = (job: TJob, signal?: AbortSignal): Promise<TResult> => {
+    if (destroyed) return Promise.reject(new Error('Worker pool destroyed'));
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    return new Promise<TResult>((resolve, reject) => {
+      const task: Task<TJob, TResult> = { id: nextId++, job, signal, resolve, reject, detach: () => {} };
+
+      if (signal) {
+        const onAbort = () => {
+          const qi = queue.indexOf(task);
+          if (qi >= 0) {
+            queue.splice(qi, 1);
+          } else {
+            const slot = slots.find(s => s.task === task);
+            if (!slot) return;
+            slot.task = null;
+            respawn(slot);
+          }
+          task.detach();
+          reject(abortError());
+          pump();
+        };
+        signal.addEventListener('abort', onAbort);
+        task.detach = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      queue.push(task);
+      pump();
+    });
+  };
+
+  const destroy = () => {
+    destroyed = true;
+    for (const slot of slots) {
+      const task = finish(slot);
+      slot.worker.terminate();
+      task?.reject(abortError());
+    }
+    for (const task of queue.splice(0)) {
+      task.detach();
+      task.reject(abortError());
+    }
+  };
+
+  return { run, destroy };
+};
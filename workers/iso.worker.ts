@@ -0,0 +1,18 @@
+import { IsoJob, IsoJobResult, runIsoJob, getIsoTransferables } from '../utils/isoSurface';
+import { WorkerRequest, WorkerResponse } from '../utils/workerPool';
+
+/**
+ * ISO-SURFACE WORKER
+ * Runs marching cubes over the sampled volume off the UI thread.
+ */
+self.onmessage = (e: MessageEvent<WorkerRequest<IsoJob>>) => {
+  const { id, job } = e.data;
+  try {
+    const result = runIsoJob(job);
+    const msg: WorkerResponse<IsoJobResult> = { id, result };
+    self.postMessage(msg, { transfer: getIsoTransferables(result) });
+  } catch (err) {
+    const msg: WorkerResponse<IsoJobResult> = { id, error: err instanceof Error ? err.message : String(err) };
+    self.postMessage(msg);
+  }
+};
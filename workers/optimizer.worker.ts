@@ -0,0 +1,31 @@
+import { createOptimizer, OptimizerProgress, OptimizerRequest } from '../utils/optimizer';
+
+/**
+ * OPTIMIZER WORKER
+ * Runs the NSGA-II search off the UI thread, posting the front after every generation.
+ */
+self.onmessage = (e: MessageEvent<OptimizerRequest>) => {
+  const { problem, options } = e.data;
+  try {
+    const optimizer = createOptimizer(problem, options);
+    while (!optimizer.done) {
+      optimizer.step();
+      const msg: OptimizerProgress = {
+        generation: optimizer.generation,
+        generations: options.generations,
+        front: optimizer.front(),
+        done: optimizer.done
+      };
+      self.postMessage(msg);
+    }
+  } catch (err) {
+    const msg: OptimizerProgress = {
+      generation: 0,
+      generations: options.generations,
+      front: [],
+      done: true,
+      error: err instanceof Error ? err.message : String(err)
+    };
+    self.postMessage(msg);
+  }
+};
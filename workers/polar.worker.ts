@@ -0,0 +1,17 @@
+import { PolarJob, PolarJobResult, runPolarJob } from '../utils/polarRange';
+import { WorkerRequest, WorkerResponse } from '../utils/workerPool';
+
+/**
+ * POLAR WORKER
+ * Ray-marches the range-vs-bearing diagram off the UI thread.
+ */
+self.onmessage = (e: MessageEvent<WorkerRequest<PolarJob>>) => {
+  const { id, job } = e.data;
+  try {
+    const msg: WorkerResponse<PolarJobResult> = { id, result: runPolarJob(job) };
+    self.postMessage(msg);
+  } catch (err) {
+    const msg: WorkerResponse<PolarJobResult> = { id, error: err instanceof Error ? err.message : String(err) };
+    self.postMessage(msg);
+  }
+};
@@ -0,0 +1,18 @@
+import { ReceptorJob, runReceptorJob } from '../utils/simulationJobs';
+import { ReceptorResult } from '../utils/obtrusiveLight';
+import { WorkerRequest, WorkerResponse } from '../utils/workerPool';
+
+/**
+ * RECEPTOR WORKER
+ * Runs the obtrusive-light check at the receptors off the UI thread.
+ */
+self.onmessage = (e: MessageEvent<WorkerRequest<ReceptorJob>>) => {
+  const { id, job } = e.data;
+  try {
+    const msg: WorkerResponse<ReceptorResult[]> = { id, result: runReceptorJob(job) };
+    self.postMessage(msg);
+  } catch (err) {
+    const msg: WorkerResponse<ReceptorResult[]> = { id, error: err instanceof Error ? err.message : String(err) };
+    self.postMessage(msg);
+  }
+};
@@ -0,0 +1,18 @@
+import { PlaneJob, PlaneJobResult, runPlaneJob, getResultTransferables } from '../utils/simulationJobs';
+import { WorkerRequest, WorkerResponse } from '../utils/workerPool';
+
+/**
+ * SIMULATION WORKER
+ * Samples one plane of the light field and contours it off the UI thread.
+ */
+self.onmessage = (e: MessageEvent<WorkerRequest<PlaneJob>>) => {
+  const { id, job } = e.data;
+  try {
+    const result = runPlaneJob(job);
+    const msg: WorkerResponse<PlaneJobResult> = { id, result };
+    self.postMessage(msg, { transfer: getResultTransferables(result) });
+  } catch (err) {
+    const msg: WorkerResponse<PlaneJobResult> = { id, error: err instanceof Error ? err.message : String(err) };
+    self.postMessage(msg);
+  }
+};
@@ -0,0 +1,18 @@
+import { SweepTable } from '../types';
+import { SweepJob, runSweepJob } from '../utils/rotatingBeacon';
+import { WorkerRequest, WorkerResponse } from '../utils/workerPool';
+
+/**
+ * SWEEP WORKER
+ * Rates a rotating beacon's swept pulse at every elevation off the UI thread.
+ */
+self.onmessage = (e: MessageEvent<WorkerRequest<SweepJob>>) => {
+  const { id, job } = e.data;
+  try {
+    const msg: WorkerResponse<SweepTable> = { id, result: runSweepJob(job) };
+    self.postMessage(msg);
+  } catch (err) {
+    const msg: WorkerResponse<SweepTable> = { id, error: err instanceof Error ? err.message : String(err) };
+    self.postMessage(msg);
+  }
+};